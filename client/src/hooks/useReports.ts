@@ -1,6 +1,7 @@
 import { api } from '@/lib/api';
-import { ReportRequest } from '@/types/api';
+import { ReportListItem, ReportNotFoundEventData, ReportRequest, ReportStatus } from '@/types/api';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
 import { toast } from 'sonner';
 
 // Query keys
@@ -30,53 +31,126 @@ export function useReports() {
   });
 }
 
-// Get active workflows only (with polling for live Temporal status)
+interface ActiveWorkflowsData {
+  reports: ReportListItem[];
+  total: number;
+}
+
+const isFinished = (status?: string) => status === 'COMPLETED' || status === 'FAILED';
+
+// Get active workflows only (live progress pushed over a single SSE stream)
 export function useActiveWorkflows() {
-  return useQuery({
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
     queryKey: reportKeys.activeWorkflows(),
     queryFn: async () => {
       const data = await api.listReports();
       // Filter to only active workflows
       const activeReports = data.reports.filter(
-        report => report.status && !['COMPLETED', 'FAILED'].includes(report.status)
+        report => report.status && !isFinished(report.status)
       );
       return {
         reports: activeReports,
         total: activeReports.length,
       };
     },
-    refetchInterval: 1000, // Poll every 1 second for live Temporal workflow status
+    // Progress arrives over SSE; the slow refetch picks up runs started by a schedule or in
+    // another tab
+    refetchInterval: 30000,
     retry: 1,
     retryDelay: 1000,
     refetchOnWindowFocus: true,
     refetchOnMount: true,
     placeholderData: { reports: [], total: 0 },
   });
+
+  // Stable key so the stream is only reopened when the set of active reports changes
+  const activeIds = (query.data?.reports ?? []).map(report => report.id).filter(Boolean);
+  const activeIdsKey = activeIds.join(',');
+
+  useEffect(() => {
+    if (!activeIdsKey) return;
+
+    const updateReport = (reportId: string, patch: Partial<ReportListItem>) => {
+      queryClient.setQueryData<ActiveWorkflowsData>(reportKeys.activeWorkflows(), data =>
+        data
+          ? {
+              ...data,
+              reports: data.reports.map(report =>
+                report.id === reportId ? { ...report, ...patch } : report
+              ),
+            }
+          : data
+      );
+    };
+
+    const onFinished = () => {
+      queryClient.invalidateQueries({ queryKey: reportKeys.activeWorkflows() });
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    };
+
+    // Unknown or deleted reports are dropped rather than left pending
+    const onNotFound = ({ reportId }: ReportNotFoundEventData) => {
+      queryClient.setQueryData<ActiveWorkflowsData>(reportKeys.activeWorkflows(), data => {
+        if (!data) return data;
+        const reports = data.reports.filter(report => report.id !== reportId);
+        return { reports, total: reports.length };
+      });
+      queryClient.invalidateQueries({ queryKey: reportKeys.lists() });
+    };
+
+    return api.subscribeToReportEvents(activeIdsKey.split(','), {
+      onState: ({ reportId, status, progress }) => updateReport(reportId, { status, progress }),
+      onCompleted: onFinished,
+      onFailed: onFinished,
+      onNotFound,
+    });
+  }, [activeIdsKey, queryClient]);
+
+  return query;
 }
 
-// Get single report status
+// Get single report status (initial fetch, then live updates over SSE)
 export function useReportStatus(reportId: string | undefined, enabled = true) {
-  return useQuery({
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
     queryKey: reportKeys.detail(reportId || ''),
     queryFn: () => api.getReportStatus(reportId!),
     enabled: enabled && !!reportId,
-    refetchInterval: query => {
-      const data = query.state.data;
-      // Poll aggressively if report is in progress
-      if (data?.status && !['COMPLETED', 'FAILED'].includes(data.status)) {
-        return 500; // 500ms for active workflows - very frequent updates
-      }
-      // Still poll completed/failed reports occasionally to catch updates
-      if (data?.status === 'COMPLETED' || data?.status === 'FAILED') {
-        return false; // Stop polling when completed/failed
-      }
-      // If no data yet, poll quickly
-      return 500;
-    },
+    refetchInterval: false, // Progress arrives over SSE
     refetchOnWindowFocus: true,
     refetchOnMount: true,
     staleTime: 0, // Always consider data stale to ensure fresh updates
   });
+
+  const status = query.data?.status;
+  const shouldStream = enabled && !!reportId && query.isSuccess && !isFinished(status);
+
+  useEffect(() => {
+    if (!shouldStream || !reportId) return;
+
+    const queryKey = reportKeys.detail(reportId);
+    const updateReport = (patch: Partial<ReportStatus>) => {
+      queryClient.setQueryData<ReportStatus>(queryKey, data =>
+        data ? { ...data, ...patch } : data
+      );
+    };
+
+    return api.subscribeToReportEvents([reportId], {
+      onState: ({ status, progress, error }) => updateReport({ status, progress, error }),
+      onCompleted: ({ files }) => updateReport({ status: 'COMPLETED', progress: 100, files }),
+      onFailed: ({ error }) => {
+        updateReport({ status: 'FAILED', error });
+        queryClient.invalidateQueries({ queryKey });
+      },
+      // The report was deleted; refetching surfaces the 404 instead of a pending status
+      onNotFound: () => queryClient.invalidateQueries({ queryKey }),
+    });
+  }, [shouldStream, reportId, queryClient]);
+
+  return query;
 }
 
 // Get report costs
@@ -4,9 +4,11 @@ import {
   ReportRequest,
   ReportResponse,
   ReportStatus,
+  ReportStreamHandlers,
 } from '@/types/api';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000/api';
+const MAX_STREAMED_REPORTS = 50;
 
 class ApiError extends Error {
   constructor(
@@ -77,6 +79,40 @@ export const api = {
     return handleResponse<ReportStatus>(response);
   },
 
+  // Subscribe to live progress for one or more reports (Server-Sent Events)
+  // Returns a function that closes the stream
+  subscribeToReportEvents(reportIds: string[], handlers: ReportStreamHandlers) {
+    // The server streams at most this many reports per connection
+    const batches: string[][] = [];
+    for (let i = 0; i < reportIds.length; i += MAX_STREAMED_REPORTS) {
+      batches.push(reportIds.slice(i, i + MAX_STREAMED_REPORTS));
+    }
+
+    const sources = batches.map(ids => {
+      const url =
+        ids.length === 1
+          ? `${API_BASE_URL}/reports/${ids[0]}/events`
+          : `${API_BASE_URL}/reports/events?ids=${ids.map(encodeURIComponent).join(',')}`;
+      const source = new EventSource(url);
+
+      const listen = <T>(event: string, handler?: (data: T) => void) => {
+        if (!handler) return;
+        source.addEventListener(event, e => handler(JSON.parse((e as MessageEvent).data) as T));
+      };
+
+      listen('state', handlers.onState);
+      listen('heartbeat', handlers.onHeartbeat);
+      listen('completed', handlers.onCompleted);
+      listen('failed', handlers.onFailed);
+      listen('not_found', handlers.onNotFound);
+      // Server closes the stream after every report finished; stop EventSource from reconnecting
+      source.addEventListener('end', () => source.close());
+      return source;
+    });
+
+    return () => sources.forEach(source => source.close());
+  },
+
   // List all reports
   async listReports() {
     const response = await fetch(`${API_BASE_URL}/reports`);
@@ -73,6 +73,46 @@ export interface ReportStatus {
   error?: string;
 }
 
+// Server-Sent Events from /reports/:reportId/events and /reports/events?ids=
+export interface ReportStateEventData {
+  reportId: string;
+  status: ReportStatus['status'];
+  progress: number;
+  currentStep: string;
+  error?: string;
+}
+
+export interface ReportHeartbeatEventData {
+  reportId: string;
+  activityType: string;
+  attempt: number;
+  details: unknown;
+}
+
+export interface ReportCompletedEventData {
+  reportId: string;
+  files: ReportFile[];
+}
+
+export interface ReportFailedEventData {
+  reportId: string;
+  executionStatus?: string;
+  error?: string;
+}
+
+// Neither a workflow nor stored data exists for the report (unknown or deleted)
+export interface ReportNotFoundEventData {
+  reportId: string;
+}
+
+export interface ReportStreamHandlers {
+  onState?: (data: ReportStateEventData) => void;
+  onHeartbeat?: (data: ReportHeartbeatEventData) => void;
+  onCompleted?: (data: ReportCompletedEventData) => void;
+  onFailed?: (data: ReportFailedEventData) => void;
+  onNotFound?: (data: ReportNotFoundEventData) => void;
+}
+
 export interface ReportListItem {
   id: string;
   title: string;
@@ -17,7 +17,8 @@ export default [
       parserOptions: {
         ecmaVersion: 2022,
         sourceType: 'module',
-        project: './tsconfig.json',
+        // Tests are left out of the build, so they are linted with their own project
+        project: ['./tsconfig.json', './tsconfig.test.json'],
       },
     },
     rules: {
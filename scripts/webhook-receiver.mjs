@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+
+// Local webhook receiver for testing report lifecycle webhooks
+// Usage: WEBHOOK_SECRET=local-webhook-secret-123 node scripts/webhook-receiver.mjs [port]
+// Set STATUS=500 (or any code) to make the receiver fail and exercise retries
+
+import crypto from 'node:crypto';
+import http from 'node:http';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET ?? 'local-webhook-secret-123';
+const status = Number(process.env.STATUS ?? 200);
+
+function verify(body, timestamp, signature) {
+  const expected = `sha256=${crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex')}`;
+  return (
+    typeof signature === 'string' &&
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+http
+  .createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const valid = verify(
+        body,
+        req.headers['x-webhook-timestamp'],
+        req.headers['x-webhook-signature']
+      );
+
+      console.log('-----------------------------------');
+      console.log(`${req.method} ${req.url}`);
+      console.log(`Event:     ${req.headers['x-webhook-event']}`);
+      console.log(`Id:        ${req.headers['x-webhook-id']}`);
+      console.log(`Signature: ${valid ? 'valid' : 'INVALID'}`);
+      console.log(JSON.stringify(JSON.parse(body || '{}'), null, 2));
+
+      res.writeHead(valid ? status : 401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received: valid }));
+    });
+  })
+  .listen(port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}`);
+  });
@@ -7,9 +7,10 @@ const envSchema = z.object({
   // Server
   PORT: z.string().default('3000'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  ADMIN_API_KEY: z.string().optional(), // x-admin-key for /api/admin; unset disables it outside development
 
-  // OpenAI
-  OPENAI_API_KEY: z.string().min(1, 'OpenAI API key is required'),
+  // OpenAI (the API key is only required by the openai LLM provider)
+  OPENAI_API_KEY: z.string().optional(),
   OPENAI_MODEL: z.string().default('gpt-4o'),
   OPENAI_IMAGE_MODEL: z.string().default('dall-e-3'),
 
@@ -36,12 +37,31 @@ const envSchema = z.object({
 
   // Report
   MAX_UPLOAD_SIZE_MB: z.string().default('20'),
+  STREAMING_THRESHOLD_MB: z.string().default('1'), // Larger uploads are stored; CSV/JSON are profiled as streams
+  PROFILE_SAMPLE_ROWS: z.string().default('2000'), // Reservoir sample kept while streaming
   DEFAULT_REPORT_STYLE: z.enum(['business', 'research', 'technical']).default('business'),
   DEFAULT_OUTPUT_FORMAT: z.enum(['PDF', 'DOCX', 'HTML']).default('PDF'),
 
+  // Privacy
+  // Redaction applied while profiling, unless the report sets pii.policy
+  PII_POLICY: z.enum(['off', 'mask', 'hash', 'drop', 'block']).default('mask'),
+  PII_HASH_SECRET: z.string().optional(), // Key for the hash policy; without it hashes are unkeyed
+
   // LLM
+  // openai: OpenAI API; openai-compatible: local servers such as Ollama or llama.cpp;
+  // fixture: deterministic offline output for tests and development
+  LLM_PROVIDER: z.enum(['openai', 'openai-compatible', 'fixture']).default('openai'),
+  LLM_BASE_URL: z.string().url().optional(), // e.g. http://localhost:11434/v1 for Ollama
+  LLM_API_KEY: z.string().optional(),
+  LLM_MODEL: z.string().optional(), // Defaults to OPENAI_MODEL
+  LLM_FIXTURES_PATH: z.string().optional(), // Directory of JSON fixtures for the fixture provider
   LLM_MAX_TOKENS: z.string().default('4096'),
   LLM_TEMPERATURE: z.string().default('0.7'),
+  LLM_MAX_REPAIR_ATTEMPTS: z.string().default('2'), // Retries when narrative JSON fails validation
+  LLM_SECTION_MAX_TOKENS: z.string().default('1500'), // Per-section limit in long generation mode
+  LLM_SECTION_CONCURRENCY: z.string().default('3'), // Sections generated in parallel in long mode
+  LLM_CACHE_ENABLED: z.string().default('true'), // Reuse narratives for identical prompts
+  LLM_CACHE_TTL_SECONDS: z.string().default('604800'), // 7 days default
 
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
@@ -51,6 +71,8 @@ const envSchema = z.object({
   REDIS_PORT: z.string().default('6379'),
   REDIS_PASSWORD: z.string().optional(),
   REDIS_TTL_SECONDS: z.string().default('3600'), // 1 hour default
+  CACHE_NAMESPACE: z.string().min(1).default('ai-report'), // Key prefix on a shared Redis
+  CACHE_MEMORY_MAX_ENTRIES: z.string().default('1000'), // LRU cap of the in-memory fallback
 
   // Cost Tracking
   ENABLE_COST_TRACKING: z.string().default('true'),
@@ -65,7 +87,25 @@ const envSchema = z.object({
   DOCLING_TIMEOUT_MS: z.string().default('300000'), // 5 minutes
 });
 
-const parsed = envSchema.safeParse(process.env);
+// Settings each LLM provider cannot start without
+const providerSchema = envSchema.superRefine((env, ctx) => {
+  if (env.LLM_PROVIDER === 'openai' && !env.OPENAI_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['OPENAI_API_KEY'],
+      message: 'OpenAI API key is required when LLM_PROVIDER is openai',
+    });
+  }
+  if (env.LLM_PROVIDER === 'openai-compatible' && !env.LLM_BASE_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['LLM_BASE_URL'],
+      message: 'LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible',
+    });
+  }
+});
+
+const parsed = providerSchema.safeParse(process.env);
 
 if (!parsed.success) {
   console.error('❌ Invalid environment variables:', parsed.error.flatten().fieldErrors);
@@ -80,6 +120,7 @@ export const config = {
     nodeEnv: env.NODE_ENV,
     isDev: env.NODE_ENV === 'development',
     isProd: env.NODE_ENV === 'production',
+    adminApiKey: env.ADMIN_API_KEY,
   },
   openai: {
     apiKey: env.OPENAI_API_KEY,
@@ -111,12 +152,28 @@ export const config = {
   },
   report: {
     maxUploadSizeMB: Number.parseInt(env.MAX_UPLOAD_SIZE_MB, 10),
+    streamingThresholdMB: Number.parseFloat(env.STREAMING_THRESHOLD_MB),
+    profileSampleRows: Number.parseInt(env.PROFILE_SAMPLE_ROWS, 10),
     defaultStyle: env.DEFAULT_REPORT_STYLE,
     defaultFormat: env.DEFAULT_OUTPUT_FORMAT,
   },
+  pii: {
+    policy: env.PII_POLICY,
+    hashSecret: env.PII_HASH_SECRET,
+  },
   llm: {
+    provider: env.LLM_PROVIDER,
+    baseUrl: env.LLM_BASE_URL,
+    apiKey: env.LLM_API_KEY,
+    model: env.LLM_MODEL ?? env.OPENAI_MODEL,
+    fixturesPath: env.LLM_FIXTURES_PATH,
     maxTokens: Number.parseInt(env.LLM_MAX_TOKENS, 10),
     temperature: Number.parseFloat(env.LLM_TEMPERATURE),
+    maxRepairAttempts: Number.parseInt(env.LLM_MAX_REPAIR_ATTEMPTS, 10),
+    sectionMaxTokens: Number.parseInt(env.LLM_SECTION_MAX_TOKENS, 10),
+    sectionConcurrency: Number.parseInt(env.LLM_SECTION_CONCURRENCY, 10),
+    cacheEnabled: env.LLM_CACHE_ENABLED === 'true',
+    cacheTtl: Number.parseInt(env.LLM_CACHE_TTL_SECONDS, 10),
   },
   logging: {
     level: env.LOG_LEVEL,
@@ -127,6 +184,10 @@ export const config = {
     password: env.REDIS_PASSWORD,
     ttl: Number.parseInt(env.REDIS_TTL_SECONDS, 10),
   },
+  cache: {
+    namespace: env.CACHE_NAMESPACE,
+    memoryMaxEntries: Number.parseInt(env.CACHE_MEMORY_MAX_ENTRIES, 10),
+  },
   costTracking: {
     enabled: env.ENABLE_COST_TRACKING === 'true',
     openai: {
@@ -1,6 +1,9 @@
+import type { CacheStats } from '../../shared/types/index.js';
+
 /**
  * Cache Service Interface
  * Defines the contract for caching operations across different backends (Redis, Memory, etc.)
+ * Keys are scoped to the service's namespace, so callers never see other tenants' entries.
  */
 export interface ICacheService {
   /**
@@ -9,9 +12,9 @@ export interface ICacheService {
   get<T>(key: string): Promise<T | null>;
 
   /**
-   * Set a value in cache with optional TTL
+   * Set a value in cache with optional TTL and tags for grouped invalidation
    */
-  set(key: string, value: unknown, ttl?: number): Promise<void>;
+  set(key: string, value: unknown, ttl?: number, tags?: string[]): Promise<void>;
 
   /**
    * Delete a value from cache
@@ -19,7 +22,7 @@ export interface ICacheService {
   delete(key: string): Promise<void>;
 
   /**
-   * Clear all cache entries
+   * Clear all cache entries in the namespace
    */
   clear(): Promise<void>;
 
@@ -27,5 +30,14 @@ export interface ICacheService {
    * Check if a key exists in cache
    */
   exists(key: string): Promise<boolean>;
-}
 
+  /**
+   * Delete every entry stored with the tag, returning how many were removed
+   */
+  invalidateTag(tag: string): Promise<number>;
+
+  /**
+   * Entry count and hit/miss counters for the namespace
+   */
+  getStats(): Promise<CacheStats>;
+}
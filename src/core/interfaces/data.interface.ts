@@ -1,4 +1,10 @@
-import type { DataProfile, InputData } from '../../shared/types/index.js';
+import type {
+  DataProfile,
+  DatasetRelation,
+  InputData,
+  PiiConfig,
+  PiiRedactionSummary,
+} from '../../shared/types/index.js';
 
 /**
  * Data Profiler Interface
@@ -6,11 +12,18 @@ import type { DataProfile, InputData } from '../../shared/types/index.js';
  */
 export interface IDataProfiler {
   /**
-   * Profile input data and generate insights about structure
+   * Profile input data and generate insights about structure, combining the named
+   * datasets through the given relations and redacting PII under the given policy
    */
-  profileData(inputData: InputData[]): Promise<{
+  profileData(
+    inputData: InputData[],
+    relations?: DatasetRelation[],
+    pii?: PiiConfig
+  ): Promise<{
     profile: DataProfile;
     parsedData: Record<string, unknown>[];
     textContent: string[];
+    // What the PII policy found and did, when anything was found
+    piiRedaction?: PiiRedactionSummary;
   }>;
 }
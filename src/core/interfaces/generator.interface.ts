@@ -1,9 +1,12 @@
 import type {
   Branding,
   ChartSuggestion,
+  CoverImage,
   DataProfile,
   GeneratedChart,
   GeneratedNarrative,
+  NarrativeVerification,
+  ProfileComparison,
   Report,
   TableData,
 } from '../../shared/types/index.js';
@@ -19,6 +22,11 @@ export interface IChartGenerator {
     dataProfile: DataProfile
   ): Promise<GeneratedChart[]>;
 
+  generateComparisonCharts(
+    comparison: ProfileComparison,
+    reportId: string
+  ): Promise<GeneratedChart[]>;
+
   generateSummaryTable(profile: DataProfile): { headers: string[]; rows: string[][] };
 }
 
@@ -31,7 +39,10 @@ export interface IHTMLGenerator {
     narrative: GeneratedNarrative,
     charts: GeneratedChart[],
     dataProfile: DataProfile,
-    branding?: Branding
+    branding?: Branding,
+    comparison?: ProfileComparison,
+    verification?: NarrativeVerification,
+    coverImage?: CoverImage
   ): string;
 
   generateTable(tableData: TableData): string;
@@ -77,6 +88,9 @@ export interface IDOCXGenerator {
     narrative: GeneratedNarrative,
     charts: GeneratedChart[],
     dataProfile: DataProfile,
-    branding?: Branding
+    branding?: Branding,
+    comparison?: ProfileComparison,
+    verification?: NarrativeVerification,
+    coverImage?: CoverImage
   ): Promise<{ path: string; size: number }>;
 }
@@ -1,4 +1,12 @@
-import type { DataProfile, GeneratedNarrative, ReportStyle } from '../../shared/types/index.js';
+import type {
+  DataProfile,
+  GeneratedInsight,
+  GeneratedNarrative,
+  NarrativeSummary,
+  ProfileComparison,
+  ReportSection,
+  ReportStyle,
+} from '../../shared/types/index.js';
 
 /**
  * LLM Service Interface
@@ -15,9 +23,29 @@ export interface ILLMService {
     style: ReportStyle,
     title: string,
     customInstructions?: string,
-    reportId?: string
+    reportId?: string,
+    comparison?: ProfileComparison,
+    sections?: ReportSection[],
+    bypassCache?: boolean
   ): Promise<GeneratedNarrative>;
 
+  /**
+   * Generate the executive summary, key findings and recommendations from finished sections
+   * (long generation mode)
+   */
+  generateNarrativeSummary(
+    dataProfile: DataProfile,
+    parsedData: Record<string, unknown>[],
+    textContent: string[],
+    sections: GeneratedInsight[],
+    style: ReportStyle,
+    title: string,
+    customInstructions?: string,
+    reportId?: string,
+    comparison?: ProfileComparison,
+    bypassCache?: boolean
+  ): Promise<NarrativeSummary>;
+
   /**
    * Generate section content individually (for longer reports)
    */
@@ -25,7 +53,9 @@ export interface ILLMService {
     sectionTitle: string,
     sectionContext: string,
     style: ReportStyle,
-    previousSections: string[]
+    previousSections: string[],
+    reportId?: string,
+    bypassCache?: boolean
   ): Promise<string>;
 
   /**
@@ -34,7 +64,9 @@ export interface ILLMService {
   generateChartAnalysis(
     chartTitle: string,
     chartType: string,
-    dataDescription: string
+    dataDescription: string,
+    reportId?: string,
+    chartId?: string
   ): Promise<string>;
 
   /**
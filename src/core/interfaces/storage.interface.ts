@@ -1,3 +1,5 @@
+import type { Readable } from 'node:stream';
+
 /**
  * Storage Service Interface
  * Defines the contract for storage operations across different backends (local, MinIO, etc.)
@@ -16,6 +18,8 @@ export interface IStorageService {
   // Upload operations
   saveUpload(reportId: string, filename: string, data: Buffer | string): Promise<string>;
   getUpload(reportId: string, filename: string): Promise<Buffer | null>;
+  // Read an upload without loading it into memory
+  getUploadStream(reportId: string, filename: string): Promise<Readable | null>;
 
   // Chart operations
   saveChart(reportId: string, chartId: string, imageData: Buffer): Promise<string>;
@@ -26,6 +30,12 @@ export interface IStorageService {
   getOutputFile(reportId: string, filename: string): Promise<Buffer | null>;
   getOutputFilePath(reportId: string, filename: string): Promise<string>;
 
+  // Checkpoint operations (intermediate workflow step outputs)
+  saveCheckpoint(reportId: string, step: string, data: unknown): Promise<void>;
+  getCheckpoint<T>(reportId: string, step: string): Promise<T | null>;
+  // Steps with a saved checkpoint whose names start with prefix
+  listCheckpoints(reportId: string, prefix: string): Promise<string[]>;
+
   // Utility operations
   fileExists(filePath: string): Promise<boolean>;
   getFileSize(filePath: string): Promise<number>;
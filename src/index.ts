@@ -3,7 +3,13 @@ import express from 'express';
 import helmet from 'helmet';
 
 import { config, createModuleLogger } from './core/index.js';
-import { healthRoutes, reportRoutes, swaggerRoutes } from './modules/index.js';
+import {
+  adminRoutes,
+  healthRoutes,
+  reportRoutes,
+  scheduleRoutes,
+  swaggerRoutes,
+} from './modules/index.js';
 import { storage } from './services/index.js';
 
 const logger = createModuleLogger('server');
@@ -37,7 +43,9 @@ async function main() {
 
   // API routes
   app.use('/api/reports', reportRoutes);
+  app.use('/api/schedules', scheduleRoutes);
   app.use('/api/health', healthRoutes);
+  app.use('/api/admin', adminRoutes);
   app.use('/api/docs', swaggerRoutes);
 
   // Root endpoint
@@ -53,8 +61,23 @@ async function main() {
         getReport: 'GET /api/reports/:reportId',
         listReports: 'GET /api/reports',
         downloadFile: 'GET /api/reports/:reportId/files?format=PDF|DOCX|HTML',
+        reportEvents: 'GET /api/reports/:reportId/events',
+        reportsEvents: 'GET /api/reports/events?ids=a,b,c',
         cancelReport: 'POST /api/reports/:reportId/cancel',
+        retryReport: 'POST /api/reports/:reportId/retry',
         waitForReport: 'GET /api/reports/:reportId/wait',
+        webhookDeliveries: 'GET /api/reports/:reportId/webhooks',
+        createSchedule: 'POST /api/schedules',
+        listSchedules: 'GET /api/schedules',
+        getSchedule: 'GET /api/schedules/:scheduleId',
+        pauseSchedule: 'POST /api/schedules/:scheduleId/pause',
+        resumeSchedule: 'POST /api/schedules/:scheduleId/resume',
+        triggerSchedule: 'POST /api/schedules/:scheduleId/trigger',
+        scheduleRuns: 'GET /api/schedules/:scheduleId/runs',
+        deleteSchedule: 'DELETE /api/schedules/:scheduleId',
+        cacheStats: 'GET /api/admin/cache',
+        purgeCache: 'DELETE /api/admin/cache',
+        invalidateCacheTag: 'DELETE /api/admin/cache/tags/:tag',
         swaggerDocs: 'GET /api/docs',
         openAPISpec: 'GET /api/docs/json',
       },
@@ -85,6 +108,9 @@ async function main() {
     logger.info(`📊 Environment: ${config.server.nodeEnv}`);
     logger.info(`📁 Storage path: ${config.storage.basePath}`);
     logger.info(`💾 Storage type: ${config.storage.type}`);
+    if (!config.server.adminApiKey && !config.server.isDev) {
+      logger.warn('ADMIN_API_KEY is not set; /api/admin endpoints are disabled');
+    }
   });
 
   // Graceful shutdown
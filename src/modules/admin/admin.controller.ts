@@ -0,0 +1,85 @@
+import type { Request, Response } from 'express';
+
+import { createModuleLogger } from '../../core/index.js';
+import { cacheService } from '../../services/index.js';
+
+const logger = createModuleLogger('admin-controller');
+
+/**
+ * Admin Controller - cache inspection and invalidation
+ */
+export class AdminController {
+  /**
+   * Get cache statistics
+   */
+  async getCacheStats(_req: Request, res: Response): Promise<void> {
+    try {
+      res.json(await cacheService.getStats());
+    } catch (error) {
+      logger.error('Failed to get cache stats', { error });
+      res.status(500).json({
+        error: 'Failed to get cache stats',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Purge every entry in the cache namespace
+   */
+  async purgeCache(_req: Request, res: Response): Promise<void> {
+    try {
+      await cacheService.clear();
+
+      logger.info('Cache purged');
+
+      res.json({ message: 'Cache purged' });
+    } catch (error) {
+      logger.error('Failed to purge cache', { error });
+      res.status(500).json({
+        error: 'Failed to purge cache',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Invalidate all entries with a tag, e.g. report:<reportId> or model:<model>
+   */
+  async invalidateCacheTag(req: Request, res: Response): Promise<void> {
+    await this.invalidate(req.params.tag, res);
+  }
+
+  /**
+   * Invalidate all cached LLM responses produced for a report
+   */
+  async invalidateReportCache(req: Request, res: Response): Promise<void> {
+    await this.invalidate(`report:${req.params.reportId}`, res);
+  }
+
+  /**
+   * Invalidate all cached LLM responses written by a model
+   */
+  async invalidateModelCache(req: Request, res: Response): Promise<void> {
+    await this.invalidate(`model:${req.params.model}`, res);
+  }
+
+  private async invalidate(tag: string, res: Response): Promise<void> {
+    try {
+      const removed = await cacheService.invalidateTag(tag);
+
+      logger.info(`Cache tag invalidated: ${tag}`, { removed });
+
+      res.json({ message: 'Cache entries invalidated', tag, removed });
+    } catch (error) {
+      logger.error(`Failed to invalidate cache tag: ${tag}`, { error });
+      res.status(500).json({
+        error: 'Failed to invalidate cache entries',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const adminController = new AdminController();
@@ -0,0 +1,88 @@
+import { timingSafeEqual } from 'node:crypto';
+
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { param, validationResult } from 'express-validator';
+
+import { config } from '../../core/index.js';
+
+import { adminController } from './admin.controller.js';
+
+const router = Router();
+
+// Validation middleware
+const validate = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  next();
+};
+
+// Every admin request must present ADMIN_API_KEY in the x-admin-key header. Without a key the
+// endpoints are only open in development, so a misconfigured deployment cannot be purged by anyone.
+const requireAdminKey = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.server.adminApiKey;
+  if (!expected) {
+    if (config.server.isDev) {
+      next();
+      return;
+    }
+    res.status(403).json({ error: 'Admin API is disabled: ADMIN_API_KEY is not set' });
+    return;
+  }
+
+  const provided = Buffer.from(req.get('x-admin-key') ?? '');
+  const key = Buffer.from(expected);
+  if (provided.length !== key.length || !timingSafeEqual(provided, key)) {
+    res.status(401).json({ error: 'Invalid or missing admin key' });
+    return;
+  }
+  next();
+};
+
+router.use(requireAdminKey);
+
+const nonEmptyParam = (name: string) => param(name).isString().trim().isLength({ min: 1 });
+
+// ============================================================================
+// GET /admin/cache - Cache statistics
+// ============================================================================
+router.get('/cache', (req: Request, res: Response) => adminController.getCacheStats(req, res));
+
+// ============================================================================
+// DELETE /admin/cache - Purge the cache namespace
+// ============================================================================
+router.delete('/cache', (req: Request, res: Response) => adminController.purgeCache(req, res));
+
+// ============================================================================
+// DELETE /admin/cache/tags/:tag - Invalidate entries by tag
+// ============================================================================
+router.delete('/cache/tags/:tag', [nonEmptyParam('tag')], validate, (req: Request, res: Response) =>
+  adminController.invalidateCacheTag(req, res)
+);
+
+// ============================================================================
+// DELETE /admin/cache/reports/:reportId - Invalidate entries produced for a report
+// ============================================================================
+router.delete(
+  '/cache/reports/:reportId',
+  [nonEmptyParam('reportId')],
+  validate,
+  (req: Request, res: Response) => adminController.invalidateReportCache(req, res)
+);
+
+// ============================================================================
+// DELETE /admin/cache/models/:model - Invalidate entries written by a model
+// ============================================================================
+router.delete(
+  '/cache/models/:model',
+  [nonEmptyParam('model')],
+  validate,
+  (req: Request, res: Response) => adminController.invalidateModelCache(req, res)
+);
+
+export default router;
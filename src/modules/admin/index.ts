@@ -0,0 +1,2 @@
+export { adminController, AdminController } from './admin.controller.js';
+export { default as adminRoutes } from './admin.routes.js';
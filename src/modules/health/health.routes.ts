@@ -97,9 +97,15 @@ async function checkRedisHealth(): Promise<
 > {
   try {
     const { cacheService } = await import('../../services/cache/cache.service.js');
+    const { backend } = await cacheService.getStats();
+    if (backend !== 'redis') {
+      return { status: 'unhealthy', error: 'Redis unreachable, serving from memory cache' };
+    }
+
     const testKey = `health-check-${Date.now()}`;
     await cacheService.set(testKey, { test: true }, 10);
     const exists = await cacheService.exists(testKey);
+    await cacheService.delete(testKey);
 
     if (exists) {
       return { status: 'healthy' };
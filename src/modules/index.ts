@@ -1,3 +1,5 @@
+export { adminController, AdminController, adminRoutes } from './admin/index.js';
 export { healthRoutes } from './health/index.js';
 export { reportController, ReportController, reportRoutes } from './reports/index.js';
+export { scheduleController, ScheduleController, scheduleRoutes } from './schedules/index.js';
 export { default as swaggerRoutes } from './swagger/swagger.routes.js';
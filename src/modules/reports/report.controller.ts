@@ -1,20 +1,76 @@
+import { WorkflowExecutionAlreadyStartedError } from '@temporalio/client';
 import type { Request, Response } from 'express';
 import { nanoid } from 'nanoid';
+import { z } from 'zod';
 
 import { config, createModuleLogger } from '../../core/index.js';
-import { doclingService, storage } from '../../services/index.js';
-import type { InputData, OutputFormat, Report, ReportConfig } from '../../shared/types/index.js';
-import { BatchReportRequestSchema, CreateReportRequestSchema } from '../../shared/types/index.js';
+import {
+  doclingService,
+  storage,
+  validateSectionSelection,
+  webhookService,
+} from '../../services/index.js';
+import type {
+  InputData,
+  OutputFormat,
+  Report,
+  ReportConfig,
+  ReportStatus,
+  StructuredData,
+} from '../../shared/types/index.js';
+import {
+  BatchReportRequestSchema,
+  ColumnTypeSchema,
+  CoverImageConfigSchema,
+  CreateReportRequestSchema,
+  DatasetRelationSchema,
+  FactCheckModeSchema,
+  GenerationModeSchema,
+  PiiConfigSchema,
+  STREAMABLE_FORMATS,
+  StructuredDataSchema,
+} from '../../shared/types/index.js';
 import {
   cancelWorkflow,
   getWorkflowInfo,
   getWorkflowStatus,
+  retryReportGeneration,
   startReportGeneration,
   waitForWorkflowResult,
 } from '../../temporal/client.js';
 
+import { ReportEventHub, reportEventHub } from './report.events.js';
+import { structuredFormatOf } from './upload-formats.js';
+
 const logger = createModuleLogger('report-controller');
 
+// Form fields that apply to the structured files of an upload
+type UploadOptions = Pick<
+  StructuredData,
+  'schemaHints' | 'sheets' | 'delimiter' | 'query' | 'transforms' | 'qualityRules'
+>;
+
+// SSE client reconnect delay and keep-alive comment interval
+const SSE_RETRY_MS = 3000;
+const SSE_KEEP_ALIVE_MS = 15000;
+// Each streamed report is polled once a second, so one stream follows at most this many
+const SSE_MAX_REPORTS = 50;
+
+/**
+ * Parse a JSON form field. Text that is not JSON is returned as is, so the field's schema
+ * rejects it with a 400 instead of the parse error surfacing as a 500.
+ */
+function parseJsonField(value: unknown): unknown {
+  if (typeof value !== 'string' || value === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
 /**
  * Report Controller - handles all report-related request logic
  */
@@ -35,10 +91,20 @@ export class ReportController {
         return;
       }
 
-      const { data, config: reportConfig } = parseResult.data;
+      const { data, config: reportConfig, relations } = parseResult.data;
+
+      const sectionErrors = validateSectionSelection(
+        reportConfig.style,
+        reportConfig.sectionsToInclude,
+        reportConfig.sectionsToExclude
+      );
+      if (sectionErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid sections', details: sectionErrors });
+        return;
+      }
 
       // Start the workflow
-      const { reportId, workflowId } = await startReportGeneration(data, reportConfig);
+      const { reportId, workflowId } = await startReportGeneration(data, reportConfig, relations);
 
       logger.info(`Report generation started: ${reportId}`);
 
@@ -70,9 +136,128 @@ export class ReportController {
         return;
       }
 
+      // Large text data files are stored under the report and streamed by the profiler
+      const reportId = nanoid(12);
       const chunkSizeBytes = config.docling.chunkSizeMB * 1024 * 1024;
       const useDocling = await doclingService.isAvailable();
 
+      // Column type hints apply to every structured file in the upload
+      const schemaHintsResult = z
+        .record(ColumnTypeSchema)
+        .optional()
+        .safeParse(parseJsonField(req.body.schemaHints));
+      if (!schemaHintsResult.success) {
+        res.status(400).json({
+          error: 'Invalid schemaHints',
+          details: schemaHintsResult.error.flatten(),
+        });
+        return;
+      }
+      const schemaHints = schemaHintsResult.data;
+
+      // "all" or a comma-separated list of workbook sheets to read as separate datasets
+      const sheets: StructuredData['sheets'] =
+        req.body.sheets === 'all'
+          ? 'all'
+          : req.body.sheets
+            ? req.body.sheets.split(',').map((sheet: string) => sheet.trim())
+            : undefined;
+
+      // Transform steps also apply to every structured file
+      const transformsResult = StructuredDataSchema.shape.transforms.safeParse(
+        parseJsonField(req.body.transforms)
+      );
+      if (!transformsResult.success) {
+        res.status(400).json({
+          error: 'Invalid transforms',
+          details: transformsResult.error.flatten(),
+        });
+        return;
+      }
+
+      // Quality rules are checked on every structured file
+      const qualityRulesResult = StructuredDataSchema.shape.qualityRules.safeParse(
+        parseJsonField(req.body.qualityRules)
+      );
+      if (!qualityRulesResult.success) {
+        res.status(400).json({
+          error: 'Invalid qualityRules',
+          details: qualityRulesResult.error.flatten(),
+        });
+        return;
+      }
+
+      const uploadOptions: UploadOptions = {
+        schemaHints,
+        sheets,
+        delimiter: req.body.delimiter,
+        query: req.body.query,
+        transforms: transformsResult.data,
+        qualityRules: qualityRulesResult.data,
+      };
+      const sqliteFile = files.find(file => structuredFormatOf(file) === 'sqlite');
+      if (
+        sqliteFile &&
+        !StructuredDataSchema.shape.query.unwrap().safeParse(uploadOptions.query).success
+      ) {
+        res.status(400).json({
+          error: 'Invalid query',
+          message: `${sqliteFile.originalname} is a SQLite database; provide a SELECT as "query"`,
+        });
+        return;
+      }
+
+      const relationsResult = DatasetRelationSchema.array()
+        .optional()
+        .safeParse(parseJsonField(req.body.relations));
+      if (!relationsResult.success) {
+        res.status(400).json({
+          error: 'Invalid relations',
+          details: relationsResult.error.flatten(),
+        });
+        return;
+      }
+
+      const piiResult = PiiConfigSchema.optional().safeParse(parseJsonField(req.body.pii));
+      if (!piiResult.success) {
+        res.status(400).json({
+          error: 'Invalid pii',
+          details: piiResult.error.flatten(),
+        });
+        return;
+      }
+
+      const coverImageResult = CoverImageConfigSchema.optional().safeParse(
+        parseJsonField(req.body.coverImage)
+      );
+      if (!coverImageResult.success) {
+        res.status(400).json({
+          error: 'Invalid coverImage',
+          details: coverImageResult.error.flatten(),
+        });
+        return;
+      }
+
+      const factCheckResult = FactCheckModeSchema.default('flag').safeParse(req.body.factCheck);
+      if (!factCheckResult.success) {
+        res.status(400).json({
+          error: 'Invalid factCheck',
+          details: factCheckResult.error.flatten(),
+        });
+        return;
+      }
+
+      const generationModeResult = GenerationModeSchema.default('standard').safeParse(
+        req.body.generationMode
+      );
+      if (!generationModeResult.success) {
+        res.status(400).json({
+          error: 'Invalid generationMode',
+          details: generationModeResult.error.flatten(),
+        });
+        return;
+      }
+
       // Process files - use docling for large files or document formats
       const inputDataPromises = files.map(async (file, index) => {
         const fileSize = file.buffer.length;
@@ -92,7 +277,11 @@ export class ReportController {
         // Check if file is an image
         const isImage = file.mimetype.startsWith('image/');
 
-        const shouldUseDocling = useDocling && (fileSize > chunkSizeBytes || isDocumentFormat);
+        // Structured files are parsed (or streamed) by the profiler whatever their size
+        const shouldUseDocling =
+          useDocling &&
+          !structuredFormatOf(file) &&
+          (fileSize > chunkSizeBytes || isDocumentFormat);
 
         // Initialize processing status for tracking
         if (shouldUseDocling) {
@@ -117,7 +306,7 @@ export class ReportController {
               `Docling processing failed for ${file.originalname}, falling back to direct processing`
             );
             // Fallback to direct processing
-            return this.convertFileToInputData(file);
+            return this.convertFileToInputData(file, reportId, index, uploadOptions);
           }
 
           // Convert docling chunks to InputData
@@ -140,7 +329,7 @@ export class ReportController {
           };
         } else {
           // Process small files directly
-          return this.convertFileToInputData(file);
+          return this.convertFileToInputData(file, reportId, index, uploadOptions);
         }
       });
 
@@ -164,10 +353,22 @@ export class ReportController {
         style: req.body.style ?? config.report.defaultStyle,
         outputFormats,
         branding: req.body.branding ? JSON.parse(req.body.branding) : undefined,
+        factCheck: factCheckResult.data,
+        generationMode: generationModeResult.data,
+        chartCommentary: req.body.chartCommentary === 'true',
+        coverImage: coverImageResult.data,
+        strictQuality: req.body.strictQuality === 'true',
+        pii: piiResult.data,
+        bypassCache: req.body.bypassCache === 'true',
       };
 
       // Start the workflow
-      const { reportId, workflowId } = await startReportGeneration(inputData, reportConfig);
+      const { workflowId } = await startReportGeneration(
+        inputData,
+        reportConfig,
+        relationsResult.data,
+        reportId
+      );
 
       logger.info(`Report generation started from upload: ${reportId}`);
 
@@ -191,28 +392,14 @@ export class ReportController {
   /**
    * Convert a file to InputData format (for small files processed directly)
    */
-  private convertFileToInputData(file: Express.Multer.File): InputData {
-    const isJson = file.mimetype === 'application/json';
-    const isCsv = file.mimetype === 'text/csv';
-    const isExcel =
-      file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-      file.mimetype === 'application/vnd.ms-excel';
-
-    if (isExcel) {
-      // Excel files are binary - encode as base64
-      return {
-        type: 'structured' as const,
-        format: 'xlsx' as const,
-        data: file.buffer.toString('base64'),
-      };
-    } else if (isJson || isCsv) {
-      const content = file.buffer.toString('utf-8');
-      return {
-        type: 'structured' as const,
-        format: isJson ? ('json' as const) : ('csv' as const),
-        data: content,
-      };
-    } else {
+  private async convertFileToInputData(
+    file: Express.Multer.File,
+    reportId: string,
+    index: number,
+    options: UploadOptions
+  ): Promise<InputData> {
+    const format = structuredFormatOf(file);
+    if (!format) {
       const content = file.buffer.toString('utf-8');
       return {
         type: 'unstructured' as const,
@@ -220,6 +407,34 @@ export class ReportController {
         content,
       };
     }
+
+    const structured = {
+      type: 'structured' as const,
+      format,
+      schemaHints: options.schemaHints,
+      // Datasets are named after their file so relations can refer to them
+      name: file.originalname.replace(/\.[^.]+$/, ''),
+      ...(format === 'xlsx' && { sheets: options.sheets }),
+      ...(format === 'csv' && { delimiter: options.delimiter }),
+      ...(format === 'sqlite' && { query: options.query }),
+      transforms: options.transforms,
+      qualityRules: options.qualityRules,
+    };
+
+    const streamable = STREAMABLE_FORMATS.includes(format);
+    if (file.buffer.length > config.report.streamingThresholdMB * 1024 * 1024) {
+      // Only a reference travels through the workflow; the profiler streams text formats
+      // and reads binary ones from storage itself
+      const filename = `dataset-${index}.${format}`;
+      await storage.saveUpload(reportId, filename, file.buffer);
+      logger.info(
+        `Stored ${file.originalname} for ${streamable ? 'streaming' : 'profiling'} as ${reportId}/${filename}`
+      );
+      return { ...structured, upload: { reportId, filename } };
+    }
+
+    // Text formats are passed as text, binary formats are encoded as base64
+    return { ...structured, data: file.buffer.toString(streamable ? 'utf-8' : 'base64') };
   }
 
   /**
@@ -235,7 +450,11 @@ export class ReportController {
 
       // Get workflow status
       const workflowStatus = await getWorkflowStatus(workflowId);
-      const workflowInfo = await getWorkflowInfo(workflowId);
+      const workflowInfo = await getWorkflowInfo(workflowId).catch((error: unknown) => {
+        // Without stored data we can't tell a missing report from an unreachable Temporal
+        if (!storedReport) throw error;
+        return null;
+      });
 
       if (!storedReport && !workflowInfo) {
         res.status(404).json({ error: 'Report not found' });
@@ -386,6 +605,110 @@ export class ReportController {
     }
   }
 
+  /**
+   * Retry a report, skipping steps that already completed
+   */
+  async retry(req: Request, res: Response): Promise<void> {
+    try {
+      const { reportId } = req.params;
+      const fromStep = req.body?.fromStep as ReportStatus | undefined;
+
+      const result = await retryReportGeneration(reportId, fromStep);
+
+      if (!result) {
+        res.status(404).json({ error: 'Original request not found for this report' });
+        return;
+      }
+
+      logger.info(`Report retry started: ${reportId}`, { fromStep });
+
+      res.status(202).json({
+        reportId: result.reportId,
+        workflowId: result.workflowId,
+        status: 'QUEUED',
+        fromStep: fromStep ?? null,
+        statusUrl: `/reports/${reportId}`,
+        message: 'Report retry started',
+      });
+    } catch (error) {
+      if (error instanceof WorkflowExecutionAlreadyStartedError) {
+        res.status(409).json({ error: 'Report generation is still running' });
+        return;
+      }
+      logger.error('Failed to retry report', { error });
+      res.status(500).json({
+        error: 'Failed to retry report',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Stream report progress as Server-Sent Events
+   * Serves both /reports/:reportId/events and /reports/events?ids=a,b,c
+   */
+  streamEvents(req: Request, res: Response): void {
+    const reportIds = req.params.reportId
+      ? [req.params.reportId]
+      : [
+          ...new Set(
+            String(req.query.ids)
+              .split(',')
+              .map(id => id.trim())
+              .filter(Boolean)
+          ),
+        ];
+
+    if (reportIds.length > SSE_MAX_REPORTS) {
+      res.status(400).json({
+        error: `Too many report IDs: at most ${SSE_MAX_REPORTS} can be streamed at once`,
+      });
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+    const pending = new Set(reportIds);
+    const unsubscribers: (() => void)[] = [];
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+
+    const close = () => {
+      clearInterval(keepAlive);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      unsubscribers.length = 0;
+    };
+
+    req.on('close', close);
+
+    for (const reportId of reportIds) {
+      unsubscribers.push(
+        reportEventHub.subscribe(reportId, event => {
+          res.write(
+            `event: ${event.event}\ndata: ${JSON.stringify({ reportId, ...event.data })}\n\n`
+          );
+
+          if (ReportEventHub.isTerminal(event)) {
+            pending.delete(reportId);
+            if (pending.size === 0) {
+              res.write('event: end\ndata: {}\n\n');
+              close();
+              res.end();
+            }
+          }
+        })
+      );
+    }
+
+    logger.debug('Report event stream opened', { reportIds });
+  }
+
   /**
    * Wait for report completion
    */
@@ -428,12 +751,28 @@ export class ReportController {
 
       const { requests } = parseResult.data;
 
+      const sectionErrors = requests
+        .map((request, index) => ({
+          index,
+          errors: validateSectionSelection(
+            request.config.style,
+            request.config.sectionsToInclude,
+            request.config.sectionsToExclude
+          ),
+        }))
+        .filter(result => result.errors.length > 0);
+      if (sectionErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid sections', details: sectionErrors });
+        return;
+      }
+
       // Start all workflows
       const results = await Promise.allSettled(
         requests.map(async request => {
           const { reportId, workflowId } = await startReportGeneration(
             request.data,
-            request.config
+            request.config,
+            request.relations
           );
           return { reportId, workflowId, title: request.config.title };
         })
@@ -474,6 +813,28 @@ export class ReportController {
     }
   }
 
+  /**
+   * Get the webhook delivery log for a report
+   */
+  async getWebhookDeliveries(req: Request, res: Response): Promise<void> {
+    try {
+      const { reportId } = req.params;
+      const deliveries = await webhookService.getDeliveries(reportId);
+
+      res.json({
+        reportId,
+        count: deliveries.length,
+        deliveries,
+      });
+    } catch (error) {
+      logger.error('Failed to get webhook deliveries', { error });
+      res.status(500).json({
+        error: 'Failed to get webhook deliveries',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Get cost metrics for a report
    */
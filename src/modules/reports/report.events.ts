@@ -0,0 +1,202 @@
+import { createModuleLogger } from '../../core/index.js';
+import { storage } from '../../services/index.js';
+import type { Report, ReportFile } from '../../shared/types/index.js';
+import { getWorkflowInfo, getWorkflowStatus } from '../../temporal/client.js';
+import type { WorkflowState } from '../../temporal/workflows/index.js';
+
+const logger = createModuleLogger('report-events');
+
+// How often each watched report is polled against Temporal (shared by all subscribers)
+const POLL_INTERVAL_MS = 1000;
+
+export interface ReportStateEvent {
+  reportId: string;
+  event: 'state';
+  data: WorkflowState;
+}
+
+export interface ReportHeartbeatEvent {
+  reportId: string;
+  event: 'heartbeat';
+  data: {
+    activityType: string;
+    attempt: number;
+    details: unknown;
+  };
+}
+
+export interface ReportCompletedEvent {
+  reportId: string;
+  event: 'completed';
+  data: { files: ReportFile[] };
+}
+
+export interface ReportFailedEvent {
+  reportId: string;
+  event: 'failed';
+  data: { executionStatus?: string; error?: string };
+}
+
+export interface ReportNotFoundEvent {
+  reportId: string;
+  event: 'not_found';
+  data: Record<string, never>;
+}
+
+export type ReportEvent =
+  | ReportStateEvent
+  | ReportHeartbeatEvent
+  | ReportCompletedEvent
+  | ReportFailedEvent
+  | ReportNotFoundEvent;
+
+type ReportEventListener = (event: ReportEvent) => void;
+
+interface ReportWatcher {
+  listeners: Set<ReportEventListener>;
+  timer: NodeJS.Timeout;
+  polling: boolean;
+  lastState?: string;
+  lastHeartbeats: Map<string, string>;
+  // Replayed to late subscribers so they start from the current state
+  latest?: ReportStateEvent;
+}
+
+/**
+ * Report Event Hub - polls Temporal once per watched report and fans
+ * state transitions, heartbeats and the final files out to SSE subscribers
+ */
+export class ReportEventHub {
+  private readonly watchers = new Map<string, ReportWatcher>();
+
+  /**
+   * Subscribe to events for a report; returns an unsubscribe function.
+   * The watcher stops itself after emitting a terminal event.
+   */
+  subscribe(reportId: string, listener: ReportEventListener): () => void {
+    let watcher = this.watchers.get(reportId);
+
+    if (!watcher) {
+      watcher = {
+        listeners: new Set(),
+        timer: setInterval(() => void this.poll(reportId), POLL_INTERVAL_MS),
+        polling: false,
+        lastHeartbeats: new Map(),
+      };
+      this.watchers.set(reportId, watcher);
+      void this.poll(reportId);
+    } else if (watcher.latest) {
+      listener(watcher.latest);
+    }
+
+    watcher.listeners.add(listener);
+
+    return () => {
+      const current = this.watchers.get(reportId);
+      if (!current) return;
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        this.stop(reportId);
+      }
+    };
+  }
+
+  /**
+   * Check whether an event ends the stream for its report
+   */
+  static isTerminal(event: ReportEvent): boolean {
+    return event.event === 'completed' || event.event === 'failed' || event.event === 'not_found';
+  }
+
+  private async poll(reportId: string): Promise<void> {
+    const watcher = this.watchers.get(reportId);
+    if (!watcher || watcher.polling) return;
+
+    watcher.polling = true;
+    const workflowId = `report-${reportId}`;
+
+    try {
+      const [state, info] = await Promise.all([
+        getWorkflowStatus(workflowId),
+        getWorkflowInfo(workflowId),
+      ]);
+
+      if (state) {
+        const serialized = JSON.stringify(state);
+        if (serialized !== watcher.lastState) {
+          watcher.lastState = serialized;
+          watcher.latest = { reportId, event: 'state', data: state };
+          this.emit(reportId, watcher.latest);
+        }
+      }
+
+      for (const activity of info?.pendingActivities ?? []) {
+        if (activity.heartbeatDetails === undefined) continue;
+        const serialized = JSON.stringify([activity.attempt, activity.heartbeatDetails]);
+        if (serialized !== watcher.lastHeartbeats.get(activity.activityId)) {
+          watcher.lastHeartbeats.set(activity.activityId, serialized);
+          this.emit(reportId, {
+            reportId,
+            event: 'heartbeat',
+            data: {
+              activityType: activity.activityType,
+              attempt: activity.attempt,
+              details: activity.heartbeatDetails,
+            },
+          });
+        }
+      }
+
+      if (info?.status === 'RUNNING') return;
+
+      // Workflow closed (or confirmed not found) - emit the outcome from stored report data.
+      // Transient Temporal errors throw out of getWorkflowInfo and are retried on the next tick.
+      const report = (await storage.getReport(reportId)) as Report | null;
+
+      if (report?.status === 'COMPLETED') {
+        this.emit(reportId, { reportId, event: 'completed', data: { files: report.files ?? [] } });
+      } else if (info || report) {
+        this.emit(reportId, {
+          reportId,
+          event: 'failed',
+          data: {
+            executionStatus: info?.status,
+            error: report?.errorMessage ?? state?.error,
+          },
+        });
+      } else {
+        this.emit(reportId, { reportId, event: 'not_found', data: {} });
+      }
+
+      this.stop(reportId);
+    } catch (error) {
+      logger.debug(`Failed to poll report events: ${reportId}`, { error });
+    } finally {
+      watcher.polling = false;
+    }
+  }
+
+  private emit(reportId: string, event: ReportEvent): void {
+    const watcher = this.watchers.get(reportId);
+    if (!watcher) return;
+
+    for (const listener of watcher.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error(`Report event listener failed: ${reportId}`, { error });
+      }
+    }
+  }
+
+  private stop(reportId: string): void {
+    const watcher = this.watchers.get(reportId);
+    if (!watcher) return;
+
+    clearInterval(watcher.timer);
+    this.watchers.delete(reportId);
+  }
+}
+
+// Export singleton instance
+export const reportEventHub = new ReportEventHub();
@@ -8,6 +8,7 @@ import { config } from '../../core/index.js';
 import { BatchReportRequestSchema, CreateReportRequestSchema } from '../../shared/types/index.js';
 
 import { reportController } from './report.controller.js';
+import { STRUCTURED_MIME_TYPES, structuredFormatOf } from './upload-formats.js';
 
 const router = Router();
 
@@ -23,14 +24,10 @@ const upload = multer({
   },
   fileFilter: (_req, file, cb) => {
     const allowedMimes = [
-      // Structured data formats
-      'text/csv',
-      'application/json',
+      // Structured data formats (CSV, TSV, JSON, NDJSON, Excel, Parquet, SQLite)
+      ...STRUCTURED_MIME_TYPES,
       'text/plain',
       'text/markdown',
-      // Excel formats
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-      'application/vnd.ms-excel', // .xls
       // Document formats for docling processing
       'application/pdf',
       'application/msword', // .doc
@@ -48,7 +45,8 @@ const upload = multer({
       'image/webp',
       'image/svg+xml',
     ];
-    if (allowedMimes.includes(file.mimetype)) {
+    // Structured files sent as application/octet-stream are recognised by their extension
+    if (allowedMimes.includes(file.mimetype) || structuredFormatOf(file)) {
       cb(null, true);
     } else {
       cb(new Error(`Invalid file type: ${file.mimetype}`));
@@ -107,6 +105,15 @@ router.post(
     body('title').isString().trim().isLength({ min: 1, max: 200 }),
     body('style').optional().isIn(['business', 'research', 'technical']),
     body('outputFormats').optional().isString(),
+    body('schemaHints').optional().isJSON(),
+    body('sheets').optional().isString(),
+    body('relations').optional().isJSON(),
+    body('delimiter').optional().isString().isLength({ min: 1, max: 5 }),
+    body('query').optional().isString().isLength({ min: 1, max: 10000 }),
+    body('transforms').optional().isJSON(),
+    body('qualityRules').optional().isJSON(),
+    body('pii').optional().isJSON(),
+    body('coverImage').optional().isJSON(),
   ],
   validate,
   (req: Request, res: Response) => reportController.createFromUpload(req, res)
@@ -117,6 +124,16 @@ router.post(
 // ============================================================================
 router.get('/', (req: Request, res: Response) => reportController.list(req, res));
 
+// ============================================================================
+// GET /reports/events - Stream progress for several reports (SSE)
+// ============================================================================
+router.get(
+  '/events',
+  [query('ids').isString().trim().isLength({ min: 1 })],
+  validate,
+  (req: Request, res: Response) => reportController.streamEvents(req, res)
+);
+
 // ============================================================================
 // GET /reports/:reportId - Get report status
 // ============================================================================
@@ -140,6 +157,16 @@ router.get(
   (req: Request, res: Response) => reportController.downloadFile(req, res)
 );
 
+// ============================================================================
+// GET /reports/:reportId/events - Stream report progress (SSE)
+// ============================================================================
+router.get(
+  '/:reportId/events',
+  [param('reportId').isString().trim().isLength({ min: 1 })],
+  validate,
+  (req: Request, res: Response) => reportController.streamEvents(req, res)
+);
+
 // ============================================================================
 // POST /reports/:reportId/cancel - Cancel report generation
 // ============================================================================
@@ -150,6 +177,27 @@ router.post(
   (req: Request, res: Response) => reportController.cancel(req, res)
 );
 
+// ============================================================================
+// POST /reports/:reportId/retry - Resume a report from its last successful step
+// ============================================================================
+router.post(
+  '/:reportId/retry',
+  [
+    param('reportId').isString().trim().isLength({ min: 1 }),
+    body('fromStep')
+      .optional()
+      .isIn([
+        'DATA_PROFILING',
+        'INSIGHT_GENERATION',
+        'CHART_GENERATION',
+        'LAYOUT_RENDERING',
+        'EXPORTING',
+      ]),
+  ],
+  validate,
+  (req: Request, res: Response) => reportController.retry(req, res)
+);
+
 // ============================================================================
 // GET /reports/:reportId/wait - Wait for report completion
 // ============================================================================
@@ -170,6 +218,16 @@ router.get(
   (req: Request, res: Response) => reportController.getCosts(req, res)
 );
 
+// ============================================================================
+// GET /reports/:reportId/webhooks - Get webhook delivery log for a report
+// ============================================================================
+router.get(
+  '/:reportId/webhooks',
+  [param('reportId').isString().trim().isLength({ min: 1 })],
+  validate,
+  (req: Request, res: Response) => reportController.getWebhookDeliveries(req, res)
+);
+
 // ============================================================================
 // GET /reports/costs/aggregated - Get aggregated costs across all reports
 // ============================================================================
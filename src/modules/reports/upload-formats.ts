@@ -0,0 +1,52 @@
+import path from 'node:path';
+
+import type { StructuredFormat } from '../../shared/types/index.js';
+
+/**
+ * Structured formats by MIME type
+ */
+const FORMATS_BY_MIME: Record<string, StructuredFormat> = {
+  'application/json': 'json',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/jsonlines': 'ndjson',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel': 'xlsx',
+  'application/vnd.apache.parquet': 'parquet',
+  'application/x-parquet': 'parquet',
+  'application/vnd.sqlite3': 'sqlite',
+  'application/x-sqlite3': 'sqlite',
+};
+
+/**
+ * Clients rarely know MIME types for Parquet, NDJSON or SQLite and send
+ * application/octet-stream or text/plain, so the extension decides for those
+ */
+const FORMATS_BY_EXTENSION: Record<string, StructuredFormat> = {
+  '.ndjson': 'ndjson',
+  '.jsonl': 'ndjson',
+  '.tsv': 'tsv',
+  '.tab': 'tsv',
+  '.parquet': 'parquet',
+  '.sqlite': 'sqlite',
+  '.sqlite3': 'sqlite',
+  '.db': 'sqlite',
+};
+
+export const STRUCTURED_MIME_TYPES = Object.keys(FORMATS_BY_MIME);
+
+/**
+ * Structured format of an uploaded file, or undefined for documents, text and images
+ */
+export function structuredFormatOf(file: {
+  mimetype: string;
+  originalname: string;
+}): StructuredFormat | undefined {
+  const extension = path.extname(file.originalname).toLowerCase();
+  if (extension in FORMATS_BY_EXTENSION) {
+    return FORMATS_BY_EXTENSION[extension];
+  }
+  return FORMATS_BY_MIME[file.mimetype];
+}
@@ -0,0 +1,2 @@
+export { scheduleController, ScheduleController } from './schedule.controller.js';
+export { default as scheduleRoutes } from './schedule.routes.js';
@@ -0,0 +1,240 @@
+import type { Request, Response } from 'express';
+
+import { createModuleLogger } from '../../core/index.js';
+import { storage, validateSectionSelection } from '../../services/index.js';
+import type { Report } from '../../shared/types/index.js';
+import { CreateScheduleRequestSchema } from '../../shared/types/index.js';
+import {
+  createReportSchedule,
+  deleteReportSchedule,
+  getReportSchedule,
+  listReportSchedules,
+  pauseReportSchedule,
+  resumeReportSchedule,
+  triggerReportSchedule,
+} from '../../temporal/schedules.js';
+
+const logger = createModuleLogger('schedule-controller');
+
+/**
+ * Schedule Controller - handles recurring report schedules
+ */
+export class ScheduleController {
+  /**
+   * Create a new schedule
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const parseResult = CreateScheduleRequestSchema.safeParse(req.body);
+
+      if (!parseResult.success) {
+        res.status(400).json({
+          error: 'Invalid request body',
+          details: parseResult.error.flatten(),
+        });
+        return;
+      }
+
+      const { config } = parseResult.data.request;
+      const sectionErrors = validateSectionSelection(
+        config.style,
+        config.sectionsToInclude,
+        config.sectionsToExclude
+      );
+      if (sectionErrors.length > 0) {
+        res.status(400).json({ error: 'Invalid sections', details: sectionErrors });
+        return;
+      }
+
+      const schedule = await createReportSchedule(parseResult.data);
+
+      logger.info(`Schedule created: ${schedule.scheduleId}`);
+
+      res.status(201).json(schedule);
+    } catch (error) {
+      logger.error('Failed to create schedule', { error });
+      res.status(500).json({
+        error: 'Failed to create schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * List all schedules
+   */
+  async list(_req: Request, res: Response): Promise<void> {
+    try {
+      const schedules = await listReportSchedules();
+
+      res.json({
+        count: schedules.length,
+        schedules,
+      });
+    } catch (error) {
+      logger.error('Failed to list schedules', { error });
+      res.status(500).json({
+        error: 'Failed to list schedules',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Get schedule by ID
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+      const schedule = await getReportSchedule(scheduleId);
+
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.json(schedule);
+    } catch (error) {
+      logger.error('Failed to get schedule', { error });
+      res.status(500).json({
+        error: 'Failed to get schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Pause a schedule
+   */
+  async pause(req: Request, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+      const note = req.body?.note as string | undefined;
+
+      if (!(await pauseReportSchedule(scheduleId, note))) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.json({ message: 'Schedule paused', scheduleId });
+    } catch (error) {
+      logger.error('Failed to pause schedule', { error });
+      res.status(500).json({
+        error: 'Failed to pause schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Resume a paused schedule
+   */
+  async resume(req: Request, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+      const note = req.body?.note as string | undefined;
+
+      if (!(await resumeReportSchedule(scheduleId, note))) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.json({ message: 'Schedule resumed', scheduleId });
+    } catch (error) {
+      logger.error('Failed to resume schedule', { error });
+      res.status(500).json({
+        error: 'Failed to resume schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Start a run of the schedule now
+   */
+  async trigger(req: Request, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+
+      if (!(await triggerReportSchedule(scheduleId))) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.status(202).json({
+        message: 'Schedule run triggered',
+        scheduleId,
+        runsUrl: `/schedules/${scheduleId}/runs`,
+      });
+    } catch (error) {
+      logger.error('Failed to trigger schedule', { error });
+      res.status(500).json({
+        error: 'Failed to trigger schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * List reports generated by a schedule, newest first
+   */
+  async listRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+      const schedule = await getReportSchedule(scheduleId);
+
+      const reportIds = await storage.listReports();
+      const reports = await Promise.all(
+        reportIds.map(async id => (await storage.getReport(id)) as Report | null)
+      );
+
+      const runs = reports
+        .filter((report): report is Report => report?.scheduleId === scheduleId)
+        .sort((a, b) => (b.createdAt || b.updatedAt).localeCompare(a.createdAt || a.updatedAt));
+
+      // Reports outlive their schedule, so only 404 when neither exists
+      if (!schedule && runs.length === 0) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.json({
+        scheduleId,
+        count: runs.length,
+        runs,
+        recentActions: schedule?.recentRuns ?? [],
+      });
+    } catch (error) {
+      logger.error('Failed to list schedule runs', { error });
+      res.status(500).json({
+        error: 'Failed to list schedule runs',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Delete a schedule
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const { scheduleId } = req.params;
+
+      if (!(await deleteReportSchedule(scheduleId))) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.json({ message: 'Schedule deleted', scheduleId });
+    } catch (error) {
+      logger.error('Failed to delete schedule', { error });
+      res.status(500).json({
+        error: 'Failed to delete schedule',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const scheduleController = new ScheduleController();
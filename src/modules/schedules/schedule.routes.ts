@@ -0,0 +1,101 @@
+import type { NextFunction, Request, Response } from 'express';
+import { Router } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import type { z } from 'zod';
+
+import { CreateScheduleRequestSchema } from '../../shared/types/index.js';
+
+import { scheduleController } from './schedule.controller.js';
+
+const router = Router();
+
+// Validation middleware
+const validate = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  next();
+};
+
+// Zod validation middleware
+const validateZod = <T extends z.ZodTypeAny>(schema: T) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: result.error.flatten(),
+      });
+    }
+    req.body = result.data;
+    next();
+  };
+};
+
+const scheduleIdParam = param('scheduleId').isString().trim().isLength({ min: 1 });
+
+// ============================================================================
+// POST /schedules - Create a recurring report schedule
+// ============================================================================
+router.post('/', validateZod(CreateScheduleRequestSchema), (req: Request, res: Response) =>
+  scheduleController.create(req, res)
+);
+
+// ============================================================================
+// GET /schedules - List all schedules
+// ============================================================================
+router.get('/', (req: Request, res: Response) => scheduleController.list(req, res));
+
+// ============================================================================
+// GET /schedules/:scheduleId - Get schedule details
+// ============================================================================
+router.get('/:scheduleId', [scheduleIdParam], validate, (req: Request, res: Response) =>
+  scheduleController.getById(req, res)
+);
+
+// ============================================================================
+// DELETE /schedules/:scheduleId - Delete a schedule
+// ============================================================================
+router.delete('/:scheduleId', [scheduleIdParam], validate, (req: Request, res: Response) =>
+  scheduleController.delete(req, res)
+);
+
+// ============================================================================
+// POST /schedules/:scheduleId/pause - Pause a schedule
+// ============================================================================
+router.post(
+  '/:scheduleId/pause',
+  [scheduleIdParam, body('note').optional().isString().isLength({ max: 500 })],
+  validate,
+  (req: Request, res: Response) => scheduleController.pause(req, res)
+);
+
+// ============================================================================
+// POST /schedules/:scheduleId/resume - Resume a paused schedule
+// ============================================================================
+router.post(
+  '/:scheduleId/resume',
+  [scheduleIdParam, body('note').optional().isString().isLength({ max: 500 })],
+  validate,
+  (req: Request, res: Response) => scheduleController.resume(req, res)
+);
+
+// ============================================================================
+// POST /schedules/:scheduleId/trigger - Run a schedule now
+// ============================================================================
+router.post('/:scheduleId/trigger', [scheduleIdParam], validate, (req: Request, res: Response) =>
+  scheduleController.trigger(req, res)
+);
+
+// ============================================================================
+// GET /schedules/:scheduleId/runs - List reports generated by a schedule
+// ============================================================================
+router.get('/:scheduleId/runs', [scheduleIdParam], validate, (req: Request, res: Response) =>
+  scheduleController.listRuns(req, res)
+);
+
+export default router;
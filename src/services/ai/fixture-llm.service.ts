@@ -0,0 +1,269 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { createModuleLogger, type ILLMService } from '../../core/index.js';
+import type {
+  DataProfile,
+  GeneratedInsight,
+  GeneratedNarrative,
+  NarrativeSummary,
+  ProfileComparison,
+  ReportSection,
+  ReportStyle,
+} from '../../shared/types/index.js';
+import { getNarrativeSectionTemplates } from '../generators/styles.js';
+
+import { NarrativeValidationError, validateNarrative } from './narrative-validator.js';
+import { getCoverImagePrompt } from './prompts/index.js';
+
+const logger = createModuleLogger('fixture-llm-service');
+
+// 1x1 transparent PNG returned in place of generated images
+const PLACEHOLDER_IMAGE_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const MAX_KEY_FINDINGS = 7;
+
+/**
+ * Deterministic, network-free LLM provider.
+ *
+ * Narratives are read from `<fixturesPath>/narrative.<style>.json` or
+ * `<fixturesPath>/narrative.json` when present; otherwise they are built from the data
+ * profile, so the same input always produces the same report.
+ */
+export class FixtureLLMService implements ILLMService {
+  constructor(private readonly fixturesPath?: string) {}
+
+  /**
+   * Generate narrative content for the report
+   */
+  async generateNarrative(
+    dataProfile: DataProfile,
+    _parsedData: Record<string, unknown>[],
+    textContent: string[],
+    style: ReportStyle,
+    title: string,
+    _customInstructions?: string,
+    _reportId?: string,
+    comparison?: ProfileComparison,
+    sections?: ReportSection[]
+  ): Promise<GeneratedNarrative> {
+    const fixture = await this.loadNarrativeFixture(style);
+    if (fixture) {
+      return fixture;
+    }
+
+    const narrative: GeneratedNarrative = {
+      executiveSummary: this.buildExecutiveSummary(dataProfile, title, textContent, comparison),
+      sections: this.buildSections(dataProfile, style, sections),
+      recommendations: this.buildRecommendations(dataProfile),
+      keyFindings: this.buildKeyFindings(dataProfile, comparison),
+    };
+
+    logger.info(`Generated fixture narrative with ${narrative.sections.length} sections`);
+    return narrative;
+  }
+
+  /**
+   * Generate the executive summary, key findings and recommendations from finished sections
+   */
+  async generateNarrativeSummary(
+    dataProfile: DataProfile,
+    _parsedData: Record<string, unknown>[],
+    textContent: string[],
+    sections: GeneratedInsight[],
+    _style: ReportStyle,
+    title: string,
+    _customInstructions?: string,
+    _reportId?: string,
+    comparison?: ProfileComparison
+  ): Promise<NarrativeSummary> {
+    const summary = this.buildExecutiveSummary(dataProfile, title, textContent, comparison);
+    const covered =
+      sections.length > 0
+        ? `\n\nThe report covers ${sections.map(section => section.sectionTitle).join(', ')}.`
+        : '';
+
+    return {
+      executiveSummary: `${summary}${covered}`,
+      recommendations: this.buildRecommendations(dataProfile),
+      keyFindings: this.buildKeyFindings(dataProfile, comparison),
+    };
+  }
+
+  /**
+   * Generate section content individually (for longer reports)
+   */
+  async generateSectionContent(
+    sectionTitle: string,
+    sectionContext: string,
+    _style: ReportStyle,
+    previousSections: string[]
+  ): Promise<string> {
+    return `${sectionTitle} is based on the following context: ${sectionContext.slice(0, 200)}. It follows ${previousSections.length} earlier sections.`;
+  }
+
+  /**
+   * Generate chart explanation/analysis
+   */
+  async generateChartAnalysis(
+    chartTitle: string,
+    chartType: string,
+    dataDescription: string
+  ): Promise<string> {
+    const summary = dataDescription.split('\n').slice(0, 2).join(' ');
+    return `The ${chartType} chart "${chartTitle}" covers ${summary}`;
+  }
+
+  /**
+   * Generate an AI image for the report
+   */
+  async generateImage(): Promise<string> {
+    return PLACEHOLDER_IMAGE_BASE64;
+  }
+
+  /**
+   * Generate cover page description for AI image
+   */
+  async generateCoverImagePrompt(title: string, style: ReportStyle): Promise<string> {
+    return getCoverImagePrompt(title, style);
+  }
+
+  private async loadNarrativeFixture(style: ReportStyle): Promise<GeneratedNarrative | null> {
+    if (!this.fixturesPath) {
+      return null;
+    }
+
+    for (const filename of [`narrative.${style}.json`, 'narrative.json']) {
+      try {
+        const content = await readFile(path.join(this.fixturesPath, filename), 'utf-8');
+        const result = validateNarrative(content);
+        if (!result.success) {
+          throw new NarrativeValidationError(
+            `Narrative fixture ${filename} does not match the expected schema`,
+            result.issues
+          );
+        }
+
+        logger.info(`Using narrative fixture: ${filename}`);
+        return result.narrative;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private buildExecutiveSummary(
+    profile: DataProfile,
+    title: string,
+    textContent: string[],
+    comparison?: ProfileComparison
+  ): string {
+    const paragraphs = [
+      `"${title}" analyzes ${profile.rowCount.toLocaleString('en-US')} records across ${profile.columnCount} columns. The dataset has a data quality score of ${profile.dataQualityScore}/100.`,
+    ];
+
+    const numeric = profile.columns.filter(col => col.type === 'numeric');
+    if (numeric.length > 0) {
+      paragraphs.push(
+        `Numeric measures include ${numeric.map(col => col.name).join(', ')}. ${this.describeColumn(numeric[0])}`
+      );
+    }
+
+    if (comparison && comparison.highlights.length > 0) {
+      paragraphs.push(
+        `Compared with ${comparison.label}: ${comparison.highlights.slice(0, 3).join('; ')}.`
+      );
+    }
+
+    if (textContent.length > 0) {
+      paragraphs.push(`${textContent.length} supporting document(s) were provided as context.`);
+    }
+
+    return paragraphs.join('\n\n');
+  }
+
+  private buildSections(
+    profile: DataProfile,
+    style: ReportStyle,
+    sections?: ReportSection[]
+  ): GeneratedInsight[] {
+    const body = profile.columns.map(col => this.describeColumn(col)).join('\n\n');
+
+    if (sections) {
+      return getNarrativeSectionTemplates(style, sections).map((template, index) => ({
+        sectionId: template.id,
+        sectionTitle: template.title,
+        content: `${template.promptHint ?? template.title} for this dataset.\n\n${body}`,
+        order: index + 1,
+      }));
+    }
+
+    const nullCount = profile.columns.reduce((sum, col) => sum + col.nullCount, 0);
+
+    return [
+      {
+        sectionId: 'dataset-overview',
+        sectionTitle: 'Dataset Overview',
+        content: `The dataset contains ${profile.rowCount} rows and ${profile.columnCount} columns: ${profile.columns.map(col => `${col.name} (${col.type})`).join(', ')}.`,
+        order: 1,
+      },
+      {
+        sectionId: 'column-analysis',
+        sectionTitle: 'Column Analysis',
+        content: body || 'No columns were detected in the input data.',
+        order: 2,
+      },
+      {
+        sectionId: 'data-quality',
+        sectionTitle: 'Data Quality',
+        content: `The data quality score is ${profile.dataQualityScore}/100 with ${nullCount} missing values in total.`,
+        order: 3,
+      },
+    ];
+  }
+
+  private buildKeyFindings(profile: DataProfile, comparison?: ProfileComparison): string[] {
+    const findings = [
+      ...(comparison?.highlights ?? []),
+      ...profile.columns
+        .filter(col => col.type === 'numeric' || (col.topValues?.length ?? 0) > 0)
+        .map(col => this.describeColumn(col)),
+    ];
+
+    return findings.length > 0
+      ? findings.slice(0, MAX_KEY_FINDINGS)
+      : [`The dataset contains ${profile.rowCount} records.`];
+  }
+
+  private buildRecommendations(profile: DataProfile): string[] {
+    const recommendations = ['Review the key findings with the owners of each metric.'];
+
+    const incomplete = profile.columns.filter(col => col.nullCount > 0);
+    if (incomplete.length > 0) {
+      recommendations.push(
+        `Fill in missing values for ${incomplete.map(col => col.name).join(', ')}.`
+      );
+    }
+
+    recommendations.push('Track these metrics over time to confirm the trends.');
+    return recommendations;
+  }
+
+  private describeColumn(col: DataProfile['columns'][number]): string {
+    if (col.type === 'numeric' && col.mean !== undefined) {
+      return `${col.name} averages ${col.mean.toFixed(2)} (range ${col.min ?? 'n/a'} to ${col.max ?? 'n/a'}).`;
+    }
+
+    const top = col.topValues?.at(0);
+    if (top) {
+      return `The most common ${col.name} is "${top.value}" with ${top.count} records.`;
+    }
+
+    return `${col.name} has ${col.uniqueCount} distinct values.`;
+  }
+}
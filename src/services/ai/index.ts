@@ -1,15 +1,29 @@
 import { createSingleton, type ILLMService } from '../../core/index.js';
 
-import { OpenAIService } from './openai.service.js';
+import { createLLMService } from './llm-registry.js';
 
 /**
- * Get the singleton OpenAI service instance
+ * Get the singleton LLM service for the configured provider (LLM_PROVIDER)
  */
-export const getOpenAIService = createSingleton<ILLMService>(() => new OpenAIService());
+export const getLLMService = createSingleton<ILLMService>(() => createLLMService());
 
 /**
- * Convenience export for backward compatibility
+ * Convenience export for the configured provider
  */
-export const openaiService = getOpenAIService();
+export const llmService = getLLMService();
 
-export { OpenAIService } from './openai.service.js';
+export { FixtureLLMService } from './fixture-llm.service.js';
+export {
+  createLLMService,
+  listLLMProviders,
+  registerLLMProvider,
+  type LLMProviderFactory,
+} from './llm-registry.js';
+export {
+  NarrativeValidationError,
+  validateNarrative,
+  validateNarrativeSummary,
+  type NarrativeValidationResult,
+} from './narrative-validator.js';
+export { OpenAIService, type OpenAIServiceOptions } from './openai.service.js';
+export { buildComparisonContext, buildDataContext, describeChartData } from './prompts/index.js';
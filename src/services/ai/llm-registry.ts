@@ -0,0 +1,56 @@
+import { config, createModuleLogger, type ILLMService } from '../../core/index.js';
+
+import { FixtureLLMService } from './fixture-llm.service.js';
+import { OpenAIService } from './openai.service.js';
+
+const logger = createModuleLogger('llm-registry');
+
+export type LLMProviderFactory = () => ILLMService;
+
+/**
+ * LLM providers selectable through LLM_PROVIDER
+ */
+const providers = new Map<string, LLMProviderFactory>([
+  ['openai', () => new OpenAIService({ model: config.llm.model })],
+  [
+    'openai-compatible',
+    () =>
+      new OpenAIService({
+        baseURL: config.llm.baseUrl,
+        // Most local servers ignore the key, but the client refuses to start without one
+        apiKey: config.llm.apiKey ?? 'not-needed',
+        model: config.llm.model,
+        trackCosts: false,
+      }),
+  ],
+  ['fixture', () => new FixtureLLMService(config.llm.fixturesPath)],
+]);
+
+/**
+ * Register an additional provider, or replace a built-in one
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function listLLMProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Create an LLM service for a provider (defaults to the configured one)
+ */
+export function createLLMService(provider: string = config.llm.provider): ILLMService {
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(
+      `Unknown LLM provider: ${provider} (registered: ${listLLMProviders().join(', ')})`
+    );
+  }
+
+  logger.info(`Using LLM provider: ${provider}`);
+  return factory();
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateNarrative, validateNarrativeSummary } from './narrative-validator.js';
+
+const narrative = {
+  executiveSummary: 'Revenue grew.',
+  sections: [
+    { sectionId: 'overview', sectionTitle: 'Overview', content: 'Text', order: 0 },
+    { sectionId: 'trends', sectionTitle: 'Trends', content: 'Text', order: 1 },
+  ],
+  recommendations: ['Expand North'],
+  keyFindings: ['North leads'],
+};
+
+describe('validateNarrative', () => {
+  it('returns the parsed narrative when it matches the schema', () => {
+    expect(validateNarrative(JSON.stringify(narrative))).toEqual({
+      success: true,
+      narrative,
+    });
+  });
+
+  it('reports output that is not JSON', () => {
+    const result = validateNarrative('Here is your report: {');
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues[0]).toMatch(/^Response is not valid JSON: /);
+  });
+
+  it('lists every schema issue with its path', () => {
+    const result = validateNarrative(
+      JSON.stringify({
+        ...narrative,
+        executiveSummary: '',
+        sections: [{ ...narrative.sections[0], order: -1 }],
+        keyFindings: undefined,
+      })
+    );
+
+    expect(result).toEqual({
+      success: false,
+      issues: [
+        'executiveSummary: String must contain at least 1 character(s)',
+        'sections.0.order: Number must be greater than or equal to 0',
+        'keyFindings: Required',
+      ],
+    });
+  });
+
+  it('names the root when the response is not an object', () => {
+    expect(validateNarrative('[]')).toEqual({
+      success: false,
+      issues: ['(root): Expected object, received array'],
+    });
+  });
+
+  it('requires every expected section', () => {
+    expect(validateNarrative(JSON.stringify(narrative), ['overview', 'trends'])).toMatchObject({
+      success: true,
+    });
+    expect(validateNarrative(JSON.stringify(narrative), ['overview', 'risks', 'outlook'])).toEqual({
+      success: false,
+      issues: [
+        'sections: missing section with sectionId "risks"',
+        'sections: missing section with sectionId "outlook"',
+      ],
+    });
+  });
+});
+
+describe('validateNarrativeSummary', () => {
+  it('accepts the narrative frame without sections', () => {
+    const summary = {
+      executiveSummary: narrative.executiveSummary,
+      recommendations: narrative.recommendations,
+      keyFindings: narrative.keyFindings,
+    };
+    expect(validateNarrativeSummary(JSON.stringify(summary))).toEqual({
+      success: true,
+      narrative: summary,
+    });
+  });
+
+  it('rejects a summary with empty findings', () => {
+    const result = validateNarrativeSummary(
+      JSON.stringify({ executiveSummary: 'x', recommendations: [], keyFindings: [''] })
+    );
+    expect(result).toEqual({
+      success: false,
+      issues: ['keyFindings.0: String must contain at least 1 character(s)'],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { z } from 'zod';
+
+import {
+  GeneratedNarrativeSchema,
+  NarrativeSummarySchema,
+  type GeneratedNarrative,
+  type NarrativeSummary,
+} from '../../shared/types/index.js';
+
+/**
+ * Thrown when the LLM output still does not match GeneratedNarrativeSchema after all
+ * repair attempts. Activities surface it as a non-retryable failure.
+ */
+export class NarrativeValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[]
+  ) {
+    super(message);
+    this.name = 'NarrativeValidationError';
+  }
+}
+
+export type NarrativeValidationResult<T = GeneratedNarrative> =
+  | { success: true; narrative: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Parse and validate raw LLM output against the narrative schema.
+ * When expectedSectionIds is given, every listed section must be present.
+ */
+export function validateNarrative(
+  content: string,
+  expectedSectionIds?: string[]
+): NarrativeValidationResult {
+  const result = parseWithSchema(content, GeneratedNarrativeSchema);
+  if (!result.success) {
+    return result;
+  }
+
+  const returnedIds = new Set(result.narrative.sections.map(section => section.sectionId));
+  const missing = (expectedSectionIds ?? []).filter(id => !returnedIds.has(id));
+  if (missing.length > 0) {
+    return {
+      success: false,
+      issues: missing.map(id => `sections: missing section with sectionId "${id}"`),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Parse and validate the summary written after the sections in long generation mode
+ */
+export function validateNarrativeSummary(
+  content: string
+): NarrativeValidationResult<NarrativeSummary> {
+  return parseWithSchema(content, NarrativeSummarySchema);
+}
+
+function parseWithSchema<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): NarrativeValidationResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    return { success: false, issues: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.issues.map(
+        issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+      ),
+    };
+  }
+
+  return { success: true, narrative: result.data };
+}
@@ -0,0 +1,245 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ICacheService } from '../../core/index.js';
+import type { DataProfile, GeneratedNarrative } from '../../shared/types/index.js';
+
+import { NarrativeValidationError } from './narrative-validator.js';
+import { OpenAIService } from './openai.service.js';
+
+const { config, create, logger, trackOpenAIUsage } = vi.hoisted(() => ({
+  config: {
+    openai: { apiKey: 'test', model: 'gpt-test', imageModel: 'image-test' },
+    llm: {
+      maxTokens: 4000,
+      temperature: 0.3,
+      maxRepairAttempts: 2,
+      sectionMaxTokens: 1000,
+      cacheEnabled: false,
+      cacheTtl: 60,
+    },
+  },
+  create: vi.fn(),
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+  trackOpenAIUsage: vi.fn(),
+}));
+
+vi.mock('../../core/index.js', () => ({ config, createModuleLogger: () => logger }));
+vi.mock('../../core/logger/index.js', () => ({ logger, createModuleLogger: () => logger }));
+vi.mock('../cache/index.js', () => ({ cacheService: {} }));
+vi.mock('../cost/index.js', () => ({ costTracker: { trackOpenAIUsage } }));
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create } };
+  },
+}));
+
+interface Message {
+  role: string;
+  content: string;
+}
+
+const profile: DataProfile = {
+  rowCount: 2,
+  columnCount: 1,
+  columns: [{ name: 'revenue', type: 'numeric', nullCount: 0, uniqueCount: 2, min: 1, max: 2 }],
+  dataQualityScore: 100,
+  suggestedCharts: [],
+};
+
+const narrative: GeneratedNarrative = {
+  executiveSummary: 'Revenue doubled.',
+  sections: [{ sectionId: 'overview', sectionTitle: 'Overview', content: 'Text', order: 0 }],
+  recommendations: ['Keep going'],
+  keyFindings: ['Revenue went from 1 to 2'],
+};
+
+// Replies in order; the messages of each request are copied, as the service extends them
+const reply = (...contents: string[]) => {
+  const requests: Message[][] = [];
+  for (const content of contents) {
+    create.mockImplementationOnce((request: { messages: Message[] }) => {
+      requests.push([...request.messages]);
+      return Promise.resolve({
+        choices: [{ message: { content } }],
+        usage: { prompt_tokens: 100, completion_tokens: 50 },
+      });
+    });
+  }
+  return requests;
+};
+
+// Map-backed cache that records the tags each entry was written with
+const memoryCache = () => {
+  const entries = new Map<string, { value: unknown; tags: string[] }>();
+  const cache = {
+    get: vi.fn((key: string) => Promise.resolve(entries.get(key)?.value ?? null)),
+    set: vi.fn((key: string, value: unknown, _ttl?: number, tags: string[] = []) => {
+      entries.set(key, { value: structuredClone(value), tags });
+      return Promise.resolve();
+    }),
+  };
+  return { cache: cache as unknown as ICacheService, entries };
+};
+
+const generate = (service: OpenAIService, reportId = 'rpt_1') =>
+  service.generateNarrative(
+    profile,
+    [{ revenue: 1 }],
+    [],
+    'business',
+    'Sales',
+    undefined,
+    reportId
+  );
+
+describe('OpenAIService', () => {
+  beforeEach(() => {
+    create.mockReset();
+    trackOpenAIUsage.mockReset();
+    config.llm.cacheEnabled = false;
+  });
+
+  describe('narrative repair', () => {
+    it('returns output that validates on the first attempt', async () => {
+      reply(JSON.stringify(narrative));
+
+      await expect(generate(new OpenAIService())).resolves.toEqual(narrative);
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create.mock.calls[0][0]).toMatchObject({ response_format: { type: 'json_object' } });
+    });
+
+    it('sends validation errors back to the model and returns the repaired output', async () => {
+      const invalid = JSON.stringify({ ...narrative, keyFindings: [] as string[], sections: 'x' });
+      const requests = reply(invalid, JSON.stringify(narrative));
+
+      await expect(generate(new OpenAIService())).resolves.toEqual(narrative);
+
+      const [first, second] = requests;
+      expect(second.slice(0, first.length)).toEqual(first);
+      expect(second[first.length]).toEqual({ role: 'assistant', content: invalid });
+      expect(second[first.length + 1].role).toBe('user');
+      expect(second[first.length + 1].content).toContain(
+        '- sections: Expected array, received string'
+      );
+    });
+
+    it('records the tokens of repair attempts as repairs', async () => {
+      reply('not json', JSON.stringify(narrative));
+      await generate(new OpenAIService());
+
+      expect(trackOpenAIUsage.mock.calls.map(([, usage]) => usage)).toEqual([
+        { promptTokens: 100, completionTokens: 50, repairAttempts: 0 },
+        { promptTokens: 100, completionTokens: 50, repairAttempts: 1 },
+      ]);
+    });
+
+    it('gives up after the configured number of repairs with the last issues', async () => {
+      reply('not json', '[]', JSON.stringify({ ...narrative, executiveSummary: '' }));
+
+      const error = await generate(new OpenAIService()).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(NarrativeValidationError);
+      expect(error).toMatchObject({
+        message: 'Narrative did not match the expected schema after 3 attempts',
+        issues: ['executiveSummary: String must contain at least 1 character(s)'],
+      });
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not track costs for self-hosted models', async () => {
+      reply(JSON.stringify(narrative));
+      await generate(new OpenAIService({ trackCosts: false }));
+
+      expect(trackOpenAIUsage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('response cache', () => {
+    beforeEach(() => {
+      config.llm.cacheEnabled = true;
+    });
+
+    it('serves a repeated prompt from the cache and counts hits and misses', async () => {
+      const { cache } = memoryCache();
+      const service = new OpenAIService({ cache });
+      reply(JSON.stringify(narrative));
+
+      await expect(generate(service)).resolves.toEqual(narrative);
+      await expect(generate(service)).resolves.toEqual(narrative);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(trackOpenAIUsage.mock.calls.map(([, usage]) => usage)).toEqual([
+        { promptTokens: 100, completionTokens: 50, repairAttempts: 0 },
+        { cacheMisses: 1 },
+        { cacheHits: 1 },
+      ]);
+    });
+
+    it('keys entries by prompt fingerprint and tags them by kind, model and report', async () => {
+      const { cache, entries } = memoryCache();
+      reply(JSON.stringify(narrative));
+      await generate(new OpenAIService({ cache }));
+
+      const [[key, entry]] = [...entries];
+      expect(key).toMatch(/^llm:narrative:[0-9a-f]{64}$/);
+      expect(entry.tags).toEqual(['llm:narrative', 'model:gpt-test', 'report:rpt_1']);
+      expect(cache.set).toHaveBeenCalledWith(key, narrative, 60, entry.tags);
+    });
+
+    it('does not share entries between different prompts', async () => {
+      const { cache, entries } = memoryCache();
+      const service = new OpenAIService({ cache });
+      reply(JSON.stringify(narrative), JSON.stringify(narrative));
+
+      await generate(service);
+      await service.generateNarrative(profile, [{ revenue: 1 }], [], 'business', 'Costs');
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(entries.size).toBe(2);
+    });
+
+    it('regenerates and refreshes the entry when the cache is bypassed', async () => {
+      const { cache, entries } = memoryCache();
+      const service = new OpenAIService({ cache });
+      const regenerated = { ...narrative, executiveSummary: 'Revenue tripled.' };
+      reply(JSON.stringify(narrative), JSON.stringify(regenerated));
+
+      await generate(service);
+      const result = await service.generateNarrative(
+        profile,
+        [{ revenue: 1 }],
+        [],
+        'business',
+        'Sales',
+        undefined,
+        'rpt_1',
+        undefined,
+        undefined,
+        true
+      );
+
+      expect(result).toEqual(regenerated);
+      expect(cache.get).toHaveBeenCalledTimes(1);
+      expect([...entries.values()].map(entry => entry.value)).toEqual([regenerated]);
+    });
+
+    it('does not cache invalid output that could not be repaired', async () => {
+      const { cache, entries } = memoryCache();
+      reply('not json', 'not json', 'not json');
+
+      await expect(generate(new OpenAIService({ cache }))).rejects.toThrow(
+        NarrativeValidationError
+      );
+      expect(entries.size).toBe(0);
+    });
+
+    it('leaves the cache alone when caching is disabled', async () => {
+      config.llm.cacheEnabled = false;
+      const { cache } = memoryCache();
+      reply(JSON.stringify(narrative));
+      await generate(new OpenAIService({ cache }));
+
+      expect(cache.get).not.toHaveBeenCalled();
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,16 +1,39 @@
-/* eslint-disable @typescript-eslint/no-unnecessary-condition */
-
 import OpenAI from 'openai';
 
-import { config, createModuleLogger, type ILLMService } from '../../core/index.js';
-import type { DataProfile, GeneratedNarrative, ReportStyle } from '../../shared/types/index.js';
-import { toonUtils } from '../../shared/utils/index.js';
+import {
+  config,
+  createModuleLogger,
+  type ICacheService,
+  type ILLMService,
+} from '../../core/index.js';
+import type {
+  DataProfile,
+  GeneratedInsight,
+  GeneratedNarrative,
+  NarrativeSummary,
+  ProfileComparison,
+  ReportSection,
+  ReportStyle,
+} from '../../shared/types/index.js';
+import { cacheService } from '../cache/index.js';
 import { costTracker } from '../cost/index.js';
+import { getNarrativeSectionTemplates } from '../generators/styles.js';
 
 import {
+  NarrativeValidationError,
+  validateNarrative,
+  validateNarrativeSummary,
+  type NarrativeValidationResult,
+} from './narrative-validator.js';
+import { fingerprintPrompt, type PromptFingerprintInput } from './prompt-fingerprint.js';
+import {
+  buildComparisonContext,
+  buildDataContext,
   getChartAnalysisPrompt,
   getCoverImagePrompt,
   getImageGenerationPrompt,
+  getNarrativeRepairPrompt,
+  getNarrativeSummaryPrompt,
   getNarrativeUserPrompt,
   getSectionContentPrompt,
   getSystemPrompt,
@@ -18,15 +41,34 @@ import {
 
 const logger = createModuleLogger('openai-service');
 
+export interface OpenAIServiceOptions {
+  apiKey?: string;
+  // Point at any OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...)
+  baseURL?: string;
+  model?: string;
+  imageModel?: string;
+  // Costs are estimated with OpenAI pricing, so they are skipped for self-hosted models
+  trackCosts?: boolean;
+  // Where narrative responses are cached (defaults to the shared Redis/memory cache)
+  cache?: ICacheService;
+}
+
 export class OpenAIService implements ILLMService {
   private readonly client: OpenAI;
   private readonly model: string;
   private readonly imageModel: string;
+  private readonly trackCosts: boolean;
+  private readonly cache: ICacheService;
 
-  constructor() {
-    this.client = new OpenAI({ apiKey: config.openai.apiKey });
-    this.model = config.openai.model;
-    this.imageModel = config.openai.imageModel;
+  constructor(options: OpenAIServiceOptions = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? config.openai.apiKey,
+      baseURL: options.baseURL,
+    });
+    this.model = options.model ?? config.openai.model;
+    this.imageModel = options.imageModel ?? config.openai.imageModel;
+    this.trackCosts = options.trackCosts ?? true;
+    this.cache = options.cache ?? cacheService;
   }
 
   /**
@@ -39,46 +81,76 @@ export class OpenAIService implements ILLMService {
     style: ReportStyle,
     title: string,
     customInstructions?: string,
-    reportId?: string
+    reportId?: string,
+    comparison?: ProfileComparison,
+    sections?: ReportSection[],
+    bypassCache?: boolean
   ): Promise<GeneratedNarrative> {
-    const dataContext = this.buildDataContext(dataProfile, parsedData, textContent);
-
-    const systemPrompt = getSystemPrompt(style, title, customInstructions);
-    const userPrompt = getNarrativeUserPrompt(dataContext, style);
-
-    try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: config.llm.temperature,
-        max_tokens: config.llm.maxTokens,
-        response_format: { type: 'json_object' },
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('Empty response from OpenAI');
-      }
-
-      // Track costs
-      if (response.usage && reportId) {
-        await costTracker.trackOpenAIUsage(reportId, {
-          promptTokens: response.usage.prompt_tokens,
-          completionTokens: response.usage.completion_tokens,
-        });
-      }
-
-      const parsed = JSON.parse(content) as GeneratedNarrative;
-      logger.info(`Generated narrative with ${parsed.sections.length} sections`);
+    const dataContext = buildDataContext(dataProfile, parsedData, textContent);
+    const comparisonContext = comparison ? buildComparisonContext(comparison) : undefined;
+    const sectionTemplates = sections ? getNarrativeSectionTemplates(style, sections) : undefined;
+    const expectedSectionIds = sectionTemplates?.map(template => template.id);
+
+    const messages = [
+      { role: 'system' as const, content: getSystemPrompt(style, title, customInstructions) },
+      {
+        role: 'user' as const,
+        content: getNarrativeUserPrompt(dataContext, style, comparisonContext, sectionTemplates),
+      },
+    ];
+
+    const narrative = await this.withCache(
+      'narrative',
+      this.fingerprintInput(messages, config.llm.maxTokens),
+      reportId,
+      bypassCache,
+      () =>
+        this.completeWithRepair(
+          messages,
+          content => validateNarrative(content, expectedSectionIds),
+          'Narrative',
+          reportId
+        )
+    );
+
+    logger.info(`Generated narrative with ${narrative.sections.length} sections`);
+    return narrative;
+  }
 
-      return this.validateAndCleanNarrative(parsed);
-    } catch (error) {
-      logger.error('Failed to generate narrative', { error });
-      throw new Error(`Narrative generation failed: ${error}`);
-    }
+  /**
+   * Generate the executive summary, key findings and recommendations from finished sections
+   */
+  async generateNarrativeSummary(
+    dataProfile: DataProfile,
+    parsedData: Record<string, unknown>[],
+    textContent: string[],
+    sections: GeneratedInsight[],
+    style: ReportStyle,
+    title: string,
+    customInstructions?: string,
+    reportId?: string,
+    comparison?: ProfileComparison,
+    bypassCache?: boolean
+  ): Promise<NarrativeSummary> {
+    const dataContext = buildDataContext(dataProfile, parsedData, textContent);
+    const comparisonContext = comparison ? buildComparisonContext(comparison) : undefined;
+
+    const messages = [
+      { role: 'system' as const, content: getSystemPrompt(style, title, customInstructions) },
+      {
+        role: 'user' as const,
+        content: getNarrativeSummaryPrompt(dataContext, style, sections, comparisonContext),
+      },
+    ];
+
+    return this.withCache(
+      'narrative-summary',
+      this.fingerprintInput(messages, config.llm.maxTokens),
+      reportId,
+      bypassCache,
+      () =>
+        this.completeWithRepair(messages, validateNarrativeSummary, 'Narrative summary', reportId)
+    );
   }
 
   /**
@@ -88,18 +160,45 @@ export class OpenAIService implements ILLMService {
     sectionTitle: string,
     sectionContext: string,
     style: ReportStyle,
-    previousSections: string[]
+    previousSections: string[],
+    reportId?: string,
+    bypassCache?: boolean
   ): Promise<string> {
-    const prompt = getSectionContentPrompt(sectionTitle, sectionContext, style, previousSections);
+    const messages = [
+      {
+        role: 'user' as const,
+        content: getSectionContentPrompt(sectionTitle, sectionContext, style, previousSections),
+      },
+    ];
+
+    return this.withCache(
+      'section',
+      this.fingerprintInput(messages, config.llm.sectionMaxTokens),
+      reportId,
+      bypassCache,
+      async () => {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages,
+          temperature: config.llm.temperature,
+          max_tokens: config.llm.sectionMaxTokens,
+        });
 
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: config.llm.temperature,
-      max_tokens: 1000,
-    });
+        if (response.usage && reportId && this.trackCosts) {
+          await costTracker.trackOpenAIUsage(reportId, {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+          });
+        }
 
-    return response.choices[0]?.message?.content ?? '';
+        const content = response.choices[0]?.message?.content?.trim();
+        if (!content) {
+          throw new Error(`Empty response for section "${sectionTitle}"`);
+        }
+
+        return content;
+      }
+    );
   }
 
   /**
@@ -108,7 +207,9 @@ export class OpenAIService implements ILLMService {
   async generateChartAnalysis(
     chartTitle: string,
     chartType: string,
-    dataDescription: string
+    dataDescription: string,
+    reportId?: string,
+    chartId?: string
   ): Promise<string> {
     const prompt = getChartAnalysisPrompt(chartTitle, chartType, dataDescription);
 
@@ -119,6 +220,14 @@ export class OpenAIService implements ILLMService {
       max_tokens: 500,
     });
 
+    if (response.usage && reportId && this.trackCosts) {
+      await costTracker.trackOpenAIUsage(reportId, {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        chartId,
+      });
+    }
+
     return response.choices[0]?.message?.content ?? '';
   }
 
@@ -145,7 +254,7 @@ export class OpenAIService implements ILLMService {
       }
 
       // Track image generation cost
-      if (reportId) {
+      if (reportId && this.trackCosts) {
         await costTracker.trackOpenAIUsage(reportId, {
           imagesGenerated: 1,
         });
@@ -167,105 +276,114 @@ export class OpenAIService implements ILLMService {
   }
 
   /**
-   * Build data context string for LLM using TOON format for efficiency
-   * TOON reduces token usage by ~40-60% compared to JSON
-   *
+   * Serve a response from the cache when the same prompt was answered before, otherwise
+   * generate and cache it. Hits and misses are recorded in the report's cost metrics.
    */
-  private buildDataContext(
-    dataProfile: DataProfile,
-    parsedData: Record<string, unknown>[],
-    textContent: string[]
-  ): string {
-    // Build metadata object
-    const metadata = {
-      rows: dataProfile.rowCount,
-      columns: dataProfile.columnCount,
-      qualityScore: dataProfile.dataQualityScore,
-    };
-
-    // Build column profiles in TOON-friendly format
-    const columnProfiles = dataProfile.columns.map(col => ({
-      name: col.name,
-      type: col.type,
-      ...(col.type === 'numeric' && {
-        min: col.min,
-        max: col.max,
-        mean: col.mean ? Number(col.mean.toFixed(2)) : undefined,
-        stdDev: col.stdDev ? Number(col.stdDev.toFixed(2)) : undefined,
-      }),
-      ...(col.uniqueCount && { unique: col.uniqueCount }),
-      ...(col.topValues &&
-        col.topValues.length > 0 && {
-          top: col.topValues.slice(0, 5).map(v => `${v.value}(${v.count})`),
-        }),
-      ...(col.nullCount && col.nullCount > 0 && { nulls: col.nullCount }),
-    }));
-
-    // Use TOON format for data context (more token-efficient)
-    let context = `DATASET METADATA (TOON format - compact data representation):
-\`\`\`toon
-${toonUtils.encode(metadata)}
-\`\`\`
-
-COLUMN PROFILES:
-\`\`\`toon
-${toonUtils.encode(columnProfiles)}
-\`\`\``;
-
-    // Sample data in TOON format
-    if (parsedData.length > 0) {
-      const sampleData = parsedData.slice(0, 5);
-      context += `
-
-SAMPLE DATA (first 5 rows):
-\`\`\`toon
-${toonUtils.encode(sampleData)}
-\`\`\``;
-
-      // Log token savings estimate
-      const jsonVersion = JSON.stringify(sampleData, null, 2);
-      const toonVersion = toonUtils.encode(sampleData);
-      const savings = toonUtils.estimateTokenSavings(jsonVersion, toonVersion);
-      logger.info(`TOON format saved ~${savings.percentage}% tokens for sample data`, {
-        jsonTokens: savings.jsonTokens,
-        toonTokens: savings.toonTokens,
-      });
+  private async withCache<T>(
+    kind: string,
+    prompt: PromptFingerprintInput,
+    reportId: string | undefined,
+    bypassCache: boolean | undefined,
+    generate: () => Promise<T>
+  ): Promise<T> {
+    if (!config.llm.cacheEnabled) {
+      return generate();
     }
 
-    // Chart suggestions if available
-    if (dataProfile.suggestedCharts && dataProfile.suggestedCharts.length > 0) {
-      context += `
+    const key = `llm:${kind}:${fingerprintPrompt(prompt)}`;
 
-SUGGESTED VISUALIZATIONS:
-\`\`\`toon
-${toonUtils.encode(dataProfile.suggestedCharts.slice(0, 5))}
-\`\`\``;
+    if (!bypassCache) {
+      const cached = await this.cache.get<T>(key);
+      if (cached !== null) {
+        logger.info(`Serving ${kind} from cache`, { key });
+        await this.trackCacheUsage(reportId, { cacheHits: 1 });
+        return cached;
+      }
     }
 
-    // Text content (keep as plain text for readability)
-    if (textContent.length > 0) {
-      context += '\n\nADDITIONAL CONTEXT:\n';
-      context += textContent.slice(0, 3).join('\n---\n');
-    }
+    const result = await generate();
+    // Tags allow purging everything a report produced, or everything written by one model
+    const tags = [
+      `llm:${kind}`,
+      `model:${this.model}`,
+      ...(reportId ? [`report:${reportId}`] : []),
+    ];
+    await this.cache.set(key, result, config.llm.cacheTtl, tags);
+    await this.trackCacheUsage(reportId, { cacheMisses: 1 });
+    return result;
+  }
 
-    return context;
+  private fingerprintInput(
+    messages: Array<{ role: string; content: string }>,
+    maxTokens: number
+  ): PromptFingerprintInput {
+    return { model: this.model, temperature: config.llm.temperature, maxTokens, messages };
+  }
+
+  private async trackCacheUsage(
+    reportId: string | undefined,
+    usage: { cacheHits?: number; cacheMisses?: number }
+  ): Promise<void> {
+    if (reportId && this.trackCosts) {
+      await costTracker.trackOpenAIUsage(reportId, usage);
+    }
   }
 
   /**
-   * Validate and clean narrative output
+   * Request JSON output and feed validation errors back to the model for a bounded number of
+   * repair attempts. Repair requests are recorded in the report's cost metrics.
    */
-  private validateAndCleanNarrative(narrative: GeneratedNarrative): GeneratedNarrative {
-    // Ensure all required fields exist
-    return {
-      executiveSummary: narrative.executiveSummary ?? 'Executive summary not available.',
-      sections: (narrative.sections ?? []).map((section, index) => ({
-        sectionId: section.sectionId ?? `section-${index + 1}`,
-        sectionTitle: section.sectionTitle ?? `Section ${index + 1}`,
-        content: section.content ?? '',
-        order: section.order ?? index + 1,
-      })),
-      recommendations: narrative.recommendations ?? [],
-      keyFindings: narrative.keyFindings ?? [],
-    };
+  private async completeWithRepair<T>(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    validate: (content: string) => NarrativeValidationResult<T>,
+    label: string,
+    reportId?: string
+  ): Promise<T> {
+    const maxAttempts = config.llm.maxRepairAttempts + 1;
+    let issues: string[] = [];
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const response = await this.client.chat.completions.create({
+          model: this.model,
+          messages,
+          temperature: config.llm.temperature,
+          max_tokens: config.llm.maxTokens,
+          response_format: { type: 'json_object' },
+        });
+
+        // Track costs, including the tokens spent on repair attempts
+        if (reportId && this.trackCosts) {
+          await costTracker.trackOpenAIUsage(reportId, {
+            promptTokens: response.usage?.prompt_tokens,
+            completionTokens: response.usage?.completion_tokens,
+            repairAttempts: attempt > 1 ? 1 : 0,
+          });
+        }
+
+        const content = response.choices[0]?.message?.content ?? '';
+        const result = validate(content);
+        if (result.success) {
+          logger.info(`${label} passed validation (attempt ${attempt})`);
+          return result.narrative;
+        }
+
+        ({ issues } = result);
+        logger.warn(`${label} failed validation (attempt ${attempt}/${maxAttempts})`, { issues });
+
+        messages.push(
+          { role: 'assistant', content },
+          { role: 'user', content: getNarrativeRepairPrompt(issues) }
+        );
+      }
+    } catch (error) {
+      logger.error(`${label} generation failed`, { error });
+      throw new Error(`${label} generation failed: ${error}`);
+    }
+
+    throw new NarrativeValidationError(
+      `${label} did not match the expected schema after ${maxAttempts} attempts`,
+      issues
+    );
   }
 }
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { fingerprintPrompt, type PromptFingerprintInput } from './prompt-fingerprint.js';
+
+const input: PromptFingerprintInput = {
+  model: 'gpt-4o',
+  temperature: 0.3,
+  maxTokens: 4000,
+  messages: [
+    { role: 'system', content: 'You write business reports.' },
+    { role: 'user', content: 'Rows: 24' },
+  ],
+};
+
+describe('fingerprintPrompt', () => {
+  it('is stable for the same input regardless of key order', () => {
+    const reordered: PromptFingerprintInput = {
+      messages: input.messages.map(({ content, role }) => ({ content, role })),
+      maxTokens: 4000,
+      temperature: 0.3,
+      model: 'gpt-4o',
+    };
+    expect(fingerprintPrompt(reordered)).toBe(fingerprintPrompt(input));
+    expect(fingerprintPrompt(input)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('changes with the model, temperature, token limit and every message', () => {
+    const fingerprint = fingerprintPrompt(input);
+    const variants: PromptFingerprintInput[] = [
+      { ...input, model: 'gpt-4o-mini' },
+      { ...input, temperature: 0.7 },
+      { ...input, maxTokens: undefined },
+      { ...input, messages: [input.messages[0], { role: 'user', content: 'Rows: 25' }] },
+      { ...input, messages: [{ role: 'system', content: 'Be brief.' }, input.messages[1]] },
+      { ...input, messages: [input.messages[1], input.messages[0]] },
+    ];
+
+    for (const variant of variants) {
+      expect(fingerprintPrompt(variant)).not.toBe(fingerprint);
+    }
+  });
+});
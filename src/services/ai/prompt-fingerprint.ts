@@ -0,0 +1,24 @@
+import { createHash } from 'node:crypto';
+
+export interface PromptFingerprintInput {
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  // System and user prompts; the data context is part of the user prompt
+  messages: Array<{ role: string; content: string }>;
+}
+
+/**
+ * Deterministic hash of everything that shapes a completion, used as the LLM cache key.
+ * Values are serialized positionally so the hash does not depend on object key order.
+ */
+export function fingerprintPrompt(input: PromptFingerprintInput): string {
+  const serialized = JSON.stringify([
+    input.model,
+    input.temperature,
+    input.maxTokens ?? null,
+    input.messages.map(message => [message.role, message.content]),
+  ]);
+
+  return createHash('sha256').update(serialized).digest('hex');
+}
@@ -2,6 +2,12 @@
  * Prompts for chart analysis and explanation
  */
 
+import type { BoxPlotSummary, ChartConfig } from '../../../shared/types/index.js';
+import { pearson } from '../../data/statistics.js';
+
+// Charts with more points than this are summarised instead of listed in full
+const MAX_LISTED_POINTS = 12;
+
 /**
  * Prompt for analyzing and explaining a chart
  */
@@ -21,3 +27,132 @@ Write a brief 1-2 paragraph analysis explaining:
 
 Be concise and insight-driven.`;
 }
+
+/**
+ * Summarise a chart's data for getChartAnalysisPrompt: the points themselves for small
+ * charts, plus range, total and first-to-last change for every dataset
+ */
+export function describeChartData(chart: ChartConfig): string {
+  const { labels, datasets } = chart.data;
+  if (chart.type === 'heatmap') {
+    return describeHeatmap(labels, datasets);
+  }
+  // Scatter charts have no categories, only x/y points
+  const lines = labels.length > 0 ? [`${labels.length} categories on the x-axis.`] : [];
+
+  for (const dataset of datasets) {
+    if (dataset.points && dataset.borderDash) {
+      lines.push(describeTrendLine(dataset.points));
+      continue;
+    }
+    if (dataset.points) {
+      lines.push(describeScatter(dataset.label, dataset.points));
+      continue;
+    }
+    if (dataset.boxes) {
+      lines.push(describeBoxes(labels, dataset.boxes));
+      continue;
+    }
+
+    const points = dataset.data
+      .map((value, index) => ({ label: labels[index] ?? `#${index + 1}`, value }))
+      .filter(point => Number.isFinite(point.value));
+    if (points.length === 0) {
+      continue;
+    }
+
+    const total = points.reduce((sum, point) => sum + point.value, 0);
+    const sorted = [...points].sort((a, b) => b.value - a.value);
+    const highest = sorted[0];
+    const lowest = sorted[sorted.length - 1];
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    const facts = [
+      `highest ${highest.label} = ${formatValue(highest.value)}`,
+      `lowest ${lowest.label} = ${formatValue(lowest.value)}`,
+      `total ${formatValue(total)}`,
+    ];
+    if (points.length > 1 && first.value !== 0) {
+      const change = ((last.value - first.value) / Math.abs(first.value)) * 100;
+      facts.push(`${first.label} to ${last.label}: ${change >= 0 ? '+' : ''}${change.toFixed(1)}%`);
+    }
+
+    const listAll = points.length <= MAX_LISTED_POINTS;
+    const values = (listAll ? points : sorted.slice(0, MAX_LISTED_POINTS))
+      .map(point => `${point.label}: ${formatValue(point.value)}`)
+      .join(', ');
+
+    lines.push(
+      `Series "${dataset.label}" (${points.length} points): ${facts.join('; ')}.`,
+      listAll ? `Values: ${values}.` : `Top ${MAX_LISTED_POINTS} values: ${values}.`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function describeScatter(label: string, points: Array<{ x: number; y: number }>): string {
+  if (points.length === 0) {
+    return `Series "${label}" has no points.`;
+  }
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const r = pearson(xs, ys);
+
+  const correlation = r === undefined ? '' : `; Pearson correlation r = ${r.toFixed(2)}`;
+
+  return (
+    `Series "${label}" (${points.length} points): ` +
+    `x from ${formatValue(Math.min(...xs))} to ${formatValue(Math.max(...xs))}, ` +
+    `y from ${formatValue(Math.min(...ys))} to ${formatValue(Math.max(...ys))}${correlation}.`
+  );
+}
+
+/**
+ * Heatmap cells pair a label (row) with a dataset (column); each pair is listed once,
+ * strongest first
+ */
+function describeHeatmap(labels: string[], datasets: ChartConfig['data']['datasets']): string {
+  const cells = datasets.flatMap((dataset, column) =>
+    dataset.data
+      .map((value, row) => ({ row, value }))
+      .filter(cell => cell.row > column && Number.isFinite(cell.value))
+      .map(cell => ({ pair: `${labels[cell.row]} / ${dataset.label}`, value: cell.value }))
+  );
+  if (cells.length === 0) {
+    return `${labels.length} x ${datasets.length} matrix with no values.`;
+  }
+
+  const strongest = cells
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .slice(0, MAX_LISTED_POINTS)
+    .map(cell => `${cell.pair}: ${formatValue(cell.value)}`)
+    .join(', ');
+  return `${labels.length} x ${datasets.length} matrix. Strongest pairs: ${strongest}.`;
+}
+
+function describeTrendLine(points: Array<{ x: number; y: number }>): string {
+  const [start, end] = points;
+  if (points.length < 2 || start.x === end.x) {
+    return 'Trend line is flat.';
+  }
+  const slope = (end.y - start.y) / (end.x - start.x);
+  return `Least-squares trend line: y changes by ${formatValue(slope)} per unit of x.`;
+}
+
+function describeBoxes(labels: string[], boxes: BoxPlotSummary[]): string {
+  return boxes
+    .map(
+      (box, index) =>
+        `"${labels[index] ?? `#${index + 1}`}": median ${formatValue(box.median)}, ` +
+        `quartiles ${formatValue(box.q1)} to ${formatValue(box.q3)}, ` +
+        `whiskers ${formatValue(box.min)} to ${formatValue(box.max)}.`
+    )
+    .join('\n');
+}
+
+function formatValue(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
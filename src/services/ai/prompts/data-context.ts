@@ -0,0 +1,303 @@
+/* eslint-disable @typescript-eslint/no-unnecessary-condition */
+
+/**
+ * Data context blocks shared by the narrative and section prompts
+ */
+
+import { createModuleLogger } from '../../../core/index.js';
+import type {
+  DataProfile,
+  ProfileComparison,
+  TimeSeriesAnalysis,
+} from '../../../shared/types/index.js';
+import { toonUtils } from '../../../shared/utils/index.js';
+
+const logger = createModuleLogger('data-context');
+
+// Weaker correlations are left out of the prompt
+const NOTABLE_CORRELATION = 0.3;
+const MAX_LISTED_CORRELATIONS = 10;
+// Buckets per metric quoted in the time-series context
+const MAX_RECENT_PERIODS = 12;
+
+/**
+ * Build data context string for LLM using TOON format for efficiency
+ * TOON reduces token usage by ~40-60% compared to JSON
+ *
+ */
+export function buildDataContext(
+  dataProfile: DataProfile,
+  parsedData: Record<string, unknown>[],
+  textContent: string[]
+): string {
+  // Build metadata object
+  const metadata = {
+    rows: dataProfile.rowCount,
+    columns: dataProfile.columnCount,
+    qualityScore: dataProfile.dataQualityScore,
+  };
+
+  // Redacted columns hold placeholders or hashes, so they are only named, and kept out of
+  // the column profiles and sample rows
+  const redacted = new Set(dataProfile.columns.filter(col => col.redacted).map(col => col.name));
+  const profiledColumns = dataProfile.columns.filter(col => !col.redacted);
+
+  // Build column profiles in TOON-friendly format
+  const columnProfiles = profiledColumns.map(col => ({
+    name: col.name,
+    type: col.type,
+    ...(col.semanticType && { semantic: col.semanticType }),
+    ...(col.currency && { currency: col.currency.code }),
+    ...(col.type === 'numeric' && {
+      min: col.min,
+      max: col.max,
+      mean: col.mean ? Number(col.mean.toFixed(2)) : undefined,
+      sum: col.sum !== undefined ? Number(col.sum.toFixed(2)) : undefined,
+      stdDev: col.stdDev ? Number(col.stdDev.toFixed(2)) : undefined,
+      p5: col.quantiles?.p5,
+      p95: col.quantiles?.p95,
+      skew: col.skewness,
+      outliers: col.outliers?.iqr.count,
+    }),
+    ...(col.uniqueCount && { unique: col.uniqueCount }),
+    ...(col.topValues &&
+      col.topValues.length > 0 && {
+        top: col.topValues.slice(0, 5).map(v => `${v.value}(${v.count})`),
+      }),
+    ...(col.nullCount && col.nullCount > 0 && { nulls: col.nullCount }),
+  }));
+
+  // Use TOON format for data context (more token-efficient)
+  let context = `DATASET METADATA (TOON format - compact data representation):
+\`\`\`toon
+${toonUtils.encode(metadata)}
+\`\`\`
+
+COLUMN PROFILES:
+\`\`\`toon
+${toonUtils.encode(columnProfiles)}
+\`\`\``;
+
+  if (redacted.size > 0) {
+    context += `
+
+REDACTED COLUMNS (personal data, values withheld): ${[...redacted].join(', ')}`;
+  }
+
+  // Other datasets only appear in summary; their rows are not part of the sample
+  if (dataProfile.datasets) {
+    const datasets = dataProfile.datasets.map(dataset => ({
+      name: dataset.name,
+      origin: dataset.origin,
+      rows: dataset.rowCount,
+      columns: dataset.columns.map(col => col.name).join('|'),
+      qualityScore: dataset.dataQualityScore,
+    }));
+    context += `
+
+DATASETS (the profile above is "${dataProfile.dataset}"):
+\`\`\`toon
+${toonUtils.encode(datasets)}
+\`\`\``;
+  }
+
+  // Steps that reshaped the data before profiling, so the narrative does not misread it
+  if (dataProfile.transforms && dataProfile.transforms.length > 0) {
+    const transforms = dataProfile.transforms.map(step => ({
+      ...(step.dataset && { dataset: step.dataset }),
+      step: step.description,
+      rowsBefore: step.rowsBefore,
+      rowsAfter: step.rowsAfter,
+    }));
+    context += `
+
+TRANSFORMS APPLIED BEFORE PROFILING:
+\`\`\`toon
+${toonUtils.encode(transforms)}
+\`\`\``;
+  }
+
+  // Declared quality rules, so the narrative can caveat findings on data that broke them
+  if (dataProfile.qualityChecks && dataProfile.qualityChecks.length > 0) {
+    const checks = dataProfile.qualityChecks.map(check => ({
+      ...(check.dataset && { dataset: check.dataset }),
+      rule: check.description,
+      passed: check.passed,
+      detail: check.failedRows !== undefined ? `${check.failedRows} failing rows` : check.observed,
+    }));
+    context += `
+
+DATA QUALITY CHECKS:
+\`\`\`toon
+${toonUtils.encode(checks)}
+\`\`\``;
+  }
+
+  const correlations = summarizeCorrelations(dataProfile);
+  if (correlations.length > 0) {
+    context += `
+
+NOTABLE CORRELATIONS (Pearson r and Spearman rho):
+\`\`\`toon
+${toonUtils.encode(correlations)}
+\`\`\``;
+  }
+
+  if (dataProfile.timeSeries) {
+    context += `
+
+${buildTimeSeriesContext(dataProfile.timeSeries)}`;
+  }
+
+  // Sample data in TOON format
+  if (parsedData.length > 0) {
+    const sampleData = parsedData
+      .slice(0, 5)
+      .map(row => Object.fromEntries(Object.entries(row).filter(([name]) => !redacted.has(name))));
+    context += `
+
+SAMPLE DATA (first 5 rows):
+\`\`\`toon
+${toonUtils.encode(sampleData)}
+\`\`\``;
+
+    // Log token savings estimate
+    const jsonVersion = JSON.stringify(sampleData, null, 2);
+    const toonVersion = toonUtils.encode(sampleData);
+    const savings = toonUtils.estimateTokenSavings(jsonVersion, toonVersion);
+    logger.info(`TOON format saved ~${savings.percentage}% tokens for sample data`, {
+      jsonTokens: savings.jsonTokens,
+      toonTokens: savings.toonTokens,
+    });
+  }
+
+  // Chart suggestions if available
+  if (dataProfile.suggestedCharts && dataProfile.suggestedCharts.length > 0) {
+    context += `
+
+SUGGESTED VISUALIZATIONS:
+\`\`\`toon
+${toonUtils.encode(dataProfile.suggestedCharts.slice(0, 5))}
+\`\`\``;
+  }
+
+  // Let the model know which column types were declared rather than inferred
+  if (dataProfile.warnings && dataProfile.warnings.length > 0) {
+    context += `
+
+DATA PROFILING WARNINGS:
+${dataProfile.warnings.map(warning => `- ${warning}`).join('\n')}`;
+  }
+
+  // Text content (keep as plain text for readability)
+  if (textContent.length > 0) {
+    context += '\n\nADDITIONAL CONTEXT:\n';
+    context += textContent.slice(0, 3).join('\n---\n');
+  }
+
+  return context;
+}
+
+/**
+ * Column pairs whose Pearson or Spearman coefficient reaches NOTABLE_CORRELATION, strongest first
+ */
+function summarizeCorrelations(
+  dataProfile: DataProfile
+): Array<{ columns: string; pearson: number | null; spearman: number | null }> {
+  if (!dataProfile.correlations) return [];
+
+  const { columns, pearson, spearman } = dataProfile.correlations;
+  return columns
+    .flatMap((x, i) =>
+      columns.slice(i + 1).map((y, offset) => ({
+        columns: `${x} ~ ${y}`,
+        pearson: pearson[i][i + 1 + offset],
+        spearman: spearman[i][i + 1 + offset],
+      }))
+    )
+    .filter(
+      pair =>
+        Math.abs(pair.pearson ?? 0) >= NOTABLE_CORRELATION ||
+        Math.abs(pair.spearman ?? 0) >= NOTABLE_CORRELATION
+    )
+    .sort((a, b) => Math.abs(b.pearson ?? 0) - Math.abs(a.pearson ?? 0))
+    .slice(0, MAX_LISTED_CORRELATIONS);
+}
+
+/**
+ * Resampled trends per metric, with the most recent buckets so the model can cite them
+ */
+function buildTimeSeriesContext(timeSeries: TimeSeriesAnalysis): string {
+  const summary = {
+    dateColumn: timeSeries.dateColumn,
+    granularity: timeSeries.granularity,
+    from: timeSeries.start.slice(0, 10),
+    to: timeSeries.end.slice(0, 10),
+  };
+
+  const metrics = timeSeries.metrics.map(metric => ({
+    column: metric.column,
+    aggregation: metric.aggregation,
+    trend: metric.trend.direction,
+    slopePerPeriod: metric.trend.slope,
+    ...(metric.periodOverPeriod !== null && { lastPeriodChangePct: metric.periodOverPeriod }),
+    ...(metric.yearOverYear !== null && { yearOverYearPct: metric.yearOverYear }),
+    ...(metric.seasonality && {
+      seasonality: `every ${metric.seasonality.period} periods, peak ${metric.seasonality.peak} (strength ${metric.seasonality.strength})`,
+    }),
+    recent: metric.points.slice(-MAX_RECENT_PERIODS).map(point => `${point.label}:${point.value}`),
+  }));
+
+  return `TIME SERIES (resampled ${timeSeries.granularity}; gaps filled):
+\`\`\`toon
+${toonUtils.encode(summary)}
+\`\`\`
+
+TIME SERIES METRICS:
+\`\`\`toon
+${toonUtils.encode(metrics)}
+\`\`\``;
+}
+
+/**
+ * Build the "changes since last period" context in TOON format
+ */
+export function buildComparisonContext(comparison: ProfileComparison): string {
+  const summary = {
+    baseline: comparison.label,
+    rows: `${comparison.rowCount.baseline} -> ${comparison.rowCount.current}`,
+    rowChangePct: comparison.rowCount.percentChange,
+  };
+
+  const columnChanges = comparison.columns
+    .filter(col => col.status !== 'unchanged')
+    .map(col => ({
+      name: col.name,
+      status: col.status,
+      ...(col.metrics && {
+        changes: Object.entries(col.metrics)
+          .filter(([, delta]) => delta.direction !== 'flat')
+          .map(
+            ([metric, delta]) =>
+              `${metric}:${delta.baseline}->${delta.current}(${delta.percentChange ?? 'new'}%)`
+          ),
+      }),
+      ...(col.topValueShifts &&
+        col.topValueShifts.length > 0 && {
+          shifts: col.topValueShifts.map(s => `${s.value}:${s.baseline}->${s.current}`),
+        }),
+    }));
+
+  return `CHANGES SINCE ${comparison.label.toUpperCase()}:
+\`\`\`toon
+${toonUtils.encode(summary)}
+\`\`\`
+
+COLUMN CHANGES:
+\`\`\`toon
+${toonUtils.encode(columnChanges)}
+\`\`\`
+
+HIGHLIGHTS:
+${comparison.highlights.map(highlight => `- ${highlight}`).join('\n')}`;
+}
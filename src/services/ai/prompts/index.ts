@@ -3,6 +3,7 @@
  */
 
 export * from './chart-prompts.js';
+export * from './data-context.js';
 export * from './image-prompts.js';
 export * from './narrative-prompts.js';
 export * from './section-prompts.js';
@@ -2,22 +2,104 @@
  * Prompts for narrative content generation
  */
 
-import type { ReportStyle } from '../../../shared/types/index.js';
+import type { GeneratedInsight, ReportStyle } from '../../../shared/types/index.js';
+import type { SectionTemplate } from '../../generators/styles.js';
 
 /**
  * User prompt for generating comprehensive report narrative
  */
-export function getNarrativeUserPrompt(dataContext: string, style: ReportStyle): string {
+export function getNarrativeUserPrompt(
+  dataContext: string,
+  style: ReportStyle,
+  comparisonContext?: string,
+  sections?: SectionTemplate[]
+): string {
   return `Based on the following data analysis, generate comprehensive report content:
 
 DATA PROFILE:
 ${dataContext}
-
+${comparisonContext ? getComparisonBlock(comparisonContext) : ''}
 Generate a complete narrative with:
 1. Executive Summary - Key takeaways for decision makers
-2. 4-6 detailed sections appropriate for a ${style} report
+2. ${sections ? getSectionsInstruction(sections) : `4-6 detailed sections appropriate for a ${style} report`}
 3. 3-5 actionable recommendations
 4. 5-7 key findings
 
 Ensure all content is data-driven, professional, and appropriate for the ${style} style.`;
 }
+
+/**
+ * Period-over-period block appended when the report compares against a baseline
+ */
+function getComparisonBlock(comparisonContext: string): string {
+  return `
+${comparisonContext}
+
+Treat these changes as a central theme: mention the most significant ones in the executive
+summary, explain likely drivers where the data supports it, and include at least one key
+finding about change versus the baseline. Quote the provided figures exactly.
+`;
+}
+
+/**
+ * Section list used instead of free-form sections when the report selects its sections
+ */
+function getSectionsInstruction(sections: SectionTemplate[]): string {
+  if (sections.length === 0) {
+    return 'No detailed sections - leave "sections" as an empty array';
+  }
+
+  const list = sections
+    .map(
+      section =>
+        `   - sectionId "${section.id}": ${section.title}${section.promptHint ? ` (${section.promptHint})` : ''}`
+    )
+    .join('\n');
+
+  return `Exactly these detailed sections, in this order, using the given sectionId values:
+${list}`;
+}
+
+/**
+ * Follow-up prompt asking the model to fix a narrative that failed schema validation
+ */
+export function getNarrativeRepairPrompt(issues: string[]): string {
+  return `Your previous response did not match the required JSON format. Fix these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond again with the complete corrected JSON object only. Keep the content that was valid.`;
+}
+
+/**
+ * Prompt for the executive summary, key findings and recommendations in long generation mode,
+ * written once every section is done
+ */
+export function getNarrativeSummaryPrompt(
+  dataContext: string,
+  style: ReportStyle,
+  sections: GeneratedInsight[],
+  comparisonContext?: string
+): string {
+  const sectionText = sections
+    .map(section => `## ${section.sectionTitle}\n${section.content}`)
+    .join('\n\n');
+
+  return `The detailed sections of a ${style} report have been written. Based on the data and
+the sections below, write the rest of the report.
+
+DATA PROFILE:
+${dataContext}
+${comparisonContext ? getComparisonBlock(comparisonContext) : ''}
+REPORT SECTIONS:
+${sectionText || '(no detailed sections)'}
+
+Respond with valid JSON in this exact format:
+{
+  "executiveSummary": "A concise 2-3 paragraph executive summary",
+  "recommendations": ["Recommendation 1", "Recommendation 2"],
+  "keyFindings": ["Finding 1", "Finding 2", "Finding 3"]
+}
+
+Include 3-5 actionable recommendations and 5-7 key findings. Stay consistent with the sections
+and quote figures exactly as they appear in the data.`;
+}
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { FallbackCacheService, MemoryCacheService, RedisCacheService } from './cache.service.js';
+
+const { FakeRedis } = vi.hoisted(() => {
+  // Just enough of ioredis for the cache service, backed by maps shared by all clients
+  class FakeRedis {
+    static readonly strings = new Map<string, string>();
+    static readonly sets = new Map<string, Set<string>>();
+    status = 'ready';
+
+    on() {
+      return this;
+    }
+
+    get(key: string) {
+      return Promise.resolve(FakeRedis.strings.get(key) ?? null);
+    }
+
+    multi() {
+      const commands: Array<() => void> = [];
+      const transaction = {
+        setex: (key: string, _seconds: number, value: string) => {
+          commands.push(() => FakeRedis.strings.set(key, value));
+          return transaction;
+        },
+        sadd: (key: string, member: string) => {
+          commands.push(() => {
+            FakeRedis.sets.set(key, (FakeRedis.sets.get(key) ?? new Set()).add(member));
+          });
+          return transaction;
+        },
+        expire: () => transaction,
+        exec: () => {
+          commands.forEach(command => command());
+          return Promise.resolve([]);
+        },
+      };
+      return transaction;
+    }
+
+    del(...keys: string[]) {
+      let removed = 0;
+      for (const key of keys) {
+        if (FakeRedis.strings.delete(key) || FakeRedis.sets.delete(key)) {
+          removed++;
+        }
+      }
+      return Promise.resolve(removed);
+    }
+
+    exists(key: string) {
+      return Promise.resolve(FakeRedis.strings.has(key) ? 1 : 0);
+    }
+
+    smembers(key: string) {
+      return Promise.resolve([...(FakeRedis.sets.get(key) ?? [])]);
+    }
+
+    scan(_cursor: string, _match: string, pattern: string) {
+      const prefix = pattern.replace(/\*$/, '');
+      const keys = [...FakeRedis.strings.keys(), ...FakeRedis.sets.keys()];
+      return Promise.resolve(['0', keys.filter(key => key.startsWith(prefix))]);
+    }
+  }
+  return { FakeRedis };
+});
+
+vi.mock('ioredis', () => ({ Redis: FakeRedis }));
+
+vi.mock('../../core/index.js', () => ({
+  config: {
+    redis: { host: 'localhost', port: 6379, ttl: 60 },
+    cache: { namespace: 'reports', memoryMaxEntries: 100 },
+  },
+  createModuleLogger: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}));
+
+beforeEach(() => {
+  FakeRedis.strings.clear();
+  FakeRedis.sets.clear();
+});
+
+describe('RedisCacheService', () => {
+  it('keeps entries and tags under its namespace', async () => {
+    const cache = new RedisCacheService('tenant-a');
+    await cache.set('llm:1', { text: 'hi' }, 60, ['report:rpt_1']);
+
+    expect([...FakeRedis.strings.keys()]).toEqual(['tenant-a:entry:llm:1']);
+    expect([...FakeRedis.sets.keys()]).toEqual(['tenant-a:tag:report:rpt_1']);
+    expect(await cache.get('llm:1')).toEqual({ text: 'hi' });
+    expect(await cache.exists('llm:1')).toBe(true);
+  });
+
+  it('clears only its own namespace', async () => {
+    FakeRedis.strings.set('other-app:session', 'x');
+    const tenantA = new RedisCacheService('tenant-a');
+    const tenantB = new RedisCacheService('tenant-b');
+    await tenantA.set('key', 1, 60, ['tag']);
+    await tenantB.set('key', 2);
+
+    await tenantA.clear();
+
+    expect(await tenantA.get('key')).toBeNull();
+    expect(await tenantB.get('key')).toBe(2);
+    expect(FakeRedis.strings.get('other-app:session')).toBe('x');
+    expect(FakeRedis.sets.size).toBe(0);
+  });
+
+  it('invalidates every entry with a tag', async () => {
+    const cache = new RedisCacheService('reports');
+    await cache.set('a', 1, 60, ['report:rpt_1', 'model:gpt-4o']);
+    await cache.set('b', 2, 60, ['report:rpt_1']);
+    await cache.set('c', 3, 60, ['model:gpt-4o']);
+
+    expect(await cache.invalidateTag('report:rpt_1')).toBe(2);
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).toBe(3);
+    expect(await cache.invalidateTag('report:rpt_1')).toBe(0);
+  });
+
+  it('counts hits and misses and the entries in its namespace', async () => {
+    const cache = new RedisCacheService('reports');
+    await cache.set('a', 1, 60, ['tag']);
+    await cache.get('a');
+    await cache.get('missing');
+
+    expect(await cache.getStats()).toEqual({
+      backend: 'redis',
+      namespace: 'reports',
+      keys: 1,
+      hits: 1,
+      misses: 1,
+    });
+  });
+});
+
+describe('MemoryCacheService', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('evicts the least recently used entry beyond its size cap', async () => {
+    const cache = new MemoryCacheService(2, 'reports');
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await cache.exists('a')).toBe(true);
+    expect(await cache.exists('b')).toBe(false);
+    expect(await cache.exists('c')).toBe(true);
+    expect(await cache.getStats()).toMatchObject({ keys: 2, maxEntries: 2, evictions: 1 });
+  });
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCacheService(10, 'reports');
+    await cache.set('a', 1, 60);
+
+    vi.advanceTimersByTime(59_000);
+    expect(await cache.get('a')).toBe(1);
+    vi.advanceTimersByTime(2_000);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('invalidates tagged entries and forgets tags of evicted ones', async () => {
+    const cache = new MemoryCacheService(2, 'reports');
+    await cache.set('a', 1, 60, ['report:rpt_1']);
+    await cache.set('b', 2, 60, ['report:rpt_1', 'model:gpt-4o']);
+    await cache.set('c', 3, 60, ['model:gpt-4o']);
+
+    expect(await cache.invalidateTag('report:rpt_1')).toBe(1);
+    expect(await cache.invalidateTag('model:gpt-4o')).toBe(1);
+    expect(await cache.getStats()).toMatchObject({ keys: 0 });
+  });
+});
+
+describe('FallbackCacheService', () => {
+  const create = () => {
+    const redis = new RedisCacheService('reports');
+    const memory = new MemoryCacheService(10, 'reports');
+    // The connection status decides which backend serves each call
+    const { client } = redis as unknown as { client: InstanceType<typeof FakeRedis> };
+    return { cache: new FallbackCacheService(redis, memory), memory, client };
+  };
+
+  it('uses Redis while it is connected', async () => {
+    const { cache, memory } = create();
+    await cache.set('a', 1);
+
+    expect(FakeRedis.strings.has('reports:entry:a')).toBe(true);
+    expect(await memory.exists('a')).toBe(false);
+    expect((await cache.getStats()).backend).toBe('redis');
+  });
+
+  it('serves from memory during an outage and switches back on reconnect', async () => {
+    const { cache, client } = create();
+    await cache.set('a', 'from redis');
+
+    client.status = 'reconnecting';
+    expect(await cache.get('a')).toBeNull();
+    await cache.set('a', 'from memory');
+    expect(await cache.get('a')).toBe('from memory');
+    expect((await cache.getStats()).backend).toBe('memory');
+
+    client.status = 'ready';
+    expect(await cache.get('a')).toBe('from redis');
+  });
+
+  it('invalidates tags in both caches once Redis is back', async () => {
+    const { cache, client } = create();
+    await cache.set('a', 1, 60, ['report:rpt_1']);
+    client.status = 'connecting';
+    await cache.set('b', 2, 60, ['report:rpt_1']);
+    client.status = 'ready';
+
+    expect(await cache.invalidateTag('report:rpt_1')).toBe(2);
+    client.status = 'connecting';
+    expect(await cache.get('b')).toBeNull();
+  });
+});
@@ -1,13 +1,21 @@
 import { Redis } from 'ioredis';
 
 import { config, createModuleLogger, type ICacheService } from '../../core/index.js';
+import type { CacheBackend, CacheStats } from '../../shared/types/index.js';
 
 const logger = createModuleLogger('cache-service');
 
+// Keys deleted per DEL call when clearing a namespace
+const DELETE_BATCH_SIZE = 500;
+
 export class RedisCacheService implements ICacheService {
   private readonly client: Redis;
+  private hits = 0;
+  private misses = 0;
+  // Set while Redis is unreachable so reconnect attempts only log once per outage
+  private outage = false;
 
-  constructor() {
+  constructor(private readonly namespace: string = config.cache.namespace) {
     this.client = new Redis({
       host: config.redis.host,
       port: config.redis.port,
@@ -17,21 +25,38 @@ export class RedisCacheService implements ICacheService {
         return delay;
       },
       maxRetriesPerRequest: 3,
+      // Fail fast while disconnected instead of queueing; FallbackCacheService serves from memory
+      enableOfflineQueue: false,
     });
 
     this.client.on('error', (err: Error) => {
-      logger.error('Redis connection error', { error: err });
+      if (!this.outage) {
+        this.outage = true;
+        logger.error('Redis connection error', { error: err });
+      }
     });
 
-    this.client.on('connect', () => {
+    this.client.on('ready', () => {
+      this.outage = false;
       logger.info(`Connected to Redis at ${config.redis.host}:${config.redis.port}`);
     });
   }
 
+  /**
+   * Whether the connection is up and commands can be sent
+   */
+  isReady(): boolean {
+    return this.client.status === 'ready';
+  }
+
   async get<T>(key: string): Promise<T | null> {
     try {
-      const value = await this.client.get(key);
-      if (!value) return null;
+      const value = await this.client.get(this.entryKey(key));
+      if (!value) {
+        this.misses++;
+        return null;
+      }
+      this.hits++;
       return JSON.parse(value) as T;
     } catch (error) {
       logger.error(`Cache get error for key: ${key}`, { error });
@@ -39,11 +64,22 @@ export class RedisCacheService implements ICacheService {
     }
   }
 
-  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+  async set(key: string, value: unknown, ttl?: number, tags: string[] = []): Promise<void> {
     try {
       const serialized = JSON.stringify(value);
       const expiry = ttl ?? config.redis.ttl;
-      await this.client.setex(key, expiry, serialized);
+      const entryKey = this.entryKey(key);
+
+      const transaction = this.client.multi().setex(entryKey, expiry, serialized);
+      for (const tag of tags) {
+        // Tag indexes live at least as long as the newest entry they point to
+        const tagKey = this.tagKey(tag);
+        transaction
+          .sadd(tagKey, entryKey)
+          .expire(tagKey, expiry, 'NX')
+          .expire(tagKey, expiry, 'GT');
+      }
+      await transaction.exec();
     } catch (error) {
       logger.error(`Cache set error for key: ${key}`, { error });
     }
@@ -51,7 +87,7 @@ export class RedisCacheService implements ICacheService {
 
   async delete(key: string): Promise<void> {
     try {
-      await this.client.del(key);
+      await this.client.del(this.entryKey(key));
     } catch (error) {
       logger.error(`Cache delete error for key: ${key}`, { error });
     }
@@ -59,8 +95,11 @@ export class RedisCacheService implements ICacheService {
 
   async clear(): Promise<void> {
     try {
-      await this.client.flushdb();
-      logger.info('Cache cleared');
+      const keys = await this.scanKeys(`${this.namespace}:*`);
+      for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+        await this.client.del(...keys.slice(i, i + DELETE_BATCH_SIZE));
+      }
+      logger.info(`Cache namespace cleared: ${this.namespace}`, { keys: keys.length });
     } catch (error) {
       logger.error('Cache clear error', { error });
     }
@@ -68,7 +107,7 @@ export class RedisCacheService implements ICacheService {
 
   async exists(key: string): Promise<boolean> {
     try {
-      const result = await this.client.exists(key);
+      const result = await this.client.exists(this.entryKey(key));
       return result === 1;
     } catch (error) {
       logger.error(`Cache exists error for key: ${key}`, { error });
@@ -76,74 +115,249 @@ export class RedisCacheService implements ICacheService {
     }
   }
 
+  async invalidateTag(tag: string): Promise<number> {
+    try {
+      const tagKey = this.tagKey(tag);
+      const entryKeys = await this.client.smembers(tagKey);
+      const removed = entryKeys.length > 0 ? await this.client.del(...entryKeys) : 0;
+      await this.client.del(tagKey);
+
+      logger.info(`Cache tag invalidated: ${tag}`, { removed });
+      return removed;
+    } catch (error) {
+      logger.error(`Cache invalidate error for tag: ${tag}`, { error });
+      return 0;
+    }
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const keys = await this.scanKeys(`${this.namespace}:entry:*`);
+    return {
+      backend: 'redis',
+      namespace: this.namespace,
+      keys: keys.length,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
   async disconnect(): Promise<void> {
     await this.client.quit();
   }
+
+  private entryKey(key: string): string {
+    return `${this.namespace}:entry:${key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.namespace}:tag:${tag}`;
+  }
+
+  /**
+   * SCAN instead of KEYS so large databases are not blocked
+   */
+  private async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 1000);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+    return keys;
+  }
 }
 
 export class MemoryCacheService implements ICacheService {
-  private readonly cache = new Map<string, { value: unknown; expires: number }>();
+  // Map iteration follows insertion order, so re-inserting on read keeps it in LRU order
+  private readonly cache = new Map<string, { value: unknown; expires: number; tags: string[] }>();
+  private readonly tags = new Map<string, Set<string>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
 
-  constructor() {
+  constructor(
+    private readonly maxEntries: number = config.cache.memoryMaxEntries,
+    private readonly namespace: string = config.cache.namespace
+  ) {
     // Cleanup expired entries every 5 minutes
     setInterval(
       () => {
         const now = Date.now();
         for (const [key, entry] of this.cache.entries()) {
           if (entry.expires < now) {
-            this.cache.delete(key);
+            this.remove(key);
           }
         }
       },
       5 * 60 * 1000
-    );
+    ).unref();
   }
 
   async get<T>(key: string): Promise<T | null> {
     const entry = this.cache.get(key);
-    if (!entry) return null;
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
 
     if (entry.expires < Date.now()) {
-      this.cache.delete(key);
+      this.remove(key);
+      this.misses++;
       return null;
     }
 
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.hits++;
     return entry.value as T;
   }
 
-  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+  async set(key: string, value: unknown, ttl?: number, tags: string[] = []): Promise<void> {
     const expires = Date.now() + (ttl ?? config.redis.ttl) * 1000;
-    this.cache.set(key, { value, expires });
+    this.remove(key);
+    this.cache.set(key, { value, expires, tags });
+
+    for (const tag of tags) {
+      const keys = this.tags.get(tag) ?? new Set<string>();
+      keys.add(key);
+      this.tags.set(tag, keys);
+    }
+
+    while (this.cache.size > this.maxEntries) {
+      const oldest = this.cache.keys().next();
+      if (oldest.done) {
+        break;
+      }
+      this.remove(oldest.value);
+      this.evictions++;
+    }
   }
 
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+    this.remove(key);
   }
 
   async clear(): Promise<void> {
     this.cache.clear();
+    this.tags.clear();
   }
 
   async exists(key: string): Promise<boolean> {
     const entry = this.cache.get(key);
     if (!entry) return false;
     if (entry.expires < Date.now()) {
-      this.cache.delete(key);
+      this.remove(key);
       return false;
     }
     return true;
   }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = [...(this.tags.get(tag) ?? [])];
+    for (const key of keys) {
+      this.remove(key);
+    }
+    this.tags.delete(tag);
+    return keys.length;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return {
+      backend: 'memory',
+      namespace: this.namespace,
+      keys: this.cache.size,
+      hits: this.hits,
+      misses: this.misses,
+      maxEntries: this.maxEntries,
+      evictions: this.evictions,
+    };
+  }
+
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.cache.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tags.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tags.delete(tag);
+      }
+    }
+  }
+}
+
+/**
+ * Routes each call to Redis while it is connected and to the in-memory cache otherwise,
+ * switching back automatically once Redis reconnects
+ */
+export class FallbackCacheService implements ICacheService {
+  private backend: CacheBackend | undefined;
+
+  constructor(
+    private readonly redis: RedisCacheService,
+    private readonly memory: MemoryCacheService
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.active().get<T>(key);
+  }
+
+  async set(key: string, value: unknown, ttl?: number, tags?: string[]): Promise<void> {
+    await this.active().set(key, value, ttl, tags);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all(this.all().map(cache => cache.delete(key)));
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all(this.all().map(cache => cache.clear()));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.active().exists(key);
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const removed = await Promise.all(this.all().map(cache => cache.invalidateTag(tag)));
+    return removed.reduce((sum, count) => sum + count, 0);
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return this.active().getStats();
+  }
+
+  private active(): ICacheService {
+    const backend: CacheBackend = this.redis.isReady() ? 'redis' : 'memory';
+    if (backend !== this.backend) {
+      if (backend === 'memory') {
+        logger.warn('Redis not available, using memory cache');
+      } else if (this.backend) {
+        logger.info('Redis available again, switching back from memory cache');
+      }
+      this.backend = backend;
+    }
+    return backend === 'redis' ? this.redis : this.memory;
+  }
+
+  /**
+   * Invalidation also reaches the memory cache so entries written during an outage do not linger
+   */
+  private all(): ICacheService[] {
+    return this.redis.isReady() ? [this.redis, this.memory] : [this.memory];
+  }
 }
 
 // Factory function
 export function createCacheService(): ICacheService {
-  // Use Redis if available, fallback to memory cache
-  try {
-    return new RedisCacheService();
-  } catch {
-    logger.warn('Redis not available, using memory cache');
-    return new MemoryCacheService();
-  }
+  // Use Redis when it is reachable, fall back to memory cache otherwise
+  return new FallbackCacheService(new RedisCacheService(), new MemoryCacheService());
 }
 
 export const cacheService = createCacheService();
@@ -1,2 +1,7 @@
-export { cacheService, createCacheService, MemoryCacheService, RedisCacheService } from './cache.service.js';
-
+export {
+  cacheService,
+  createCacheService,
+  FallbackCacheService,
+  MemoryCacheService,
+  RedisCacheService,
+} from './cache.service.js';
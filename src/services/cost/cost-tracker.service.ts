@@ -15,6 +15,11 @@ export class CostTrackerService {
       promptTokens?: number;
       completionTokens?: number;
       imagesGenerated?: number;
+      repairAttempts?: number;
+      cacheHits?: number;
+      cacheMisses?: number;
+      // Attribute the tokens to a chart as well (chart commentary)
+      chartId?: string;
     }
   ): Promise<CostMetrics> {
     const existing = await this.getCostMetrics(reportId);
@@ -27,17 +32,37 @@ export class CostTrackerService {
         completionTokens: (existing?.openai.completionTokens ?? 0) + (usage.completionTokens ?? 0),
         totalTokens: 0,
         imagesGenerated: (existing?.openai.imagesGenerated ?? 0) + (usage.imagesGenerated ?? 0),
+        repairAttempts: (existing?.openai.repairAttempts ?? 0) + (usage.repairAttempts ?? 0),
+        cacheHits: (existing?.openai.cacheHits ?? 0) + (usage.cacheHits ?? 0),
+        cacheMisses: (existing?.openai.cacheMisses ?? 0) + (usage.cacheMisses ?? 0),
         estimatedCost: 0,
       },
+      charts: existing?.charts,
     };
 
     metrics.openai.totalTokens = metrics.openai.promptTokens + metrics.openai.completionTokens;
     metrics.openai.estimatedCost = this.calculateCost(metrics.openai);
 
+    if (usage.chartId) {
+      const chart = metrics.charts?.[usage.chartId];
+      const promptTokens = (chart?.promptTokens ?? 0) + (usage.promptTokens ?? 0);
+      const completionTokens = (chart?.completionTokens ?? 0) + (usage.completionTokens ?? 0);
+      metrics.charts = {
+        ...metrics.charts,
+        [usage.chartId]: {
+          promptTokens,
+          completionTokens,
+          estimatedCost: this.calculateCost({ promptTokens, completionTokens, imagesGenerated: 0 }),
+        },
+      };
+    }
+
     await this.saveCostMetrics(reportId, metrics);
 
     logger.info(`Cost tracked for report ${reportId}`, {
       tokens: metrics.openai.totalTokens,
+      repairAttempts: metrics.openai.repairAttempts,
+      cacheHits: metrics.openai.cacheHits,
       cost: metrics.openai.estimatedCost,
     });
 
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ChartSuggestion, ColumnProfile } from '../../shared/types/index.js';
+
+import { aggregateCategories, CategoryAggregator, ColumnAccumulator } from './aggregates.js';
+
+const accumulate = (estimate: ColumnProfile, values: unknown[]): ColumnProfile => {
+  const accumulator = new ColumnAccumulator(estimate);
+  for (const value of values) {
+    accumulator.add(value);
+  }
+  return accumulator.finish();
+};
+
+describe('ColumnAccumulator', () => {
+  it('gathers exact moments, extremes and the total of a numeric column', () => {
+    const profile = accumulate({ name: 'x', type: 'numeric', nullCount: 0, uniqueCount: 0 }, [
+      2,
+      4,
+      null,
+      '',
+      4,
+      '6',
+      'n/a',
+    ]);
+
+    expect(profile).toMatchObject({
+      nullCount: 2,
+      uniqueCount: 4,
+      min: 2,
+      max: 6,
+      mean: 4,
+      sum: 16,
+    });
+    expect(profile.stdDev).toBeCloseTo(Math.sqrt(2));
+  });
+
+  it('counts values into the sampled bins and outlier fences', () => {
+    const estimate: ColumnProfile = {
+      name: 'x',
+      type: 'numeric',
+      nullCount: 0,
+      uniqueCount: 0,
+      mean: 5,
+      stdDev: 1,
+      histogram: [
+        { start: 0, end: 5, count: 0 },
+        { start: 5, end: 10, count: 0 },
+      ],
+      outliers: {
+        iqr: { lowerFence: 0, upperFence: 10, count: 0 },
+        zScore: { threshold: 3, count: 0 },
+        examples: [],
+      },
+    };
+    const profile = accumulate(estimate, [-3, 1, 6, 7, 12, 40]);
+
+    expect(profile.histogram).toEqual([
+      { start: -3, end: 5, count: 2 },
+      { start: 5, end: 40, count: 4 },
+    ]);
+    expect(profile.outliers).toEqual({
+      iqr: { lowerFence: 0, upperFence: 10, count: 3 },
+      zScore: { threshold: 3, count: 4 },
+      examples: [40, -3, 12],
+    });
+  });
+
+  it('reports date ranges and top categories', () => {
+    const dates = accumulate({ name: 'at', type: 'datetime', nullCount: 0, uniqueCount: 0 }, [
+      new Date('2024-05-01T00:00:00Z'),
+      new Date('2024-01-01T00:00:00Z'),
+    ]);
+    const categories = accumulate(
+      { name: 'c', type: 'categorical', nullCount: 0, uniqueCount: 0 },
+      ['b', 'a', 'b', 'c', 'b', 'a']
+    );
+
+    expect(dates).toMatchObject({
+      min: '2024-01-01T00:00:00.000Z',
+      max: '2024-05-01T00:00:00.000Z',
+    });
+    expect(categories.topValues).toEqual([
+      { value: 'b', count: 3 },
+      { value: 'a', count: 2 },
+      { value: 'c', count: 1 },
+    ]);
+  });
+});
+
+describe('CategoryAggregator', () => {
+  const suggestion: ChartSuggestion = {
+    type: 'bar',
+    title: 'Revenue by region',
+    xAxis: 'region',
+    yAxis: ['revenue', 'cost'],
+    reason: '',
+  };
+
+  it('counts rows and sums each metric per category, in order of first appearance', () => {
+    expect(
+      aggregateCategories(
+        [
+          { region: 'North', revenue: 10, cost: 4 },
+          { region: 'South', revenue: '5', cost: null },
+          { region: 'North', revenue: 'n/a', cost: 1 },
+        ],
+        suggestion
+      )
+    ).toEqual({
+      labels: ['North', 'South'],
+      counts: [2, 1],
+      sums: [
+        [10, 5],
+        [5, 0],
+      ],
+    });
+  });
+
+  it('groups categories past the limit under Other', () => {
+    const records = Array.from({ length: 1_002 }, (_, i) => ({ region: `r${i}`, revenue: 1 }));
+    const { labels, counts } = aggregateCategories(records, suggestion);
+
+    expect(labels).toHaveLength(1_001);
+    expect(labels.at(-1)).toBe('Other');
+    expect(counts.at(-1)).toBe(2);
+  });
+
+  it('only supports category charts with an x axis', () => {
+    expect(CategoryAggregator.supports(suggestion)).toBe(true);
+    expect(CategoryAggregator.supports({ ...suggestion, xAxis: undefined })).toBe(false);
+    expect(CategoryAggregator.supports({ ...suggestion, type: 'scatter' })).toBe(false);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * One-pass accumulators: exact column statistics for streamed data, and per-category
+ * totals that bar, stacked bar, combo and pie charts are drawn from
+ */
+
+import type { ChartAggregate, ChartSuggestion, ColumnProfile } from '../../shared/types/index.js';
+
+import { Z_SCORE_THRESHOLD } from './statistics.js';
+
+// Distinct values tracked per column; past this, unique counts are lower bounds
+const MAX_TRACKED_VALUES = 10_000;
+// Categories kept per chart; rows of any further category are grouped under OTHER_LABEL
+const MAX_CATEGORIES = 1_000;
+const OTHER_LABEL = 'Other';
+const MAX_OUTLIER_EXAMPLES = 5;
+
+const CATEGORY_CHART_TYPES = new Set([
+  'bar',
+  'horizontal_bar',
+  'stacked_bar',
+  'pie',
+  'donut',
+  'combo',
+]);
+
+/**
+ * Exact counts, extremes and moments of a column, gathered one value at a time.
+ * Quantiles and skewness need the full distribution and stay as estimated from a sample;
+ * histogram bins and outlier fences are taken from that estimate and counted exactly.
+ */
+export class ColumnAccumulator {
+  private nulls = 0;
+  private numbers = 0;
+  private mean = 0;
+  private sum = 0;
+  // Sum of squared differences from the running mean (Welford)
+  private m2 = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private readonly values = new Map<string, number>();
+  private readonly histogram: number[];
+  private iqrOutliers = 0;
+  private zScoreOutliers = 0;
+  private extremes: number[] = [];
+
+  constructor(private readonly estimate: ColumnProfile) {
+    this.histogram = (estimate.histogram ?? []).map(() => 0);
+  }
+
+  add(value: unknown): void {
+    if (value === null || value === undefined || value === '') {
+      this.nulls++;
+      return;
+    }
+
+    const key = String(value);
+    const seen = this.values.get(key);
+    if (seen !== undefined || this.values.size < MAX_TRACKED_VALUES) {
+      this.values.set(key, (seen ?? 0) + 1);
+    }
+
+    if (this.estimate.type === 'numeric') {
+      const number = Number(value);
+      if (!Number.isNaN(number)) this.addNumber(number);
+    } else if (this.estimate.type === 'datetime' && value instanceof Date) {
+      this.min = Math.min(this.min, value.getTime());
+      this.max = Math.max(this.max, value.getTime());
+    }
+  }
+
+  finish(): ColumnProfile {
+    const profile: ColumnProfile = {
+      ...this.estimate,
+      nullCount: this.nulls,
+      uniqueCount: this.values.size,
+    };
+
+    if (this.estimate.type === 'numeric' && this.numbers > 0) {
+      profile.min = this.min;
+      profile.max = this.max;
+      profile.mean = this.mean;
+      profile.sum = this.sum;
+      profile.stdDev = Math.sqrt(this.m2 / this.numbers);
+      if (this.estimate.histogram) {
+        profile.histogram = this.estimate.histogram.map((bin, i) => ({
+          start: i === 0 ? Math.min(bin.start, this.min) : bin.start,
+          end: i === this.histogram.length - 1 ? Math.max(bin.end, this.max) : bin.end,
+          count: this.histogram[i],
+        }));
+      }
+      if (this.estimate.outliers) {
+        profile.outliers = {
+          iqr: { ...this.estimate.outliers.iqr, count: this.iqrOutliers },
+          zScore: { ...this.estimate.outliers.zScore, count: this.zScoreOutliers },
+          examples: this.extremes,
+        };
+      }
+    } else if (this.estimate.type === 'datetime' && this.min <= this.max) {
+      profile.min = new Date(this.min).toISOString();
+      profile.max = new Date(this.max).toISOString();
+    } else if (this.estimate.type === 'categorical' || this.estimate.type === 'text') {
+      profile.topValues = [...this.values.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([value, count]) => ({ value, count }));
+    }
+
+    return profile;
+  }
+
+  private addNumber(number: number): void {
+    this.numbers++;
+    this.sum += number;
+    const delta = number - this.mean;
+    this.mean += delta / this.numbers;
+    this.m2 += delta * (number - this.mean);
+    this.min = Math.min(this.min, number);
+    this.max = Math.max(this.max, number);
+
+    const bins = this.estimate.histogram;
+    if (bins && bins.length > 0) {
+      // Values beyond the sampled range fall into the outermost bins
+      const index = bins.findIndex(bin => number < bin.end);
+      this.histogram[index === -1 ? bins.length - 1 : index]++;
+    }
+
+    const { outliers, mean, stdDev } = this.estimate;
+    if (!outliers || mean === undefined) return;
+
+    if (number < outliers.iqr.lowerFence || number > outliers.iqr.upperFence) {
+      this.iqrOutliers++;
+      this.extremes = [...this.extremes, number]
+        .sort((a, b) => Math.abs(b - mean) - Math.abs(a - mean))
+        .slice(0, MAX_OUTLIER_EXAMPLES);
+    }
+    if (stdDev && Math.abs(number - mean) / stdDev > Z_SCORE_THRESHOLD) {
+      this.zScoreOutliers++;
+    }
+  }
+}
+
+/**
+ * Row counts and yAxis totals per xAxis value, the input of category charts
+ */
+export class CategoryAggregator {
+  private readonly groups = new Map<string, { count: number; sums: number[] }>();
+  private readonly metrics: string[];
+
+  constructor(private readonly suggestion: ChartSuggestion) {
+    const { yAxis } = suggestion;
+    this.metrics = Array.isArray(yAxis) ? yAxis : yAxis ? [yAxis] : [];
+  }
+
+  /**
+   * Whether charts of this suggestion's type are drawn from category totals
+   */
+  static supports(suggestion: ChartSuggestion): boolean {
+    return CATEGORY_CHART_TYPES.has(suggestion.type) && suggestion.xAxis !== undefined;
+  }
+
+  add(record: Record<string, unknown>): void {
+    let label = String(record[this.suggestion.xAxis ?? '']);
+    if (!this.groups.has(label) && this.groups.size >= MAX_CATEGORIES) {
+      label = OTHER_LABEL;
+    }
+
+    const group = this.groups.get(label) ?? { count: 0, sums: this.metrics.map(() => 0) };
+    group.count++;
+    this.metrics.forEach((metric, i) => {
+      group.sums[i] += Number(record[metric]) || 0;
+    });
+    this.groups.set(label, group);
+  }
+
+  finish(): ChartAggregate {
+    const groups = [...this.groups.entries()];
+    return {
+      labels: groups.map(([label]) => label),
+      counts: groups.map(([, group]) => group.count),
+      sums: this.metrics.map((_, i) => groups.map(([, group]) => group.sums[i])),
+    };
+  }
+}
+
+/**
+ * Category totals for a suggestion over rows held in memory
+ */
+export function aggregateCategories(
+  records: Record<string, unknown>[],
+  suggestion: ChartSuggestion
+): ChartAggregate {
+  const aggregator = new CategoryAggregator(suggestion);
+  for (const record of records) {
+    aggregator.add(record);
+  }
+  return aggregator.finish();
+}
@@ -1,70 +1,826 @@
-import { parse } from 'csv-parse/sync';
+import type { Readable } from 'node:stream';
+
+import { parse, type Options } from 'csv-parse/sync';
 import * as XLSX from 'xlsx';
 
-import { createModuleLogger, type IDataProfiler } from '../../core/index.js';
+import {
+  config,
+  createModuleLogger,
+  type IDataProfiler,
+  type IStorageService,
+} from '../../core/index.js';
 import type {
   ChartSuggestion,
   ChartType,
   ColumnProfile,
   ColumnType,
+  CorrelationMatrix,
   DataProfile,
+  DatasetJoin,
+  DatasetOrigin,
+  DatasetProfile,
+  DatasetRelation,
+  DatasetUnion,
+  DeltaDirection,
   InputData,
+  PiiAction,
+  PiiConfig,
+  PiiRedactionSummary,
+  QualityCheckResult,
+  QualityRule,
   StructuredData,
+  StructuredFormat,
+  TimeGranularity,
+  TimeSeriesAnalysis,
+  TransformRecord,
+  TransformStep,
   UnstructuredData,
+  UploadReference,
 } from '../../shared/types/index.js';
+import { PiiTypeSchema, STREAMABLE_FORMATS } from '../../shared/types/index.js';
+
+import { aggregateCategories, CategoryAggregator, ColumnAccumulator } from './aggregates.js';
+import { parseNdjson, parseParquet, parseSqlite } from './formats.js';
+import { PiiRedactor } from './pii-redactor.js';
+import { QualityChecker } from './quality-rules.js';
+import {
+  detectSemanticType,
+  normalizeSemanticValue,
+  type SemanticDetection,
+} from './semantic-types.js';
+import { histogram, outliers, pearson, quantiles, skewness, spearman } from './statistics.js';
+import {
+  readCsvRecords,
+  readJsonRecords,
+  readNdjsonRecords,
+  ReservoirSample,
+} from './streaming.js';
+import { analyzeTimeSeries, TimeSeriesAccumulator } from './time-series.js';
+import { applyTransforms, RowPipeline } from './transforms.js';
 
 const logger = createModuleLogger('data-profiler');
 
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0']);
+
+// Semantic types that label rows rather than measure them
+const LABEL_SEMANTIC_TYPES = new Set(['identifier', 'postcode', 'email', 'url']);
+const GEO_SEMANTIC_TYPES = new Set(['country', 'region']);
+
+const GRANULARITY_LABELS: Record<TimeGranularity, string> = {
+  minute: 'Per Minute',
+  hour: 'Hourly',
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+  quarter: 'Quarterly',
+  year: 'Yearly',
+};
+
+const TREND_PHRASES: Record<DeltaDirection, string> = {
+  up: 'an upward trend',
+  down: 'a downward trend',
+  flat: 'a flat trend',
+};
+
+// Correlation work grows with the square of the column count
+const MAX_CORRELATION_COLUMNS = 12;
+// |r| at which a pair of columns is worth a scatter chart
+const STRONG_CORRELATION = 0.5;
+// |skewness| at which a column's distribution is worth a histogram
+const NOTABLE_SKEWNESS = 1;
+// Categories beyond which bars are drawn horizontally, as a ranked list
+const MAX_VERTICAL_BARS = 8;
+// Numeric columns compared side by side in a box plot
+const MAX_BOX_PLOT_COLUMNS = 4;
+
+type SchemaHints = Record<string, ColumnType>;
+type SemanticTypes = Map<string, SemanticDetection>;
+type RedactedColumns = Map<string, PiiAction>;
+
+interface ParsedDataset {
+  name: string;
+  origin: DatasetOrigin;
+  records: Record<string, unknown>[];
+  schemaHints: SchemaHints;
+  semanticTypes: SemanticTypes;
+  warnings: string[];
+  // Exact profile of a streamed upload; records then only hold its sample
+  profile?: DataProfile;
+  // Transform steps that ran on the input
+  transforms?: TransformRecord[];
+  // Results of the input's quality rules
+  qualityChecks?: QualityCheckResult[];
+  // Columns whose values PII redaction replaced
+  redacted?: RedactedColumns;
+}
+
+type CsvRecordOptions = Options<Record<string, unknown>> & { columns: true };
+
+// A parsed input: one table, or one per selected workbook sheet
+interface ParsedTable {
+  sheet?: string;
+  records: Record<string, unknown>[];
+}
+
+type FormatParser = (input: StructuredData) => ParsedTable[] | Promise<ParsedTable[]>;
+type StreamReader = (
+  stream: Readable,
+  input: StructuredData
+) => AsyncIterable<Record<string, unknown>>;
+
 export class DataProfiler implements IDataProfiler {
   /**
-   * Profile input data and generate insights about structure
+   * Parser for each structured format
+   */
+  private readonly parsers = new Map<StructuredFormat, FormatParser>([
+    ['csv', input => [{ records: this.parseCsv(input) }]],
+    ['tsv', input => [{ records: this.parseCsv(input) }]],
+    ['json', input => [{ records: this.parseText(input, text => JSON.parse(text)) }]],
+    ['ndjson', input => [{ records: this.parseText(input, parseNdjson) }]],
+    [
+      'xlsx',
+      input =>
+        input.sheets
+          ? this.parseExcelSheets(input.data ?? [], input.sheets)
+          : [{ records: this.parseExcelData(input.data ?? [], input.sheetName) }],
+    ],
+    ['parquet', async input => [{ records: await this.parseBinary(input, parseParquet) }]],
+    [
+      'sqlite',
+      async input => [
+        {
+          records: await this.parseBinary(input, buffer => parseSqlite(buffer, input.query ?? '')),
+        },
+      ],
+    ],
+  ]);
+
+  /**
+   * Record-by-record reader for each format that can be profiled from upload storage
+   */
+  private readonly streamReaders = new Map<StructuredFormat, StreamReader>([
+    ['csv', (stream, input) => readCsvRecords(stream, this.csvOptions(input))],
+    ['tsv', (stream, input) => readCsvRecords(stream, this.csvOptions(input))],
+    ['json', stream => readJsonRecords(stream)],
+    ['ndjson', stream => readNdjsonRecords(stream)],
+  ]);
+
+  constructor(private readonly storage: IStorageService) {}
+
+  /**
+   * Profile input data and generate insights about structure. Every structured input (or
+   * workbook sheet) is a named dataset; relations join or union them into further datasets.
    */
-  async profileData(inputData: InputData[]): Promise<{
+  async profileData(
+    inputData: InputData[],
+    relations: DatasetRelation[] = [],
+    pii: PiiConfig = {}
+  ): Promise<{
     profile: DataProfile;
     parsedData: Record<string, unknown>[];
     textContent: string[];
+    piiRedaction?: PiiRedactionSummary;
   }> {
-    let allRecords: Record<string, unknown>[] = [];
+    const datasets: ParsedDataset[] = [];
     const textContent: string[] = [];
+    const redactor = this.createRedactor(pii);
 
     for (const input of inputData) {
-      if (input.type === 'structured') {
-        const records = this.parseStructuredData(input);
-        allRecords = allRecords.concat(records);
+      if (
+        input.type === 'structured' &&
+        input.upload &&
+        STREAMABLE_FORMATS.includes(input.format)
+      ) {
+        const name = input.name ?? `dataset-${datasets.length + 1}`;
+        datasets.push(
+          await this.streamDataset(
+            input,
+            input.upload,
+            this.uniqueDatasetName(name, datasets),
+            redactor
+          )
+        );
+      } else if (input.type === 'structured') {
+        const hints = input.schemaHints ?? {};
+        for (const table of await this.parseStructuredData(await this.loadUpload(input))) {
+          const warnings: string[] = [];
+          const detected = this.detectSemanticTypes(table.records, hints);
+          const cast = detected.records.map(record =>
+            this.castCsvDates(input, record, detected.semanticTypes, hints)
+          );
+          const records = input.schemaHints
+            ? this.applySchemaHints(cast, input.schemaHints, warnings)
+            : cast;
+          const name = table.sheet ?? input.name ?? `dataset-${datasets.length + 1}`;
+
+          const dataset: ParsedDataset = {
+            name: this.uniqueDatasetName(name, datasets),
+            origin: table.sheet ? 'sheet' : 'input',
+            records,
+            schemaHints: hints,
+            semanticTypes: detected.semanticTypes,
+            warnings,
+          };
+          if (input.transforms) {
+            this.transformDataset(dataset, input.transforms);
+          }
+          this.checkAndRedact(dataset, input.qualityRules, redactor);
+          datasets.push(dataset);
+        }
       } else {
-        textContent.push(this.parseUnstructuredData(input));
+        const text = this.parseUnstructuredData(input);
+        textContent.push(redactor ? redactor.redactText(text) : text);
       }
     }
 
-    const profile = this.generateProfile(allRecords);
-    logger.info(`Data profiled: ${profile.rowCount} rows, ${profile.columnCount} columns`);
+    // Prefix warnings with their dataset once there is more than one to tell apart
+    const warnings = datasets.flatMap(dataset =>
+      datasets.length > 1
+        ? dataset.warnings.map(warning => `${dataset.name}: ${warning}`)
+        : dataset.warnings
+    );
+    const derived = this.applyRelations(datasets, relations, warnings);
+    const primary = derived.at(-1) ?? this.selectPrimaryDataset(datasets, warnings);
+
+    const profile = primary.profile
+      ? { ...primary.profile, ...(warnings.length > 0 && { warnings }) }
+      : this.generateProfile(primary, warnings);
+    if (datasets.length > 1) {
+      profile.dataset = primary.name;
+      profile.datasets = datasets.map(dataset =>
+        this.toDatasetProfile(
+          dataset,
+          dataset === primary ? profile : (dataset.profile ?? this.generateProfile(dataset))
+        )
+      );
+    }
+
+    const transforms = datasets.flatMap(dataset =>
+      (dataset.transforms ?? []).map(step =>
+        datasets.length > 1 ? { dataset: dataset.name, ...step } : step
+      )
+    );
+    if (transforms.length > 0) {
+      profile.transforms = transforms;
+    }
+    const qualityChecks = datasets.flatMap(dataset =>
+      (dataset.qualityChecks ?? []).map(check =>
+        datasets.length > 1 ? { dataset: dataset.name, ...check } : check
+      )
+    );
+    if (qualityChecks.length > 0) {
+      profile.qualityChecks = qualityChecks;
+    }
+
+    logger.info(`Data profiled: ${profile.rowCount} rows, ${profile.columnCount} columns`, {
+      dataset: profile.dataset,
+      datasets: datasets.length,
+      warnings: warnings.length,
+    });
+
+    const piiRedaction = redactor?.summary();
+    if (piiRedaction) {
+      logger.info(`PII ${piiRedaction.policy}: ${piiRedaction.totalMatches} matches`, {
+        findings: piiRedaction.findings.length,
+      });
+    }
+
+    return {
+      profile,
+      parsedData: this.sampleRecords(primary.records),
+      textContent,
+      ...(piiRedaction && { piiRedaction }),
+    };
+  }
+
+  /**
+   * Rows handed on to the workflow, capped at PROFILE_SAMPLE_ROWS so activity payloads stay
+   * small; the profile already holds the exact statistics, time series and category totals.
+   * Rows are taken at even intervals, so the same data yields the same sample (and prompt).
+   */
+  private sampleRecords(records: Record<string, unknown>[]): Record<string, unknown>[] {
+    const capacity = config.report.profileSampleRows;
+    if (records.length <= capacity) return records;
 
-    return { profile, parsedData: allRecords, textContent };
+    return Array.from(
+      { length: capacity },
+      (_, i) => records[Math.floor((i * records.length) / capacity)]
+    );
+  }
+
+  /**
+   * Redactor for the report's PII policy, or undefined when scanning is off
+   */
+  private createRedactor(pii: PiiConfig): PiiRedactor | undefined {
+    const policy = pii.policy ?? config.pii.policy;
+    if (policy === 'off') return undefined;
+    return new PiiRedactor(policy, pii.types ?? PiiTypeSchema.options, config.pii.hashSecret);
   }
 
   /**
-   * Parse structured data (JSON, CSV, or Excel)
+   * Read an upload that cannot be streamed (xlsx, Parquet, SQLite) into the base64 data its
+   * parser expects, so large binary files travel through the workflow as a reference only
    */
-  private parseStructuredData(input: StructuredData): Record<string, unknown>[] {
-    switch (input.format) {
-      case 'csv': {
-        const csvString = typeof input.data === 'string' ? input.data : '';
-        return parse(csvString, {
-          columns: true,
-          skip_empty_lines: true,
-          cast: true,
-          cast_date: true,
-        });
+  private async loadUpload(input: StructuredData): Promise<StructuredData> {
+    if (!input.upload) return input;
+
+    const { reportId, filename } = input.upload;
+    const buffer = await this.storage.getUpload(reportId, filename);
+    if (!buffer) {
+      throw new Error(`Upload not found: ${reportId}/${filename}`);
+    }
+    return { ...input, data: buffer.toString('base64'), upload: undefined };
+  }
+
+  /**
+   * Parse structured data with the parser registered for its format. Workbooks read with
+   * `sheets` yield one table per sheet; everything else yields a single table.
+   */
+  private async parseStructuredData(input: StructuredData): Promise<ParsedTable[]> {
+    const parser = this.parsers.get(input.format);
+    if (!parser) {
+      throw new Error(`Unsupported structured format: ${input.format}`);
+    }
+    return parser(input);
+  }
+
+  private parseCsv(input: StructuredData): Record<string, unknown>[] {
+    const csvString = typeof input.data === 'string' ? input.data : '';
+    return parse<Record<string, unknown>>(csvString, this.csvOptions(input));
+  }
+
+  /**
+   * Text formats arrive as a string, or already parsed as an array of records
+   */
+  private parseText(
+    input: StructuredData,
+    parseRecords: (text: string) => Record<string, unknown>[]
+  ): Record<string, unknown>[] {
+    return typeof input.data === 'string' ? parseRecords(input.data) : (input.data ?? []);
+  }
+
+  /**
+   * Binary formats arrive base64 encoded, or already parsed as an array of records
+   */
+  private async parseBinary(
+    input: StructuredData,
+    parseRecords: (buffer: Buffer) => Promise<Record<string, unknown>[]>
+  ): Promise<Record<string, unknown>[]> {
+    if (Array.isArray(input.data)) {
+      return input.data;
+    }
+    const records = await parseRecords(Buffer.from(input.data ?? '', 'base64'));
+    logger.info(`Parsed ${input.format} data: ${records.length} rows`);
+    return records;
+  }
+
+  /**
+   * csv-parse options for inline and streamed CSV/TSV. Hinted columns keep their raw text
+   * (e.g. ZIP codes with leading zeros) and are coerced in applySchemaHints; the rest have
+   * numbers cast here and dates in castCsvDates, once semantic types are detected.
+   */
+  private csvOptions(input: StructuredData): CsvRecordOptions {
+    const schemaHints = input.schemaHints ?? {};
+    const delimiter = input.format === 'tsv' ? '\t' : input.delimiter;
+    return {
+      columns: true,
+      skip_empty_lines: true,
+      ...(delimiter && { delimiter }),
+      cast: (value, context) =>
+        context.header || (typeof context.column === 'string' && context.column in schemaHints)
+          ? value
+          : this.castCsvNumber(value),
+    };
+  }
+
+  /**
+   * Profile an upload without holding it in memory. A first pass keeps a random sample,
+   * which decides column types, semantic types, distributions and chart suggestions; a
+   * second pass computes exact counts, moments, time series and chart totals over every row.
+   */
+  private async streamDataset(
+    input: StructuredData,
+    upload: UploadReference,
+    name: string,
+    redactor?: PiiRedactor
+  ): Promise<ParsedDataset> {
+    const hints = input.schemaHints ?? {};
+    const warnings: string[] = [];
+
+    const sample = new ReservoirSample<Record<string, unknown>>(config.report.profileSampleRows);
+    for await (const record of this.readUpload(input, upload)) {
+      sample.add(record);
+    }
+
+    const detected = this.detectSemanticTypes(sample.values(), hints);
+    const cast = detected.records.map(record =>
+      this.castCsvDates(input, record, detected.semanticTypes, hints)
+    );
+    const normalized = input.schemaHints
+      ? this.applySchemaHints(cast, input.schemaHints, warnings)
+      : cast;
+    const dataset: ParsedDataset = {
+      name,
+      origin: 'input',
+      records: normalized,
+      schemaHints: hints,
+      semanticTypes: detected.semanticTypes,
+      warnings,
+    };
+    const steps = input.transforms ?? [];
+
+    // Uploads that fit in the sample are profiled like inline data
+    if (sample.complete) {
+      this.transformDataset(dataset, steps);
+      this.checkAndRedact(dataset, input.qualityRules, redactor);
+      return dataset;
+    }
+
+    // Row steps keep a uniform sample uniform: the sampled rows a filter keeps are a
+    // uniform sample of all the rows it keeps
+    const samplePipeline = new RowPipeline(steps);
+    const transformedSample = normalized
+      .map(record => samplePipeline.apply(record))
+      .filter(record => record !== null);
+    this.inheritColumnTypes(dataset, samplePipeline.finish().lineage);
+
+    // Columns to drop are decided on the sample; its rows are tallied in the full pass
+    redactor?.plan(name, transformedSample);
+    const records = redactor
+      ? transformedSample.map(record => redactor.redact(record, name, false))
+      : transformedSample;
+    dataset.records = records;
+    dataset.redacted = redactor?.redactedColumns(name);
+
+    const estimate = this.generateProfile(dataset);
+    const columns = estimate.columns.map(column => new ColumnAccumulator(column));
+    const { timeSeries } = estimate;
+    const series =
+      timeSeries &&
+      new TimeSeriesAccumulator(
+        timeSeries.dateColumn,
+        estimate.columns.filter(c => c.type === 'numeric' && !c.redacted),
+        timeSeries.granularity
+      );
+    const aggregators = new Map(
+      estimate.suggestedCharts
+        .filter(suggestion => CategoryAggregator.supports(suggestion))
+        .map(suggestion => [this.suggestionKey(suggestion), new CategoryAggregator(suggestion)])
+    );
+
+    const pipeline = new RowPipeline(steps);
+    const checker = input.qualityRules && new QualityChecker(input.qualityRules);
+    let rowCount = 0;
+    for await (const raw of this.readUpload(input, upload)) {
+      const cast = this.castCsvDates(input, raw, detected.semanticTypes, hints);
+      const transformed = pipeline.apply(this.normalizeRecord(cast, detected.semanticTypes, hints));
+      if (transformed === null) continue;
+      checker?.add(transformed);
+      const record = redactor ? redactor.redact(transformed, name) : transformed;
+      rowCount++;
+      estimate.columns.forEach((column, i) => columns[i].add(record[column.name]));
+      series?.add(record);
+      for (const aggregator of aggregators.values()) {
+        aggregator.add(record);
       }
-      case 'xlsx':
-        return this.parseExcelData(input.data, input.sheetName);
-      case 'json':
-      default:
-        if (typeof input.data === 'string') {
-          return JSON.parse(input.data);
+    }
+
+    const transformed = pipeline.finish();
+    dataset.transforms = transformed.applied;
+    warnings.push(...transformed.warnings);
+    if (checker) {
+      dataset.qualityChecks = this.redactViolations(checker.finish(), name, redactor);
+    }
+
+    // PII the sample did not hold may have turned up in the full pass
+    dataset.redacted = redactor?.redactedColumns(name);
+    const exactColumns = columns.map(column =>
+      this.markRedacted(column.finish(), dataset.redacted)
+    );
+    const exactTimeSeries = timeSeries && series?.finish(timeSeries.sourceGranularity);
+    // Suggestions are rebuilt from the exact profile; their category totals carry over, and
+    // a suggestion the sample did not produce has no totals to draw from and is dropped
+    const suggestedCharts = this.suggestCharts(
+      exactColumns,
+      records,
+      estimate.correlations,
+      exactTimeSeries
+    ).filter(suggestion => {
+      if (!CategoryAggregator.supports(suggestion)) return true;
+      suggestion.aggregate = aggregators.get(this.suggestionKey(suggestion))?.finish();
+      return suggestion.aggregate !== undefined;
+    });
+
+    dataset.profile = {
+      rowCount,
+      columnCount: exactColumns.length,
+      columns: exactColumns,
+      dataQualityScore: this.calculateDataQualityScore(exactColumns, rowCount),
+      suggestedCharts,
+      ...(estimate.correlations && { correlations: estimate.correlations }),
+      ...(exactTimeSeries && { timeSeries: exactTimeSeries }),
+      sampledRows: records.length,
+    };
+    logger.info(`Streamed ${upload.filename}: ${rowCount} rows, ${records.length} sampled`);
+
+    return dataset;
+  }
+
+  /**
+   * Run an input's transform steps over a dataset held in memory
+   */
+  private transformDataset(dataset: ParsedDataset, steps: TransformStep[]): void {
+    if (steps.length === 0) return;
+
+    const outcome = applyTransforms(dataset.records, steps);
+    dataset.records = outcome.records;
+    dataset.transforms = outcome.applied;
+    dataset.warnings.push(...outcome.warnings);
+    this.inheritColumnTypes(dataset, outcome.lineage);
+  }
+
+  /**
+   * Check quality rules, then redact PII, on a dataset held in memory. Both run after the
+   * transforms, and the rules see the values before redaction.
+   */
+  private checkAndRedact(
+    dataset: ParsedDataset,
+    rules: QualityRule[] = [],
+    redactor?: PiiRedactor
+  ): void {
+    redactor?.plan(dataset.name, dataset.records);
+
+    if (rules.length > 0) {
+      const checker = new QualityChecker(rules);
+      for (const record of dataset.records) {
+        checker.add(record);
+      }
+      dataset.qualityChecks = this.redactViolations(checker.finish(), dataset.name, redactor);
+    }
+
+    if (redactor) {
+      dataset.records = dataset.records.map(record => redactor.redact(record, dataset.name));
+      dataset.redacted = redactor.redactedColumns(dataset.name);
+    }
+  }
+
+  /**
+   * Offending rows end up in the report, so they are redacted like the rows themselves
+   * (and not tallied again)
+   */
+  private redactViolations(
+    checks: QualityCheckResult[],
+    dataset: string,
+    redactor?: PiiRedactor
+  ): QualityCheckResult[] {
+    if (!redactor) return checks;
+    return checks.map(check =>
+      check.violations
+        ? {
+            ...check,
+            violations: check.violations.map(violation => ({
+              ...violation,
+              values: redactor.redact(violation.values, dataset, false),
+            })),
+          }
+        : check
+    );
+  }
+
+  /**
+   * Semantic types and schema hints follow a column through renames, selections and
+   * aggregates of its values; a column built from sources that disagree gets neither
+   */
+  private inheritColumnTypes(dataset: ParsedDataset, lineage: Map<string, string[]>): void {
+    const inherit = <T>(lookup: (source: string) => T | undefined): Array<[string, T]> =>
+      [...lineage].flatMap(([column, sources]): Array<[string, T]> => {
+        const values = sources.map(lookup);
+        const [first] = values;
+        return first !== undefined &&
+          values.every(value => JSON.stringify(value) === JSON.stringify(first))
+          ? [[column, first]]
+          : [];
+      });
+
+    const { semanticTypes, schemaHints } = dataset;
+    dataset.semanticTypes = new Map(inherit(source => semanticTypes.get(source)));
+    dataset.schemaHints = Object.fromEntries(
+      inherit(source => (source in schemaHints ? schemaHints[source] : undefined))
+    );
+  }
+
+  private async *readUpload(
+    input: StructuredData,
+    upload: UploadReference
+  ): AsyncGenerator<Record<string, unknown>> {
+    const stream = await this.storage.getUploadStream(upload.reportId, upload.filename);
+    if (!stream) {
+      throw new Error(`Upload not found: ${upload.reportId}/${upload.filename}`);
+    }
+    const reader = this.streamReaders.get(input.format);
+    if (!reader) {
+      stream.destroy();
+      throw new Error(`${input.format} data cannot be streamed`);
+    }
+    yield* reader(stream, input);
+  }
+
+  /**
+   * Apply detected semantic types and schema hints to a single streamed row, as
+   * detectSemanticTypes and applySchemaHints do for rows in memory
+   */
+  private normalizeRecord(
+    record: Record<string, unknown>,
+    semanticTypes: SemanticTypes,
+    hints: SchemaHints
+  ): Record<string, unknown> {
+    const result = { ...record };
+    for (const [name, detection] of semanticTypes) {
+      if (name in result) {
+        result[name] = normalizeSemanticValue(result[name], detection);
+      }
+    }
+    for (const [name, type] of Object.entries(hints)) {
+      const value = result[name];
+      if (type === 'unknown' || value === null || value === undefined || value === '') continue;
+      result[name] = this.coerceValue(value, type);
+    }
+    return result;
+  }
+
+  private suggestionKey(suggestion: ChartSuggestion): string {
+    return JSON.stringify([suggestion.type, suggestion.xAxis, suggestion.yAxis]);
+  }
+
+  /**
+   * Same conversion csv-parse applies with cast enabled
+   */
+  private castCsvNumber(value: string): unknown {
+    return value.trim() !== '' && !Number.isNaN(Number(value)) ? parseFloat(value) : value;
+  }
+
+  /**
+   * Cast CSV text that parses as a date, as csv-parse's cast_date does. It runs after
+   * semantic detection, which needs the raw text: Date.parse reads "12%" and "$45.10" as
+   * dates. Columns with a semantic type or a schema hint are left alone.
+   */
+  private castCsvDates(
+    input: StructuredData,
+    record: Record<string, unknown>,
+    semanticTypes: SemanticTypes,
+    hints: SchemaHints
+  ): Record<string, unknown> {
+    if (input.format !== 'csv' && input.format !== 'tsv') return record;
+
+    const result = { ...record };
+    for (const [name, value] of Object.entries(record)) {
+      if (typeof value !== 'string' || semanticTypes.has(name) || name in hints) continue;
+      const timestamp = Date.parse(value);
+      if (!Number.isNaN(timestamp)) {
+        result[name] = new Date(timestamp);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Detect semantic column types and normalize their values, e.g. "$1,250" to 1250.
+   * A schema hint that contradicts the semantic type wins.
+   */
+  private detectSemanticTypes(
+    records: Record<string, unknown>[],
+    hints: SchemaHints
+  ): { records: Record<string, unknown>[]; semanticTypes: SemanticTypes } {
+    const semanticTypes: SemanticTypes = new Map();
+    const columnNames = new Set(records.flatMap(record => Object.keys(record)));
+
+    for (const name of columnNames) {
+      const detection = detectSemanticType(
+        name,
+        records.map(r => r[name])
+      );
+      const hint = name in hints ? hints[name] : 'unknown';
+      const measured = detection?.type === 'currency' || detection?.type === 'percentage';
+      if (
+        detection &&
+        (hint === 'unknown' || (measured ? hint === 'numeric' : this.isTextual(hint)))
+      ) {
+        semanticTypes.set(name, detection);
+      }
+    }
+
+    if (semanticTypes.size === 0) {
+      return { records, semanticTypes };
+    }
+
+    const normalized = records.map(record => {
+      const result = { ...record };
+      for (const [name, detection] of semanticTypes) {
+        if (name in result) {
+          result[name] = normalizeSemanticValue(result[name], detection);
         }
-        return input.data;
+      }
+      return result;
+    });
+
+    return { records: normalized, semanticTypes };
+  }
+
+  /**
+   * Coerce hinted columns to their declared type. Declared types win over inference;
+   * disagreements and values that cannot be converted are reported as warnings.
+   */
+  private applySchemaHints(
+    records: Record<string, unknown>[],
+    hints: SchemaHints,
+    warnings: string[]
+  ): Record<string, unknown>[] {
+    const columnNames = new Set(records.flatMap(record => Object.keys(record)));
+    const hinted = Object.entries(hints).filter(([name, type]) => {
+      if (!columnNames.has(name)) {
+        warnings.push(`Schema hint for "${name}" ignored: column not found in the data`);
+        return false;
+      }
+      return type !== 'unknown';
+    });
+
+    for (const [name, type] of hinted) {
+      const inferred = this.inferColumnType(records.map(r => r[name]));
+      if (!this.isCompatibleType(type, inferred)) {
+        warnings.push(
+          `Column "${name}" is declared ${type} but its values look ${inferred}; using ${type}`
+        );
+      }
+    }
+
+    const failures = new Map<string, number>();
+    const coerced = records.map(record => {
+      const result = { ...record };
+      for (const [name, type] of hinted) {
+        const value = record[name];
+        if (value === null || value === undefined || value === '') continue;
+
+        const converted = this.coerceValue(value, type);
+        if (converted === null) {
+          failures.set(name, (failures.get(name) ?? 0) + 1);
+        }
+        result[name] = converted;
+      }
+      return result;
+    });
+
+    for (const [name, count] of failures) {
+      warnings.push(
+        `${count} value(s) in "${name}" could not be read as ${hints[name]} and were treated as missing`
+      );
     }
+
+    return coerced;
+  }
+
+  /**
+   * Convert a single value to the declared column type, or null when it does not fit
+   */
+  private coerceValue(value: unknown, type: ColumnType): unknown {
+    switch (type) {
+      case 'numeric': {
+        if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+        // Tolerate thousands separators and currency symbols in text exports
+        const number = Number(String(value).replace(/[\s,$€£]/g, ''));
+        return Number.isFinite(number) ? number : null;
+      }
+      case 'datetime': {
+        if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+        const date = new Date(typeof value === 'number' ? value : String(value));
+        return Number.isNaN(date.getTime()) ? null : date;
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') return value;
+        const normalized = String(value).trim().toLowerCase();
+        if (TRUE_VALUES.has(normalized)) return true;
+        if (FALSE_VALUES.has(normalized)) return false;
+        return null;
+      }
+      case 'categorical':
+      case 'text':
+        return value instanceof Date ? value.toISOString() : String(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Only a structured inferred type (numeric, datetime, boolean) can contradict a hint.
+   * Text may encode any type (e.g. "yes"/"no" flags); values that do not convert are
+   * reported separately as coercion failures.
+   */
+  private isCompatibleType(declared: ColumnType, inferred: ColumnType): boolean {
+    return declared === inferred || inferred === 'unknown' || this.isTextual(inferred);
+  }
+
+  private isTextual(type: ColumnType): boolean {
+    return type === 'categorical' || type === 'text';
   }
 
   /**
@@ -99,6 +855,45 @@ export class DataProfiler implements IDataProfiler {
     return records;
   }
 
+  /**
+   * Parse the selected sheets of a workbook, one table per sheet
+   */
+  private parseExcelSheets(
+    data: string | Record<string, unknown>[],
+    sheets: 'all' | string[]
+  ): Array<{ sheet?: string; records: Record<string, unknown>[] }> {
+    // Pre-parsed rows carry no sheets to choose from
+    if (Array.isArray(data)) {
+      return [{ records: data }];
+    }
+
+    const workbook = XLSX.read(Buffer.from(data, 'base64'), { type: 'buffer', cellDates: true });
+    let selected = workbook.SheetNames;
+    if (sheets !== 'all') {
+      selected = sheets.filter(name => name in workbook.Sheets);
+      const missing = sheets.filter(name => !selected.includes(name));
+      if (missing.length > 0) {
+        logger.warn(`Sheet(s) not found: ${missing.join(', ')}`);
+      }
+      if (selected.length === 0) {
+        return [{ records: this.parseExcelData(data) }];
+      }
+    }
+
+    const tables = selected
+      .map(sheet => ({
+        sheet,
+        records: XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheet]),
+      }))
+      // Blank sheets in an "all" selection are skipped rather than profiled as empty datasets
+      .filter(table => sheets !== 'all' || table.records.length > 0);
+
+    logger.info(`Parsed Excel file: ${tables.length} sheet(s)`, {
+      sheets: tables.map(table => `${table.sheet} (${table.records.length} rows)`),
+    });
+    return tables;
+  }
+
   /**
    * Parse unstructured data
    */
@@ -106,10 +901,293 @@ export class DataProfiler implements IDataProfiler {
     return input.content;
   }
 
+  /**
+   * Run the declared joins and unions in order and return the datasets they produced.
+   * Relations that refer to unknown datasets or columns are skipped with a warning.
+   */
+  private applyRelations(
+    datasets: ParsedDataset[],
+    relations: DatasetRelation[],
+    warnings: string[]
+  ): ParsedDataset[] {
+    const derived: ParsedDataset[] = [];
+
+    for (const relation of relations) {
+      const names = relation.type === 'join' ? [relation.left, relation.right] : relation.datasets;
+      const sources = names.map(name => datasets.find(dataset => dataset.name === name));
+      const missing = names.filter((_, i) => !sources[i]);
+      if (missing.length > 0) {
+        warnings.push(
+          `${relation.type} skipped: dataset(s) ${missing.map(n => `"${n}"`).join(', ')} not found; ` +
+            `available: ${datasets.map(dataset => dataset.name).join(', ')}`
+        );
+        continue;
+      }
+
+      const found = sources.filter(dataset => dataset !== undefined);
+      const streamed = found.filter(dataset => dataset.profile);
+      if (streamed.length > 0) {
+        warnings.push(
+          `${relation.type} skipped: ${streamed.map(d => `"${d.name}"`).join(', ')} ` +
+            'was streamed, so only a sample of its rows is available'
+        );
+        continue;
+      }
+
+      const result =
+        relation.type === 'join'
+          ? this.joinDatasets(found[0], found[1], relation, warnings)
+          : this.unionDatasets(found, relation, warnings);
+      if (result) {
+        result.name = this.uniqueDatasetName(result.name, datasets);
+        datasets.push(result);
+        derived.push(result);
+      }
+    }
+
+    return derived;
+  }
+
+  /**
+   * Join two datasets on shared key columns. Right-hand columns whose names clash with the
+   * left dataset are prefixed with the right dataset's name.
+   */
+  private joinDatasets(
+    left: ParsedDataset,
+    right: ParsedDataset,
+    relation: DatasetJoin,
+    warnings: string[]
+  ): ParsedDataset | null {
+    const keys = typeof relation.on === 'string' ? [relation.on] : relation.on;
+    const name = relation.name ?? `${left.name}+${right.name}`;
+    const leftColumns = this.columnNames(left.records);
+    const rightColumns = this.columnNames(right.records);
+
+    const missingKeys = keys.filter(
+      key => !leftColumns.includes(key) || !rightColumns.includes(key)
+    );
+    if (missingKeys.length > 0) {
+      warnings.push(
+        `join "${name}" skipped: key column(s) ${missingKeys.join(', ')} not in both "${left.name}" and "${right.name}"`
+      );
+      return null;
+    }
+
+    const renamed = new Map(
+      rightColumns
+        .filter(column => !keys.includes(column))
+        .map((column): [string, string] => [
+          column,
+          leftColumns.includes(column) ? `${right.name}.${column}` : column,
+        ])
+    );
+    const rightValues = (record: Record<string, unknown> | undefined): Record<string, unknown> =>
+      Object.fromEntries(
+        [...renamed].map(([column, target]) => [target, record ? (record[column] ?? null) : null])
+      );
+
+    const index = new Map<string, Array<Record<string, unknown>>>();
+    for (const record of right.records) {
+      const key = this.joinKey(record, keys);
+      if (key !== null) index.set(key, [...(index.get(key) ?? []), record]);
+    }
+
+    const matched = new Set<Record<string, unknown>>();
+    const records: Array<Record<string, unknown>> = [];
+    let unmatched = 0;
+    for (const record of left.records) {
+      const key = this.joinKey(record, keys);
+      const matches = key === null ? [] : (index.get(key) ?? []);
+      if (matches.length === 0) {
+        unmatched++;
+        if (relation.how !== 'inner') records.push({ ...record, ...rightValues(undefined) });
+      }
+      for (const match of matches) {
+        matched.add(match);
+        records.push({ ...record, ...rightValues(match) });
+      }
+    }
+
+    if (relation.how === 'full') {
+      const emptyLeft = Object.fromEntries(leftColumns.map(column => [column, null]));
+      for (const record of right.records.filter(r => !matched.has(r))) {
+        const keyValues = Object.fromEntries(keys.map(key => [key, record[key]]));
+        records.push({ ...emptyLeft, ...keyValues, ...rightValues(record) });
+      }
+    }
+
+    if (unmatched > 0) {
+      warnings.push(
+        `join "${name}": ${unmatched} of ${left.records.length} row(s) in "${left.name}" have no match in "${right.name}"`
+      );
+    }
+    if ([...index.values()].some(group => group.length > 1)) {
+      warnings.push(
+        `join "${name}": key ${keys.join(', ')} repeats in "${right.name}", so matching "${left.name}" rows appear more than once`
+      );
+    }
+
+    return {
+      name,
+      origin: 'join',
+      records,
+      schemaHints: {
+        ...left.schemaHints,
+        ...Object.fromEntries(this.renameKeys(right.schemaHints, renamed)),
+      },
+      semanticTypes: new Map([
+        ...this.renameKeys(right.semanticTypes, renamed),
+        ...left.semanticTypes,
+      ]),
+      redacted: new Map([
+        ...this.renameKeys(right.redacted ?? {}, renamed),
+        ...(left.redacted ?? []),
+      ]),
+      warnings: [],
+    };
+  }
+
+  /**
+   * Stack datasets on top of each other; columns a dataset lacks are left empty
+   */
+  private unionDatasets(
+    sources: ParsedDataset[],
+    relation: DatasetUnion,
+    warnings: string[]
+  ): ParsedDataset {
+    const name = relation.name ?? sources.map(dataset => dataset.name).join('+');
+    const columnSets = sources.map(dataset => this.columnNames(dataset.records));
+    const columns = [...new Set(columnSets.flat())];
+
+    const partial = columns.filter(column => columnSets.some(set => !set.includes(column)));
+    if (partial.length > 0) {
+      warnings.push(
+        `union "${name}": column(s) ${partial.join(', ')} are missing from some datasets and left empty there`
+      );
+    }
+
+    const records = sources.flatMap(dataset =>
+      dataset.records.map(record => ({
+        ...(relation.sourceColumn && { [relation.sourceColumn]: dataset.name }),
+        ...Object.fromEntries(columns.map(column => [column, record[column] ?? null])),
+      }))
+    );
+
+    return {
+      name,
+      origin: 'union',
+      records,
+      schemaHints: Object.assign({}, ...sources.map(dataset => dataset.schemaHints)),
+      semanticTypes: new Map(sources.flatMap(dataset => [...dataset.semanticTypes]).reverse()),
+      redacted: new Map(sources.flatMap(dataset => [...(dataset.redacted ?? [])])),
+      warnings: [],
+    };
+  }
+
+  /**
+   * Without relations, datasets sharing one set of columns are stacked as before; datasets
+   * with different columns are never mixed, and the report uses the first one
+   */
+  private selectPrimaryDataset(datasets: ParsedDataset[], warnings: string[]): ParsedDataset {
+    if (datasets.length === 0) {
+      return {
+        name: 'dataset-1',
+        origin: 'input',
+        records: [],
+        schemaHints: {},
+        semanticTypes: new Map(),
+        warnings: [],
+      };
+    }
+
+    const [first] = datasets;
+    if (datasets.length === 1) return first;
+
+    if (datasets.some(dataset => dataset.profile)) {
+      warnings.push(
+        `Streamed datasets cannot be combined, so the report is based on "${first.name}" only`
+      );
+      return first;
+    }
+
+    const signature = (dataset: ParsedDataset): string =>
+      this.columnNames(dataset.records).sort().join('\u0000');
+    if (datasets.every(dataset => signature(dataset) === signature(first))) {
+      const name = this.uniqueDatasetName('combined', datasets);
+      const combined = this.unionDatasets(
+        datasets,
+        { type: 'union', datasets: [], name },
+        warnings
+      );
+      datasets.push(combined);
+      return combined;
+    }
+
+    warnings.push(
+      `The datasets have different columns, so the report is based on "${first.name}" only; ` +
+        'declare a join or union in relations to combine them'
+    );
+    return first;
+  }
+
+  private toDatasetProfile(dataset: ParsedDataset, profile: DataProfile): DatasetProfile {
+    return {
+      name: dataset.name,
+      origin: dataset.origin,
+      rowCount: profile.rowCount,
+      columnCount: profile.columnCount,
+      columns: profile.columns,
+      dataQualityScore: profile.dataQualityScore,
+      ...(profile.correlations && { correlations: profile.correlations }),
+      ...(profile.timeSeries && { timeSeries: profile.timeSeries }),
+    };
+  }
+
+  /**
+   * Join key of a record, or null when any key column is empty
+   */
+  private joinKey(record: Record<string, unknown>, keys: string[]): string | null {
+    const values: string[] = [];
+    for (const key of keys) {
+      const value = record[key];
+      if (value === null || value === undefined || value === '') return null;
+      // Compare as text so 42 matches "42" and dates match regardless of instance
+      values.push(value instanceof Date ? value.toISOString() : String(value).trim());
+    }
+    return JSON.stringify(values);
+  }
+
+  private columnNames(records: Record<string, unknown>[]): string[] {
+    return [...new Set(records.flatMap(record => Object.keys(record)))];
+  }
+
+  private renameKeys<T>(
+    entries: Record<string, T> | Map<string, T>,
+    renamed: Map<string, string>
+  ): Array<[string, T]> {
+    const pairs = entries instanceof Map ? [...entries] : Object.entries(entries);
+    return pairs
+      .filter(([column]) => renamed.has(column))
+      .map(([column, value]) => [renamed.get(column) ?? column, value]);
+  }
+
+  private uniqueDatasetName(name: string, datasets: ParsedDataset[]): string {
+    const taken = new Set(datasets.map(dataset => dataset.name));
+    let unique = name;
+    for (let n = 2; taken.has(unique); n++) {
+      unique = `${name}-${n}`;
+    }
+    return unique;
+  }
+
   /**
    * Generate comprehensive data profile
    */
-  private generateProfile(records: Record<string, unknown>[]): DataProfile {
+  private generateProfile(
+    dataset: Pick<ParsedDataset, 'records' | 'schemaHints' | 'semanticTypes' | 'redacted'>,
+    warnings: string[] = []
+  ): DataProfile {
+    const { records } = dataset;
     if (records.length === 0) {
       return {
         rowCount: 0,
@@ -117,11 +1195,21 @@ export class DataProfiler implements IDataProfiler {
         columns: [],
         dataQualityScore: 0,
         suggestedCharts: [],
+        ...(warnings.length > 0 && { warnings }),
       };
     }
 
-    const columns = this.profileColumns(records);
-    const suggestedCharts = this.suggestCharts(columns, records);
+    const columns = this.profileColumns(records, dataset.schemaHints, dataset.semanticTypes).map(
+      column => this.markRedacted(column, dataset.redacted)
+    );
+    const correlations = this.calculateCorrelations(columns, records);
+    const timeSeries = this.analyzeTimeSeries(columns, records);
+    const suggestedCharts = this.suggestCharts(columns, records, correlations, timeSeries);
+    for (const suggestion of suggestedCharts) {
+      if (CategoryAggregator.supports(suggestion)) {
+        suggestion.aggregate = aggregateCategories(records, suggestion);
+      }
+    }
     const dataQualityScore = this.calculateDataQualityScore(columns, records.length);
 
     return {
@@ -130,19 +1218,103 @@ export class DataProfiler implements IDataProfiler {
       columns,
       dataQualityScore,
       suggestedCharts,
+      ...(correlations && { correlations }),
+      ...(timeSeries && { timeSeries }),
+      ...(warnings.length > 0 && { warnings }),
     };
   }
 
   /**
-   * Profile each column in the dataset
+   * Resample the numeric columns against the first datetime column
+   */
+  private analyzeTimeSeries(
+    columns: ColumnProfile[],
+    records: Record<string, unknown>[]
+  ): TimeSeriesAnalysis | undefined {
+    const dateColumn = columns.find(c => c.type === 'datetime' && !c.redacted);
+    const numericColumns = columns.filter(c => c.type === 'numeric' && !c.redacted);
+    if (!dateColumn || numericColumns.length === 0) return undefined;
+
+    return analyzeTimeSeries(records, dateColumn.name, numericColumns);
+  }
+
+  /**
+   * Pearson and Spearman correlations between numeric columns, using the rows where
+   * both values are present
    */
-  private profileColumns(records: Record<string, unknown>[]): ColumnProfile[] {
+  private calculateCorrelations(
+    columns: ColumnProfile[],
+    records: Record<string, unknown>[]
+  ): CorrelationMatrix | undefined {
+    const names = columns
+      .filter(c => c.type === 'numeric' && !c.redacted)
+      .slice(0, MAX_CORRELATION_COLUMNS)
+      .map(c => c.name);
+    if (names.length < 2) return undefined;
+
+    // Missing values become NaN so they drop out of each pair
+    const values = names.map(name =>
+      records.map(r => (r[name] === null || r[name] === '' ? NaN : Number(r[name])))
+    );
+    const emptyMatrix = (): Array<Array<number | null>> => names.map(() => names.map(() => null));
+    const pearsonMatrix = emptyMatrix();
+    const spearmanMatrix = emptyMatrix();
+
+    for (let i = 0; i < names.length; i++) {
+      pearsonMatrix[i][i] = 1;
+      spearmanMatrix[i][i] = 1;
+      for (let j = i + 1; j < names.length; j++) {
+        const xs: number[] = [];
+        const ys: number[] = [];
+        for (let row = 0; row < records.length; row++) {
+          if (Number.isFinite(values[i][row]) && Number.isFinite(values[j][row])) {
+            xs.push(values[i][row]);
+            ys.push(values[j][row]);
+          }
+        }
+        pearsonMatrix[i][j] = pearsonMatrix[j][i] = pearson(xs, ys) ?? null;
+        spearmanMatrix[i][j] = spearmanMatrix[j][i] = spearman(xs, ys) ?? null;
+      }
+    }
+
+    return { columns: names, pearson: pearsonMatrix, spearman: spearmanMatrix };
+  }
+
+  /**
+   * Stats and top values of placeholders or hashes say nothing about the data (a masked
+   * email column is one "[EMAIL]" category), so a redacted column only keeps its counts
+   */
+  private markRedacted(column: ColumnProfile, redacted?: RedactedColumns): ColumnProfile {
+    const action = redacted?.get(column.name);
+    if (!action) return column;
+
+    const { name, type, nullCount, uniqueCount } = column;
+    return { name, type, nullCount, uniqueCount, redacted: action };
+  }
+
+  /**
+   * Profile each column in the dataset. Declared types from schema hints take
+   * precedence over inference; semantic types keep labels such as IDs out of the stats.
+   */
+  private profileColumns(
+    records: Record<string, unknown>[],
+    schemaHints: SchemaHints = {},
+    semanticTypes: SemanticTypes = new Map()
+  ): ColumnProfile[] {
     const columnNames = Object.keys(records[0] || {});
 
     return columnNames.map(name => {
       const values = records.map(r => r[name]);
-      const type = this.inferColumnType(values);
       const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '');
+      const hint = name in schemaHints ? schemaHints[name] : 'unknown';
+      const semantic = semanticTypes.get(name);
+
+      let type = hint !== 'unknown' ? hint : this.inferColumnType(values);
+      if (hint === 'unknown' && semantic && GEO_SEMANTIC_TYPES.has(semantic.type)) {
+        type = 'categorical';
+      } else if (hint === 'unknown' && semantic && LABEL_SEMANTIC_TYPES.has(semantic.type)) {
+        type = this.isLowCardinality(nonNullValues) ? 'categorical' : 'text';
+      }
 
       const profile: ColumnProfile = {
         name,
@@ -151,14 +1323,28 @@ export class DataProfiler implements IDataProfiler {
         uniqueCount: new Set(nonNullValues.map(String)).size,
       };
 
+      if (semantic) {
+        profile.semanticType = semantic.type;
+        if (semantic.currency) {
+          profile.currency = semantic.currency;
+        }
+      }
+
       if (type === 'numeric') {
         const numbers = nonNullValues.map(Number).filter(n => !Number.isNaN(n));
         if (numbers.length > 0) {
           profile.min = Math.min(...numbers);
           profile.max = Math.max(...numbers);
-          profile.mean = numbers.reduce((a, b) => a + b, 0) / numbers.length;
+          profile.sum = numbers.reduce((a, b) => a + b, 0);
+          profile.mean = profile.sum / numbers.length;
           profile.median = this.calculateMedian(numbers);
           profile.stdDev = this.calculateStdDev(numbers, profile.mean);
+
+          const sorted = [...numbers].sort((a, b) => a - b);
+          profile.quantiles = quantiles(sorted);
+          profile.skewness = skewness(numbers, profile.mean, profile.stdDev);
+          profile.outliers = outliers(sorted, profile.mean, profile.stdDev, profile.quantiles);
+          profile.histogram = histogram(sorted);
         }
       } else if (type === 'categorical' || type === 'text') {
         profile.topValues = this.getTopValues(nonNullValues.map(String), 5);
@@ -200,12 +1386,16 @@ export class DataProfiler implements IDataProfiler {
     if (numCount / nonNullValues.length > 0.8) return 'numeric';
 
     // Check for categorical (low cardinality strings)
-    const uniqueRatio = new Set(nonNullValues.map(String)).size / nonNullValues.length;
-    if (uniqueRatio < 0.5 && nonNullValues.length > 10) return 'categorical';
+    if (this.isLowCardinality(nonNullValues)) return 'categorical';
 
     return 'text';
   }
 
+  private isLowCardinality(nonNullValues: unknown[]): boolean {
+    const uniqueRatio = new Set(nonNullValues.map(String)).size / nonNullValues.length;
+    return uniqueRatio < 0.5 && nonNullValues.length > 10;
+  }
+
   /**
    * Check if a value is a date string
    */
@@ -254,36 +1444,66 @@ export class DataProfiler implements IDataProfiler {
    */
   private suggestCharts(
     columns: ColumnProfile[],
-    records: Record<string, unknown>[]
+    records: Record<string, unknown>[],
+    correlations?: CorrelationMatrix,
+    timeSeries?: TimeSeriesAnalysis
   ): ChartSuggestion[] {
-    const dateColumns = columns.filter(c => c.type === 'datetime');
-    const numericColumns = columns.filter(c => c.type === 'numeric');
-    const categoricalColumns = columns.filter(c => c.type === 'categorical');
+    const charted = columns.filter(c => !c.redacted);
+    const dateColumns = charted.filter(c => c.type === 'datetime');
+    const numericColumns = charted.filter(c => c.type === 'numeric');
+    // Countries and regions make the most natural groupings, so they come first
+    const categoricalColumns = charted
+      .filter(c => c.type === 'categorical')
+      .sort(
+        (a, b) =>
+          Number(GEO_SEMANTIC_TYPES.has(b.semanticType ?? '')) -
+          Number(GEO_SEMANTIC_TYPES.has(a.semanticType ?? ''))
+      );
 
     const suggestions: ChartSuggestion[] = [
-      ...this.suggestTimeSeriesCharts(dateColumns, numericColumns),
+      ...this.suggestTimeSeriesCharts(dateColumns, numericColumns, timeSeries),
       ...this.suggestCategoryCharts(categoricalColumns, numericColumns),
+      ...this.suggestCorrelationCharts(correlations),
       ...this.suggestDistributionCharts(categoricalColumns),
+      ...this.suggestHistogramCharts(numericColumns),
+      ...this.suggestComboChart(categoricalColumns, numericColumns),
+      ...this.suggestCorrelationHeatmap(correlations),
+      ...this.suggestBoxPlot(numericColumns),
       ...this.suggestMultiMetricChart(categoricalColumns, numericColumns),
       ...this.suggestSummaryTable(records),
     ];
 
-    return suggestions.slice(0, 8); // Limit to 8 suggestions
+    return suggestions.slice(0, 10); // Limit to 10 suggestions
   }
 
   private suggestTimeSeriesCharts(
     dateColumns: ColumnProfile[],
-    numericColumns: ColumnProfile[]
+    numericColumns: ColumnProfile[],
+    timeSeries?: TimeSeriesAnalysis
   ): ChartSuggestion[] {
     if (dateColumns.length === 0 || numericColumns.length === 0) return [];
 
-    return numericColumns.slice(0, 3).map(numCol => ({
-      type: 'line' as ChartType,
-      title: `${numCol.name} Over Time`,
-      xAxis: dateColumns[0].name,
-      yAxis: numCol.name,
-      reason: 'Time-series data detected - line chart recommended for trend visualization',
-    }));
+    return numericColumns.slice(0, 3).map(numCol => {
+      const metric = timeSeries?.metrics.find(m => m.column === numCol.name);
+      if (!timeSeries || !metric) {
+        return {
+          type: 'line' as ChartType,
+          title: `${numCol.name} Over Time`,
+          xAxis: dateColumns[0].name,
+          yAxis: numCol.name,
+          reason: 'Time-series data detected - line chart recommended for trend visualization',
+        };
+      }
+
+      const trend = TREND_PHRASES[metric.trend.direction];
+      return {
+        type: 'line' as ChartType,
+        title: `${numCol.name} Over Time (${GRANULARITY_LABELS[timeSeries.granularity]})`,
+        xAxis: timeSeries.dateColumn,
+        yAxis: numCol.name,
+        reason: `${GRANULARITY_LABELS[timeSeries.granularity]} series with ${trend}${metric.seasonality ? ` and seasonality peaking in ${metric.seasonality.peak}` : ''} - line chart recommended`,
+      };
+    });
   }
 
   private suggestCategoryCharts(
@@ -294,15 +1514,46 @@ export class DataProfiler implements IDataProfiler {
 
     return categoricalColumns.slice(0, 2).flatMap(catCol =>
       numericColumns.slice(0, 2).map(numCol => ({
-        type: 'bar' as ChartType,
-        title: `${numCol.name} by ${catCol.name}`,
+        type: (catCol.uniqueCount > MAX_VERTICAL_BARS ? 'horizontal_bar' : 'bar') as ChartType,
+        // Percentages are averaged per category rather than summed
+        title: `${numCol.semanticType === 'percentage' ? 'Average ' : ''}${numCol.name} by ${catCol.name}`,
         xAxis: catCol.name,
         yAxis: numCol.name,
-        reason: 'Categorical grouping detected - bar chart recommended for comparison',
+        reason:
+          catCol.uniqueCount > MAX_VERTICAL_BARS
+            ? 'Many categories detected - horizontal bar chart recommended for a ranked comparison'
+            : 'Categorical grouping detected - bar chart recommended for comparison',
       }))
     );
   }
 
+  /**
+   * Two metrics in different units (an amount and a rate, say) share a chart as bars and a
+   * line, each against its own axis
+   */
+  private suggestComboChart(
+    categoricalColumns: ColumnProfile[],
+    numericColumns: ColumnProfile[]
+  ): ChartSuggestion[] {
+    const bars = numericColumns.find(c => c.semanticType !== 'percentage');
+    const line = numericColumns.find(
+      c =>
+        bars !== undefined &&
+        (c.semanticType !== bars.semanticType || c.currency?.code !== bars.currency?.code)
+    );
+    if (categoricalColumns.length === 0 || !bars || !line) return [];
+
+    return [
+      {
+        type: 'combo' as ChartType,
+        title: `${bars.name} and ${line.semanticType === 'percentage' ? 'Average ' : ''}${line.name} by ${categoricalColumns[0].name}`,
+        xAxis: categoricalColumns[0].name,
+        yAxis: [bars.name, line.name],
+        reason: 'Metrics in different units - bar and line combo recommended with two axes',
+      },
+    ];
+  }
+
   private suggestDistributionCharts(categoricalColumns: ColumnProfile[]): ChartSuggestion[] {
     return categoricalColumns
       .slice(0, 2)
@@ -315,18 +1566,104 @@ export class DataProfiler implements IDataProfiler {
       }));
   }
 
+  private suggestCorrelationCharts(correlations?: CorrelationMatrix): ChartSuggestion[] {
+    if (!correlations) return [];
+
+    const { columns, pearson: matrix } = correlations;
+    const pairs = columns.flatMap((x, i) =>
+      columns.slice(i + 1).map((y, offset) => ({ x, y, r: matrix[i][i + 1 + offset] ?? 0 }))
+    );
+
+    return pairs
+      .filter(pair => Math.abs(pair.r) >= STRONG_CORRELATION)
+      .sort((a, b) => Math.abs(b.r) - Math.abs(a.r))
+      .slice(0, 2)
+      .map(pair => ({
+        type: 'scatter' as ChartType,
+        title: `${pair.y} vs ${pair.x}`,
+        xAxis: pair.x,
+        yAxis: pair.y,
+        trendline: true,
+        reason: `${pair.r > 0 ? 'Positive' : 'Negative'} correlation (r = ${pair.r.toFixed(2)}) - scatter plot recommended`,
+      }));
+  }
+
+  private suggestCorrelationHeatmap(correlations?: CorrelationMatrix): ChartSuggestion[] {
+    // Two columns are a single pair, better shown as a scatter plot
+    if (!correlations || correlations.columns.length < 3) return [];
+
+    return [
+      {
+        type: 'heatmap' as ChartType,
+        title: 'Correlation Matrix',
+        reason: `${correlations.columns.length} numeric columns - correlation heatmap recommended to show every pair`,
+      },
+    ];
+  }
+
+  private suggestHistogramCharts(numericColumns: ColumnProfile[]): ChartSuggestion[] {
+    return numericColumns
+      .filter(
+        col => Math.abs(col.skewness ?? 0) >= NOTABLE_SKEWNESS || (col.outliers?.iqr.count ?? 0) > 0
+      )
+      .slice(0, 2)
+      .map(col => ({
+        type: 'histogram' as ChartType,
+        title: `${col.name} Distribution`,
+        xAxis: col.name,
+        reason:
+          (col.outliers?.iqr.count ?? 0) > 0
+            ? `${col.outliers?.iqr.count} outlier(s) detected - histogram recommended to show the spread`
+            : 'Skewed distribution detected - histogram recommended to show the spread',
+      }));
+  }
+
+  /**
+   * Numeric columns on the same scale, compared by their quartiles and whiskers
+   */
+  private suggestBoxPlot(numericColumns: ColumnProfile[]): ChartSuggestion[] {
+    // Grouped by unit: semantic type and currency
+    const groups = new Map<string, ColumnProfile[]>();
+    for (const col of numericColumns.filter(c => c.quantiles)) {
+      const unit = `${col.semanticType ?? ''}:${col.currency?.code ?? ''}`;
+      groups.set(unit, [...(groups.get(unit) ?? []), col]);
+    }
+    const comparable = [...groups.values()]
+      .find(group => group.length >= 2)
+      ?.slice(0, MAX_BOX_PLOT_COLUMNS);
+    if (!comparable) return [];
+
+    return [
+      {
+        type: 'box_plot' as ChartType,
+        title: `Spread of ${comparable.map(c => c.name).join(', ')}`,
+        yAxis: comparable.map(c => c.name),
+        reason:
+          'Several numeric columns on the same scale - box plot recommended to compare their spread',
+      },
+    ];
+  }
+
   private suggestMultiMetricChart(
     categoricalColumns: ColumnProfile[],
     numericColumns: ColumnProfile[]
   ): ChartSuggestion[] {
-    if (numericColumns.length < 2 || categoricalColumns.length === 0) return [];
+    // Only stack metrics that add up: no percentages, and a single unit
+    const additive = numericColumns.filter(c => c.semanticType !== 'percentage');
+    if (additive.length < 2 || categoricalColumns.length === 0) return [];
+
+    const [first] = additive;
+    const stackable = additive.filter(
+      c => c.semanticType === first.semanticType && c.currency?.code === first.currency?.code
+    );
+    if (stackable.length < 2) return [];
 
     return [
       {
         type: 'stacked_bar' as ChartType,
         title: 'Multi-Metric Comparison',
         xAxis: categoricalColumns[0].name,
-        yAxis: numericColumns.slice(0, 3).map(c => c.name),
+        yAxis: stackable.slice(0, 3).map(c => c.name),
         reason: 'Multiple numeric metrics with categories - stacked bar recommended',
       },
     ];
@@ -358,8 +1695,8 @@ export class DataProfiler implements IDataProfiler {
     const nullRate = totalNulls / totalCells;
     score -= nullRate * 30;
 
-    // Penalize for low uniqueness in non-categorical columns
-    const nonCatColumns = columns.filter(c => c.type !== 'categorical');
+    // Penalize for low uniqueness in non-categorical columns (masking makes values alike)
+    const nonCatColumns = columns.filter(c => c.type !== 'categorical' && !c.redacted);
     if (nonCatColumns.length > 0) {
       const avgUniqueness =
         nonCatColumns.reduce((sum, col) => sum + col.uniqueCount / rowCount, 0) /
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileExpression, ExpressionError, truthy } from './expressions.js';
+
+const evaluate = (source: string, record: Record<string, unknown> = {}): unknown =>
+  compileExpression(source).evaluate(record);
+
+describe('compileExpression', () => {
+  describe('precedence', () => {
+    it('multiplies before adding', () => {
+      expect(evaluate('1 + 2 * 3')).toBe(7);
+      expect(evaluate('(1 + 2) * 3')).toBe(9);
+    });
+
+    it('evaluates arithmetic left to right', () => {
+      expect(evaluate('10 - 4 - 3')).toBe(3);
+      expect(evaluate('24 / 4 / 2')).toBe(3);
+      expect(evaluate('7 % 4 * 2')).toBe(6);
+    });
+
+    it('binds unary minus tighter than multiplication', () => {
+      expect(evaluate('-2 * 3')).toBe(-6);
+      expect(evaluate('2 - -3')).toBe(5);
+    });
+
+    it('compares after arithmetic', () => {
+      expect(evaluate('1 + 1 = 2')).toBe(true);
+      expect(evaluate('revenue - cost > 100', { revenue: 250, cost: 100 })).toBe(true);
+    });
+
+    it('binds and tighter than or, and not tighter than and', () => {
+      expect(evaluate('true or false and false')).toBe(true);
+      expect(evaluate('(true or false) and false')).toBe(false);
+      expect(evaluate('not false and false')).toBe(false);
+      expect(evaluate('not (false and false)')).toBe(true);
+    });
+
+    it('accepts symbolic and keyword logical operators alike', () => {
+      expect(evaluate('a > 1 && b < 5 || !c', { a: 2, b: 3, c: true })).toBe(true);
+      expect(evaluate('A > 1 AND NOT c', { A: 2, c: false })).toBe(true);
+    });
+  });
+
+  describe('quoting', () => {
+    it('reads single- and double-quoted strings, with doubled quotes inside', () => {
+      expect(evaluate("'it''s'")).toBe("it's");
+      expect(evaluate('"say ""hi"""')).toBe('say "hi"');
+      expect(evaluate("name = 'O''Brien'", { name: "O'Brien" })).toBe(true);
+    });
+
+    it('reads column names in backticks or brackets', () => {
+      const record = { 'Unit Price': 4, 'qty (units)': 3 };
+      expect(evaluate('`Unit Price` * [qty (units)]', record)).toBe(12);
+    });
+
+    it('treats quoted keywords and function names as columns', () => {
+      expect(evaluate('`and` + [round]', { and: 1, round: 2 })).toBe(3);
+      expect(compileExpression('`null`').columns).toEqual(['null']);
+    });
+
+    it('lists the columns an expression reads', () => {
+      expect(compileExpression('round(profit / `Net Revenue`, 1) > min(a, 0)').columns).toEqual([
+        'profit',
+        'Net Revenue',
+        'a',
+      ]);
+    });
+
+    it('rejects unterminated strings and column names', () => {
+      expect(() => compileExpression("'open")).toThrow('Unterminated string at position 1');
+      expect(() => compileExpression('a + `b')).toThrow('Unterminated column name at position 5');
+      expect(() => compileExpression('[b')).toThrow(ExpressionError);
+    });
+  });
+
+  describe('functions', () => {
+    it('calls functions case-insensitively', () => {
+      expect(evaluate('ROUND(2.345, 2)')).toBe(2.35);
+      expect(evaluate("Upper('abc')")).toBe('ABC');
+    });
+
+    it('rejects calls with the wrong number of arguments', () => {
+      expect(() => compileExpression('abs()')).toThrow('Wrong number of arguments for abs()');
+      expect(() => compileExpression('abs(1, 2)')).toThrow(ExpressionError);
+      expect(() => compileExpression('if(a, b)')).toThrow('Wrong number of arguments for if()');
+      expect(() => compileExpression('round(1, 2, 3)')).toThrow(ExpressionError);
+    });
+
+    it('accepts any number of arguments to variadic functions', () => {
+      expect(evaluate('max(1, 5, 3, 2)')).toBe(5);
+      expect(evaluate("concat('a', 1, true)")).toBe('a1true');
+    });
+
+    it('rejects unknown functions', () => {
+      expect(() => compileExpression('sqrt(4)')).toThrow('Unknown function "sqrt"');
+    });
+
+    it('reads date parts in UTC', () => {
+      const record = { at: new Date('2024-03-05T23:30:00Z') };
+      expect(evaluate('year(at) * 10000 + month(at) * 100 + day(at)', record)).toBe(20240305);
+    });
+  });
+
+  describe('nulls', () => {
+    it('reads missing columns as null', () => {
+      expect(evaluate('missing')).toBeNull();
+      expect(evaluate('isnull(missing)')).toBe(true);
+    });
+
+    it('propagates null through arithmetic and numeric functions', () => {
+      expect(evaluate('a + 1', { a: null })).toBeNull();
+      expect(evaluate('a * 2', { a: 'n/a' })).toBeNull();
+      expect(evaluate('round(a)', { a: null })).toBeNull();
+      expect(evaluate('-a', { a: null })).toBeNull();
+    });
+
+    it('divides by zero to null', () => {
+      expect(evaluate('1 / 0')).toBeNull();
+      expect(evaluate('5 % 0')).toBeNull();
+    });
+
+    it('only equals null to null, and never orders it', () => {
+      expect(evaluate('a = null', { a: null })).toBe(true);
+      expect(evaluate('a = null', { a: 0 })).toBe(false);
+      expect(evaluate('a != null', { a: 0 })).toBe(true);
+      expect(evaluate('a <> b', { a: null, b: null })).toBe(false);
+      expect(evaluate('a < 1', { a: null })).toBe(false);
+      expect(evaluate('a >= 1', { a: null })).toBe(false);
+    });
+
+    it('skips nulls in coalesce, min, max and concat', () => {
+      expect(evaluate("coalesce(a, b, 'x')", { a: null, b: 2 })).toBe(2);
+      expect(evaluate('coalesce(a, b)', { a: null, b: null })).toBeNull();
+      expect(evaluate('min(a, 3, b)', { a: null, b: 1 })).toBe(1);
+      expect(evaluate('max(a, b)', { a: null, b: null })).toBeNull();
+      expect(evaluate("concat(a, '-', b)", { a: null, b: 'z' })).toBe('-z');
+    });
+
+    it('treats null as false in conditions', () => {
+      expect(evaluate('if(a, 1, 2)', { a: null })).toBe(2);
+      expect(evaluate('not a', { a: null })).toBe(true);
+      expect(evaluate("contains(a, 'x')", { a: null })).toBe(false);
+    });
+  });
+
+  describe('comparisons', () => {
+    it('compares numbers with numeric strings as numbers', () => {
+      expect(evaluate("a > '9'", { a: 10 })).toBe(true);
+      expect(evaluate('a = 10', { a: '10' })).toBe(true);
+    });
+
+    it('compares other values as text', () => {
+      expect(evaluate("a < 'b'", { a: 'a' })).toBe(true);
+      expect(evaluate("region != 'Other'", { region: 'North' })).toBe(true);
+    });
+
+    it('compares dates with dates and date strings', () => {
+      const record = { at: new Date('2024-06-01T00:00:00Z') };
+      expect(evaluate("at >= '2024-01-01'", record)).toBe(true);
+      expect(evaluate("at < date('2024-05-31')", record)).toBe(false);
+    });
+
+    it('never matches values of different kinds', () => {
+      expect(evaluate("a = 'x'", { a: 1 })).toBe(false);
+      expect(evaluate("a != 'x'", { a: 1 })).toBe(true);
+    });
+  });
+
+  describe('syntax errors', () => {
+    it('reports where parsing failed', () => {
+      expect(() => compileExpression('a +')).toThrow('Unexpected end of expression at position 4');
+      expect(() => compileExpression('(a + 1')).toThrow('Expected ")" at position 7');
+      expect(() => compileExpression('a b')).toThrow('Unexpected input at position 3');
+      expect(() => compileExpression('a # b')).toThrow('Unexpected character "#" at position 3');
+    });
+  });
+});
+
+describe('truthy', () => {
+  it('treats null, false, zero and the empty string as false', () => {
+    expect([null, undefined, false, 0, ''].some(truthy)).toBe(false);
+    expect([true, 1, -1, 'x', '0', new Date(0)].every(truthy)).toBe(true);
+  });
+});
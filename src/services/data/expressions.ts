@@ -0,0 +1,385 @@
+/**
+ * Row expressions for filter and compute transforms. A small, side-effect free language:
+ * arithmetic, comparisons, and/or/not, and a fixed set of functions over column values.
+ * Columns are referenced by name; names with spaces or symbols go in backticks or [brackets].
+ *
+ *   revenue > 1000 and region != 'Other'
+ *   round(profit / revenue * 100, 1)
+ *   if(isnull(`Unit Price`), 0, `Unit Price` * qty)
+ */
+
+import { toDate } from './time-series.js';
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    readonly position?: number
+  ) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+export type RowEvaluator = (record: Record<string, unknown>) => unknown;
+
+export interface CompiledExpression {
+  evaluate: RowEvaluator;
+  // Every column the expression reads
+  columns: string[];
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; quoted: boolean; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const OPERATORS = [
+  '==', '!=', '<>', '<=', '>=', '&&', '||', '=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ',',
+]; // prettier-ignore
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+const COMPARISONS = new Set(['=', '==', '!=', '<>', '<', '<=', '>', '>=']);
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (args: unknown[]) => unknown }> = {
+  abs: { arity: [1, 1], apply: ([x]) => numeric(x, Math.abs) },
+  round: {
+    arity: [1, 2],
+    apply: ([x, digits]) => {
+      const factor = 10 ** (toNumber(digits) ?? 0);
+      return numeric(x, n => Math.round(n * factor) / factor);
+    },
+  },
+  floor: { arity: [1, 1], apply: ([x]) => numeric(x, Math.floor) },
+  ceil: { arity: [1, 1], apply: ([x]) => numeric(x, Math.ceil) },
+  min: { arity: [1, Infinity], apply: args => extreme(args, Math.min) },
+  max: { arity: [1, Infinity], apply: args => extreme(args, Math.max) },
+  coalesce: { arity: [1, Infinity], apply: args => args.find(arg => !isNull(arg)) ?? null },
+  if: { arity: [3, 3], apply: ([condition, then, otherwise]) => (truthy(condition) ? then : otherwise) },
+  isnull: { arity: [1, 1], apply: ([x]) => isNull(x) },
+  lower: { arity: [1, 1], apply: ([s]) => (isNull(s) ? null : String(s).toLowerCase()) },
+  upper: { arity: [1, 1], apply: ([s]) => (isNull(s) ? null : String(s).toUpperCase()) },
+  trim: { arity: [1, 1], apply: ([s]) => (isNull(s) ? null : String(s).trim()) },
+  length: { arity: [1, 1], apply: ([s]) => (isNull(s) ? null : String(s).length) },
+  concat: { arity: [1, Infinity], apply: args => args.map(arg => (isNull(arg) ? '' : String(arg))).join('') },
+  contains: {
+    arity: [2, 2],
+    apply: ([s, part]) => !isNull(s) && String(s).toLowerCase().includes(String(part).toLowerCase()),
+  },
+  startswith: { arity: [2, 2], apply: ([s, part]) => !isNull(s) && String(s).startsWith(String(part)) },
+  endswith: { arity: [2, 2], apply: ([s, part]) => !isNull(s) && String(s).endsWith(String(part)) },
+  date: { arity: [1, 1], apply: ([x]) => toDate(x) },
+  year: { arity: [1, 1], apply: ([x]) => toDate(x)?.getUTCFullYear() ?? null },
+  month: { arity: [1, 1], apply: ([x]) => numeric(toDate(x)?.getUTCMonth() ?? null, m => m + 1) },
+  day: { arity: [1, 1], apply: ([x]) => toDate(x)?.getUTCDate() ?? null },
+}; // prettier-ignore
+
+/**
+ * Parse an expression once; the returned evaluator runs it against any number of rows
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const parser = new Parser(tokenize(source));
+  const evaluate = parser.parseExpression();
+  parser.expectEnd();
+  return { evaluate, columns: [...parser.columns] };
+}
+
+export function truthy(value: unknown): boolean {
+  return !isNull(value) && value !== false && value !== 0 && value !== '';
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position: i });
+      i += number[0].length;
+    } else if (char === "'" || char === '"') {
+      // Quotes inside a string are doubled: 'O''Brien'
+      let value = '';
+      let end = i + 1;
+      for (; end < source.length; end++) {
+        if (source[end] !== char) value += source[end];
+        else if (source[end + 1] === char) value += source[end++];
+        else break;
+      }
+      if (end >= source.length) throw new ExpressionError('Unterminated string', i);
+      tokens.push({ kind: 'string', value, position: i });
+      i = end + 1;
+    } else if (char === '`' || char === '[') {
+      const close = source.indexOf(char === '`' ? '`' : ']', i + 1);
+      if (close === -1) throw new ExpressionError('Unterminated column name', i);
+      tokens.push({
+        kind: 'identifier',
+        value: source.slice(i + 1, close),
+        quoted: true,
+        position: i,
+      });
+      i = close + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const [word] = /^[A-Za-z_]\w*/.exec(source.slice(i)) ?? [char];
+      const keyword = KEYWORD_OPERATORS[word.toLowerCase()];
+      tokens.push(
+        keyword
+          ? { kind: 'operator', value: keyword, position: i }
+          : { kind: 'identifier', value: word, quoted: false, position: i }
+      );
+      i += word.length;
+    } else {
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (!operator) throw new ExpressionError(`Unexpected character "${char}"`, i);
+      tokens.push({ kind: 'operator', value: operator, position: i });
+      i += operator.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent, lowest precedence first: or, and, not, comparison, +/-, * / %, unary minus
+ */
+class Parser {
+  readonly columns = new Set<string>();
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseExpression(): RowEvaluator {
+    return this.parseOr();
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.kind !== 'end') throw new ExpressionError('Unexpected input', token.position);
+  }
+
+  private parseOr(): RowEvaluator {
+    let left = this.parseAnd();
+    while (this.accept('||')) {
+      const [a, b] = [left, this.parseAnd()];
+      left = record => truthy(a(record)) || truthy(b(record));
+    }
+    return left;
+  }
+
+  private parseAnd(): RowEvaluator {
+    let left = this.parseNot();
+    while (this.accept('&&')) {
+      const [a, b] = [left, this.parseNot()];
+      left = record => truthy(a(record)) && truthy(b(record));
+    }
+    return left;
+  }
+
+  private parseNot(): RowEvaluator {
+    if (this.accept('!')) {
+      const operand = this.parseNot();
+      return record => !truthy(operand(record));
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RowEvaluator {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.kind !== 'operator' || !COMPARISONS.has(token.value)) return left;
+
+    this.index++;
+    const right = this.parseAdditive();
+    const operator = token.value;
+    return record => compare(left(record), right(record), operator);
+  }
+
+  private parseAdditive(): RowEvaluator {
+    let left = this.parseMultiplicative();
+    for (let op = this.acceptAny('+', '-'); op; op = this.acceptAny('+', '-')) {
+      const [a, b] = [left, this.parseMultiplicative()];
+      left = op === '+' ? arithmetic(a, b, (x, y) => x + y) : arithmetic(a, b, (x, y) => x - y);
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): RowEvaluator {
+    let left = this.parseUnary();
+    for (let op = this.acceptAny('*', '/', '%'); op; op = this.acceptAny('*', '/', '%')) {
+      const [a, b] = [left, this.parseUnary()];
+      if (op === '*') {
+        left = arithmetic(a, b, (x, y) => x * y);
+      } else {
+        // Division by zero gives null rather than Infinity, like SQL
+        const divide =
+          op === '/' ? (x: number, y: number) => x / y : (x: number, y: number) => x % y;
+        left = arithmetic(a, b, (x, y) => (y === 0 ? null : divide(x, y)));
+      }
+    }
+    return left;
+  }
+
+  private parseUnary(): RowEvaluator {
+    if (this.accept('-')) {
+      const operand = this.parseUnary();
+      return record => numeric(operand(record), n => -n);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RowEvaluator {
+    const token = this.tokens[this.index++];
+
+    switch (token.kind) {
+      case 'number':
+      case 'string': {
+        const { value } = token;
+        return () => value;
+      }
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'operator':
+        if (token.value === '(') {
+          const inner = this.parseExpression();
+          this.expect(')');
+          return inner;
+        }
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', token.position);
+    }
+  }
+
+  private parseIdentifier(token: Extract<Token, { kind: 'identifier' }>): RowEvaluator {
+    const name = token.value;
+    if (!token.quoted) {
+      const lower = name.toLowerCase();
+      if (lower === 'true' || lower === 'false') {
+        const value = lower === 'true';
+        return () => value;
+      }
+      if (lower === 'null') return () => null;
+
+      if (this.accept('(')) {
+        const fn = lower in FUNCTIONS ? FUNCTIONS[lower] : undefined;
+        if (!fn) throw new ExpressionError(`Unknown function "${name}"`, token.position);
+
+        const args: RowEvaluator[] = [];
+        if (!this.accept(')')) {
+          do args.push(this.parseExpression());
+          while (this.accept(','));
+          this.expect(')');
+        }
+        const [minArgs, maxArgs] = fn.arity;
+        if (args.length < minArgs || args.length > maxArgs) {
+          throw new ExpressionError(`Wrong number of arguments for ${lower}()`, token.position);
+        }
+        return record => fn.apply(args.map(arg => arg(record)));
+      }
+    }
+
+    this.columns.add(name);
+    return record => record[name] ?? null;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'operator' && token.value === operator) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptAny(...operators: string[]): string | undefined {
+    return operators.find(operator => this.accept(operator));
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      throw new ExpressionError(`Expected "${operator}"`, this.peek().position);
+    }
+  }
+}
+
+function isNull(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isNaN(value) ? null : value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  return null;
+}
+
+function numeric(value: unknown, fn: (n: number) => number | null): number | null {
+  const number = toNumber(value);
+  return number === null ? null : fn(number);
+}
+
+function arithmetic(
+  a: RowEvaluator,
+  b: RowEvaluator,
+  fn: (x: number, y: number) => number | null
+): RowEvaluator {
+  return record => {
+    const x = toNumber(a(record));
+    const y = toNumber(b(record));
+    return x === null || y === null ? null : fn(x, y);
+  };
+}
+
+function extreme(args: unknown[], pick: (...values: number[]) => number): number | null {
+  const numbers = args.map(toNumber).filter(n => n !== null);
+  return numbers.length > 0 ? pick(...numbers) : null;
+}
+
+/**
+ * Dates compare with dates (and date strings), numbers with anything numeric, and
+ * everything else as text. Null only equals null and is never ordered.
+ */
+function compare(left: unknown, right: unknown, operator: string): boolean {
+  const equality = operator === '=' || operator === '==';
+  const inequality = operator === '!=' || operator === '<>';
+  if (isNull(left) || isNull(right)) {
+    const bothNull = isNull(left) && isNull(right);
+    return equality ? bothNull : inequality ? !bothNull : false;
+  }
+
+  let a: number | string;
+  let b: number | string;
+  if (left instanceof Date || right instanceof Date) {
+    a = toDate(left)?.getTime() ?? String(left);
+    b = toDate(right)?.getTime() ?? String(right);
+  } else if (typeof left === 'number' || typeof right === 'number') {
+    a = toNumber(left) ?? String(left);
+    b = toNumber(right) ?? String(right);
+  } else {
+    a = String(left);
+    b = String(right);
+  }
+
+  if (typeof a !== typeof b) return inequality;
+  if (equality) return a === b;
+  if (inequality) return a !== b;
+  if (operator === '<') return a < b;
+  if (operator === '<=') return a <= b;
+  if (operator === '>') return a > b;
+  return a >= b;
+}
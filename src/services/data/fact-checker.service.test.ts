@@ -0,0 +1,238 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type {
+  DataProfile,
+  FactCheckMode,
+  GeneratedNarrative,
+  ProfileComparison,
+} from '../../shared/types/index.js';
+
+import { FactChecker } from './fact-checker.service.js';
+
+vi.mock('../../core/index.js', () => ({
+  createModuleLogger: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}));
+
+const profile: DataProfile = {
+  rowCount: 24,
+  columnCount: 4,
+  dataQualityScore: 98,
+  suggestedCharts: [],
+  columns: [
+    {
+      name: 'month',
+      type: 'categorical',
+      nullCount: 0,
+      uniqueCount: 6,
+      topValues: [
+        { value: 'January', count: 4 },
+        { value: 'February', count: 4 },
+      ],
+    },
+    {
+      name: 'region',
+      type: 'categorical',
+      nullCount: 0,
+      uniqueCount: 4,
+      topValues: [
+        { value: 'North', count: 6 },
+        { value: 'South', count: 6 },
+      ],
+    },
+    {
+      name: 'revenue',
+      type: 'numeric',
+      nullCount: 2,
+      uniqueCount: 22,
+      min: 87000,
+      max: 198000,
+      mean: 135166.6667,
+      median: 131000,
+      sum: 2973667,
+    },
+    {
+      name: 'customers',
+      type: 'numeric',
+      nullCount: 0,
+      uniqueCount: 24,
+      min: 870,
+      max: 1950,
+      mean: 1337.9167,
+    },
+  ],
+};
+
+const check = (
+  text: string,
+  mode: Exclude<FactCheckMode, 'off'> = 'flag',
+  comparison?: ProfileComparison
+) => {
+  const narrative: GeneratedNarrative = {
+    executiveSummary: text,
+    sections: [],
+    recommendations: [],
+    keyFindings: [],
+  };
+  const result = new FactChecker().verify(narrative, profile, mode, comparison);
+  return { text: result.narrative.executiveSummary, checks: result.verification.checks };
+};
+
+const summarize = (text: string, mode?: Exclude<FactCheckMode, 'off'>) =>
+  check(text, mode).checks.map(({ claimed, metric, column, value, status }) => ({
+    claimed,
+    metric,
+    ...(column && { column }),
+    ...(value && { value }),
+    status,
+  }));
+
+describe('FactChecker', () => {
+  it('verifies every figure of a correct narrative', () => {
+    const text = [
+      '"Sales" analyzes 24 records across 4 columns. The data quality score is 98/100.',
+      'revenue averages 135166.67 (range 87000 to 198000).',
+      'customers averages 1337.92 (range 870 to 1950).',
+      'The most common month is "January" with 4 records.',
+      'The most common region is "North" with 6 records.',
+      'The data has 2 missing values in total.',
+    ].join(' ');
+
+    for (const mode of ['flag', 'correct'] as const) {
+      const result = check(text, mode);
+      expect(result.checks.map(claim => [claim.claimed, claim.status])).toEqual([
+        ['24', 'verified'],
+        ['4', 'verified'],
+        ['98', 'verified'],
+        ['135166.67', 'verified'],
+        ['87000', 'verified'],
+        ['198000', 'verified'],
+        ['1337.92', 'verified'],
+        ['870', 'verified'],
+        ['1950', 'verified'],
+        ['4', 'verified'],
+        ['6', 'verified'],
+        ['2', 'verified'],
+      ]);
+      expect(result.text).toBe(text);
+    }
+  });
+
+  describe('ranges', () => {
+    it('checks the bounds of a range against the minimum and maximum', () => {
+      expect(summarize('Revenue ranged from $87,000 to $150,000.')).toEqual([
+        { claimed: '$87,000', metric: 'min', column: 'revenue', status: 'verified' },
+        { claimed: '$150,000', metric: 'max', column: 'revenue', status: 'mismatch' },
+      ]);
+    });
+
+    it('corrects only the wrong bound', () => {
+      expect(check('revenue ranges between 87K and 150K', 'correct').text).toBe(
+        'revenue ranges between 87K and 198K'
+      );
+    });
+  });
+
+  describe('category counts', () => {
+    it('checks "<category> with N records" against the category count', () => {
+      expect(summarize('The most common region is "North" with 6 records.')).toEqual([
+        {
+          claimed: '6',
+          metric: 'categoryCount',
+          column: 'region',
+          value: 'North',
+          status: 'verified',
+        },
+      ]);
+      expect(check('South: 5 rows.', 'correct').text).toBe('South: 6 rows.');
+    });
+
+    it('leaves counts of unknown groups unverifiable when they do not match the row count', () => {
+      const text = 'March was the busiest month, with 8 records.';
+      expect(summarize(text, 'correct')).toEqual([
+        { claimed: '8', metric: 'rowCount', status: 'unverifiable' },
+      ]);
+      expect(check(text, 'correct').text).toBe(text);
+    });
+
+    it('still checks the row count of the dataset', () => {
+      expect(check('The dataset has 30 records.', 'correct').text).toBe(
+        'The dataset has 24 records.'
+      );
+    });
+  });
+
+  describe('keyword binding', () => {
+    it('binds a keyword to the closest figure only', () => {
+      const text = 'Average revenue was 135,167, with one store at 250,000.';
+      expect(summarize(text, 'correct')).toEqual([
+        { claimed: '135,167', metric: 'mean', column: 'revenue', status: 'verified' },
+        { claimed: '250,000', metric: 'mean', column: 'revenue', status: 'unverifiable' },
+      ]);
+      expect(check(text, 'correct').text).toBe(text);
+    });
+
+    it('does not take a keyword that follows another figure', () => {
+      expect(summarize('We saw 24 records, 500 of them online.', 'correct')).toEqual([
+        { claimed: '24', metric: 'rowCount', status: 'verified' },
+        { claimed: '500', metric: 'rowCount', status: 'unverifiable' },
+      ]);
+    });
+
+    it('prefers the keyword right after a figure', () => {
+      expect(summarize('The median revenue of 131,000 spans 24 rows.')).toEqual([
+        { claimed: '131,000', metric: 'median', column: 'revenue', status: 'verified' },
+        { claimed: '24', metric: 'rowCount', status: 'verified' },
+      ]);
+    });
+
+    it('does not let years come between a keyword and its figure', () => {
+      expect(summarize('Average revenue in 2024 was 135,000.')).toEqual([
+        { claimed: '135,000', metric: 'mean', column: 'revenue', status: 'verified' },
+      ]);
+    });
+  });
+
+  describe('figures', () => {
+    it('checks shares of categories and rates of missing values', () => {
+      expect(summarize('North holds 25% of sales, and revenue is 8.3% missing.')).toEqual([
+        { claimed: '25%', metric: 'share', column: 'region', value: 'North', status: 'verified' },
+        { claimed: '8.3%', metric: 'nullRate', column: 'revenue', status: 'verified' },
+      ]);
+    });
+
+    it('ignores percentages of change and figures without a statistic', () => {
+      expect(check('Revenue grew 12% in 3 regions.').checks).toEqual([]);
+    });
+
+    it('checks totals against the exact sum, within display rounding', () => {
+      expect(summarize('Total revenue reached $2.97M.')).toEqual([
+        { claimed: '$2.97M', metric: 'total', column: 'revenue', status: 'verified' },
+      ]);
+    });
+
+    it('allows more leeway for hedged figures', () => {
+      expect(check('Average revenue was about 130,000.').checks[0].status).toBe('verified');
+      expect(check('Average revenue was 130,000.').checks[0].status).toBe('mismatch');
+    });
+
+    it('accepts figures quoted for the baseline period', () => {
+      const comparison = {
+        rowCount: { baseline: 20, current: 24 },
+      } as unknown as ProfileComparison;
+      expect(check('Up from 20 records.', 'flag', comparison).checks[0].status).toBe('verified');
+    });
+
+    it('reports statistics it cannot tie to a column as unverifiable', () => {
+      expect(summarize('The average is 12.')).toEqual([
+        { claimed: '12', metric: 'mean', status: 'unverifiable' },
+      ]);
+    });
+  });
+
+  it('formats corrections like the claimed figure', () => {
+    expect(check('Average revenue was $150.5K.', 'correct').text).toBe(
+      'Average revenue was $135.2K.'
+    );
+    expect(check('Peak revenue hit 200,000.', 'correct').text).toBe('Peak revenue hit 198,000.');
+  });
+});
@@ -0,0 +1,620 @@
+import { createModuleLogger } from '../../core/index.js';
+import type {
+  ClaimCheck,
+  ClaimLocation,
+  ColumnProfile,
+  DataProfile,
+  FactCheckMode,
+  GeneratedNarrative,
+  NarrativeVerification,
+  ProfileComparison,
+  VerifiedMetric,
+  VerifiedNarrative,
+} from '../../shared/types/index.js';
+
+const logger = createModuleLogger('fact-checker');
+
+// Figures such as "1,234", "45.6", "$1.2M" or "35%"; "Q3", "3/4" and "2-3" are not matched
+const FIGURE_PATTERN =
+  /(?<![\w.$/,-])(\$)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(\s?(?:%|percent\b|[kKMB]\b|thousand\b|million\b|billion\b))?(?!\.?\w)/g;
+
+// "range 87,000 to 198,000": the first figure is the minimum, the second the maximum
+const RANGE_FIGURE = String.raw`\$?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|percent\b|[kKMB]\b|thousand\b|million\b|billion\b))?`;
+const RANGE_PATTERN = new RegExp(
+  String.raw`\brang(?:e[sd]?|ing)\b(?:\s+(?:from|of|between|is|was))?\s*:?\s*(${RANGE_FIGURE})\s*(?:to|and|-|–|—)\s*(${RANGE_FIGURE})`,
+  'gid'
+);
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  billion: 1e9,
+};
+
+// Words that tie a figure to a statistic
+const METRIC_KEYWORDS: Array<[VerifiedMetric, RegExp]> = [
+  ['mean', /\b(?:average[sd]?|mean|avg)\b/gi],
+  ['median', /\bmedian\b/gi],
+  ['min', /\b(?:minimum|min|lowest|smallest)\b/gi],
+  ['max', /\b(?:maximum|max|highest|largest|peak)\b/gi],
+  ['stdDev', /\b(?:standard deviation|std\.? ?dev)\b/gi],
+  ['total', /\b(?:total(?:s|ed|ing)?|sum|combined)\b/gi],
+  ['uniqueCount', /\b(?:unique|distinct)\b/gi],
+  ['nullCount', /\b(?:missing|null|empty|blank)\b/gi],
+  ['rowCount', /\b(?:records|rows|entries|observations)\b/gi],
+  ['columnCount', /\b(?:columns|fields|variables)\b/gi],
+  ['qualityScore', /\bquality\b/gi],
+];
+
+// Statistics that need a column to be checked
+const COLUMN_METRICS = new Set<VerifiedMetric>([
+  'mean',
+  'median',
+  'min',
+  'max',
+  'stdDev',
+  'total',
+  'uniqueCount',
+  'nullCount',
+  'nullRate',
+]);
+
+// Percentages in sentences about change ("grew 12%") describe deltas, not shares
+const CHANGE_PATTERN =
+  /\b(?:grew|grow(?:s|th)|rose|rise[sn]?|fell|fall(?:s|en)?|increase[sd]?|decrease[sd]?|declined?|dropped|up|down|compared|versus|vs)\b/i;
+// At most one word between a figure and a keyword that follows it
+const FOLLOWING_GAP_PATTERN = /^\s*(?:[\w-]+\s+)?$/;
+// Between a category and the row count quoted for it: 'North with 6', '"January" (4'
+const CATEGORY_COUNT_GAP_PATTERN = /^["'”’]?\s*(?:with|has|had|\(|:)?\s*$/i;
+// Row counts of something other than a known category: "the busiest month, with 8 records"
+const PARTIAL_COUNT_PATTERN = /\bwith\s*$/i;
+
+const HEDGE_PATTERN =
+  /\b(?:about|approximately|around|roughly|nearly|almost|over|under|more than|less than)\s*$|~\s*$/i;
+
+// Relative tolerance on top of display rounding, for exact and hedged ("about 1,200") figures
+const EXACT_TOLERANCE = 0.005;
+const HEDGED_TOLERANCE = 0.1;
+
+interface Figure {
+  text: string;
+  value: number;
+  decimals: number;
+  scale: number;
+  isPercent: boolean;
+  grouped: boolean;
+  dollar: string;
+  suffix: string;
+}
+
+interface Mention {
+  name: string;
+  position: number;
+  end: number;
+}
+
+// Statistic a figure refers to. Ambiguous claims, where the figure could also mean something
+// else, are verified when they match but never reported as wrong or corrected.
+interface Claim extends Pick<ClaimCheck, 'metric' | 'column' | 'value'> {
+  ambiguous?: boolean;
+}
+
+interface CheckContext {
+  profile: DataProfile;
+  mode: Exclude<FactCheckMode, 'off'>;
+  columns: Map<string, ColumnProfile>;
+  columnPatterns: Array<{ name: string; pattern: RegExp }>;
+  valuePatterns: Array<{ column: string; value: string; pattern: RegExp }>;
+  comparison?: ProfileComparison;
+}
+
+export class FactChecker {
+  /**
+   * Check numeric claims in the narrative against the data profile.
+   * In 'correct' mode wrong figures are replaced with the actual values.
+   */
+  verify(
+    narrative: GeneratedNarrative,
+    profile: DataProfile,
+    mode: Exclude<FactCheckMode, 'off'>,
+    comparison?: ProfileComparison
+  ): VerifiedNarrative {
+    const context = this.buildContext(profile, mode, comparison);
+    const checks: ClaimCheck[] = [];
+
+    const checkText = (
+      text: string,
+      location: ClaimLocation,
+      extra: Pick<ClaimCheck, 'sectionId' | 'index'> = {}
+    ): string =>
+      this.checkText(text, context, check => checks.push({ location, ...extra, ...check }));
+
+    const verified: GeneratedNarrative = {
+      executiveSummary: checkText(narrative.executiveSummary, 'executiveSummary'),
+      keyFindings: narrative.keyFindings.map((finding, index) =>
+        checkText(finding, 'keyFindings', { index })
+      ),
+      sections: narrative.sections.map(section => ({
+        ...section,
+        content: checkText(section.content, 'sections', { sectionId: section.sectionId }),
+      })),
+      recommendations: narrative.recommendations,
+    };
+
+    const count = (status: ClaimCheck['status']) =>
+      checks.filter(check => check.status === status).length;
+
+    const verification: NarrativeVerification = {
+      mode,
+      checkedAt: new Date().toISOString(),
+      totalClaims: checks.length,
+      verified: count('verified'),
+      mismatched: count('mismatch'),
+      corrected: count('corrected'),
+      unverifiable: count('unverifiable'),
+      checks,
+    };
+
+    logger.info(
+      `Checked ${verification.totalClaims} numeric claims: ${verification.verified} verified, ${verification.mismatched} mismatched, ${verification.corrected} corrected, ${verification.unverifiable} unverifiable`
+    );
+
+    return { narrative: verified, verification };
+  }
+
+  private buildContext(
+    profile: DataProfile,
+    mode: Exclude<FactCheckMode, 'off'>,
+    comparison?: ProfileComparison
+  ): CheckContext {
+    const columnPatterns = profile.columns.flatMap(column =>
+      this.aliases(column.name).map(alias => ({
+        name: column.name,
+        pattern: this.wordPattern(alias),
+      }))
+    );
+
+    const valuePatterns = profile.columns
+      .filter(column => column.type === 'categorical' || column.type === 'boolean')
+      .flatMap(column =>
+        (column.topValues ?? [])
+          .filter(top => top.value.length >= 2 && !/^\d/.test(top.value))
+          .map(top => ({
+            column: column.name,
+            value: top.value,
+            pattern: this.wordPattern(top.value),
+          }))
+      );
+
+    return {
+      profile,
+      mode,
+      columns: new Map(profile.columns.map(column => [column.name, column])),
+      columnPatterns,
+      valuePatterns,
+      comparison,
+    };
+  }
+
+  /**
+   * Check every figure in the text, returning the text with corrections applied
+   */
+  private checkText(
+    text: string,
+    context: CheckContext,
+    record: (check: Omit<ClaimCheck, 'location'>) => void
+  ): string {
+    return text.replace(
+      FIGURE_PATTERN,
+      (
+        match: string,
+        dollar: string | undefined,
+        integer: string,
+        fraction: string | undefined,
+        suffix: string | undefined,
+        offset: number
+      ) => {
+        const figure = this.parseFigure(match, dollar, integer, fraction, suffix);
+        if (!figure) {
+          return match;
+        }
+
+        const { sentence, position } = this.sentenceAround(text, offset, match.length);
+        const check = this.checkFigure(figure, sentence, position, context);
+        if (!check) {
+          return match;
+        }
+
+        record(check);
+        return check.correction ?? match;
+      }
+    );
+  }
+
+  private checkFigure(
+    figure: Figure,
+    sentence: string,
+    position: number,
+    context: CheckContext
+  ): Omit<ClaimCheck, 'location'> | null {
+    const identified = this.identifyClaim(figure, sentence, position, context);
+    if (!identified) {
+      return null;
+    }
+
+    const { ambiguous, ...claim } = identified;
+    const base = {
+      sentence: sentence.trim(),
+      claimed: figure.text,
+      claimedValue: figure.value,
+      ...claim,
+    };
+
+    const value = this.actualValue(claim.metric, claim.column, claim.value, context);
+    if (value === undefined) {
+      return { ...base, status: 'unverifiable' };
+    }
+
+    const actual = Math.round(value * 10000) / 10000;
+    const hedged = HEDGE_PATTERN.test(sentence.slice(0, position));
+    const candidates = [actual, ...this.baselineValues(claim.metric, claim.column, context)];
+    if (candidates.some(candidate => this.matches(figure, candidate, hedged))) {
+      return { ...base, actual, status: 'verified' };
+    }
+
+    if (ambiguous) {
+      return { ...base, status: 'unverifiable' };
+    }
+
+    if (context.mode === 'correct') {
+      return { ...base, actual, status: 'corrected', correction: this.formatLike(actual, figure) };
+    }
+
+    return { ...base, actual, status: 'mismatch' };
+  }
+
+  /**
+   * Work out which statistic (and column or category) a figure refers to
+   */
+  private identifyClaim(
+    figure: Figure,
+    sentence: string,
+    position: number,
+    context: CheckContext
+  ): Claim | null {
+    const column = this.nearest(
+      context.columnPatterns.map(({ name, pattern }) => this.mentions(name, pattern, sentence)),
+      position
+    );
+
+    const bound = this.rangeBound(sentence, position);
+    if (bound) {
+      return { metric: bound, column: column?.name };
+    }
+
+    if (figure.isPercent) {
+      if (CHANGE_PATTERN.test(sentence)) {
+        return null;
+      }
+
+      const keyword = this.bindKeyword(sentence, position, figure.text.length);
+      if (keyword?.metric === 'nullCount') {
+        return { ...keyword, metric: 'nullRate', column: column?.name };
+      }
+      if (keyword?.metric === 'qualityScore') {
+        return keyword;
+      }
+
+      const category = this.nearest(
+        context.valuePatterns.map(({ column: name, value, pattern }) =>
+          this.mentions(`${name}\u0000${value}`, pattern, sentence)
+        ),
+        position
+      );
+      if (!category) {
+        return null;
+      }
+
+      const [categoryColumn, value] = category.name.split('\u0000');
+      return { metric: 'share', column: categoryColumn, value };
+    }
+
+    if (this.isYear(figure)) {
+      return null;
+    }
+
+    const keyword = this.bindKeyword(sentence, position, figure.text.length);
+    if (!keyword) {
+      return null;
+    }
+
+    if (keyword.metric === 'rowCount') {
+      const category = this.categoryBefore(sentence, position, context);
+      if (category) {
+        return { ...keyword, metric: 'categoryCount', ...category };
+      }
+      if (PARTIAL_COUNT_PATTERN.test(sentence.slice(0, position))) {
+        return { ...keyword, ambiguous: true };
+      }
+    }
+
+    return COLUMN_METRICS.has(keyword.metric) ? { ...keyword, column: column?.name } : keyword;
+  }
+
+  private actualValue(
+    metric: VerifiedMetric,
+    columnName: string | undefined,
+    value: string | undefined,
+    context: CheckContext
+  ): number | undefined {
+    const { profile } = context;
+    const column = columnName ? context.columns.get(columnName) : undefined;
+
+    switch (metric) {
+      case 'rowCount':
+        return profile.rowCount;
+      case 'columnCount':
+        return profile.columnCount;
+      case 'qualityScore':
+        return profile.dataQualityScore;
+      case 'share': {
+        const top = column?.topValues?.find(entry => entry.value === value);
+        return top && profile.rowCount > 0 ? (top.count / profile.rowCount) * 100 : undefined;
+      }
+      case 'categoryCount':
+        return column?.topValues?.find(entry => entry.value === value)?.count;
+      case 'nullRate':
+        return column && profile.rowCount > 0
+          ? (column.nullCount / profile.rowCount) * 100
+          : undefined;
+      // Without a column, missing values are counted over the whole dataset
+      case 'nullCount':
+        return column
+          ? column.nullCount
+          : profile.columns.reduce((total, col) => total + col.nullCount, 0);
+      case 'uniqueCount':
+        return column?.uniqueCount;
+      // Sums are exact over every row, streamed uploads included
+      case 'total':
+        return column?.sum;
+      default: {
+        const stat = column?.[metric];
+        return typeof stat === 'number' ? stat : undefined;
+      }
+    }
+  }
+
+  /**
+   * Figures quoted for the baseline period ("up from 1,100") are correct too
+   */
+  private baselineValues(
+    metric: VerifiedMetric,
+    columnName: string | undefined,
+    context: CheckContext
+  ): number[] {
+    const { comparison } = context;
+    if (!comparison) {
+      return [];
+    }
+
+    if (metric === 'rowCount') {
+      return [comparison.rowCount.baseline];
+    }
+    if (metric === 'qualityScore') {
+      return [comparison.dataQualityScore.baseline];
+    }
+
+    const column = comparison.columns.find(col => col.name === columnName);
+    if (metric === 'nullCount' && column?.nullCount) {
+      return [column.nullCount.baseline];
+    }
+    if (metric === 'uniqueCount' && column?.uniqueCount) {
+      return [column.uniqueCount.baseline];
+    }
+
+    const delta = column?.metrics?.[metric as keyof NonNullable<typeof column.metrics>];
+    return delta ? [delta.baseline] : [];
+  }
+
+  private matches(figure: Figure, actual: number, hedged: boolean): boolean {
+    const rounding = 0.5 * 10 ** -figure.decimals * figure.scale;
+    const relative = Math.abs(actual) * (hedged ? HEDGED_TOLERANCE : EXACT_TOLERANCE);
+    return Math.abs(figure.value - actual) <= Math.max(rounding, relative) + 1e-9;
+  }
+
+  private parseFigure(
+    text: string,
+    dollar: string | undefined,
+    integer: string,
+    fraction: string | undefined,
+    suffix: string | undefined
+  ): Figure | null {
+    const unit = suffix?.trim().toLowerCase() ?? '';
+    const isPercent = unit === '%' || unit === 'percent';
+    const scale = isPercent || !unit ? 1 : (SCALES[unit] ?? 1);
+    const value = Number.parseFloat(`${integer.replaceAll(',', '')}${fraction ?? ''}`) * scale;
+
+    if (!Number.isFinite(value)) {
+      return null;
+    }
+
+    return {
+      text: text.trim(),
+      value,
+      decimals: fraction ? fraction.length - 1 : 0,
+      scale,
+      isPercent,
+      grouped: integer.includes(','),
+      dollar: dollar ?? '',
+      suffix: suffix ?? '',
+    };
+  }
+
+  /**
+   * Format the actual value the way the claimed figure was written
+   */
+  private formatLike(actual: number, figure: Figure): string {
+    const number = (actual / figure.scale).toLocaleString('en-US', {
+      minimumFractionDigits: figure.decimals,
+      maximumFractionDigits: figure.decimals,
+      useGrouping: figure.grouped,
+    });
+    return `${figure.dollar}${number}${figure.suffix}`;
+  }
+
+  private sentenceAround(
+    text: string,
+    offset: number,
+    length: number
+  ): { sentence: string; position: number } {
+    const before = text.slice(0, offset);
+    const start =
+      Math.max(
+        before.lastIndexOf('\n'),
+        before.lastIndexOf('. '),
+        before.lastIndexOf('! '),
+        before.lastIndexOf('? ')
+      ) + 1;
+
+    const rest = text.slice(offset + length);
+    const end = /[.!?](?=\s|$)|\n/.exec(rest);
+
+    return {
+      sentence: text.slice(start, end ? offset + length + end.index + 1 : text.length),
+      position: offset - start,
+    };
+  }
+
+  /**
+   * Which end of a quoted range the figure at this position is, if any
+   */
+  private rangeBound(sentence: string, position: number): 'min' | 'max' | undefined {
+    for (const match of sentence.matchAll(RANGE_PATTERN)) {
+      if (match.indices?.[1]?.[0] === position) return 'min';
+      if (match.indices?.[2]?.[0] === position) return 'max';
+    }
+    return undefined;
+  }
+
+  /**
+   * The statistic keyword a figure is bound to. Each keyword is bound to at most one figure:
+   * a keyword right after a figure belongs to it ("200 records"); otherwise the figure takes
+   * the closest keyword before it. When another figure comes between them, or the keyword
+   * directly follows another figure, the claim is ambiguous.
+   */
+  private bindKeyword(sentence: string, position: number, length: number): Claim | undefined {
+    const keywords = METRIC_KEYWORDS.flatMap(([metric, pattern]) =>
+      this.mentions(metric, pattern, sentence)
+    );
+
+    const end = position + length;
+    const following = this.nearest(
+      [
+        keywords
+          .filter(keyword => keyword.position >= end)
+          .filter(keyword => FOLLOWING_GAP_PATTERN.test(sentence.slice(end, keyword.position))),
+      ],
+      end
+    );
+    if (following) {
+      return { metric: following.name as VerifiedMetric };
+    }
+
+    const preceding = this.nearest([keywords.filter(keyword => keyword.end <= position)], position);
+    if (!preceding) {
+      return undefined;
+    }
+
+    const others = this.figureSpans(sentence).filter(figure => figure.position !== position);
+    const contested = others.some(
+      figure =>
+        (figure.position >= preceding.end && figure.end <= position) ||
+        (figure.end <= preceding.position &&
+          FOLLOWING_GAP_PATTERN.test(sentence.slice(figure.end, preceding.position)))
+    );
+
+    return { metric: preceding.name as VerifiedMetric, ...(contested && { ambiguous: true }) };
+  }
+
+  /**
+   * Figures in a sentence that could claim a keyword: years and range bounds are left out
+   */
+  private figureSpans(sentence: string): Mention[] {
+    return [...sentence.matchAll(FIGURE_PATTERN)]
+      .filter(match => {
+        const [text, dollar, integer, fraction, suffix] = match;
+        const figure = this.parseFigure(text, dollar, integer, fraction, suffix);
+        return figure && !this.isYear(figure) && !this.rangeBound(sentence, match.index);
+      })
+      .map(match => ({
+        name: match[0],
+        position: match.index,
+        end: match.index + match[0].length,
+      }));
+  }
+
+  /**
+   * Category named right before a row count, as in 'the most common region is "North" with 6'
+   */
+  private categoryBefore(
+    sentence: string,
+    position: number,
+    context: CheckContext
+  ): Pick<ClaimCheck, 'column' | 'value'> | undefined {
+    const before = sentence.slice(0, position);
+    const category = context.valuePatterns.find(({ pattern }) =>
+      [...before.matchAll(pattern)].some(match =>
+        CATEGORY_COUNT_GAP_PATTERN.test(before.slice(match.index + match[0].length))
+      )
+    );
+    return category && { column: category.column, value: category.value };
+  }
+
+  /**
+   * Bare integers between 1900 and 2100 are almost always years
+   */
+  private isYear(figure: Figure): boolean {
+    return (
+      !figure.dollar &&
+      !figure.suffix &&
+      figure.decimals === 0 &&
+      !figure.grouped &&
+      figure.value >= 1900 &&
+      figure.value <= 2100
+    );
+  }
+
+  private mentions(name: string, pattern: RegExp, sentence: string): Mention[] {
+    return [...sentence.matchAll(pattern)].map(match => ({
+      name,
+      position: match.index,
+      end: match.index + match[0].length,
+    }));
+  }
+
+  private nearest(mentions: Mention[][], position: number): Mention | undefined {
+    return mentions
+      .flat()
+      .sort((a, b) => Math.abs(a.position - position) - Math.abs(b.position - position))
+      .at(0);
+  }
+
+  /**
+   * Ways a column may be written in prose: "unit_price" -> "unit price", "unitPrice" -> "unit price"
+   */
+  private aliases(name: string): string[] {
+    const spaced = name
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/[_-]+/g, ' ')
+      .toLowerCase();
+    return [...new Set([name.toLowerCase(), spaced])];
+  }
+
+  private wordPattern(phrase: string): RegExp {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'gi');
+  }
+}
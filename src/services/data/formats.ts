@@ -0,0 +1,82 @@
+/**
+ * Parsers for structured formats beyond CSV, JSON and Excel. Every parser returns plain
+ * records whose values survive JSON serialization, since parsed rows travel through
+ * workflow payloads.
+ */
+
+import { parquetReadObjects } from 'hyparquet';
+import initSqlJs, { type SqlJsStatic } from 'sql.js';
+
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+/**
+ * Newline-delimited JSON: one object per line; blank lines are skipped
+ */
+export function parseNdjson(text: string): Record<string, unknown>[] {
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, index }) => {
+      try {
+        return JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1} of NDJSON input`);
+      }
+    });
+}
+
+export async function parseParquet(buffer: Buffer): Promise<Record<string, unknown>[]> {
+  // hyparquet reads from an ArrayBuffer; copy out the Buffer's slice of its pool
+  const file = new Uint8Array(buffer).buffer;
+  const rows = await parquetReadObjects({ file, rowFormat: 'object' });
+  return rows.map(row => toPlainRecord(row));
+}
+
+/**
+ * Run a SELECT against a SQLite database file. The database is opened in memory, so the
+ * query cannot touch anything but the uploaded copy.
+ */
+export async function parseSqlite(
+  buffer: Buffer,
+  query: string
+): Promise<Record<string, unknown>[]> {
+  sqlJs ??= initSqlJs();
+  const SQL = await sqlJs;
+  const db = new SQL.Database(buffer);
+  try {
+    const statement = db.prepare(query);
+    const records: Record<string, unknown>[] = [];
+    while (statement.step()) {
+      records.push(toPlainRecord(statement.getAsObject()));
+    }
+    statement.free();
+    return records;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Convert values with no JSON representation: 64-bit integers become numbers (or strings
+ * beyond 2^53), binary columns become base64 and nested values are recursed into
+ */
+function toPlainRecord(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toPlainValue(value)]));
+}
+
+function toPlainValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return toPlainRecord(value as Record<string, unknown>);
+  }
+  return value;
+}
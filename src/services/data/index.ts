@@ -1,11 +1,14 @@
 import { createSingleton, type IDataProfiler } from '../../core/index.js';
+import { storage } from '../storage/index.js';
 
 import { DataProfiler } from './data-profiler.service.js';
+import { FactChecker } from './fact-checker.service.js';
+import { ProfileComparator } from './profile-comparator.service.js';
 
 /**
  * Get the singleton data profiler instance
  */
-export const getDataProfiler = createSingleton<IDataProfiler>(() => new DataProfiler());
+export const getDataProfiler = createSingleton<IDataProfiler>(() => new DataProfiler(storage));
 
 /**
  * Convenience export for backward compatibility
@@ -13,3 +16,17 @@ export const getDataProfiler = createSingleton<IDataProfiler>(() => new DataProf
 export const dataProfiler = getDataProfiler();
 
 export { DataProfiler } from './data-profiler.service.js';
+
+/**
+ * Compares data profiles for period-over-period reports
+ */
+export const profileComparator = new ProfileComparator();
+
+export { ProfileComparator } from './profile-comparator.service.js';
+
+/**
+ * Checks numeric claims in generated narratives against the data
+ */
+export const factChecker = new FactChecker();
+
+export { FactChecker } from './fact-checker.service.js';
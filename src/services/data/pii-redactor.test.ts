@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PiiType } from '../../shared/types/index.js';
+
+import { PiiRedactor } from './pii-redactor.js';
+
+const ALL_TYPES: PiiType[] = ['email', 'phone', 'card', 'nationalId', 'name'];
+
+describe('PiiRedactor', () => {
+  describe('detectors', () => {
+    const redactor = new PiiRedactor('mask', ALL_TYPES);
+
+    it('finds emails, phone numbers and national IDs anywhere in a value', () => {
+      expect(redactor.redactText('Write to jo.smith+x@mail.example.co.uk today')).toBe(
+        'Write to [EMAIL] today'
+      );
+      expect(redactor.redactText('Call (555) 123-4567 or +44 20 7946 0958')).toBe(
+        'Call [PHONE] or [PHONE]'
+      );
+      expect(redactor.redactText('SSN 123-45-6789, NI AB 12 34 56 C')).toBe(
+        'SSN [NATIONAL_ID], NI [NATIONAL_ID]'
+      );
+    });
+
+    it('only takes Luhn-valid digit runs for card numbers', () => {
+      expect(redactor.redactText('Card 4111 1111 1111 1111')).toBe('Card [CARD]');
+      expect(redactor.redactText('Order 4111111111111112')).toBe('Order 4111111111111112');
+      expect(redactor.redactText('Ref 4111111111111111')).toBe('Ref [CARD]');
+    });
+
+    it('leaves invalid national IDs and short numbers alone', () => {
+      expect(redactor.redactText('Code 000-12-3456')).toBe('Code 000-12-3456');
+      expect(redactor.redactText('Room 555-1234')).toBe('Room 555-1234');
+    });
+
+    it('finds names in free text after honorifics or common first names', () => {
+      expect(redactor.redactText('Approved by Dr. Okafor and Sarah J. Connor')).toBe(
+        'Approved by [NAME] and [NAME]'
+      );
+    });
+
+    it('looks for names only in free text, and fills whole columns named for people', () => {
+      expect(redactor.redact({ product: 'Emma Bridgewater', customer_name: 'Zed' }, 'd')).toEqual({
+        product: 'Emma Bridgewater',
+        customer_name: '[NAME]',
+      });
+      expect(redactor.redact({ note: 'Sent to Emma Bridgewater on Monday' }, 'd')).toEqual({
+        note: 'Sent to [NAME] on Monday',
+      });
+    });
+
+    it('finds card numbers that a CSV cast turned into numbers', () => {
+      expect(redactor.redact({ card: 4111111111111111, qty: 12 }, 'd')).toEqual({
+        card: '[CARD]',
+        qty: 12,
+      });
+    });
+
+    it('only looks for the types asked for', () => {
+      const emailsOnly = new PiiRedactor('mask', ['email']);
+      expect(emailsOnly.redactText('a@b.io, 123-45-6789')).toBe('[EMAIL], 123-45-6789');
+    });
+  });
+
+  describe('policies', () => {
+    it('hashes normalized values alike, keyed by the secret when there is one', () => {
+      const redactor = new PiiRedactor('hash', ['phone']);
+      const [first, second] = ['(555) 123-4567', '555.123.4567'].map(phone =>
+        redactor.redactText(phone)
+      );
+
+      expect(first).toMatch(/^phone_[0-9a-f]{10}$/);
+      expect(second).toBe(first);
+      expect(new PiiRedactor('hash', ['phone'], 'secret').redactText('555.123.4567')).not.toBe(
+        first
+      );
+    });
+
+    it('drops columns planned from a sample, and masks text under drop', () => {
+      const redactor = new PiiRedactor('drop', ['email']);
+      const rows = [
+        { id: 1, email: 'a@b.io' },
+        { id: 2, email: '' },
+      ];
+      redactor.plan('d', rows);
+
+      expect(rows.map(row => redactor.redact(row, 'd'))).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(redactor.redactText('Mail a@b.io')).toBe('Mail [EMAIL]');
+      expect(redactor.summary()?.findings).toEqual([
+        { type: 'email', column: 'email', count: 1, action: 'dropped' },
+        { type: 'email', count: 1, action: 'masked' },
+      ]);
+    });
+
+    it('keeps values under block but records the findings', () => {
+      const redactor = new PiiRedactor('block', ['email']);
+
+      expect(redactor.redact({ email: 'a@b.io' }, 'd')).toEqual({ email: 'a@b.io' });
+      expect(redactor.redactedColumns('d').size).toBe(0);
+      expect(redactor.summary()).toMatchObject({ blocked: true, totalMatches: 1 });
+    });
+  });
+
+  describe('redactedColumns', () => {
+    it('lists the columns that kept redacted values, per dataset, even untallied', () => {
+      const redactor = new PiiRedactor('hash', ['email']);
+      redactor.redact({ id: 1, contact: 'a@b.io' }, 'left', false);
+      redactor.redact({ id: 2, contact: 'none' }, 'right');
+
+      expect([...redactor.redactedColumns('left')]).toEqual([['contact', 'hashed']]);
+      expect(redactor.redactedColumns('right').size).toBe(0);
+      expect(redactor.summary()).toBeUndefined();
+    });
+  });
+
+  describe('summary', () => {
+    it('totals findings and names datasets only when there are several', () => {
+      const redactor = new PiiRedactor('mask', ['email']);
+      redactor.redact({ email: 'a@b.io' }, 'orders');
+      redactor.redact({ email: 'c@d.io' }, 'orders');
+
+      expect(redactor.summary()).toMatchObject({
+        policy: 'mask',
+        totalMatches: 2,
+        findings: [{ type: 'email', column: 'email', count: 2, action: 'masked' }],
+      });
+
+      redactor.redact({ email: 'e@f.io' }, 'customers');
+      expect(redactor.summary()?.findings.map(finding => finding.dataset)).toEqual([
+        'orders',
+        'customers',
+      ]);
+    });
+  });
+});
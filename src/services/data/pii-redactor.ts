@@ -0,0 +1,304 @@
+/**
+ * PII detection and redaction for parsed records and uploaded text. Emails, phone numbers,
+ * card numbers (Luhn-checked) and national IDs (US SSN, UK National Insurance number) are
+ * found by pattern anywhere; names are found in free text after an honorific or a common
+ * first name, and fill every cell of columns named for a person's name.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+
+import type {
+  PiiAction,
+  PiiFinding,
+  PiiPolicy,
+  PiiRedactionSummary,
+  PiiType,
+} from '../../shared/types/index.js';
+
+type Row = Record<string, unknown>;
+type ActivePolicy = Exclude<PiiPolicy, 'off'>;
+
+interface Detector {
+  type: PiiType;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+const PLACEHOLDERS: Record<PiiType, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  card: '[CARD]',
+  nationalId: '[NATIONAL_ID]',
+  name: '[NAME]',
+};
+
+// Common first names that are not also ordinary words (no May, Rose or Bill)
+// prettier-ignore
+const FIRST_NAMES = [
+  'James', 'John', 'Robert', 'Michael', 'David', 'William', 'Richard', 'Joseph', 'Thomas',
+  'Charles', 'Christopher', 'Daniel', 'Matthew', 'Anthony', 'Donald', 'Steven', 'Paul',
+  'Andrew', 'Joshua', 'Kenneth', 'Kevin', 'Brian', 'George', 'Timothy', 'Ronald', 'Edward',
+  'Jason', 'Jeffrey', 'Ryan', 'Jacob', 'Gary', 'Nicholas', 'Eric', 'Jonathan', 'Stephen',
+  'Larry', 'Justin', 'Scott', 'Brandon', 'Benjamin', 'Samuel', 'Gregory', 'Alexander',
+  'Patrick', 'Peter', 'Oliver', 'Harry', 'Jack', 'Mohammed', 'Muhammad', 'Ahmed', 'Luis',
+  'Carlos', 'Juan', 'Jose', 'Pierre', 'Hans', 'Mary', 'Patricia', 'Jennifer', 'Linda',
+  'Elizabeth', 'Barbara', 'Susan', 'Jessica', 'Sarah', 'Karen', 'Lisa', 'Nancy', 'Sandra',
+  'Margaret', 'Ashley', 'Kimberly', 'Emily', 'Donna', 'Michelle', 'Carol', 'Amanda',
+  'Melissa', 'Deborah', 'Stephanie', 'Rebecca', 'Sharon', 'Laura', 'Cynthia', 'Amy',
+  'Angela', 'Anna', 'Emma', 'Olivia', 'Sophia', 'Isabella', 'Charlotte', 'Amelia', 'Maria',
+  'Fatima', 'Priya', 'Wei', 'Yuki', 'Sofia', 'Lucia', 'Claire', 'Julia', 'Katherine',
+];
+
+// Most specific first, so a card number or SSN is never also taken for a phone number
+const DETECTORS: Detector[] = [
+  {
+    type: 'email',
+    pattern: /[\w.%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    // Bare digit runs are only cards at the usual 15 or 16 digits
+    accept: match =>
+      luhnValid(digitsOf(match)) && (/[ -]/.test(match) || [15, 16].includes(match.length)),
+  },
+  {
+    type: 'nationalId',
+    pattern:
+      /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b|\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    type: 'phone',
+    pattern:
+      /\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,4}\b|(?:\(\d{3}\) ?|\b\d{3}[ .-])\d{3}[ .-]\d{4}\b/g,
+    accept: match => digitsOf(match).length >= 8 && digitsOf(match).length <= 15,
+  },
+  {
+    type: 'name',
+    pattern: new RegExp(
+      `\\b(?:(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\\.? |(?:${FIRST_NAMES.join('|')}) (?:[A-Z]\\. )?)[A-Z][a-z'-]+(?: [A-Z][a-z'-]+)?\\b`,
+      'g'
+    ),
+  },
+];
+
+// Cells with at least this many words count as free text, where names are looked for
+const FREE_TEXT_MIN_WORDS = 4;
+
+// first_name, customerName, Surname, ... but not product_name or bare "name"
+const NAME_COLUMN =
+  /^(?:(?:first|last|full|given|family|middle|customer|client|contact|employee|patient|person|member|owner|holder)[\s_-]?name|surname|forename)$/i;
+
+const ACTIONS: Record<ActivePolicy, PiiAction> = {
+  mask: 'masked',
+  hash: 'hashed',
+  drop: 'masked',
+  block: 'blocked',
+};
+
+/**
+ * Redacts PII under one policy and tallies what it found, for the report's redaction
+ * summary. With the drop policy, the columns to drop are decided per dataset by plan().
+ */
+export class PiiRedactor {
+  private readonly findings = new Map<string, PiiFinding>();
+  private readonly dropped = new Map<string, Set<string>>();
+  private readonly replaced = new Map<string, Map<string, PiiAction>>();
+  private readonly detectors: Detector[];
+
+  constructor(
+    private readonly policy: ActivePolicy,
+    private readonly types: PiiType[],
+    private readonly secret?: string
+  ) {
+    this.detectors = DETECTORS.filter(detector => types.includes(detector.type));
+  }
+
+  /**
+   * Scan a dataset's rows (or a sample of them) for columns to drop. Nothing is tallied.
+   */
+  plan(dataset: string, records: Row[]): void {
+    if (this.policy !== 'drop') return;
+
+    const columns = new Set<string>();
+    for (const record of records) {
+      for (const [column, value] of Object.entries(record)) {
+        if (!columns.has(column) && this.inspect(column, value).found.size > 0) {
+          columns.add(column);
+        }
+      }
+    }
+    this.dropped.set(dataset, columns);
+  }
+
+  /**
+   * Redact one row. Rows seen twice (a streamed upload's sample, which is read again in
+   * full) are redacted the second time with tally off, so nothing is counted twice.
+   */
+  redact(record: Row, dataset: string, tally = true): Row {
+    const dropped = this.dropped.get(dataset);
+    const result: Row = {};
+    for (const [column, value] of Object.entries(record)) {
+      const inspected = this.inspect(column, value);
+      const drop = dropped?.has(column) ?? false;
+      if (tally) {
+        for (const [type, count] of inspected.found) {
+          this.tally(type, count, drop ? 'dropped' : ACTIONS[this.policy], column, dataset);
+        }
+      }
+      if (drop) continue;
+      if (inspected.found.size > 0 && this.policy !== 'block') {
+        this.markReplaced(dataset, column);
+      }
+      result[column] = this.policy === 'block' ? value : inspected.value;
+    }
+    return result;
+  }
+
+  /**
+   * Columns of a dataset that kept some of their values only as placeholders or hashes,
+   * whether or not those rows were tallied
+   */
+  redactedColumns(dataset: string): Map<string, PiiAction> {
+    return new Map(this.replaced.get(dataset));
+  }
+
+  /**
+   * Redact uploaded free text. Text has no columns to drop, so the drop policy masks it.
+   */
+  redactText(text: string): string {
+    const { text: redacted, found } = this.scanText(text, true);
+    for (const [type, count] of found) {
+      this.tally(type, count, ACTIONS[this.policy]);
+    }
+    return this.policy === 'block' ? text : redacted;
+  }
+
+  /**
+   * Findings so far, or undefined when nothing was found. Datasets are only named when
+   * findings come from more than one.
+   */
+  summary(): PiiRedactionSummary | undefined {
+    const findings = [...this.findings.values()];
+    if (findings.length === 0) return undefined;
+
+    const datasets = new Set(findings.flatMap(finding => finding.dataset ?? []));
+    return {
+      policy: this.policy,
+      types: this.types,
+      scannedAt: new Date().toISOString(),
+      totalMatches: findings.reduce((total, finding) => total + finding.count, 0),
+      findings: findings.map(({ dataset, ...finding }) =>
+        dataset && datasets.size > 1 ? { ...finding, dataset } : finding
+      ),
+      ...(this.policy === 'block' && { blocked: true }),
+    };
+  }
+
+  private markReplaced(dataset: string, column: string): void {
+    const columns = this.replaced.get(dataset) ?? new Map<string, PiiAction>();
+    columns.set(column, ACTIONS[this.policy]);
+    this.replaced.set(dataset, columns);
+  }
+
+  private tally(
+    type: PiiType,
+    count: number,
+    action: PiiAction,
+    column?: string,
+    dataset?: string
+  ): void {
+    const key = JSON.stringify([dataset, column, type, action]);
+    const finding = this.findings.get(key);
+    if (finding) {
+      finding.count += count;
+    } else {
+      this.findings.set(key, {
+        type,
+        ...(column !== undefined && { column }),
+        ...(dataset !== undefined && { dataset }),
+        count,
+        action,
+      });
+    }
+  }
+
+  /**
+   * Redacted value of one cell and its matches per type. Only strings are scanned, apart
+   * from card numbers that a CSV cast turned into numbers.
+   */
+  private inspect(column: string, value: unknown): { value: unknown; found: Map<PiiType, number> } {
+    if (typeof value === 'number') {
+      return this.types.includes('card') && isCard(value)
+        ? { value: this.replacement('card', String(value)), found: new Map([['card', 1]]) }
+        : { value, found: new Map() };
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+      return { value, found: new Map() };
+    }
+    if (this.types.includes('name') && NAME_COLUMN.test(column)) {
+      return { value: this.replacement('name', value), found: new Map([['name', 1]]) };
+    }
+    const { text, found } = this.scanText(value, wordCount(value) >= FREE_TEXT_MIN_WORDS);
+    return { value: text, found };
+  }
+
+  private scanText(text: string, freeText: boolean): { text: string; found: Map<PiiType, number> } {
+    const found = new Map<PiiType, number>();
+    let result = text;
+    for (const { type, pattern, accept } of this.detectors) {
+      if (type === 'name' && !freeText) continue;
+      result = result.replace(pattern, match => {
+        if (accept && !accept(match)) return match;
+        found.set(type, (found.get(type) ?? 0) + 1);
+        return this.replacement(type, match);
+      });
+    }
+    return { text: result, found };
+  }
+
+  /**
+   * Placeholder under mask and drop; under hash a digest of the normalized value, so
+   * "(555) 123-4567" and "555.123.4567" hash alike
+   */
+  private replacement(type: PiiType, value: string): string {
+    if (this.policy !== 'hash') return PLACEHOLDERS[type];
+
+    const normalized =
+      type === 'phone' || type === 'card'
+        ? digitsOf(value)
+        : value.trim().toLowerCase().replace(/\s+/g, ' ');
+    const digest = this.secret
+      ? createHmac('sha256', this.secret).update(normalized).digest('hex')
+      : createHash('sha256').update(normalized).digest('hex');
+    return `${type}_${digest.slice(0, 10)}`;
+  }
+}
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function wordCount(value: string): number {
+  return value.trim().split(/\s+/).length;
+}
+
+function isCard(value: number): boolean {
+  if (!Number.isSafeInteger(value)) return false;
+  const digits = String(Math.abs(value));
+  return (digits.length === 15 || digits.length === 16) && luhnValid(digits);
+}
+
+function luhnValid(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
@@ -0,0 +1,214 @@
+import { createModuleLogger } from '../../core/index.js';
+import type {
+  ColumnComparison,
+  ColumnProfile,
+  ComparedMetric,
+  DataProfile,
+  MetricDelta,
+  ProfileComparison,
+  TopValueShift,
+} from '../../shared/types/index.js';
+
+const logger = createModuleLogger('profile-comparator');
+
+// Changes smaller than this (in percent) are reported as flat
+const FLAT_THRESHOLD_PERCENT = 0.5;
+const MAX_HIGHLIGHTS = 6;
+const MAX_TOP_VALUE_SHIFTS = 5;
+
+export class ProfileComparator {
+  /**
+   * Compare the current data profile against a baseline profile
+   */
+  compare(
+    baseline: DataProfile,
+    current: DataProfile,
+    label: string,
+    baselineReportId?: string
+  ): ProfileComparison {
+    const baselineColumns = new Map(baseline.columns.map(column => [column.name, column]));
+    const currentNames = new Set(current.columns.map(column => column.name));
+
+    const columns: ColumnComparison[] = current.columns.map(column => {
+      const previous = baselineColumns.get(column.name);
+      return previous
+        ? this.compareColumn(previous, column, baseline.rowCount, current.rowCount)
+        : { name: column.name, type: column.type, status: 'added' };
+    });
+
+    for (const column of baseline.columns) {
+      if (!currentNames.has(column.name)) {
+        columns.push({ name: column.name, type: column.type, status: 'removed' });
+      }
+    }
+
+    const comparison: ProfileComparison = {
+      label,
+      baselineReportId,
+      rowCount: this.delta(baseline.rowCount, current.rowCount),
+      dataQualityScore: this.delta(baseline.dataQualityScore, current.dataQualityScore),
+      columns,
+      highlights: [],
+    };
+    comparison.highlights = this.buildHighlights(comparison);
+
+    logger.info(
+      `Compared profiles against ${label}: ${columns.filter(c => c.status === 'changed').length} of ${columns.length} columns changed`
+    );
+
+    return comparison;
+  }
+
+  /**
+   * Compute the change between two values
+   */
+  delta(baseline: number, current: number): MetricDelta {
+    const change = current - baseline;
+    const percentChange = baseline === 0 ? null : (change / Math.abs(baseline)) * 100;
+
+    let direction: MetricDelta['direction'] = 'flat';
+    if (percentChange === null ? change !== 0 : Math.abs(percentChange) >= FLAT_THRESHOLD_PERCENT) {
+      direction = change > 0 ? 'up' : 'down';
+    }
+
+    return {
+      baseline,
+      current,
+      change: this.round(change),
+      percentChange: percentChange === null ? null : this.round(percentChange),
+      direction,
+    };
+  }
+
+  private compareColumn(
+    baseline: ColumnProfile,
+    current: ColumnProfile,
+    baselineRows: number,
+    currentRows: number
+  ): ColumnComparison {
+    const comparison: ColumnComparison = {
+      name: current.name,
+      type: current.type,
+      status: 'unchanged',
+      nullCount: this.delta(baseline.nullCount, current.nullCount),
+      uniqueCount: this.delta(baseline.uniqueCount, current.uniqueCount),
+    };
+
+    if (current.type === 'numeric' && baseline.type === 'numeric') {
+      const metrics: Partial<Record<ComparedMetric, MetricDelta>> = {};
+
+      // Profiles keep no sums, so totals are reconstructed from the mean and non-null count
+      if (typeof baseline.mean === 'number' && typeof current.mean === 'number') {
+        metrics.total = this.delta(
+          this.round(baseline.mean * (baselineRows - baseline.nullCount)),
+          this.round(current.mean * (currentRows - current.nullCount))
+        );
+      }
+
+      for (const metric of ['mean', 'median', 'min', 'max', 'stdDev'] as const) {
+        const before = baseline[metric];
+        const after = current[metric];
+        if (typeof before === 'number' && typeof after === 'number') {
+          metrics[metric] = this.delta(before, after);
+        }
+      }
+
+      comparison.metrics = metrics;
+    }
+
+    if (current.topValues && baseline.topValues) {
+      comparison.topValueShifts = this.compareTopValues(baseline, current);
+    }
+
+    const deltas = [
+      comparison.nullCount,
+      comparison.uniqueCount,
+      ...Object.values(comparison.metrics ?? {}),
+    ];
+    const changed =
+      deltas.some(delta => delta?.direction !== 'flat') ||
+      (comparison.topValueShifts ?? []).some(shift => shift.change !== 0);
+    comparison.status = changed ? 'changed' : 'unchanged';
+
+    return comparison;
+  }
+
+  private compareTopValues(baseline: ColumnProfile, current: ColumnProfile): TopValueShift[] {
+    const before = new Map((baseline.topValues ?? []).map(entry => [entry.value, entry.count]));
+    const after = new Map((current.topValues ?? []).map(entry => [entry.value, entry.count]));
+    const values = new Set([...before.keys(), ...after.keys()]);
+
+    return [...values]
+      .map(value => {
+        const baselineCount = before.get(value) ?? 0;
+        const currentCount = after.get(value) ?? 0;
+        return {
+          value,
+          baseline: baselineCount,
+          current: currentCount,
+          change: currentCount - baselineCount,
+        };
+      })
+      .filter(shift => shift.change !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, MAX_TOP_VALUE_SHIFTS);
+  }
+
+  /**
+   * Describe the largest changes in plain language for the narrative and layouts
+   */
+  private buildHighlights(comparison: ProfileComparison): string[] {
+    const candidates: Array<{ score: number; text: string }> = [];
+
+    if (comparison.rowCount.direction !== 'flat') {
+      candidates.push({
+        score: Math.abs(comparison.rowCount.percentChange ?? 100),
+        text: `Record count ${this.describe(comparison.rowCount)}`,
+      });
+    }
+
+    for (const column of comparison.columns) {
+      if (column.status === 'added' || column.status === 'removed') {
+        candidates.push({ score: 0, text: `Column "${column.name}" was ${column.status}` });
+        continue;
+      }
+
+      const metric = column.metrics?.total ?? column.metrics?.mean;
+      if (metric && metric.direction !== 'flat') {
+        const name = column.metrics?.total ? 'total' : 'average';
+        candidates.push({
+          score: Math.abs(metric.percentChange ?? 100),
+          text: `${column.name} ${name} ${this.describe(metric)}`,
+        });
+      }
+
+      const shift = column.topValueShifts?.at(0);
+      if (shift) {
+        candidates.push({
+          score: shift.baseline === 0 ? 100 : (Math.abs(shift.change) / shift.baseline) * 100,
+          text: `"${shift.value}" in ${column.name} went from ${shift.baseline} to ${shift.current} occurrences`,
+        });
+      }
+    }
+
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_HIGHLIGHTS)
+      .map(candidate => candidate.text);
+  }
+
+  private describe(delta: MetricDelta): string {
+    const verb = delta.direction === 'up' ? 'up' : 'down';
+    const percent =
+      delta.percentChange === null ? '' : ` ${Math.abs(delta.percentChange).toFixed(1)}%`;
+    return `${verb}${percent} (${this.format(delta.baseline)} → ${this.format(delta.current)})`;
+  }
+
+  private format(value: number): string {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+
+import type { QualityRule } from '../../shared/types/index.js';
+
+import { describeRule, formatCheckDetail, QualityChecker } from './quality-rules.js';
+
+const check = (rules: QualityRule[], rows: Array<Record<string, unknown>>, now?: number) => {
+  const checker = new QualityChecker(rules, now);
+  for (const row of rows) {
+    checker.add(row);
+  }
+  return checker.finish();
+};
+
+describe('QualityChecker', () => {
+  it('fails notNull on null, missing-value and blank cells', () => {
+    const [result] = check(
+      [{ rule: 'notNull', column: 'email' }],
+      [{ email: 'a@x.io' }, { email: null }, { email: '  ' }, { email: 'b@x.io' }]
+    );
+
+    expect(result).toMatchObject({ passed: false, checkedRows: 4, failedRows: 2 });
+    expect(result.violations?.map(violation => violation.row)).toEqual([2, 3]);
+  });
+
+  it('leaves empty values to notNull in every other row rule', () => {
+    const [unique, range] = check(
+      [
+        { rule: 'unique', column: 'id' },
+        { rule: 'range', column: 'id', min: 1 },
+      ],
+      [{ id: 1 }, { id: null }, { id: '' }, { id: 2 }]
+    );
+
+    expect(unique).toMatchObject({ passed: true, checkedRows: 2 });
+    expect(range).toMatchObject({ passed: true, checkedRows: 2 });
+  });
+
+  it('tells unique values apart by type, and dates by instant', () => {
+    const [numbers, dates] = check(
+      [
+        { rule: 'unique', column: 'id' },
+        { rule: 'unique', column: 'at' },
+      ],
+      [
+        { id: 1, at: new Date('2024-01-01T00:00:00Z') },
+        { id: '1', at: new Date('2024-01-01T00:00:00Z') },
+        { id: 1, at: new Date('2024-01-02T00:00:00Z') },
+      ]
+    );
+
+    expect(numbers).toMatchObject({ passed: false, failedRows: 1 });
+    expect(dates).toMatchObject({ passed: false, failedRows: 1 });
+  });
+
+  it('checks inclusive ranges, reading numeric strings and rejecting text', () => {
+    const [result] = check(
+      [{ rule: 'range', column: 'qty', min: 0, max: 10 }],
+      [{ qty: 0 }, { qty: 10 }, { qty: ' 5 ' }, { qty: 11 }, { qty: 'many' }, { qty: -1 }]
+    );
+
+    expect(result).toMatchObject({ passed: false, checkedRows: 6, failedRows: 3 });
+  });
+
+  it('compares allowed values as text', () => {
+    const [result] = check(
+      [{ rule: 'allowedValues', column: 'flag', values: ['yes', 1, true] }],
+      [{ flag: 'yes' }, { flag: '1' }, { flag: true }, { flag: 'no' }]
+    );
+
+    expect(result).toMatchObject({ passed: false, failedRows: 1 });
+  });
+
+  it('matches patterns anywhere unless anchored', () => {
+    const [loose, anchored] = check(
+      [
+        { rule: 'pattern', column: 'sku', pattern: '\\d{3}' },
+        { rule: 'pattern', column: 'sku', pattern: '^[A-Z]-\\d{3}$' },
+      ],
+      [{ sku: 'A-123' }, { sku: 'xx-456-yy' }]
+    );
+
+    expect(loose.passed).toBe(true);
+    expect(anchored).toMatchObject({ passed: false, failedRows: 1 });
+  });
+
+  it('keeps only the first few violations', () => {
+    const rows = Array.from({ length: 8 }, () => ({ v: null }));
+    const [result] = check([{ rule: 'notNull', column: 'v' }], rows);
+
+    expect(result.failedRows).toBe(8);
+    expect(result.violations).toHaveLength(5);
+  });
+
+  it('checks freshness against the latest date', () => {
+    const now = Date.parse('2024-03-10T12:00:00Z');
+    const rows = [{ at: '2024-03-01' }, { at: new Date('2024-03-09T12:00:00Z') }, { at: null }];
+    const [fresh, stale] = check(
+      [
+        { rule: 'freshness', column: 'at', maxAgeHours: 24 },
+        { rule: 'freshness', column: 'at', maxAgeHours: 12 },
+      ],
+      rows,
+      now
+    );
+
+    expect(fresh).toMatchObject({
+      passed: true,
+      checkedRows: 2,
+      observed: 'Latest 2024-03-09, 24 hours old',
+    });
+    expect(stale.passed).toBe(false);
+  });
+
+  it('fails freshness without any dates', () => {
+    const [result] = check(
+      [{ rule: 'freshness', column: 'at', maxAgeHours: 1 }],
+      [{ at: 'soon' }, { at: '' }]
+    );
+    expect(result).toMatchObject({ passed: false, checkedRows: 0, observed: 'No dates' });
+  });
+
+  it('counts every row for rowCount', () => {
+    const [result] = check([{ rule: 'rowCount', min: 3 }], [{}, {}]);
+    expect(result).toMatchObject({ passed: false, observed: '2 rows' });
+    expect(result).not.toHaveProperty('column');
+  });
+
+  it('fails rules on columns the data does not have', () => {
+    const [result] = check([{ rule: 'notNull', column: 'missing' }], [{ other: 1 }]);
+    expect(result).toMatchObject({ passed: false, observed: 'Column not found' });
+  });
+});
+
+describe('describeRule', () => {
+  it('describes each rule in plain language', () => {
+    expect(describeRule({ rule: 'range', column: 'qty', min: 1000 })).toBe('qty at least 1,000');
+    expect(describeRule({ rule: 'rowCount', min: 1, max: 5 })).toBe('Row count between 1 and 5');
+    expect(describeRule({ rule: 'freshness', column: 'at', maxAgeHours: 72 })).toBe(
+      'Latest at is within 3 days'
+    );
+    expect(
+      describeRule({
+        rule: 'allowedValues',
+        column: 'n',
+        values: Array.from({ length: 12 }, (_, i) => i),
+      })
+    ).toBe('n is one of 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, ...');
+  });
+});
+
+describe('formatCheckDetail', () => {
+  it('summarises failing rows with their values', () => {
+    const [result] = check(
+      [{ rule: 'range', column: 'qty', min: 0 }],
+      [{ qty: -5 }, { qty: 3 }, { qty: -50 }]
+    );
+    expect(formatCheckDetail(result)).toBe('2 of 3 rows fail (row 1: -5; row 3: -50)');
+  });
+
+  it('shows empty values and truncates long ones', () => {
+    const long = 'x'.repeat(60);
+    const [result] = check(
+      [{ rule: 'pattern', column: 'code', pattern: '^\\d+$' }],
+      [{ code: long }]
+    );
+    const [empty] = check([{ rule: 'notNull', column: 'code' }], [{ code: null }]);
+
+    expect(formatCheckDetail(result)).toBe(`1 of 1 rows fail (row 1: ${'x'.repeat(40)}...)`);
+    expect(formatCheckDetail(empty)).toBe('1 of 1 rows fail (row 1: (empty))');
+  });
+
+  it('falls back to what a dataset-level rule observed', () => {
+    const [result] = check([{ rule: 'rowCount', max: 10 }], [{}]);
+    expect(formatCheckDetail(result)).toBe('1 rows');
+  });
+});
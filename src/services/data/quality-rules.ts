@@ -0,0 +1,240 @@
+/**
+ * Declarative data quality rules, checked one row at a time so the same checker runs over
+ * rows in memory and over streamed uploads. Every rule yields a pass/fail result; row-level
+ * rules keep the first few offending rows as examples.
+ */
+
+import type {
+  QualityCheckResult,
+  QualityRule,
+  QualityViolation,
+} from '../../shared/types/index.js';
+
+import { toDate } from './time-series.js';
+
+type Row = Record<string, unknown>;
+
+const MAX_VIOLATIONS = 5;
+const MAX_LISTED_VALUES = 10;
+const MAX_VALUE_LENGTH = 40;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface RuleState {
+  rule: QualityRule;
+  // Whether any row had the rule's column
+  seen: boolean;
+  checked: number;
+  failed: number;
+  violations: QualityViolation[];
+  // Row-level rules: whether a (non-empty) value passes
+  test?: (value: unknown) => boolean;
+  // Freshness: latest timestamp seen
+  latest?: number;
+}
+
+export class QualityChecker {
+  private readonly states: RuleState[];
+  private rows = 0;
+
+  constructor(
+    rules: QualityRule[],
+    private readonly now = Date.now()
+  ) {
+    this.states = rules.map(rule => ({
+      rule,
+      seen: false,
+      checked: 0,
+      failed: 0,
+      violations: [],
+      test: valueTest(rule),
+    }));
+  }
+
+  add(row: Row): void {
+    this.rows++;
+    for (const state of this.states) {
+      const { rule } = state;
+      if (rule.rule === 'rowCount' || !(rule.column in row)) continue;
+      state.seen = true;
+      const value = row[rule.column];
+
+      if (rule.rule === 'freshness') {
+        const date = isEmpty(value) ? null : toDate(value);
+        if (date) {
+          state.checked++;
+          state.latest = Math.max(state.latest ?? -Infinity, date.getTime());
+        }
+        continue;
+      }
+
+      // Only notNull looks at empty values
+      if (rule.rule !== 'notNull' && isEmpty(value)) continue;
+      state.checked++;
+      if (state.test && !state.test(value)) {
+        state.failed++;
+        if (state.violations.length < MAX_VIOLATIONS) {
+          state.violations.push({ row: this.rows, values: row });
+        }
+      }
+    }
+  }
+
+  finish(): QualityCheckResult[] {
+    return this.states.map(state => this.result(state));
+  }
+
+  private result(state: RuleState): QualityCheckResult {
+    const { rule } = state;
+    const base = {
+      rule: rule.rule,
+      ...(rule.rule !== 'rowCount' && { column: rule.column }),
+      description: describeRule(rule),
+    };
+
+    if (rule.rule === 'rowCount') {
+      return {
+        ...base,
+        passed: withinBounds(this.rows, rule.min, rule.max),
+        observed: `${this.rows.toLocaleString('en-US')} rows`,
+      };
+    }
+    if (!state.seen) {
+      return { ...base, passed: false, observed: 'Column not found' };
+    }
+    if (rule.rule === 'freshness') {
+      if (state.latest === undefined) {
+        return { ...base, passed: false, checkedRows: 0, observed: 'No dates' };
+      }
+      const ageHours = (this.now - state.latest) / HOUR_MS;
+      return {
+        ...base,
+        passed: ageHours <= rule.maxAgeHours,
+        checkedRows: state.checked,
+        observed: `Latest ${new Date(state.latest).toISOString().slice(0, 10)}, ${formatHours(ageHours)} old`,
+      };
+    }
+    return {
+      ...base,
+      passed: state.failed === 0,
+      checkedRows: state.checked,
+      failedRows: state.failed,
+      ...(state.violations.length > 0 && { violations: state.violations }),
+    };
+  }
+}
+
+export function describeRule(rule: QualityRule): string {
+  switch (rule.rule) {
+    case 'notNull':
+      return `${rule.column} has no empty values`;
+    case 'unique':
+      return `${rule.column} values are unique`;
+    case 'range':
+      return `${rule.column} ${describeBounds(rule.min, rule.max)}`;
+    case 'allowedValues': {
+      const listed = rule.values.slice(0, MAX_LISTED_VALUES).map(String).join(', ');
+      const more = rule.values.length > MAX_LISTED_VALUES ? ', ...' : '';
+      return `${rule.column} is one of ${listed}${more}`;
+    }
+    case 'pattern':
+      return `${rule.column} matches /${rule.pattern}/`;
+    case 'freshness':
+      return `Latest ${rule.column} is within ${formatHours(rule.maxAgeHours)}`;
+    case 'rowCount':
+      return `Row count ${describeBounds(rule.min, rule.max)}`;
+  }
+}
+
+/**
+ * What a check saw, for the report: failing rows with examples for row-level rules, e.g.
+ * "2 of 120 rows fail (row 12: -5; row 40: (empty))", the observed value for the others
+ */
+export function formatCheckDetail(check: QualityCheckResult): string {
+  if (check.failedRows === undefined || check.checkedRows === undefined) {
+    return check.observed ?? '';
+  }
+  const summary = `${check.failedRows.toLocaleString('en-US')} of ${check.checkedRows.toLocaleString('en-US')} rows fail`;
+  const { column, violations } = check;
+  if (!column || !violations) {
+    return summary;
+  }
+  const examples = violations.map(violation => {
+    const value = violation.values[column];
+    const shown = isEmpty(value) ? '(empty)' : text(value);
+    const truncated =
+      shown.length > MAX_VALUE_LENGTH ? `${shown.slice(0, MAX_VALUE_LENGTH)}...` : shown;
+    return `row ${violation.row}: ${truncated}`;
+  });
+  return `${summary} (${examples.join('; ')})`;
+}
+
+/**
+ * Test for the values of a row-level rule; unique keeps the values seen so far
+ */
+function valueTest(rule: QualityRule): ((value: unknown) => boolean) | undefined {
+  switch (rule.rule) {
+    case 'notNull':
+      return value => !isEmpty(value);
+    case 'unique': {
+      const seen = new Set<string>();
+      return value => {
+        const key =
+          value instanceof Date ? `date:${value.getTime()}` : `${typeof value}:${text(value)}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      };
+    }
+    case 'range':
+      return value => {
+        const number = typeof value === 'string' ? Number(value.trim()) : value;
+        return typeof number === 'number' && withinBounds(number, rule.min, rule.max);
+      };
+    case 'allowedValues': {
+      const allowed = new Set(rule.values.map(String));
+      return value => allowed.has(text(value));
+    }
+    case 'pattern': {
+      const pattern = new RegExp(rule.pattern);
+      return value => pattern.test(text(value));
+    }
+    case 'freshness':
+    case 'rowCount':
+      return undefined;
+  }
+}
+
+function withinBounds(value: number, min?: number, max?: number): boolean {
+  return (
+    !Number.isNaN(value) &&
+    (min === undefined || value >= min) &&
+    (max === undefined || value <= max)
+  );
+}
+
+function describeBounds(min?: number, max?: number): string {
+  const format = (bound: number) => bound.toLocaleString('en-US');
+  if (min !== undefined && max !== undefined) {
+    return `between ${format(min)} and ${format(max)}`;
+  }
+  return min !== undefined ? `at least ${format(min)}` : `at most ${format(max ?? 0)}`;
+}
+
+function formatHours(hours: number): string {
+  if (hours >= 48) {
+    const days = Math.round(hours / 24);
+    return `${days} days`;
+  }
+  const rounded = Math.round(hours);
+  return `${rounded} hour${rounded === 1 ? '' : 's'}`;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+function text(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
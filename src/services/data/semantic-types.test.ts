@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectSemanticType, normalizeSemanticValue } from './semantic-types.js';
+
+describe('detectSemanticType', () => {
+  it('detects currency amounts by symbol or code, before and after the number', () => {
+    expect(detectSemanticType('price', ['$45.10', '$1,200', '-$3'])).toEqual({
+      type: 'currency',
+      currency: { code: 'USD', symbol: '$' },
+    });
+    expect(detectSemanticType('amount', ['12 EUR', '€ 3.50', '4,00 EUR'])).toMatchObject({
+      type: 'currency',
+      currency: { code: 'EUR' },
+    });
+  });
+
+  it('leaves columns of mixed currencies alone', () => {
+    expect(detectSemanticType('amount', ['$1', '€2', '£3'])).toBeNull();
+  });
+
+  it('detects numeric amounts by a currency in the column name', () => {
+    expect(detectSemanticType('revenue_usd', [10, 20.5])).toMatchObject({ type: 'currency' });
+    expect(detectSemanticType('Price (€)', [3, 4])).toMatchObject({
+      currency: { code: 'EUR' },
+    });
+    expect(detectSemanticType('revenue', [10, 20.5])).toBeNull();
+  });
+
+  it('detects percentages written with a sign or stored as fractions', () => {
+    expect(detectSemanticType('growth', ['12%', '-3.5 %', '100%'])).toEqual({
+      type: 'percentage',
+      scale: 1,
+    });
+    expect(detectSemanticType('margin_pct', [0.25, 0.5])).toEqual({
+      type: 'percentage',
+      scale: 100,
+    });
+    expect(detectSemanticType('margin_pct', [25, 50])).toEqual({ type: 'percentage', scale: 1 });
+  });
+
+  it('needs most values to match, ignoring empty ones', () => {
+    expect(detectSemanticType('growth', ['12%', '5%', '7%', '9%', 'n/a'])).toMatchObject({
+      type: 'percentage',
+    });
+    expect(detectSemanticType('growth', ['12%', 'n/a', 'n/a', null, ''])).toBeNull();
+    expect(detectSemanticType('growth', [null, ''])).toBeNull();
+  });
+
+  it('detects places and identifiers by name and value', () => {
+    expect(detectSemanticType('country', ['France', 'Peru'])).toEqual({ type: 'country' });
+    expect(detectSemanticType('code', ['FR', 'DE', 'US'])).toEqual({ type: 'country' });
+    expect(detectSemanticType('state', ['CA', 'NY'])).toEqual({ type: 'region' });
+    expect(detectSemanticType('zip', [90210, 10001])).toEqual({ type: 'postcode' });
+    expect(detectSemanticType('where', ['SW1A 1AA', 'K1A 0B1'])).toEqual({ type: 'postcode' });
+    expect(detectSemanticType('customerId', [101, 102])).toEqual({ type: 'identifier' });
+    expect(detectSemanticType('email', ['a@b.io', 'c@d.io'])).toEqual({ type: 'email' });
+  });
+});
+
+describe('normalizeSemanticValue', () => {
+  it('parses currency amounts, keeping the sign', () => {
+    const usd = { type: 'currency' as const, currency: { code: 'USD', symbol: '$' } };
+    expect(normalizeSemanticValue('$1,200.50', usd)).toBe(1200.5);
+    expect(normalizeSemanticValue('-$3', usd)).toBe(-3);
+    expect(normalizeSemanticValue('$-3', usd)).toBe(-3);
+    expect(normalizeSemanticValue('n/a', usd)).toBe('n/a');
+  });
+
+  it('scales percentages without float noise', () => {
+    expect(normalizeSemanticValue('12%', { type: 'percentage', scale: 1 })).toBe(12);
+    expect(normalizeSemanticValue(0.07, { type: 'percentage', scale: 100 })).toBe(7);
+  });
+
+  it('keeps numeric codes as text and empty values as they are', () => {
+    expect(normalizeSemanticValue(90210, { type: 'postcode' })).toBe('90210');
+    expect(normalizeSemanticValue('', { type: 'percentage', scale: 1 })).toBe('');
+    expect(normalizeSemanticValue(null, { type: 'identifier' })).toBeNull();
+  });
+});
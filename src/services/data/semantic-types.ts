@@ -0,0 +1,201 @@
+import type { CurrencyFormat, SemanticType } from '../../shared/types/index.js';
+
+export interface SemanticDetection {
+  type: SemanticType;
+  currency?: CurrencyFormat;
+  // Multiplier applied to numeric percentages stored as fractions (0.25 -> 25)
+  scale?: number;
+}
+
+// Share of non-empty values that must match a pattern
+const MATCH_RATIO = 0.8;
+
+const CURRENCY_CODES = new Set([
+  'AED', 'AUD', 'BRL', 'CAD', 'CHF', 'CNY', 'CZK', 'DKK', 'EUR', 'GBP', 'HKD', 'HUF', 'ILS',
+  'INR', 'JPY', 'KRW', 'MXN', 'NOK', 'NZD', 'PLN', 'RUB', 'SAR', 'SEK', 'SGD', 'TRY', 'USD',
+  'ZAR',
+]); // prettier-ignore
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  US$: 'USD',
+  A$: 'AUD',
+  C$: 'CAD',
+  CA$: 'CAD',
+  HK$: 'HKD',
+  NZ$: 'NZD',
+  R$: 'BRL',
+  S$: 'SGD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₽': 'RUB',
+  '₺': 'TRY',
+};
+
+// ISO 3166-1 alpha-2
+const COUNTRY_CODES = new Set(
+  `AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR
+  BS BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC
+  EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK
+  HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB
+  LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ
+  NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU
+  RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN
+  TO TR TT TV TW TZ UA UG UK UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW`.split(/\s+/)
+);
+
+const CURRENCY_VALUE =
+  /^(-)?\s*([A-Z]{3}|[A-Z]{0,2}\$|[€£¥₹₩₽₺])?\s*(-)?\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*([A-Z]{3}|[€£¥₹₩₽₺])?$/;
+const PERCENT_VALUE = /^(-?(?:\d[\d,]*(?:\.\d+)?|\.\d+))\s*%$/;
+const EMAIL_VALUE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_VALUE = /^(?:https?:\/\/|www\.)\S+\.\S+$/i;
+const UUID_VALUE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// ISO 3166-2 subdivision codes such as US-CA or GB-SCT
+const SUBDIVISION_VALUE = /^[A-Z]{2}-[A-Z0-9]{1,3}$/;
+// UK and Canadian postcodes; purely numeric codes are only recognised by column name
+const POSTCODE_VALUE = /^(?:[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}|[A-Z]\d[A-Z] ?\d[A-Z]\d)$/i;
+
+/**
+ * Detect what a column means from its name and values. Returns null for plain columns.
+ */
+export function detectSemanticType(name: string, values: unknown[]): SemanticDetection | null {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length === 0) return null;
+
+  const strings = present.filter((v): v is string => typeof v === 'string').map(v => v.trim());
+  const numbers = present.filter((v): v is number => typeof v === 'number');
+  const share = (count: number): number => count / present.length;
+  const matching = (pattern: RegExp): number => share(strings.filter(v => pattern.test(v)).length);
+
+  const tokens = nameTokens(name);
+  const named = (...words: string[]): boolean => words.some(word => tokens.includes(word));
+
+  if (matching(EMAIL_VALUE) >= MATCH_RATIO) return { type: 'email' };
+  if (matching(URL_VALUE) >= MATCH_RATIO) return { type: 'url' };
+
+  const currency = detectCurrency(name, tokens, strings, share(numbers.length), share);
+  if (currency) return { type: 'currency', currency };
+
+  if (matching(PERCENT_VALUE) >= MATCH_RATIO) return { type: 'percentage', scale: 1 };
+  if (
+    (named('PERCENT', 'PERCENTAGE', 'PCT') || name.includes('%')) &&
+    share(numbers.length) >= MATCH_RATIO
+  ) {
+    return { type: 'percentage', scale: numbers.every(n => Math.abs(n) <= 1) ? 100 : 1 };
+  }
+
+  const textual = share(strings.length) >= MATCH_RATIO;
+  if (named('COUNTRY', 'NATION') && textual) return { type: 'country' };
+  if (named('REGION', 'PROVINCE', 'COUNTY', 'TERRITORY') && textual) return { type: 'region' };
+  if (named('STATE') && matching(/^[A-Z]{2}$/) >= MATCH_RATIO) return { type: 'region' };
+  if (named('ZIP', 'ZIPCODE', 'POSTCODE', 'POSTAL')) return { type: 'postcode' };
+
+  const uniqueCount = new Set(present.map(String)).size;
+  if (uniqueCount >= 3 && share(strings.filter(v => COUNTRY_CODES.has(v)).length) >= 0.9) {
+    return { type: 'country' };
+  }
+  if (matching(SUBDIVISION_VALUE) >= MATCH_RATIO) return { type: 'region' };
+  if (matching(POSTCODE_VALUE) >= MATCH_RATIO) return { type: 'postcode' };
+
+  if (matching(UUID_VALUE) >= MATCH_RATIO) return { type: 'identifier' };
+  const labels = share(strings.length + numbers.filter(Number.isInteger).length);
+  if (named('ID', 'UUID', 'GUID', 'SKU') && labels >= MATCH_RATIO) return { type: 'identifier' };
+  if (
+    named('KEY', 'CODE', 'NUMBER', 'NUM', 'NO', 'REF') &&
+    labels >= MATCH_RATIO &&
+    uniqueCount / present.length >= 0.9
+  ) {
+    return { type: 'identifier' };
+  }
+
+  return null;
+}
+
+/**
+ * Convert a raw value to the representation its semantic type is profiled with:
+ * amounts and percentages become numbers, numeric codes become strings
+ */
+export function normalizeSemanticValue(value: unknown, detection: SemanticDetection): unknown {
+  if (value === null || value === undefined || value === '') return value;
+
+  switch (detection.type) {
+    case 'currency':
+      return typeof value === 'string' ? (parseCurrency(value.trim())?.amount ?? value) : value;
+    case 'percentage': {
+      const number = typeof value === 'number' ? value : parsePercent(String(value).trim());
+      // toPrecision drops float noise such as 0.07 * 100 = 7.000000000000001
+      return number === null ? value : Number((number * (detection.scale ?? 1)).toPrecision(12));
+    }
+    case 'identifier':
+    case 'postcode':
+      return typeof value === 'number' ? String(value) : value;
+    default:
+      return value;
+  }
+}
+
+function detectCurrency(
+  name: string,
+  tokens: string[],
+  strings: string[],
+  numericShare: number,
+  share: (count: number) => number
+): CurrencyFormat | null {
+  const codes = strings.map(v => parseCurrency(v)?.code).filter(code => code !== undefined);
+  if (codes.length > 0 && share(codes.length) >= MATCH_RATIO) {
+    // Mixed currencies cannot be summed or compared, so leave the column alone
+    const [code] = codes;
+    return codes.every(c => c === code) ? currencyFormat(code) : null;
+  }
+
+  if (numericShare < MATCH_RATIO) return null;
+
+  // Amount columns that carry the currency in their name, e.g. revenue_usd or "Price (€)"
+  const code =
+    tokens.find(token => CURRENCY_CODES.has(token)) ??
+    Object.entries(CURRENCY_SYMBOLS).find(([symbol]) => name.includes(symbol))?.[1];
+  return code ? currencyFormat(code) : null;
+}
+
+function parseCurrency(value: string): { code: string; amount: number } | null {
+  const match = CURRENCY_VALUE.exec(value);
+  if (!match) return null;
+
+  const [, leadingSign, prefix, innerSign, digits, suffix] = match;
+  // Exactly one marker: "$12" or "12 EUR", but not a bare number or "$12 USD"
+  const markers = [prefix, suffix].filter(Boolean);
+  if (markers.length !== 1) return null;
+  const [marker] = markers;
+
+  const code = CURRENCY_CODES.has(marker) ? marker : CURRENCY_SYMBOLS[marker];
+  if (!code) return null;
+
+  const amount = parseFloat(digits.replace(/,/g, ''));
+  return { code, amount: leadingSign || innerSign ? -amount : amount };
+}
+
+function parsePercent(value: string): number | null {
+  const match = PERCENT_VALUE.exec(value);
+  return match ? parseFloat(match[1].replace(/,/g, '')) : null;
+}
+
+function currencyFormat(code: string): CurrencyFormat {
+  const symbol = new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value;
+  return { code, symbol: symbol ?? code };
+}
+
+/**
+ * Split snake_case, kebab-case and camelCase names into upper-case words
+ */
+function nameTokens(name: string): string[] {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .toUpperCase()
+    .split(/[^A-Z\d]+/)
+    .filter(Boolean);
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  histogram,
+  linearFit,
+  outliers,
+  pearson,
+  quantile,
+  quantiles,
+  skewness,
+  spearman,
+} from './statistics.js';
+
+describe('quantile', () => {
+  it('interpolates between closest ranks', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([10, 20, 30], 0.25)).toBe(15);
+    expect(quantile([5], 0.9)).toBe(5);
+  });
+
+  it('returns the extremes at 0 and 1', () => {
+    expect(quantile([3, 7, 9], 0)).toBe(3);
+    expect(quantile([3, 7, 9], 1)).toBe(9);
+  });
+});
+
+describe('quantiles', () => {
+  it('reports the usual percentiles, rounded to four decimals', () => {
+    const sorted = Array.from({ length: 101 }, (_, i) => i);
+    expect(quantiles(sorted)).toEqual({
+      p5: 5,
+      p10: 10,
+      p25: 25,
+      p50: 50,
+      p75: 75,
+      p90: 90,
+      p95: 95,
+    });
+    expect(quantiles([0, 1, 2]).p10).toBe(0.2);
+  });
+});
+
+describe('skewness', () => {
+  it('is zero for symmetric data and positive for a long right tail', () => {
+    expect(skewness([1, 2, 3], 2, Math.sqrt(2 / 3))).toBe(0);
+    const tail = [1, 1, 1, 10];
+    const mean = 3.25;
+    const stdDev = Math.sqrt(tail.reduce((acc, n) => acc + (n - mean) ** 2, 0) / tail.length);
+    expect(skewness(tail, mean, stdDev)).toBeGreaterThan(1);
+  });
+
+  it('is undefined for fewer than three values or no spread', () => {
+    expect(skewness([1, 2], 1.5, 0.5)).toBeUndefined();
+    expect(skewness([4, 4, 4], 4, 0)).toBeUndefined();
+  });
+});
+
+describe('outliers', () => {
+  it('counts values beyond the Tukey fences, most extreme first', () => {
+    const sorted = [-50, 1, 2, 3, 4, 5, 6, 7, 8, 100];
+    const result = outliers(sorted, 8.6, 34, { p25: 2.25, p75: 6.75 });
+
+    expect(result.iqr).toEqual({ lowerFence: -4.5, upperFence: 13.5, count: 2 });
+    expect(result.examples).toEqual([100, -50]);
+  });
+
+  it('counts z-score outliers beyond three standard deviations', () => {
+    const sorted = [...Array.from({ length: 20 }, () => 10), 1000];
+    const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+    const stdDev = Math.sqrt(sorted.reduce((acc, n) => acc + (n - mean) ** 2, 0) / sorted.length);
+
+    expect(outliers(sorted, mean, stdDev, { p25: 10, p75: 10 }).zScore).toEqual({
+      threshold: 3,
+      count: 1,
+    });
+  });
+
+  it('finds no z-score outliers without spread', () => {
+    expect(outliers([2, 2, 2], 2, 0, { p25: 2, p75: 2 }).zScore.count).toBe(0);
+  });
+});
+
+describe('histogram', () => {
+  it('puts constant data in a single bin', () => {
+    expect(histogram([7, 7, 7])).toEqual([{ start: 7, end: 7, count: 3 }]);
+  });
+
+  it('uses Sturges bins that cover every value, the maximum included', () => {
+    const sorted = Array.from({ length: 16 }, (_, i) => i);
+    const bins = histogram(sorted);
+
+    expect(bins).toHaveLength(5);
+    expect(bins[0].start).toBe(0);
+    expect(bins.at(-1)?.end).toBe(15);
+    expect(bins.reduce((total, bin) => total + bin.count, 0)).toBe(16);
+  });
+
+  it('caps the number of bins', () => {
+    expect(histogram(Array.from({ length: 1_000_000 }, (_, i) => i))).toHaveLength(20);
+  });
+});
+
+describe('pearson', () => {
+  it('is 1 or -1 for perfectly linear data', () => {
+    expect(pearson([1, 2, 3, 4], [2, 4, 6, 8])).toBe(1);
+    expect(pearson([1, 2, 3, 4], [8, 6, 4, 2])).toBe(-1);
+  });
+
+  it('is undefined for fewer than three pairs or no variance', () => {
+    expect(pearson([1, 2], [1, 2])).toBeUndefined();
+    expect(pearson([1, 2, 3], [5, 5, 5])).toBeUndefined();
+  });
+});
+
+describe('spearman', () => {
+  it('is 1 for any monotonic relationship', () => {
+    expect(spearman([1, 2, 3, 4, 5], [1, 8, 27, 64, 125])).toBe(1);
+  });
+
+  it('gives tied values their average rank', () => {
+    expect(spearman([1, 2, 2, 3], [1, 2, 2, 3])).toBe(1);
+    expect(spearman([1, 1, 2, 2], [1, 2, 3, 4])).toBe(0.8944);
+  });
+});
+
+describe('linearFit', () => {
+  it('fits a least-squares line', () => {
+    expect(linearFit([0, 1, 2, 3], [1, 3, 5, 7])).toEqual({ slope: 2, intercept: 1 });
+  });
+
+  it('is undefined when x has no variance', () => {
+    expect(linearFit([2, 2, 2], [1, 2, 3])).toBeUndefined();
+    expect(linearFit([1], [1])).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Distribution and correlation statistics used by the data profiler
+ */
+
+import type { ColumnOutliers, ColumnQuantiles, HistogramBin } from '../../shared/types/index.js';
+
+// Values further than this many standard deviations from the mean count as z-score outliers
+export const Z_SCORE_THRESHOLD = 3;
+
+const MAX_HISTOGRAM_BINS = 20;
+const MAX_OUTLIER_EXAMPLES = 5;
+
+/**
+ * Quantile of an ascending array using linear interpolation between closest ranks
+ */
+export function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function quantiles(sorted: number[]): ColumnQuantiles {
+  const at = (p: number): number => round(quantile(sorted, p));
+  return {
+    p5: at(0.05),
+    p10: at(0.1),
+    p25: at(0.25),
+    p50: at(0.5),
+    p75: at(0.75),
+    p90: at(0.9),
+    p95: at(0.95),
+  };
+}
+
+/**
+ * Fisher-Pearson coefficient of skewness; undefined for fewer than three values or no spread
+ */
+export function skewness(numbers: number[], mean: number, stdDev: number): number | undefined {
+  if (numbers.length < 3 || stdDev === 0) return undefined;
+  const thirdMoment = numbers.reduce((acc, n) => acc + Math.pow(n - mean, 3), 0) / numbers.length;
+  return round(thirdMoment / Math.pow(stdDev, 3));
+}
+
+/**
+ * Tukey fences (1.5 x IQR beyond the quartiles) and z-score outliers
+ */
+export function outliers(
+  sorted: number[],
+  mean: number,
+  stdDev: number,
+  quartiles: Pick<ColumnQuantiles, 'p25' | 'p75'>
+): ColumnOutliers {
+  const iqr = quartiles.p75 - quartiles.p25;
+  const lowerFence = round(quartiles.p25 - 1.5 * iqr);
+  const upperFence = round(quartiles.p75 + 1.5 * iqr);
+  const outside = sorted.filter(n => n < lowerFence || n > upperFence);
+  const zScoreCount =
+    stdDev === 0 ? 0 : sorted.filter(n => Math.abs(n - mean) / stdDev > Z_SCORE_THRESHOLD).length;
+
+  return {
+    iqr: { lowerFence, upperFence, count: outside.length },
+    zScore: { threshold: Z_SCORE_THRESHOLD, count: zScoreCount },
+    examples: [...outside]
+      .sort((a, b) => Math.abs(b - mean) - Math.abs(a - mean))
+      .slice(0, MAX_OUTLIER_EXAMPLES),
+  };
+}
+
+/**
+ * Equal-width bins; the bin count follows Sturges' rule
+ */
+export function histogram(sorted: number[]): HistogramBin[] {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) {
+    return [{ start: min, end: max, count: sorted.length }];
+  }
+
+  const binCount = Math.min(MAX_HISTOGRAM_BINS, Math.ceil(Math.log2(sorted.length) + 1));
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    start: round(min + i * width),
+    end: round(i === binCount - 1 ? max : min + (i + 1) * width),
+    count: 0,
+  }));
+
+  for (const n of sorted) {
+    // The maximum belongs to the last bin rather than opening a new one
+    bins[Math.min(binCount - 1, Math.floor((n - min) / width))].count++;
+  }
+  return bins;
+}
+
+/**
+ * Pearson correlation of paired values; undefined when either side has no variance
+ */
+export function pearson(xs: number[], ys: number[]): number | undefined {
+  const n = xs.length;
+  if (n < 3) return undefined;
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return undefined;
+  return round(covariance / Math.sqrt(varianceX * varianceY));
+}
+
+/**
+ * Least-squares line through paired values; undefined when x has no variance
+ */
+export function linearFit(
+  xs: number[],
+  ys: number[]
+): { slope: number; intercept: number } | undefined {
+  const n = xs.length;
+  if (n < 2) return undefined;
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+  }
+
+  if (varianceX === 0) return undefined;
+  const slope = covariance / varianceX;
+  return { slope, intercept: meanY - slope * meanX };
+}
+
+/**
+ * Spearman rank correlation: Pearson on ranks, with ties sharing their average rank
+ */
+export function spearman(xs: number[], ys: number[]): number | undefined {
+  return pearson(ranks(xs), ranks(ys));
+}
+
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) result[order[i].index] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+// Four decimals keep the profile readable without losing meaningful precision
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
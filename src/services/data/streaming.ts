@@ -0,0 +1,137 @@
+/**
+ * Record readers and sampling for uploads that are profiled as streams
+ */
+
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
+
+import { parse, type Options } from 'csv-parse';
+
+export async function* readCsvRecords(
+  stream: Readable,
+  options: Options<Record<string, unknown>> & { columns: true }
+): AsyncGenerator<Record<string, unknown>> {
+  const parser = parse<Record<string, unknown>>(options);
+  // pipe() does not forward source errors, which would leave the parser waiting forever
+  stream.on('error', error => parser.destroy(error));
+  for await (const record of stream.pipe(parser)) {
+    yield record as Record<string, unknown>;
+  }
+}
+
+/**
+ * Yield the objects of a top-level JSON array one at a time; only the object being read
+ * is held in memory. Elements that are not objects are skipped.
+ */
+export async function* readJsonRecords(stream: Readable): AsyncGenerator<Record<string, unknown>> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let started = false;
+  // Pieces of the current element when it spans several chunks
+  let parts: string[] = [];
+  let inElement = false;
+
+  stream.setEncoding('utf8');
+  for await (const chunk of stream as AsyncIterable<string>) {
+    let start = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (!started) {
+        if (/\s/.test(char)) continue;
+        if (char !== '[') throw new Error('Expected a JSON array of records');
+        started = true;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 1 && char === '{') {
+          inElement = true;
+          start = i;
+        }
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (inElement && depth === 1) {
+          parts.push(chunk.slice(start, i + 1));
+          yield JSON.parse(parts.join('')) as Record<string, unknown>;
+          parts = [];
+          inElement = false;
+        }
+      }
+    }
+
+    if (inElement) {
+      parts.push(chunk.slice(start));
+    }
+  }
+
+  if (depth !== 0 || inElement) {
+    throw new Error('Unexpected end of JSON input');
+  }
+}
+
+/**
+ * Yield the objects of newline-delimited JSON one line at a time; blank lines are skipped
+ */
+export async function* readNdjsonRecords(
+  stream: Readable
+): AsyncGenerator<Record<string, unknown>> {
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim().length === 0) continue;
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNumber} of NDJSON input`);
+    }
+    yield record;
+  }
+}
+
+/**
+ * Uniform random sample of fixed size over a stream of unknown length (Algorithm R).
+ * Items remember their position so the sample comes back in source order.
+ */
+export class ReservoirSample<T> {
+  private readonly items: Array<{ index: number; item: T }> = [];
+  private seen = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  add(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push({ index: this.seen, item });
+    } else {
+      const slot = Math.floor(Math.random() * (this.seen + 1));
+      if (slot < this.capacity) this.items[slot] = { index: this.seen, item };
+    }
+    this.seen++;
+  }
+
+  // Items offered so far, kept or not
+  get count(): number {
+    return this.seen;
+  }
+
+  // Whether every item offered is in the sample
+  get complete(): boolean {
+    return this.seen <= this.capacity;
+  }
+
+  values(): T[] {
+    return [...this.items].sort((a, b) => a.index - b.index).map(entry => entry.item);
+  }
+}
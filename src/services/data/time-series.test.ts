@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ColumnProfile } from '../../shared/types/index.js';
+
+import { analyzeTimeSeries, bucketStart, TimeSeriesAccumulator } from './time-series.js';
+
+const numeric = (name: string, patch: Partial<ColumnProfile> = {}): ColumnProfile => ({
+  name,
+  type: 'numeric',
+  nullCount: 0,
+  uniqueCount: 0,
+  ...patch,
+});
+
+const DAY = 86_400_000;
+
+// One row per month from January 2023
+const monthly = (values: number[]) =>
+  values.map((value, i) => ({
+    date: new Date(Date.UTC(2023, i, 1)).toISOString().slice(0, 10),
+    value,
+  }));
+
+describe('analyzeTimeSeries', () => {
+  it('detects monthly data and fits its trend and growth', () => {
+    const rows = monthly(Array.from({ length: 24 }, (_, i) => 100 + 10 * i));
+    const analysis = analyzeTimeSeries(rows, 'date', [numeric('value')]);
+
+    expect(analysis).toMatchObject({
+      dateColumn: 'date',
+      sourceGranularity: 'month',
+      granularity: 'month',
+      start: '2023-01-01T00:00:00.000Z',
+      end: '2024-12-01T00:00:00.000Z',
+    });
+    const [metric] = analysis?.metrics ?? [];
+    expect(metric.points).toHaveLength(24);
+    expect(metric.points[0]).toEqual({
+      period: '2023-01-01T00:00:00.000Z',
+      label: 'Jan 2023',
+      value: 100,
+      count: 1,
+    });
+    expect(metric.trend).toEqual({ slope: 10, intercept: 100, direction: 'up' });
+    expect(metric.periodOverPeriod).toBe(3.1);
+    expect(metric.yearOverYear).toBe(57.1);
+    expect(metric.seasonality).toBeUndefined();
+  });
+
+  it('resamples dense data to coarser buckets, keeping sums', () => {
+    const rows = Array.from({ length: 200 }, (_, i) => ({
+      at: new Date(Date.UTC(2024, 0, 1) + i * DAY),
+      orders: 2,
+    }));
+    const analysis = analyzeTimeSeries(rows, 'at', [numeric('orders')]);
+
+    expect(analysis?.sourceGranularity).toBe('day');
+    expect(analysis?.granularity).toBe('week');
+    const points = analysis?.metrics[0].points ?? [];
+    expect(points.length).toBeLessThanOrEqual(60);
+    expect(points[1]).toMatchObject({ label: 'Week of 2024-01-08', value: 14, count: 7 });
+    expect(points.reduce((sum, point) => sum + point.value, 0)).toBe(400);
+  });
+
+  it('fills gaps with zero for sums and the previous value for percentages', () => {
+    const rows = [
+      { date: '2024-01-01', sales: 10, margin: 20 },
+      { date: '2024-02-01', sales: 30, margin: 40 },
+      { date: '2024-03-01', sales: 20, margin: 30 },
+      { date: '2024-05-01', sales: 50, margin: 60 },
+    ];
+    const analysis = analyzeTimeSeries(rows, 'date', [
+      numeric('sales'),
+      numeric('margin', { semanticType: 'percentage' }),
+    ]);
+
+    const [sales, margin] = analysis?.metrics ?? [];
+    expect(sales.aggregation).toBe('sum');
+    expect(sales.points.map(point => [point.value, point.count])).toEqual([
+      [10, 1],
+      [30, 1],
+      [20, 1],
+      [0, 0],
+      [50, 1],
+    ]);
+    expect(margin.aggregation).toBe('mean');
+    expect(margin.points.map(point => point.value)).toEqual([20, 40, 30, 30, 60]);
+  });
+
+  it('averages percentages and sums other columns within a bucket', () => {
+    const rows = [
+      { date: '2024-01-01', sales: 10, margin: 20 },
+      { date: '2024-01-15', sales: 30, margin: 40 },
+      { date: '2024-02-01', sales: 5, margin: 10 },
+    ];
+    const analysis = analyzeTimeSeries(rows, 'date', [
+      numeric('sales'),
+      numeric('margin', { semanticType: 'percentage' }),
+    ]);
+
+    expect(analysis?.granularity).toBe('month');
+    const [sales, margin] = analysis?.metrics ?? [];
+    expect(sales.points[0]).toMatchObject({ value: 40, count: 2 });
+    expect(margin.points[0]).toMatchObject({ value: 30, count: 2 });
+  });
+
+  it('detects yearly seasonality and its peak month', () => {
+    const rows = monthly(
+      Array.from({ length: 36 }, (_, i) => 1000 + 5 * i + (i % 12 === 11 ? 400 : 0))
+    );
+    const [metric] = analyzeTimeSeries(rows, 'date', [numeric('value')])?.metrics ?? [];
+
+    expect(metric.seasonality).toMatchObject({ period: 12, peak: 'December' });
+    expect(metric.seasonality?.strength).toBeGreaterThan(0.3);
+  });
+
+  it('reports a flat trend and no seasonality for a constant series', () => {
+    const [metric] =
+      analyzeTimeSeries(monthly(Array(30).fill(50) as number[]), 'date', [numeric('value')])
+        ?.metrics ?? [];
+
+    expect(metric.trend.direction).toBe('flat');
+    expect(metric.periodOverPeriod).toBe(0);
+    expect(metric.seasonality).toBeUndefined();
+  });
+
+  it('skips data without two distinct dates or buckets', () => {
+    expect(
+      analyzeTimeSeries([{ date: 'soon', value: 1 }], 'date', [numeric('value')])
+    ).toBeUndefined();
+    expect(
+      analyzeTimeSeries(
+        [
+          { date: '2024-01-01', value: 1 },
+          { date: '2024-01-01', value: 2 },
+        ],
+        'date',
+        [numeric('value')]
+      )
+    ).toBeUndefined();
+  });
+
+  it('ignores empty and non-numeric values', () => {
+    const rows = [
+      { date: '2024-01-01', value: '' },
+      { date: '2024-01-01', value: 'n/a' },
+      { date: '2024-01-01', value: '4' },
+      { date: '2024-02-01', value: null },
+    ];
+    const [metric] = analyzeTimeSeries(rows, 'date', [numeric('value')])?.metrics ?? [];
+
+    expect(metric.points.map(point => [point.value, point.count])).toEqual([
+      [4, 1],
+      [0, 0],
+    ]);
+  });
+});
+
+describe('TimeSeriesAccumulator', () => {
+  it('coarsens further when the rows span more buckets than estimated', () => {
+    const accumulator = new TimeSeriesAccumulator('at', [numeric('value')], 'day');
+    for (let i = 0; i < 400; i++) {
+      accumulator.add({ at: Date.UTC(2024, 0, 1) + i * DAY, value: 1 });
+    }
+    const analysis = accumulator.finish('day');
+
+    expect(analysis?.granularity).toBe('week');
+    expect(analysis?.metrics[0].points.reduce((sum, point) => sum + point.value, 0)).toBe(400);
+  });
+});
+
+describe('bucketStart', () => {
+  const date = new Date('2024-08-15T13:45:30Z');
+
+  it('truncates to the start of each granularity in UTC', () => {
+    expect(bucketStart(date, 'hour').toISOString()).toBe('2024-08-15T13:00:00.000Z');
+    expect(bucketStart(date, 'week').toISOString()).toBe('2024-08-12T00:00:00.000Z');
+    expect(bucketStart(date, 'month').toISOString()).toBe('2024-08-01T00:00:00.000Z');
+    expect(bucketStart(date, 'quarter').toISOString()).toBe('2024-07-01T00:00:00.000Z');
+    expect(bucketStart(date, 'year').toISOString()).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('starts weeks on Monday, also for Sundays', () => {
+    expect(bucketStart(new Date('2024-08-18T23:00:00Z'), 'week').toISOString()).toBe(
+      '2024-08-12T00:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * Time-series analysis used by the data profiler: sampling granularity, resampling,
+ * trend, period-over-period growth and simple seasonality
+ */
+
+import type {
+  ColumnProfile,
+  DeltaDirection,
+  TimeGranularity,
+  TimeSeriesAnalysis,
+  TimeSeriesMetric,
+  TimeSeriesPoint,
+  TimeSeriesSeasonality,
+  TimeSeriesTrend,
+} from '../../shared/types/index.js';
+
+// Series are resampled to the finest granularity that stays within this many buckets
+const MAX_BUCKETS = 60;
+const MAX_METRICS = 5;
+// Relative change over the whole series below which the trend counts as flat
+const FLAT_TREND = 0.05;
+// Autocorrelation at the cycle length needed to report seasonality
+const MIN_SEASONAL_STRENGTH = 0.3;
+
+const GRANULARITIES: TimeGranularity[] = [
+  'minute',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'quarter',
+  'year',
+];
+
+// Approximate bucket lengths, used to classify gaps and size the resampled series
+const DURATIONS: Record<TimeGranularity, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+  week: 7 * 86_400_000,
+  month: 30.44 * 86_400_000,
+  quarter: 91.31 * 86_400_000,
+  year: 365.25 * 86_400_000,
+};
+
+// Cycle checked for seasonality at each granularity
+const SEASON_LENGTHS: Partial<Record<TimeGranularity, number>> = {
+  minute: 60,
+  hour: 24,
+  day: 7,
+  month: 12,
+  quarter: 4,
+};
+
+const BUCKETS_PER_YEAR: Partial<Record<TimeGranularity, number>> = {
+  week: 52,
+  month: 12,
+  quarter: 4,
+  year: 1,
+};
+
+/**
+ * Resample every numeric column against the date column. Returns undefined when the
+ * dates do not span at least two buckets.
+ */
+export function analyzeTimeSeries(
+  records: Record<string, unknown>[],
+  dateColumn: string,
+  numericColumns: ColumnProfile[]
+): TimeSeriesAnalysis | undefined {
+  const timestamps = records
+    .map(record => toDate(record[dateColumn])?.getTime())
+    .filter(timestamp => timestamp !== undefined)
+    .sort((a, b) => a - b);
+  if (timestamps.length < 2) return undefined;
+
+  const sourceGranularity = detectGranularity(timestamps);
+  if (!sourceGranularity) return undefined;
+
+  const span = timestamps[timestamps.length - 1] - timestamps[0];
+  const accumulator = new TimeSeriesAccumulator(
+    dateColumn,
+    numericColumns,
+    chooseGranularity(sourceGranularity, span)
+  );
+  for (const record of records) {
+    accumulator.add(record);
+  }
+  return accumulator.finish(sourceGranularity);
+}
+
+/**
+ * Per-bucket totals built one row at a time, so a series can be resampled without
+ * keeping the rows around
+ */
+export class TimeSeriesAccumulator {
+  private readonly columns: ColumnProfile[];
+  private readonly totals: Array<Map<number, { sum: number; count: number }>>;
+  private first = Infinity;
+  private last = -Infinity;
+
+  constructor(
+    private readonly dateColumn: string,
+    numericColumns: ColumnProfile[],
+    private readonly granularity: TimeGranularity
+  ) {
+    this.columns = numericColumns.slice(0, MAX_METRICS);
+    this.totals = this.columns.map(() => new Map());
+  }
+
+  add(record: Record<string, unknown>): void {
+    const date = toDate(record[this.dateColumn]);
+    if (!date) return;
+
+    this.first = Math.min(this.first, date.getTime());
+    this.last = Math.max(this.last, date.getTime());
+    const key = bucketStart(date, this.granularity).getTime();
+
+    this.columns.forEach((column, i) => {
+      const raw = record[column.name];
+      const value = raw === null || raw === '' ? NaN : Number(raw);
+      if (!Number.isFinite(value)) return;
+
+      const total = this.totals[i].get(key) ?? { sum: 0, count: 0 };
+      total.sum += value;
+      total.count++;
+      this.totals[i].set(key, total);
+    });
+  }
+
+  /**
+   * Build the analysis, coarsening further when the rows turned out to span more than
+   * MAX_BUCKETS buckets (a sampled estimate of the span can fall short)
+   */
+  finish(sourceGranularity: TimeGranularity): TimeSeriesAnalysis | undefined {
+    if (this.first > this.last) return undefined;
+
+    const first = new Date(this.first);
+    const last = new Date(this.last);
+    const granularity = chooseGranularity(this.granularity, this.last - this.first);
+    const buckets = bucketRange(first, last, granularity);
+    if (buckets.length < 2) return undefined;
+
+    const metrics = this.columns.map((column, i) => {
+      const aggregation = column.semanticType === 'percentage' ? 'mean' : 'sum';
+      const totals =
+        granularity === this.granularity ? this.totals[i] : rebucket(this.totals[i], granularity);
+      const points = resample(totals, buckets, granularity, aggregation);
+      return describeSeries(column.name, aggregation, points, granularity);
+    });
+
+    return {
+      dateColumn: this.dateColumn,
+      sourceGranularity,
+      granularity,
+      start: first.toISOString(),
+      end: last.toISOString(),
+      metrics,
+    };
+  }
+}
+
+/**
+ * Granularity whose length is closest (on a log scale) to the median gap between
+ * distinct timestamps
+ */
+function detectGranularity(timestamps: number[]): TimeGranularity | undefined {
+  const distinct = [...new Set(timestamps)];
+  const gaps = distinct
+    .slice(1)
+    .map((timestamp, i) => timestamp - distinct[i])
+    .sort((a, b) => a - b);
+  if (gaps.length === 0) return undefined;
+
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return GRANULARITIES.reduce((best, candidate) =>
+    Math.abs(Math.log(median / DURATIONS[candidate])) < Math.abs(Math.log(median / DURATIONS[best]))
+      ? candidate
+      : best
+  );
+}
+
+/**
+ * Coarsen the source granularity until the span fits in MAX_BUCKETS
+ */
+function chooseGranularity(source: TimeGranularity, span: number): TimeGranularity {
+  let index = GRANULARITIES.indexOf(source);
+  while (
+    index < GRANULARITIES.length - 1 &&
+    span / DURATIONS[GRANULARITIES[index]] + 1 > MAX_BUCKETS
+  ) {
+    index++;
+  }
+  return GRANULARITIES[index];
+}
+
+function bucketRange(first: Date, last: Date, granularity: TimeGranularity): Date[] {
+  const buckets: Date[] = [];
+  for (
+    let bucket = bucketStart(first, granularity);
+    bucket.getTime() <= last.getTime();
+    bucket = nextBucket(bucket, granularity)
+  ) {
+    buckets.push(bucket);
+  }
+  return buckets;
+}
+
+/**
+ * Merge bucket totals into coarser buckets
+ */
+function rebucket(
+  totals: Map<number, { sum: number; count: number }>,
+  granularity: TimeGranularity
+): Map<number, { sum: number; count: number }> {
+  const merged = new Map<number, { sum: number; count: number }>();
+  for (const [key, total] of totals) {
+    const coarse = bucketStart(new Date(key), granularity).getTime();
+    const existing = merged.get(coarse) ?? { sum: 0, count: 0 };
+    existing.sum += total.sum;
+    existing.count += total.count;
+    merged.set(coarse, existing);
+  }
+  return merged;
+}
+
+/**
+ * Turn bucket totals into points. Gaps are filled so the series stays evenly spaced:
+ * with zero for sums, with the previous value for means.
+ */
+function resample(
+  totals: Map<number, { sum: number; count: number }>,
+  buckets: Date[],
+  granularity: TimeGranularity,
+  aggregation: 'sum' | 'mean'
+): TimeSeriesPoint[] {
+  let previous = 0;
+  return buckets.map(bucket => {
+    const total = totals.get(bucket.getTime());
+    let value = 0;
+    if (total) {
+      value = aggregation === 'mean' ? total.sum / total.count : total.sum;
+    } else if (aggregation === 'mean') {
+      value = previous;
+    }
+    previous = value;
+
+    return {
+      period: bucket.toISOString(),
+      label: bucketLabel(bucket, granularity),
+      value: round(value),
+      count: total?.count ?? 0,
+    };
+  });
+}
+
+function describeSeries(
+  column: string,
+  aggregation: 'sum' | 'mean',
+  points: TimeSeriesPoint[],
+  granularity: TimeGranularity
+): TimeSeriesMetric {
+  const values = points.map(point => point.value);
+  const trend = fitTrend(values);
+  const lag = BUCKETS_PER_YEAR[granularity];
+
+  return {
+    column,
+    aggregation,
+    points,
+    trend,
+    periodOverPeriod: percentChange(values[values.length - 2], values[values.length - 1]),
+    yearOverYear:
+      lag !== undefined && values.length > lag
+        ? percentChange(values[values.length - 1 - lag], values[values.length - 1])
+        : null,
+    seasonality: detectSeasonality(values, trend, points, granularity),
+  };
+}
+
+/**
+ * Least-squares line through the values, indexed by bucket
+ */
+function fitTrend(values: number[]): TimeSeriesTrend {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    varianceX += (x - meanX) ** 2;
+  });
+
+  const slope = varianceX === 0 ? 0 : covariance / varianceX;
+  const relativeChange = meanY === 0 ? Math.sign(slope) : (slope * (n - 1)) / Math.abs(meanY);
+  let direction: DeltaDirection = 'flat';
+  if (relativeChange > FLAT_TREND) direction = 'up';
+  else if (relativeChange < -FLAT_TREND) direction = 'down';
+
+  return { slope: round(slope), intercept: round(meanY - slope * meanX), direction };
+}
+
+/**
+ * Autocorrelation of the detrended series at the natural cycle for the granularity
+ * (24 hours, 7 days, 12 months, 4 quarters); needs at least two full cycles
+ */
+function detectSeasonality(
+  values: number[],
+  trend: TimeSeriesTrend,
+  points: TimeSeriesPoint[],
+  granularity: TimeGranularity
+): TimeSeriesSeasonality | undefined {
+  const period = SEASON_LENGTHS[granularity];
+  if (period === undefined || values.length < period * 2) return undefined;
+
+  const residuals = values.map((value, x) => value - (trend.intercept + trend.slope * x));
+  const variance = residuals.reduce((acc, r) => acc + r * r, 0);
+  if (variance === 0) return undefined;
+
+  let covariance = 0;
+  for (let i = period; i < residuals.length; i++) {
+    covariance += residuals[i] * residuals[i - period];
+  }
+  const strength = covariance / variance;
+  if (strength < MIN_SEASONAL_STRENGTH) return undefined;
+
+  // Average residual per position in the cycle; the highest one is the seasonal peak
+  const phases = Array.from({ length: period }, () => ({ sum: 0, count: 0 }));
+  residuals.forEach((residual, i) => {
+    phases[i % period].sum += residual;
+    phases[i % period].count++;
+  });
+  const peak = phases.reduce(
+    (best, phase, i) =>
+      phase.sum / phase.count > best.mean ? { i, mean: phase.sum / phase.count } : best,
+    { i: 0, mean: -Infinity }
+  );
+
+  return {
+    period,
+    strength: round(strength),
+    peak: phaseLabel(new Date(points[peak.i].period), granularity),
+  };
+}
+
+function percentChange(from: number | undefined, to: number | undefined): number | null {
+  if (from === undefined || to === undefined || from === 0) return null;
+  return Math.round(((to - from) / Math.abs(from)) * 1000) / 10;
+}
+
+export function toDate(value: unknown): Date | null {
+  let date: Date | null = null;
+  if (value instanceof Date) date = value;
+  else if (typeof value === 'string' || typeof value === 'number') date = new Date(value);
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+export function bucketStart(date: Date, granularity: TimeGranularity): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (granularity) {
+    case 'minute':
+      return new Date(Date.UTC(year, month, day, date.getUTCHours(), date.getUTCMinutes()));
+    case 'hour':
+      return new Date(Date.UTC(year, month, day, date.getUTCHours()));
+    case 'day':
+      return new Date(Date.UTC(year, month, day));
+    case 'week':
+      // Weeks start on Monday
+      return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'quarter':
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+function nextBucket(bucket: Date, granularity: TimeGranularity): Date {
+  const year = bucket.getUTCFullYear();
+  const month = bucket.getUTCMonth();
+  const day = bucket.getUTCDate();
+
+  switch (granularity) {
+    case 'minute':
+    case 'hour':
+      return new Date(bucket.getTime() + DURATIONS[granularity]);
+    case 'day':
+      return new Date(Date.UTC(year, month, day + 1));
+    case 'week':
+      return new Date(Date.UTC(year, month, day + 7));
+    case 'month':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'quarter':
+      return new Date(Date.UTC(year, month + 3, 1));
+    case 'year':
+      return new Date(Date.UTC(year + 1, 0, 1));
+  }
+}
+
+function bucketLabel(bucket: Date, granularity: TimeGranularity): string {
+  const iso = bucket.toISOString();
+  switch (granularity) {
+    case 'minute':
+      return iso.slice(0, 16).replace('T', ' ');
+    case 'hour':
+      return `${iso.slice(0, 13).replace('T', ' ')}:00`;
+    case 'day':
+      return iso.slice(0, 10);
+    case 'week':
+      return `Week of ${iso.slice(0, 10)}`;
+    case 'month':
+      return bucket.toLocaleString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+    case 'quarter':
+      return `Q${Math.floor(bucket.getUTCMonth() / 3) + 1} ${bucket.getUTCFullYear()}`;
+    case 'year':
+      return String(bucket.getUTCFullYear());
+  }
+}
+
+/**
+ * Name of a position within the seasonal cycle
+ */
+function phaseLabel(bucket: Date, granularity: TimeGranularity): string {
+  switch (granularity) {
+    case 'minute':
+      return `minute ${bucket.getUTCMinutes()}`;
+    case 'hour':
+      return `${String(bucket.getUTCHours()).padStart(2, '0')}:00`;
+    case 'day':
+      return bucket.toLocaleString('en-US', { weekday: 'long', timeZone: 'UTC' });
+    case 'month':
+      return bucket.toLocaleString('en-US', { month: 'long', timeZone: 'UTC' });
+    default:
+      return `Q${Math.floor(bucket.getUTCMonth() / 3) + 1}`;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TransformStep } from '../../shared/types/index.js';
+
+import { applyTransforms, describeStep, RowPipeline } from './transforms.js';
+
+const sales = [
+  { region: 'North', product: 'A', revenue: 100, cost: 60, day: new Date('2024-01-03T10:00:00Z') },
+  { region: 'North', product: 'B', revenue: 50, cost: 20, day: new Date('2024-01-17T12:00:00Z') },
+  { region: 'South', product: 'A', revenue: 80, cost: null, day: new Date('2024-02-01T09:00:00Z') },
+  { region: 'South', product: 'A', revenue: null, cost: 10, day: new Date('2024-02-20T18:00:00Z') },
+];
+
+describe('applyTransforms', () => {
+  it('selects, renames, filters and computes row by row', () => {
+    const outcome = applyTransforms(sales, [
+      { op: 'filter', expression: 'revenue >= 80' },
+      { op: 'compute', column: 'margin', expression: 'revenue - cost' },
+      { op: 'rename', columns: { region: 'area' } },
+      { op: 'select', columns: ['area', 'margin'] },
+    ]);
+
+    expect(outcome.records).toEqual([
+      { area: 'North', margin: 40 },
+      { area: 'South', margin: null },
+    ]);
+    expect(outcome.warnings).toEqual([]);
+    expect(outcome.applied.map(step => [step.op, step.rowsBefore, step.rowsAfter])).toEqual([
+      ['filter', 4, 2],
+      ['compute', 2, 2],
+      ['rename', 2, 2],
+      ['select', 2, 2],
+    ]);
+  });
+
+  it('drops rows whose filter evaluates to null', () => {
+    const { records } = applyTransforms(sales, [{ op: 'filter', expression: 'cost > 0' }]);
+    expect(records).toHaveLength(3);
+  });
+
+  it('stores non-finite computed values as null', () => {
+    const { records } = applyTransforms(
+      [{ x: 1e308 }],
+      [{ op: 'compute', column: 'y', expression: 'x * 10' }]
+    );
+    expect(records).toEqual([{ x: 1e308, y: null }]);
+  });
+
+  it('truncates dates to the start of their unit', () => {
+    const { records } = applyTransforms(sales.slice(0, 2), [
+      { op: 'truncateDate', column: 'day', unit: 'month', as: 'month' },
+    ]);
+    expect(records.map(row => row.month)).toEqual([
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-01-01T00:00:00Z'),
+    ]);
+  });
+
+  it('aggregates groups, skipping empty values', () => {
+    const { records } = applyTransforms(sales, [
+      {
+        op: 'aggregate',
+        groupBy: ['region'],
+        metrics: [
+          { fn: 'sum', column: 'revenue' },
+          { fn: 'mean', column: 'cost', as: 'avg_cost' },
+          { fn: 'count' },
+          { fn: 'countDistinct', column: 'product' },
+          { fn: 'max', column: 'day' },
+        ],
+      },
+    ]);
+
+    expect(records).toEqual([
+      {
+        region: 'North',
+        sum_revenue: 150,
+        avg_cost: 40,
+        count: 2,
+        countDistinct_product: 2,
+        max_day: new Date('2024-01-17T12:00:00Z'),
+      },
+      {
+        region: 'South',
+        sum_revenue: 80,
+        avg_cost: 10,
+        count: 2,
+        countDistinct_product: 1,
+        max_day: new Date('2024-02-20T18:00:00Z'),
+      },
+    ]);
+  });
+
+  it('aggregates no rows into a single row of totals', () => {
+    const { records } = applyTransforms(
+      [],
+      [{ op: 'aggregate', groupBy: [], metrics: [{ fn: 'count' }] }]
+    );
+    expect(records).toEqual([{ count: 0 }]);
+  });
+
+  it('pivots values into columns and unpivots them back', () => {
+    const pivoted = applyTransforms(sales, [
+      { op: 'pivot', index: ['region'], columns: 'product', values: 'revenue', fn: 'sum' },
+    ]);
+    expect(pivoted.records).toEqual([
+      { region: 'North', A: 100, B: 50 },
+      { region: 'South', A: 80, B: null },
+    ]);
+
+    const unpivoted = applyTransforms(pivoted.records, [
+      { op: 'unpivot', index: ['region'], nameColumn: 'product', valueColumn: 'revenue' },
+    ]);
+    expect(unpivoted.records).toEqual([
+      { region: 'North', product: 'A', revenue: 100 },
+      { region: 'North', product: 'B', revenue: 50 },
+      { region: 'South', product: 'A', revenue: 80 },
+      { region: 'South', product: 'B', revenue: null },
+    ]);
+  });
+
+  it('keeps the first or last of each duplicate', () => {
+    const rows = [
+      { id: 1, v: 'a' },
+      { id: 2, v: 'b' },
+      { id: 1, v: 'c' },
+    ];
+    const first = applyTransforms(rows, [{ op: 'dedupe', columns: ['id'], keep: 'first' }]);
+    const last = applyTransforms(rows, [{ op: 'dedupe', columns: ['id'], keep: 'last' }]);
+
+    expect(first.records.map(row => row.v)).toEqual(['a', 'b']);
+    expect(last.records.map(row => row.v)).toEqual(['b', 'c']);
+  });
+
+  it('skips steps that do not fit the data, with a warning, and runs the rest', () => {
+    const outcome = applyTransforms(sales, [
+      { op: 'select', columns: ['region', 'missing'] },
+      { op: 'filter', expression: 'revenue >' },
+      { op: 'rename', columns: { region: 'product' } },
+      { op: 'select', columns: ['region'] },
+    ]);
+
+    expect(outcome.warnings).toEqual([
+      'Transform 1 (select) skipped: unknown column missing',
+      'Transform 2 (filter) skipped: Unexpected end of expression at position 10',
+      'Transform 3 (rename) skipped: renaming would create two columns named "product"',
+    ]);
+    expect(outcome.applied.map(step => step.op)).toEqual(['select']);
+    expect(outcome.records).toHaveLength(4);
+  });
+
+  it('rejects metrics whose output names clash', () => {
+    const outcome = applyTransforms(sales, [
+      {
+        op: 'aggregate',
+        groupBy: ['region'],
+        metrics: [{ fn: 'sum', column: 'revenue', as: 'region' }, { fn: 'count' }],
+      },
+    ]);
+    expect(outcome.warnings[0]).toContain('two output columns are named "region"');
+  });
+
+  it('tracks which input columns each output column carries', () => {
+    const { lineage } = applyTransforms(sales, [
+      { op: 'rename', columns: { revenue: 'sales' } },
+      { op: 'compute', column: 'margin', expression: 'sales - cost' },
+      {
+        op: 'aggregate',
+        groupBy: ['region'],
+        metrics: [
+          { fn: 'sum', column: 'sales', as: 'total' },
+          { fn: 'count', as: 'rows' },
+        ],
+      },
+    ]);
+
+    expect([...lineage]).toEqual([
+      ['region', ['region']],
+      ['total', ['revenue']],
+      ['rows', []],
+    ]);
+  });
+});
+
+describe('RowPipeline', () => {
+  const steps: TransformStep[] = [
+    { op: 'filter', expression: "region = 'North'" },
+    { op: 'compute', column: 'margin', expression: 'revenue - cost' },
+    { op: 'dedupe', keep: 'first' },
+  ];
+
+  it('matches applyTransforms for row steps, one row at a time', () => {
+    const pipeline = new RowPipeline(steps);
+    const records = sales.map(row => pipeline.apply(row)).filter(row => row !== null);
+    const inMemory = applyTransforms(sales, steps.slice(0, 2));
+
+    expect(records).toEqual(inMemory.records);
+    expect(pipeline.finish().applied).toEqual(inMemory.applied);
+  });
+
+  it('skips table steps, which need every row at once', () => {
+    const pipeline = new RowPipeline(steps);
+    pipeline.apply(sales[0]);
+    expect(pipeline.finish().warnings).toEqual([
+      'Transform 3 (dedupe) skipped: only row-by-row steps can run on streamed data',
+    ]);
+  });
+});
+
+describe('describeStep', () => {
+  it('describes steps in plain language', () => {
+    expect(
+      describeStep({ op: 'aggregate', groupBy: [], metrics: [{ fn: 'count', as: 'n' }] })
+    ).toBe('Summarised all rows: row count as n');
+    expect(describeStep({ op: 'dedupe', keep: 'last' })).toBe(
+      'Removed duplicate rows by all columns, keeping the last occurrence'
+    );
+  });
+});
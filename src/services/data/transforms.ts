@@ -0,0 +1,505 @@
+/**
+ * Declarative transform steps run on a dataset before it is profiled. Steps that cannot run
+ * (an unknown column, an invalid expression) are skipped with a warning; the steps that did
+ * run are recorded for the report's methodology appendix.
+ */
+
+import {
+  ROW_TRANSFORM_OPS,
+  type AggregateFunction,
+  type AggregateMetric,
+  type TransformRecord,
+  type TransformStep,
+} from '../../shared/types/index.js';
+
+import { compileExpression, ExpressionError, truthy } from './expressions.js';
+import { bucketStart, toDate } from './time-series.js';
+
+type Row = Record<string, unknown>;
+type RowStep = Extract<
+  TransformStep,
+  { op: 'select' | 'rename' | 'filter' | 'compute' | 'truncateDate' }
+>;
+type TableStep = Exclude<TransformStep, RowStep>;
+
+// Pivoting on a column with more distinct values than this is almost certainly a mistake
+const MAX_PIVOT_COLUMNS = 100;
+
+/**
+ * Columns present after a step, each mapped to the input columns its values are carried
+ * over from unchanged; derived columns (computed, counted) have no sources
+ */
+type Lineage = Map<string, string[]>;
+
+export interface TransformOutcome {
+  records: Row[];
+  applied: TransformRecord[];
+  warnings: string[];
+  lineage: Lineage;
+}
+
+/**
+ * Raised when a step does not fit the data it is applied to
+ */
+class TransformError extends Error {}
+
+/**
+ * Run every step over rows held in memory
+ */
+export function applyTransforms(records: Row[], steps: TransformStep[]): TransformOutcome {
+  let rows = records;
+  let lineage = identityLineage(columnsOf(records));
+  const applied: TransformRecord[] = [];
+  const warnings: string[] = [];
+
+  steps.forEach((step, index) => {
+    try {
+      const result = runStep(step, rows, lineage);
+      applied.push(record(step, rows.length, result.records.length));
+      ({ records: rows, lineage } = result);
+    } catch (error) {
+      warnings.push(skipWarning(step, index, error));
+    }
+  });
+
+  return { records: rows, applied, warnings, lineage };
+}
+
+/**
+ * Row-by-row runner for streamed datasets, which only allow row steps. Steps are checked
+ * against the columns of the first row.
+ */
+export class RowPipeline {
+  private stages?: Array<{
+    step: RowStep;
+    apply: (row: Row) => Row | null;
+    rowsIn: number;
+    rowsOut: number;
+  }>;
+  private lineage: Lineage = new Map();
+  private readonly warnings: string[] = [];
+
+  constructor(private readonly steps: TransformStep[]) {}
+
+  apply(row: Row): Row | null {
+    const stages = this.stages ?? this.prepare(Object.keys(row));
+    let current: Row | null = row;
+    for (const stage of stages) {
+      stage.rowsIn++;
+      current = stage.apply(current);
+      if (current === null) return null;
+      stage.rowsOut++;
+    }
+    return current;
+  }
+
+  finish(): Omit<TransformOutcome, 'records'> {
+    const stages = this.stages ?? this.prepare([]);
+    return {
+      applied: stages.map(stage => record(stage.step, stage.rowsIn, stage.rowsOut)),
+      warnings: this.warnings,
+      lineage: this.lineage,
+    };
+  }
+
+  private prepare(columns: string[]): NonNullable<RowPipeline['stages']> {
+    let lineage = identityLineage(columns);
+    const stages: NonNullable<RowPipeline['stages']> = [];
+
+    this.steps.forEach((step, index) => {
+      try {
+        if (!isRowStep(step)) {
+          throw new TransformError('only row-by-row steps can run on streamed data');
+        }
+        const prepared = prepareRowStep(step, lineage);
+        stages.push({ step, apply: prepared.apply, rowsIn: 0, rowsOut: 0 });
+        ({ lineage } = prepared);
+      } catch (error) {
+        this.warnings.push(skipWarning(step, index, error));
+      }
+    });
+
+    this.stages = stages;
+    this.lineage = lineage;
+    return stages;
+  }
+}
+
+/**
+ * Plain-language account of a step for the methodology appendix
+ */
+export function describeStep(step: TransformStep): string {
+  switch (step.op) {
+    case 'select':
+      return `Kept columns ${list(step.columns)}`;
+    case 'rename':
+      return `Renamed ${Object.entries(step.columns)
+        .map(([from, to]) => `${from} to ${to}`)
+        .join(', ')}`;
+    case 'filter':
+      return `Kept rows where ${step.expression}`;
+    case 'compute':
+      return `Computed ${step.column} = ${step.expression}`;
+    case 'aggregate': {
+      const metrics = list(step.metrics.map(describeMetric));
+      return step.groupBy.length > 0
+        ? `Grouped by ${list(step.groupBy)}: ${metrics}`
+        : `Summarised all rows: ${metrics}`;
+    }
+    case 'pivot':
+      return `Pivoted ${step.columns} into columns holding the ${step.fn} of ${step.values} per ${list(step.index)}`;
+    case 'unpivot':
+      return `Unpivoted ${step.columns ? list(step.columns) : 'all other columns'} into ${step.nameColumn}/${step.valueColumn} pairs per ${list(step.index)}`;
+    case 'truncateDate':
+      return `Truncated ${step.column} to the ${step.unit}${step.as ? ` as ${step.as}` : ''}`;
+    case 'dedupe':
+      return `Removed duplicate rows by ${step.columns ? list(step.columns) : 'all columns'}, keeping the ${step.keep} occurrence`;
+  }
+}
+
+function isRowStep(step: TransformStep): step is RowStep {
+  return ROW_TRANSFORM_OPS.includes(step.op);
+}
+
+function prepareRowStep(
+  step: RowStep,
+  lineage: Lineage
+): { apply: (row: Row) => Row | null; lineage: Lineage } {
+  switch (step.op) {
+    case 'select': {
+      requireColumns(step.columns, lineage);
+      const { columns } = step;
+      return {
+        apply: row => Object.fromEntries(columns.map(column => [column, row[column]])),
+        lineage: new Map(columns.map(column => [column, sourcesOf(column, lineage)])),
+      };
+    }
+    case 'rename': {
+      const renames = step.columns;
+      requireColumns(Object.keys(renames), lineage);
+      const names = [...lineage.keys()].map(column => renames[column] ?? column);
+      const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+      if (duplicate !== undefined) {
+        throw new TransformError(`renaming would create two columns named "${duplicate}"`);
+      }
+      return {
+        apply: row =>
+          Object.fromEntries(
+            Object.entries(row).map(([key, value]) => [renames[key] ?? key, value])
+          ),
+        lineage: new Map(
+          [...lineage.entries()].map(([column, sources]) => [renames[column] ?? column, sources])
+        ),
+      };
+    }
+    case 'filter': {
+      const expression = compileChecked(step.expression, lineage);
+      return { apply: row => (truthy(expression(row)) ? row : null), lineage };
+    }
+    case 'compute': {
+      const expression = compileChecked(step.expression, lineage);
+      const { column } = step;
+      return {
+        apply: row => ({ ...row, [column]: plainResult(expression(row)) }),
+        lineage: new Map([...lineage, [column, []]]),
+      };
+    }
+    case 'truncateDate': {
+      requireColumns([step.column], lineage);
+      const { column, unit } = step;
+      const target = step.as ?? column;
+      return {
+        apply: row => {
+          const date = toDate(row[column]);
+          return { ...row, [target]: date ? bucketStart(date, unit) : null };
+        },
+        lineage: new Map([...lineage, [target, []]]),
+      };
+    }
+  }
+}
+
+function runStep(
+  step: TransformStep,
+  rows: Row[],
+  lineage: Lineage
+): { records: Row[]; lineage: Lineage } {
+  if (!isRowStep(step)) {
+    return runTableStep(step, rows, lineage);
+  }
+  const prepared = prepareRowStep(step, lineage);
+  return {
+    records: rows.map(prepared.apply).filter(row => row !== null),
+    lineage: prepared.lineage,
+  };
+}
+
+function runTableStep(
+  step: TableStep,
+  rows: Row[],
+  lineage: Lineage
+): { records: Row[]; lineage: Lineage } {
+  switch (step.op) {
+    case 'aggregate':
+      return aggregate(step, rows, lineage);
+    case 'pivot':
+      return pivot(step, rows, lineage);
+    case 'unpivot':
+      return unpivot(step, rows, lineage);
+    case 'dedupe':
+      return dedupe(step, rows, lineage);
+  }
+}
+
+function aggregate(
+  step: Extract<TransformStep, { op: 'aggregate' }>,
+  rows: Row[],
+  lineage: Lineage
+): { records: Row[]; lineage: Lineage } {
+  const metricColumns = step.metrics.flatMap(metric => (metric.column ? [metric.column] : []));
+  requireColumns([...step.groupBy, ...metricColumns], lineage);
+
+  const names = step.metrics.map(metricName);
+  const outputColumns = [...step.groupBy, ...names];
+  const duplicate = outputColumns.find((name, i) => outputColumns.indexOf(name) !== i);
+  if (duplicate !== undefined) {
+    throw new TransformError(`two output columns are named "${duplicate}"; set "as" on a metric`);
+  }
+
+  const groups = groupRows(rows, step.groupBy);
+  // Totals over no groups still produce their single row
+  if (step.groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+
+  const records = [...groups.values()].map(members => ({
+    ...Object.fromEntries(step.groupBy.map(column => [column, members[0]?.[column] ?? null])),
+    ...Object.fromEntries(
+      step.metrics.map((metric, i) => [
+        names[i],
+        reduce(
+          metric.fn,
+          members.map(row => (metric.column ? row[metric.column] : true))
+        ),
+      ])
+    ),
+  }));
+
+  return {
+    records,
+    lineage: new Map([
+      ...step.groupBy.map((column): [string, string[]] => [column, sourcesOf(column, lineage)]),
+      ...step.metrics.map((metric, i): [string, string[]] => [
+        names[i],
+        carriesValues(metric.fn) && metric.column ? sourcesOf(metric.column, lineage) : [],
+      ]),
+    ]),
+  };
+}
+
+function pivot(
+  step: Extract<TransformStep, { op: 'pivot' }>,
+  rows: Row[],
+  lineage: Lineage
+): { records: Row[]; lineage: Lineage } {
+  requireColumns([...step.index, step.columns, step.values], lineage);
+
+  const newColumns = [...new Set(rows.map(row => labelOf(row[step.columns])))];
+  if (newColumns.length > MAX_PIVOT_COLUMNS) {
+    throw new TransformError(
+      `"${step.columns}" has ${newColumns.length} distinct values (at most ${MAX_PIVOT_COLUMNS} can become columns)`
+    );
+  }
+  const clash = newColumns.find(column => step.index.includes(column));
+  if (clash !== undefined) {
+    throw new TransformError(`pivoted column "${clash}" clashes with an index column`);
+  }
+
+  const records = [...groupRows(rows, step.index).values()].map(members => {
+    const cells = new Map<string, unknown[]>();
+    for (const row of members) {
+      const label = labelOf(row[step.columns]);
+      cells.set(label, [...(cells.get(label) ?? []), row[step.values]]);
+    }
+    return {
+      ...Object.fromEntries(step.index.map(column => [column, members[0][column]])),
+      ...Object.fromEntries(
+        newColumns.map(column => {
+          const values = cells.get(column);
+          return [column, values ? reduce(step.fn, values) : step.fn === 'count' ? 0 : null];
+        })
+      ),
+    };
+  });
+
+  const valueSources = carriesValues(step.fn) ? sourcesOf(step.values, lineage) : [];
+  return {
+    records,
+    lineage: new Map([
+      ...step.index.map((column): [string, string[]] => [column, sourcesOf(column, lineage)]),
+      ...newColumns.map((column): [string, string[]] => [column, valueSources]),
+    ]),
+  };
+}
+
+function unpivot(
+  step: Extract<TransformStep, { op: 'unpivot' }>,
+  rows: Row[],
+  lineage: Lineage
+): { records: Row[]; lineage: Lineage } {
+  const folded = step.columns ?? [...lineage.keys()].filter(column => !step.index.includes(column));
+  requireColumns([...step.index, ...folded], lineage);
+  if ([step.nameColumn, step.valueColumn].some(column => step.index.includes(column))) {
+    throw new TransformError('nameColumn and valueColumn must differ from the index columns');
+  }
+
+  const records = rows.flatMap(row => {
+    const index = Object.fromEntries(step.index.map(column => [column, row[column]]));
+    return folded.map(column => ({
+      ...index,
+      [step.nameColumn]: column,
+      [step.valueColumn]: row[column] ?? null,
+    }));
+  });
+
+  return {
+    records,
+    lineage: new Map([
+      ...step.index.map((column): [string, string[]] => [column, sourcesOf(column, lineage)]),
+      [step.nameColumn, []],
+      [step.valueColumn, [...new Set(folded.flatMap(column => sourcesOf(column, lineage)))]],
+    ]),
+  };
+}
+
+function dedupe(
+  step: Extract<TransformStep, { op: 'dedupe' }>,
+  rows: Row[],
+  lineage: Lineage
+): { records: Row[]; lineage: Lineage } {
+  const columns = step.columns ?? [...lineage.keys()];
+  requireColumns(columns, lineage);
+
+  const keys = rows.map(row => keyOf(row, columns));
+  const kept = new Map<string, number>();
+  keys.forEach((key, i) => {
+    if (step.keep === 'last' || !kept.has(key)) kept.set(key, i);
+  });
+
+  return { records: rows.filter((_, i) => kept.get(keys[i]) === i), lineage };
+}
+
+function groupRows(rows: Row[], columns: string[]): Map<string, Row[]> {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const key = keyOf(row, columns);
+    const members = groups.get(key);
+    if (members) members.push(row);
+    else groups.set(key, [row]);
+  }
+  return groups;
+}
+
+function reduce(fn: AggregateFunction, values: unknown[]): unknown {
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+
+  switch (fn) {
+    case 'count':
+      return present.length;
+    case 'countDistinct':
+      return new Set(present.map(value => keyOf({ value }, ['value']))).size;
+    case 'min':
+    case 'max': {
+      // Dates stay dates; anything else is compared as a number
+      if (present.length > 0 && present.every(value => value instanceof Date)) {
+        const times = present.map(value => (value as Date).getTime());
+        return new Date(fn === 'min' ? Math.min(...times) : Math.max(...times));
+      }
+      const numbers = numbersOf(present);
+      if (numbers.length === 0) return null;
+      return numbers.reduce((a, b) => (fn === 'min' ? Math.min(a, b) : Math.max(a, b)));
+    }
+    case 'sum':
+    case 'mean': {
+      const numbers = numbersOf(present);
+      if (numbers.length === 0) return null;
+      const sum = numbers.reduce((a, b) => a + b, 0);
+      return fn === 'sum' ? sum : sum / numbers.length;
+    }
+  }
+}
+
+function numbersOf(values: unknown[]): number[] {
+  return values.map(value => Number(value)).filter(number => !Number.isNaN(number));
+}
+
+// Sums, means and extremes are in the unit of their column; counts are not
+function carriesValues(fn: AggregateFunction): boolean {
+  return fn !== 'count' && fn !== 'countDistinct';
+}
+
+function metricName(metric: AggregateMetric): string {
+  return metric.as ?? (metric.column ? `${metric.fn}_${metric.column}` : metric.fn);
+}
+
+function describeMetric(metric: AggregateMetric): string {
+  const name = metricName(metric);
+  if (!metric.column) return `row count as ${name}`;
+  return `${metric.fn} of ${metric.column} as ${name}`;
+}
+
+function compileChecked(source: string, lineage: Lineage): (row: Row) => unknown {
+  const { evaluate, columns } = compileExpression(source);
+  requireColumns(columns, lineage);
+  return evaluate;
+}
+
+function requireColumns(columns: string[], lineage: Lineage): void {
+  const missing = columns.filter(column => !lineage.has(column));
+  if (missing.length > 0) {
+    throw new TransformError(`unknown column${missing.length > 1 ? 's' : ''} ${list(missing)}`);
+  }
+}
+
+function sourcesOf(column: string, lineage: Lineage): string[] {
+  return lineage.get(column) ?? [];
+}
+
+function identityLineage(columns: string[]): Lineage {
+  return new Map(columns.map(column => [column, [column]]));
+}
+
+function columnsOf(rows: Row[]): string[] {
+  return [...new Set(rows.flatMap(row => Object.keys(row)))];
+}
+
+// Group and duplicate keys compare dates by instant and everything else by value
+function keyOf(row: Row, columns: string[]): string {
+  return JSON.stringify(
+    columns.map(column => {
+      const value = row[column];
+      return value instanceof Date ? value.getTime() : (value ?? null);
+    })
+  );
+}
+
+function labelOf(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(blank)';
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+// NaN and Infinity have no place in a profile or a JSON payload
+function plainResult(value: unknown): unknown {
+  return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+}
+
+function record(step: TransformStep, rowsBefore: number, rowsAfter: number): TransformRecord {
+  return { op: step.op, description: describeStep(step), rowsBefore, rowsAfter };
+}
+
+function skipWarning(step: TransformStep, index: number, error: unknown): string {
+  if (!(error instanceof TransformError || error instanceof ExpressionError)) throw error;
+  return `Transform ${index + 1} (${step.op}) skipped: ${error.message}`;
+}
+
+function list(items: string[]): string {
+  return items.join(', ');
+}
@@ -1,15 +1,25 @@
-import type { ChartConfiguration, ChartType as ChartJSType } from 'chart.js';
+import type { BarElement, ChartConfiguration, ChartType as ChartJSType, Plugin } from 'chart.js';
 import { ChartJSNodeCanvas } from 'chartjs-node-canvas';
 import { nanoid } from 'nanoid';
 
 import { createModuleLogger, type IChartGenerator } from '../../core/index.js';
 import type {
+  ChartAggregate,
   ChartConfig,
   ChartSuggestion,
   ChartType,
+  ColumnProfile,
+  ColumnQuantiles,
   DataProfile,
   GeneratedChart,
+  MetricDelta,
+  ProfileComparison,
+  TimeSeriesAnalysis,
+  TimeSeriesMetric,
 } from '../../shared/types/index.js';
+import { formatColumnValue } from '../../shared/utils/index.js';
+import { aggregateCategories } from '../data/aggregates.js';
+import { linearFit } from '../data/statistics.js';
 import { storage } from '../storage/index.js';
 
 const logger = createModuleLogger('chart-generator');
@@ -34,6 +44,24 @@ const CHART_COLORS = {
   ],
 };
 
+// Bar colors for increases and decreases in comparison charts
+const DELTA_COLORS = {
+  up: '#38a169',
+  down: '#e53e3e',
+};
+
+const MAX_COMPARISON_COLUMNS = 8;
+// Larger datasets are sampled evenly so scatter plots stay legible
+const MAX_SCATTER_POINTS = 1000;
+// Categories shown in bar and combo charts, largest first
+const MAX_RANKED_CATEGORIES = 10;
+// Heatmap cells shade from white towards these at the largest absolute value
+const HEATMAP_COLORS = {
+  positive: [49, 130, 206],
+  negative: [229, 62, 62],
+  missing: '#e2e8f0',
+};
+
 export class ChartGenerator implements IChartGenerator {
   private readonly chartJSNodeCanvas: ChartJSNodeCanvas;
 
@@ -81,6 +109,89 @@ export class ChartGenerator implements IChartGenerator {
     return charts;
   }
 
+  /**
+   * Generate baseline vs current charts for a period-over-period comparison
+   */
+  async generateComparisonCharts(
+    comparison: ProfileComparison,
+    reportId: string
+  ): Promise<GeneratedChart[]> {
+    const changes = comparison.columns
+      .map(col => ({ name: col.name, delta: col.metrics?.total ?? col.metrics?.mean }))
+      .filter((change): change is { name: string; delta: MetricDelta } => !!change.delta)
+      .slice(0, MAX_COMPARISON_COLUMNS);
+
+    if (changes.length === 0) {
+      return [];
+    }
+
+    const configs: ChartConfig[] = [
+      {
+        id: nanoid(10),
+        type: 'bar',
+        title: `Current vs ${comparison.label}`,
+        data: {
+          labels: changes.map(change => change.name),
+          datasets: [
+            {
+              label: comparison.label,
+              data: changes.map(change => change.delta.baseline),
+              backgroundColor: CHART_COLORS.neutral[0],
+            },
+            {
+              label: 'Current',
+              data: changes.map(change => change.delta.current),
+              backgroundColor: CHART_COLORS.primary[0],
+            },
+          ],
+        },
+        options: { showLegend: true, showGrid: true },
+      },
+    ];
+
+    const percentChanges = changes.filter(change => change.delta.percentChange !== null);
+    if (percentChanges.length > 0) {
+      configs.push({
+        id: nanoid(10),
+        type: 'bar',
+        title: `% Change vs ${comparison.label}`,
+        data: {
+          labels: percentChanges.map(change => change.name),
+          datasets: [
+            {
+              label: '% change',
+              data: percentChanges.map(change => change.delta.percentChange ?? 0),
+              backgroundColor: percentChanges.map(change =>
+                change.delta.direction === 'down' ? DELTA_COLORS.down : DELTA_COLORS.up
+              ),
+            },
+          ],
+        },
+        options: { showLegend: false, showGrid: true, yAxisLabel: '% change' },
+      });
+    }
+
+    const charts: GeneratedChart[] = [];
+    for (const config of configs) {
+      try {
+        const imageBuffer = await this.renderChart(config);
+        const imagePath = await storage.saveChart(reportId, config.id, imageBuffer);
+
+        charts.push({
+          id: config.id,
+          config,
+          imagePath,
+          imageBase64: imageBuffer.toString('base64'),
+          purpose: 'comparison',
+        });
+      } catch (error) {
+        logger.error(`Failed to generate comparison chart: ${config.title}`, { error });
+      }
+    }
+
+    return charts;
+  }
+
   /**
    * Generate summary statistics table data
    */
@@ -90,10 +201,10 @@ export class ChartGenerator implements IChartGenerator {
     const headers = ['Metric', 'Min', 'Max', 'Mean', 'Std Dev'];
     const rows = numericColumns.map(col => [
       col.name,
-      col.min?.toString() ?? 'N/A',
-      col.max?.toString() ?? 'N/A',
-      col.mean?.toFixed(2) ?? 'N/A',
-      col.stdDev?.toFixed(2) ?? 'N/A',
+      formatColumnValue(col.min, col),
+      formatColumnValue(col.max, col),
+      formatColumnValue(col.mean, col),
+      formatColumnValue(col.stdDev, col),
     ]);
 
     return { headers, rows };
@@ -113,6 +224,7 @@ export class ChartGenerator implements IChartGenerator {
       case 'line':
         return this.buildLineChartConfig(id, suggestion, data, profile);
       case 'bar':
+      case 'horizontal_bar':
         return this.buildBarChartConfig(id, suggestion, data, profile);
       case 'stacked_bar':
         return this.buildStackedBarConfig(id, suggestion, data, profile);
@@ -121,6 +233,16 @@ export class ChartGenerator implements IChartGenerator {
         return this.buildPieChartConfig(id, suggestion, data, profile);
       case 'area':
         return this.buildAreaChartConfig(id, suggestion, data, profile);
+      case 'scatter':
+        return this.buildScatterChartConfig(id, suggestion, data);
+      case 'histogram':
+        return this.buildHistogramConfig(id, suggestion, profile);
+      case 'heatmap':
+        return this.buildHeatmapConfig(id, suggestion, profile);
+      case 'box_plot':
+        return this.buildBoxPlotConfig(id, suggestion, profile);
+      case 'combo':
+        return this.buildComboChartConfig(id, suggestion, data, profile);
       case 'table':
         return null; // Tables handled separately
       default:
@@ -135,11 +257,20 @@ export class ChartGenerator implements IChartGenerator {
     id: string,
     suggestion: ChartSuggestion,
     data: Record<string, unknown>[],
-    _profile: DataProfile
+    profile: DataProfile
   ): ChartConfig {
     const xAxis = suggestion.xAxis ?? '';
     const yAxis = Array.isArray(suggestion.yAxis) ? suggestion.yAxis[0] : (suggestion.yAxis ?? '');
 
+    const { timeSeries } = profile;
+    const metric =
+      timeSeries?.dateColumn === xAxis
+        ? timeSeries.metrics.find(m => m.column === yAxis)
+        : undefined;
+    if (timeSeries && metric) {
+      return this.buildTimeSeriesConfig(id, suggestion.title, timeSeries, metric);
+    }
+
     const sortedData = [...data].sort((a, b) => {
       const aVal = new Date(a[xAxis] as string).getTime();
       const bVal = new Date(b[xAxis] as string).getTime();
@@ -173,6 +304,48 @@ export class ChartGenerator implements IChartGenerator {
     };
   }
 
+  /**
+   * Build a line chart from a resampled series, with its least-squares trend line
+   */
+  private buildTimeSeriesConfig(
+    id: string,
+    title: string,
+    timeSeries: TimeSeriesAnalysis,
+    metric: TimeSeriesMetric
+  ): ChartConfig {
+    const { slope, intercept } = metric.trend;
+
+    return {
+      id,
+      type: 'line',
+      title,
+      data: {
+        labels: metric.points.map(point => point.label),
+        datasets: [
+          {
+            label: metric.aggregation === 'mean' ? `${metric.column} (average)` : metric.column,
+            data: metric.points.map(point => point.value),
+            borderColor: CHART_COLORS.primary[0],
+            backgroundColor: `${CHART_COLORS.primary[0]}20`,
+          },
+          {
+            label: 'Trend',
+            data: metric.points.map((_, index) => Number((intercept + slope * index).toFixed(2))),
+            borderColor: CHART_COLORS.neutral[0],
+            backgroundColor: CHART_COLORS.neutral[0],
+            borderDash: [6, 4],
+          },
+        ],
+      },
+      options: {
+        xAxisLabel: `${timeSeries.dateColumn} (${timeSeries.granularity})`,
+        yAxisLabel: metric.column,
+        showLegend: true,
+        showGrid: true,
+      },
+    };
+  }
+
   /**
    * Build bar chart configuration
    */
@@ -180,17 +353,24 @@ export class ChartGenerator implements IChartGenerator {
     id: string,
     suggestion: ChartSuggestion,
     data: Record<string, unknown>[],
-    _profile: DataProfile
+    profile: DataProfile
   ): ChartConfig {
     const xAxis = suggestion.xAxis ?? '';
     const yAxis = Array.isArray(suggestion.yAxis) ? suggestion.yAxis[0] : (suggestion.yAxis ?? '');
 
-    // Aggregate data by category
-    const aggregated = this.aggregateByCategory(data, xAxis, yAxis);
+    // Percentages do not add up, so they are averaged per category
+    const column = profile.columns.find(col => col.name === yAxis);
+    const aggregated = this.rankCategories(
+      this.categoryAggregate(suggestion, data),
+      column?.semanticType === 'percentage' ? 'mean' : 'sum'
+    );
+
+    // Horizontal bars list the categories down the y-axis
+    const horizontal = suggestion.type === 'horizontal_bar';
 
     return {
       id,
-      type: 'bar',
+      type: horizontal ? 'horizontal_bar' : 'bar',
       title: suggestion.title,
       data: {
         labels: aggregated.labels,
@@ -203,8 +383,8 @@ export class ChartGenerator implements IChartGenerator {
         ],
       },
       options: {
-        xAxisLabel: xAxis,
-        yAxisLabel: yAxis,
+        xAxisLabel: horizontal ? yAxis : xAxis,
+        yAxisLabel: horizontal ? xAxis : yAxis,
         showLegend: false,
         showGrid: true,
       },
@@ -223,27 +403,20 @@ export class ChartGenerator implements IChartGenerator {
     const xAxis = suggestion.xAxis ?? '';
     const yAxes = Array.isArray(suggestion.yAxis) ? suggestion.yAxis : [suggestion.yAxis ?? ''];
 
-    const categories = [...new Set(data.map(row => String(row[xAxis])))];
+    const aggregate = this.categoryAggregate(suggestion, data);
 
-    const datasets = yAxes.map((yAxis, index) => {
-      const values = categories.map(cat => {
-        const rows = data.filter(row => String(row[xAxis]) === cat);
-        return rows.reduce((sum, row) => sum + (Number(row[yAxis]) || 0), 0);
-      });
-
-      return {
-        label: yAxis,
-        data: values,
-        backgroundColor: CHART_COLORS.full[index % CHART_COLORS.full.length],
-      };
-    });
+    const datasets = yAxes.map((yAxis, index) => ({
+      label: yAxis,
+      data: aggregate.sums[index],
+      backgroundColor: CHART_COLORS.full[index % CHART_COLORS.full.length],
+    }));
 
     return {
       id,
       type: 'stacked_bar',
       title: suggestion.title,
       data: {
-        labels: categories,
+        labels: aggregate.labels,
         datasets,
       },
       options: {
@@ -263,16 +436,10 @@ export class ChartGenerator implements IChartGenerator {
     data: Record<string, unknown>[],
     _profile: DataProfile
   ): ChartConfig {
-    const xAxis = suggestion.xAxis ?? '';
-
-    // Count occurrences
-    const counts = new Map<string, number>();
-    for (const row of data) {
-      const key = String(row[xAxis]);
-      counts.set(key, (counts.get(key) ?? 0) + 1);
-    }
+    const aggregate = this.categoryAggregate(suggestion, data);
 
-    const sortedEntries = Array.from(counts.entries())
+    const sortedEntries = aggregate.labels
+      .map((label, i): [string, number] => [label, aggregate.counts[i]])
       .sort((a, b) => b[1] - a[1])
       .slice(0, 8);
 
@@ -313,6 +480,257 @@ export class ChartGenerator implements IChartGenerator {
     return config;
   }
 
+  /**
+   * Build scatter chart configuration from rows where both values are numeric
+   */
+  private buildScatterChartConfig(
+    id: string,
+    suggestion: ChartSuggestion,
+    data: Record<string, unknown>[]
+  ): ChartConfig {
+    const xAxis = suggestion.xAxis ?? '';
+    const yAxis = Array.isArray(suggestion.yAxis) ? suggestion.yAxis[0] : (suggestion.yAxis ?? '');
+
+    const points = data.flatMap(row => {
+      const [x, y] = [row[xAxis], row[yAxis]];
+      if (x === null || x === '' || y === null || y === '') return [];
+      const point = { x: Number(x), y: Number(y) };
+      return Number.isFinite(point.x) && Number.isFinite(point.y) ? [point] : [];
+    });
+    const step = Math.max(1, Math.ceil(points.length / MAX_SCATTER_POINTS));
+
+    // The trend line is fitted to every point, not just the plotted sample
+    const fit = suggestion.trendline
+      ? linearFit(
+          points.map(point => point.x),
+          points.map(point => point.y)
+        )
+      : undefined;
+    const xs = points.map(point => point.x);
+    const trend = fit
+      ? [Math.min(...xs), Math.max(...xs)].map(x => ({ x, y: fit.intercept + fit.slope * x }))
+      : undefined;
+
+    return {
+      id,
+      type: 'scatter',
+      title: suggestion.title,
+      data: {
+        labels: [],
+        datasets: [
+          {
+            label: `${yAxis} vs ${xAxis}`,
+            data: [],
+            points: points.filter((_, index) => index % step === 0),
+            backgroundColor: `${CHART_COLORS.primary[0]}99`,
+          },
+          ...(trend
+            ? [
+                {
+                  label: 'Trend',
+                  data: [],
+                  points: trend,
+                  borderColor: CHART_COLORS.neutral[1],
+                  backgroundColor: CHART_COLORS.neutral[1],
+                  borderDash: [6, 4],
+                },
+              ]
+            : []),
+        ],
+      },
+      options: {
+        xAxisLabel: xAxis,
+        yAxisLabel: yAxis,
+        showLegend: trend !== undefined,
+        showGrid: true,
+      },
+    };
+  }
+
+  /**
+   * Build histogram configuration from the profiled bins
+   */
+  private buildHistogramConfig(
+    id: string,
+    suggestion: ChartSuggestion,
+    profile: DataProfile
+  ): ChartConfig | null {
+    const column = profile.columns.find(col => col.name === suggestion.xAxis);
+    if (!column?.histogram) {
+      return null;
+    }
+
+    return {
+      id,
+      type: 'histogram',
+      title: suggestion.title,
+      data: {
+        labels: column.histogram.map(
+          bin => `${formatColumnValue(bin.start, column)} - ${formatColumnValue(bin.end, column)}`
+        ),
+        datasets: [
+          {
+            label: 'Rows',
+            data: column.histogram.map(bin => bin.count),
+            backgroundColor: CHART_COLORS.primary[0],
+          },
+        ],
+      },
+      options: {
+        xAxisLabel: column.name,
+        yAxisLabel: 'Rows',
+        showLegend: false,
+        showGrid: true,
+      },
+    };
+  }
+
+  /**
+   * Build correlation heatmap configuration: one dataset per column, holding its Pearson
+   * correlation with each label's column (NaN where undefined)
+   */
+  private buildHeatmapConfig(
+    id: string,
+    suggestion: ChartSuggestion,
+    profile: DataProfile
+  ): ChartConfig | null {
+    const { correlations } = profile;
+    if (!correlations || correlations.columns.length < 2) {
+      return null;
+    }
+
+    const { columns, pearson: matrix } = correlations;
+    return {
+      id,
+      type: 'heatmap',
+      title: suggestion.title,
+      data: {
+        labels: columns,
+        datasets: columns.map((column, index) => ({
+          label: column,
+          data: matrix.map(row => row[index] ?? Number.NaN),
+        })),
+      },
+      options: {
+        showLegend: false,
+        showGrid: false,
+      },
+    };
+  }
+
+  /**
+   * Build box plot configuration from the profiled quartiles of each yAxis column
+   */
+  private buildBoxPlotConfig(
+    id: string,
+    suggestion: ChartSuggestion,
+    profile: DataProfile
+  ): ChartConfig | null {
+    const names = Array.isArray(suggestion.yAxis) ? suggestion.yAxis : [suggestion.yAxis ?? ''];
+    const columns = names
+      .map(name => profile.columns.find(col => col.name === name))
+      .filter(
+        (col): col is ColumnProfile & { min: number; max: number; quantiles: ColumnQuantiles } =>
+          col?.quantiles !== undefined && typeof col.min === 'number' && typeof col.max === 'number'
+      );
+    if (columns.length === 0) {
+      return null;
+    }
+
+    const boxes = columns.map(col => {
+      const { p25, p50, p75 } = col.quantiles;
+      const fences = col.outliers?.iqr;
+      return {
+        min: Math.max(col.min, fences?.lowerFence ?? col.min),
+        q1: p25,
+        median: p50,
+        q3: p75,
+        max: Math.min(col.max, fences?.upperFence ?? col.max),
+      };
+    });
+
+    return {
+      id,
+      type: 'box_plot',
+      title: suggestion.title,
+      data: {
+        labels: columns.map(col => col.name),
+        datasets: [
+          {
+            label: 'Median',
+            data: boxes.map(box => box.median),
+            boxes,
+            backgroundColor: `${CHART_COLORS.primary[0]}66`,
+            borderColor: CHART_COLORS.primary[0],
+          },
+        ],
+      },
+      options: {
+        showLegend: false,
+        showGrid: true,
+      },
+    };
+  }
+
+  /**
+   * Build combo chart configuration: the first yAxis column as bars, the second as a line
+   * against its own axis, per category
+   */
+  private buildComboChartConfig(
+    id: string,
+    suggestion: ChartSuggestion,
+    data: Record<string, unknown>[],
+    profile: DataProfile
+  ): ChartConfig | null {
+    const yAxes = Array.isArray(suggestion.yAxis) ? suggestion.yAxis.slice(0, 2) : [];
+    if (yAxes.length < 2) {
+      return null;
+    }
+
+    // Percentages do not add up, so they are averaged per category
+    const aggregate = this.categoryAggregate(suggestion, data);
+    const [bars, line] = yAxes.map((name, index) => {
+      const column = profile.columns.find(col => col.name === name);
+      return aggregate.sums[index].map((sum, i) =>
+        column?.semanticType === 'percentage' ? sum / aggregate.counts[i] : sum
+      );
+    });
+    const order = aggregate.labels
+      .map((_, i) => i)
+      .sort((a, b) => bars[b] - bars[a])
+      .slice(0, MAX_RANKED_CATEGORIES);
+
+    return {
+      id,
+      type: 'combo',
+      title: suggestion.title,
+      data: {
+        labels: order.map(i => aggregate.labels[i]),
+        datasets: [
+          {
+            label: yAxes[0],
+            data: order.map(i => bars[i]),
+            backgroundColor: CHART_COLORS.primary[0],
+          },
+          {
+            label: yAxes[1],
+            data: order.map(i => line[i]),
+            borderColor: CHART_COLORS.accent[0],
+            backgroundColor: CHART_COLORS.accent[0],
+            secondaryAxis: true,
+          },
+        ],
+      },
+      options: {
+        xAxisLabel: suggestion.xAxis,
+        yAxisLabel: yAxes[0],
+        secondaryAxisLabel: yAxes[1],
+        showLegend: true,
+        showGrid: true,
+      },
+    };
+  }
+
   /**
    * Render chart to PNG buffer
    */
@@ -325,14 +743,30 @@ export class ChartGenerator implements IChartGenerator {
    * Convert internal config to Chart.js config
    */
   private toChartJSConfig(config: ChartConfig): ChartConfiguration {
-    const chartTypeMap: Record<ChartType, ChartJSType> = {
+    if (config.type === 'table') {
+      throw new Error('Tables are rendered as HTML tables, not as chart images');
+    }
+    if (config.type === 'heatmap') {
+      return this.toHeatmapConfig(config);
+    }
+    if (config.type === 'box_plot') {
+      return this.toBoxPlotConfig(config);
+    }
+
+    const chartTypeMap: Record<
+      Exclude<ChartType, 'table' | 'heatmap' | 'box_plot'>,
+      ChartJSType
+    > = {
       line: 'line',
       bar: 'bar',
+      horizontal_bar: 'bar',
       stacked_bar: 'bar',
       pie: 'pie',
       donut: 'doughnut',
       area: 'line',
-      table: 'bar',
+      scatter: 'scatter',
+      histogram: 'bar',
+      combo: 'bar',
     };
 
     const chartType = chartTypeMap[config.type];
@@ -343,15 +777,24 @@ export class ChartGenerator implements IChartGenerator {
         labels: config.data.labels,
         datasets: config.data.datasets.map(ds => ({
           label: ds.label,
-          data: ds.data,
+          data: ds.points ?? ds.data,
+          borderDash: ds.borderDash,
           backgroundColor: ds.backgroundColor,
           borderColor: ds.borderColor ?? ds.backgroundColor,
-          borderWidth: chartType === 'line' ? 2 : 1,
-          fill: config.type === 'area',
+          borderWidth: chartType === 'line' || ds.secondaryAxis ? 2 : 1,
+          fill: config.type === 'area' && !ds.borderDash,
           tension: 0.3,
+          // Histogram bars touch, since the bins are contiguous
+          ...(config.type === 'histogram' && { barPercentage: 1, categoryPercentage: 1 }),
+          // Scatter trend lines join their two end points
+          ...(config.type === 'scatter' && ds.borderDash && { showLine: true, pointRadius: 0 }),
+          // Combo lines are drawn over the bars, against the right-hand axis
+          ...(ds.secondaryAxis && { type: 'line' as const, yAxisID: 'y1', order: 0 }),
+          ...(config.type === 'combo' && !ds.secondaryAxis && { order: 1 }),
         })),
       },
       options: {
+        indexAxis: config.type === 'horizontal_bar' ? 'y' : 'x',
         responsive: false,
         maintainAspectRatio: true,
         plugins: {
@@ -389,8 +832,20 @@ export class ChartGenerator implements IChartGenerator {
                     display: config.options?.showGrid ?? true,
                   },
                   stacked: config.type === 'stacked_bar',
-                  beginAtZero: true,
+                  // Scatter plots zoom in on the data so the correlation stays visible
+                  beginAtZero: config.type !== 'scatter',
                 },
+                ...(config.type === 'combo' && {
+                  y1: {
+                    position: 'right' as const,
+                    title: {
+                      display: !!config.options?.secondaryAxisLabel,
+                      text: config.options?.secondaryAxisLabel ?? '',
+                    },
+                    grid: { drawOnChartArea: false },
+                    beginAtZero: true,
+                  },
+                }),
               },
       },
     };
@@ -399,24 +854,186 @@ export class ChartGenerator implements IChartGenerator {
   }
 
   /**
-   * Aggregate data by category
+   * Heatmaps are drawn as horizontal bars stacked into equal cells, one dataset per
+   * column, each cell shaded and labelled with its value
    */
-  private aggregateByCategory(
-    data: Record<string, unknown>[],
-    categoryKey: string,
-    valueKey: string
-  ): { labels: string[]; values: number[] } {
-    const aggregated = new Map<string, number>();
+  private toHeatmapConfig(config: ChartConfig): ChartConfiguration {
+    const { labels, datasets } = config.data;
+    const largest = Math.max(
+      ...datasets.flatMap(ds => ds.data.filter(Number.isFinite).map(Math.abs)),
+      Number.EPSILON
+    );
 
-    for (const row of data) {
-      const category = String(row[categoryKey]);
-      const value = Number(row[valueKey]) || 0;
-      aggregated.set(category, (aggregated.get(category) ?? 0) + value);
-    }
+    const cellValues: Plugin<'bar'> = {
+      id: 'heatmapValues',
+      afterDatasetsDraw: chart => {
+        const { ctx } = chart;
+        ctx.save();
+        ctx.font = '11px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        datasets.forEach((ds, i) => {
+          chart.getDatasetMeta(i).data.forEach((cell, j) => {
+            const value = ds.data[j];
+            if (!Number.isFinite(value)) return;
+            const { x, y } = (cell as BarElement).getCenterPoint();
+            ctx.fillStyle = Math.abs(value) / largest > 0.6 ? 'white' : '#1a202c';
+            ctx.fillText(value.toFixed(2), x, y);
+          });
+        });
+        ctx.restore();
+      },
+    };
+
+    return {
+      type: 'bar',
+      data: {
+        labels,
+        datasets: datasets.map(ds => ({
+          label: ds.label,
+          data: ds.data.map(() => 1),
+          backgroundColor: ds.data.map(value => heatmapColor(value, largest)),
+          borderColor: 'white',
+          borderWidth: 1,
+          barPercentage: 1,
+          categoryPercentage: 1,
+        })),
+      },
+      options: {
+        indexAxis: 'y',
+        responsive: false,
+        plugins: {
+          title: {
+            display: true,
+            text: config.title,
+            font: { size: 16, weight: 'bold' },
+            padding: 20,
+          },
+          legend: { display: false },
+        },
+        scales: {
+          x: {
+            stacked: true,
+            min: 0,
+            max: datasets.length,
+            grid: { display: false },
+            // Column names sit under the middle of each cell
+            ticks: {
+              stepSize: 0.5,
+              autoSkip: false,
+              callback: value =>
+                Number(value) % 1 === 0.5 ? (datasets[Math.floor(Number(value))]?.label ?? '') : '',
+            },
+          },
+          y: {
+            stacked: true,
+            grid: { display: false },
+          },
+        },
+      },
+      plugins: [cellValues],
+    };
+  }
+
+  /**
+   * Box plots are drawn as floating bars: a thin one spanning the whiskers, a wide one from
+   * Q1 to Q3 and a narrow band at the median
+   */
+  private toBoxPlotConfig(config: ChartConfig): ChartConfiguration {
+    const series = config.data.datasets.at(0);
+    const boxes = series?.boxes ?? [];
+    const span = Math.max(...boxes.map(box => box.max)) - Math.min(...boxes.map(box => box.min));
+    const band = (span || 1) * 0.004;
+    const color = CHART_COLORS.primary[0];
+
+    // Earlier datasets are drawn on top
+    return {
+      type: 'bar',
+      data: {
+        labels: config.data.labels,
+        datasets: [
+          {
+            label: 'Median',
+            data: boxes.map((box): [number, number] => [box.median - band, box.median + band]),
+            backgroundColor: CHART_COLORS.neutral[3],
+            barPercentage: 0.5,
+            grouped: false,
+          },
+          {
+            label: 'Interquartile range',
+            data: boxes.map((box): [number, number] => [box.q1, box.q3]),
+            backgroundColor: series?.backgroundColor ?? `${color}66`,
+            borderColor: series?.borderColor ?? color,
+            borderWidth: 1,
+            borderSkipped: false,
+            barPercentage: 0.5,
+            grouped: false,
+          },
+          {
+            label: 'Range',
+            data: boxes.map((box): [number, number] => [box.min, box.max]),
+            backgroundColor: CHART_COLORS.neutral[0],
+            barPercentage: 0.03,
+            grouped: false,
+          },
+        ],
+      },
+      options: {
+        responsive: false,
+        plugins: {
+          title: {
+            display: true,
+            text: config.title,
+            font: { size: 16, weight: 'bold' },
+            padding: 20,
+          },
+          legend: { display: false },
+        },
+        scales: {
+          x: {
+            title: {
+              display: !!config.options?.xAxisLabel,
+              text: config.options?.xAxisLabel ?? '',
+            },
+          },
+          y: {
+            title: {
+              display: !!config.options?.yAxisLabel,
+              text: config.options?.yAxisLabel ?? '',
+            },
+            beginAtZero: false,
+          },
+        },
+      },
+    };
+  }
 
-    const sorted = Array.from(aggregated.entries())
+  /**
+   * Category totals computed while profiling; charts restored from older checkpoints
+   * aggregate the rows instead
+   */
+  private categoryAggregate(
+    suggestion: ChartSuggestion,
+    data: Record<string, unknown>[]
+  ): ChartAggregate {
+    return suggestion.aggregate ?? aggregateCategories(data, suggestion);
+  }
+
+  /**
+   * Values of the first yAxis column per category, largest first
+   */
+  private rankCategories(
+    aggregate: ChartAggregate,
+    mode: 'sum' | 'mean' = 'sum'
+  ): { labels: string[]; values: number[] } {
+    const [totals] = aggregate.sums;
+    const sorted = aggregate.labels
+      .map((label, i): [string, number] => [
+        label,
+        mode === 'mean' ? totals[i] / aggregate.counts[i] : totals[i],
+      ])
       .sort((a, b) => b[1] - a[1])
-      .slice(0, 10);
+      .slice(0, MAX_RANKED_CATEGORIES);
 
     return {
       labels: sorted.map(([label]) => label),
@@ -437,3 +1054,16 @@ export class ChartGenerator implements IChartGenerator {
     return String(value);
   }
 }
+
+/**
+ * Shade from white at zero towards blue (positive) or red (negative) at the largest value
+ */
+function heatmapColor(value: number, largest: number): string {
+  if (!Number.isFinite(value)) {
+    return HEATMAP_COLORS.missing;
+  }
+  const weight = Math.min(1, Math.abs(value) / largest);
+  const target = value >= 0 ? HEATMAP_COLORS.positive : HEATMAP_COLORS.negative;
+  const [r, g, b] = target.map(channel => Math.round(255 + (channel - 255) * weight));
+  return `rgb(${r}, ${g}, ${b})`;
+}
@@ -19,14 +19,26 @@ import {
 import { createModuleLogger, type IDOCXGenerator } from '../../core/index.js';
 import type {
   Branding,
+  ClaimCheck,
+  ClaimStatus,
+  CoverImage,
   DataProfile,
   GeneratedChart,
   GeneratedNarrative,
+  MetricDelta,
+  NarrativeVerification,
+  ProfileComparison,
+  QualityCheckResult,
   Report,
   ReportStyle,
+  TransformRecord,
 } from '../../shared/types/index.js';
+import { formatColumnValue } from '../../shared/utils/index.js';
+import { formatCheckDetail } from '../data/quality-rules.js';
 import { storage } from '../storage/index.js';
 
+import { filterNarrativeSections, includesPage, type SectionPage } from './styles.js';
+
 const logger = createModuleLogger('docx-generator');
 
 // Modern style configurations for DOCX matching dashboard design
@@ -36,6 +48,21 @@ const STYLE_COLORS: Record<ReportStyle, { primary: string; secondary: string; ac
   technical: { primary: '0d1117', secondary: '24292f', accent: '58a6ff' },
 };
 
+// Text colors for increases and decreases in the comparison table
+const DELTA_COLORS: Record<MetricDelta['direction'], string> = {
+  up: '276749',
+  down: '9B2C2C',
+  flat: '4A5568',
+};
+
+// Text colors for fact-check statuses in the appendix
+const CLAIM_STATUS_COLORS: Record<ClaimStatus, string> = {
+  verified: '276749',
+  mismatch: '9B2C2C',
+  corrected: '975A16',
+  unverifiable: '4A5568',
+};
+
 export class DOCXGenerator implements IDOCXGenerator {
   /**
    * Generate DOCX document from report data
@@ -45,9 +72,27 @@ export class DOCXGenerator implements IDOCXGenerator {
     narrative: GeneratedNarrative,
     charts: GeneratedChart[],
     dataProfile: DataProfile,
-    _branding?: Branding
+    _branding?: Branding,
+    comparison?: ProfileComparison,
+    verification?: NarrativeVerification,
+    coverImage?: CoverImage
   ): Promise<{ path: string; size: number }> {
     const colors = STYLE_COLORS[report.style];
+    const comparisonCharts = charts.filter(chart => chart.purpose === 'comparison');
+    const sectionCharts = charts.filter(chart => chart.purpose !== 'comparison');
+
+    // Drop pages and narrative sections deselected via sectionsToInclude / sectionsToExclude
+    const hasPage = (page: SectionPage) => includesPage(report.style, report.sections, page);
+    const selectedNarrative: GeneratedNarrative = {
+      ...narrative,
+      sections: filterNarrativeSections(report.style, report.sections, narrative.sections),
+      keyFindings: hasPage('findings') ? narrative.keyFindings : [],
+      recommendations: hasPage('recommendations') ? narrative.recommendations : [],
+    };
+    const hasQuality = hasPage('quality') && (dataProfile.qualityChecks?.length ?? 0) > 0;
+    const hasStatistics = hasPage('appendix') && dataProfile.columns.length > 0;
+    const hasMethodology = hasPage('appendix') && (dataProfile.transforms?.length ?? 0) > 0;
+    const hasVerification = hasPage('appendix') && (verification?.totalClaims ?? 0) > 0;
 
     const doc = new Document({
       creator: 'AI Report Generator',
@@ -152,44 +197,78 @@ export class DOCXGenerator implements IDOCXGenerator {
           },
           children: [
             // Cover page content
-            ...this.generateCoverPage(report, colors),
+            ...(hasPage('cover')
+              ? [
+                  ...this.generateCoverPage(report, colors, coverImage),
 
-            // Page break after cover
-            new Paragraph({
-              children: [new PageBreak()],
-            }),
+                  // Page break after cover
+                  new Paragraph({
+                    children: [new PageBreak()],
+                  }),
+                ]
+              : []),
 
             // Table of contents placeholder
-            ...this.generateTableOfContents(narrative),
+            ...(hasPage('toc')
+              ? [
+                  ...this.generateTableOfContents(
+                    selectedNarrative,
+                    hasPage('summary'),
+                    hasQuality,
+                    hasStatistics,
+                    hasMethodology,
+                    hasVerification,
+                    comparison
+                  ),
 
-            // Page break
-            new Paragraph({
-              children: [new PageBreak()],
-            }),
+                  // Page break
+                  new Paragraph({
+                    children: [new PageBreak()],
+                  }),
+                ]
+              : []),
 
             // Executive Summary
-            ...this.generateSection(
-              report.style === 'research' ? 'Abstract' : 'Executive Summary',
-              narrative.executiveSummary,
-              colors
-            ),
+            ...(hasPage('summary')
+              ? this.generateSection(
+                  report.style === 'research' ? 'Abstract' : 'Executive Summary',
+                  selectedNarrative.executiveSummary,
+                  colors
+                )
+              : []),
+
+            // Changes since the baseline period
+            ...(comparison ? this.generateComparison(comparison, comparisonCharts, colors) : []),
 
             // Key Findings
-            ...(narrative.keyFindings.length > 0
-              ? this.generateKeyFindings(narrative.keyFindings, colors)
+            ...(selectedNarrative.keyFindings.length > 0
+              ? this.generateKeyFindings(selectedNarrative.keyFindings, colors)
               : []),
 
             // Narrative sections with charts
-            ...this.generateNarrativeSections(narrative, charts, colors),
+            ...this.generateNarrativeSections(selectedNarrative, sectionCharts, colors),
 
             // Recommendations
-            ...(narrative.recommendations.length > 0
-              ? this.generateRecommendations(narrative.recommendations, colors)
+            ...(selectedNarrative.recommendations.length > 0
+              ? this.generateRecommendations(selectedNarrative.recommendations, colors)
+              : []),
+
+            // Data quality rule results
+            ...(dataProfile.qualityChecks && hasQuality
+              ? this.generateQuality(dataProfile.qualityChecks, colors)
               : []),
 
             // Statistics table
-            ...(dataProfile.columns.length > 0
-              ? this.generateStatisticsTable(dataProfile, colors)
+            ...(hasStatistics ? this.generateStatisticsTable(dataProfile, colors) : []),
+
+            // Transform steps applied before profiling
+            ...(dataProfile.transforms && hasMethodology
+              ? this.generateMethodology(dataProfile.transforms, colors)
+              : []),
+
+            // Fact-check results
+            ...(verification && hasVerification
+              ? this.generateVerification(verification, colors)
               : []),
           ],
         },
@@ -214,7 +293,8 @@ export class DOCXGenerator implements IDOCXGenerator {
    */
   private generateCoverPage(
     report: Report,
-    colors: { primary: string; secondary: string }
+    colors: { primary: string; secondary: string },
+    coverImage?: CoverImage
   ): Paragraph[] {
     const date = new Date().toLocaleDateString('en-US', {
       year: 'numeric',
@@ -222,9 +302,28 @@ export class DOCXGenerator implements IDOCXGenerator {
       day: 'numeric',
     });
 
+    // The image takes the place of most of the vertical spacing so the cover stays on one page
+    const image = coverImage?.base64
+      ? [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new ImageRun({
+                data: Buffer.from(coverImage.base64, 'base64'),
+                transformation: this.fitCoverImage(coverImage),
+                type: coverImage.mimeType === 'image/png' ? 'png' : 'jpg',
+              }),
+            ],
+            spacing: { before: 400, after: 400 },
+          }),
+        ]
+      : [];
+    const spacer = (lines: number) =>
+      new Array(image.length > 0 ? 1 : lines).fill(null).map(() => new Paragraph({ text: '' }));
+
     return [
       // Spacer
-      ...new Array(8).fill(null).map(() => new Paragraph({ text: '' })),
+      ...spacer(8),
 
       // Title
       new Paragraph({
@@ -255,8 +354,10 @@ export class DOCXGenerator implements IDOCXGenerator {
         ],
       }),
 
+      ...image,
+
       // More spacer
-      ...new Array(6).fill(null).map(() => new Paragraph({ text: '' })),
+      ...spacer(6),
 
       // Date
       new Paragraph({
@@ -284,16 +385,45 @@ export class DOCXGenerator implements IDOCXGenerator {
     ];
   }
 
+  /**
+   * Scale the cover image to fit the cover area without distorting it
+   */
+  private fitCoverImage(coverImage: CoverImage): { width: number; height: number } {
+    const maxWidth = 560;
+    const maxHeight = 320;
+    if (!coverImage.width || !coverImage.height) {
+      return { width: maxWidth, height: maxHeight };
+    }
+
+    const scale = Math.min(maxWidth / coverImage.width, maxHeight / coverImage.height);
+    return {
+      width: Math.round(coverImage.width * scale),
+      height: Math.round(coverImage.height * scale),
+    };
+  }
+
   /**
    * Generate table of contents
    */
-  private generateTableOfContents(narrative: GeneratedNarrative): Paragraph[] {
+  private generateTableOfContents(
+    narrative: GeneratedNarrative,
+    hasSummary: boolean,
+    hasQuality: boolean,
+    hasStatistics: boolean,
+    hasMethodology: boolean,
+    hasVerification: boolean,
+    comparison?: ProfileComparison
+  ): Paragraph[] {
     const items = [
-      'Executive Summary',
+      ...(hasSummary ? ['Executive Summary'] : []),
+      ...(comparison ? [`Changes Since ${comparison.label}`] : []),
       ...(narrative.keyFindings.length > 0 ? ['Key Findings'] : []),
       ...narrative.sections.map(s => s.sectionTitle),
       ...(narrative.recommendations.length > 0 ? ['Recommendations'] : []),
-      'Statistical Summary',
+      ...(hasQuality ? ['Data Quality'] : []),
+      ...(hasStatistics ? ['Statistical Summary'] : []),
+      ...(hasMethodology ? ['Methodology'] : []),
+      ...(hasVerification ? ['Fact Check'] : []),
     ];
 
     return [
@@ -486,7 +616,8 @@ export class DOCXGenerator implements IDOCXGenerator {
                   }),
                 ],
                 spacing: { after: 300 },
-              })
+              }),
+              ...this.generateChartCommentary(chart)
             );
           } catch (error) {
             logger.warn(`Could not embed chart: ${chart.id}`, { error });
@@ -543,7 +674,8 @@ export class DOCXGenerator implements IDOCXGenerator {
                   }),
                 ],
                 spacing: { after: 300 },
-              })
+              }),
+              ...this.generateChartCommentary(chart)
             );
           } catch (error) {
             logger.warn(`Could not embed chart: ${chart.id}`, { error });
@@ -555,6 +687,192 @@ export class DOCXGenerator implements IDOCXGenerator {
     return elements;
   }
 
+  /**
+   * Generate period-over-period comparison section with a delta table
+   */
+  private generateComparison(
+    comparison: ProfileComparison,
+    charts: GeneratedChart[],
+    colors: { primary: string }
+  ): (Paragraph | Table)[] {
+    const elements: (Paragraph | Table)[] = [
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        children: [
+          new TextRun({
+            text: `Changes Since ${comparison.label}`,
+            bold: true,
+            size: 32,
+            color: colors.primary,
+          }),
+        ],
+        spacing: { before: 400, after: 200 },
+      }),
+      ...comparison.highlights.map(
+        highlight =>
+          new Paragraph({
+            children: [new TextRun({ text: highlight, size: 24 })],
+            bullet: { level: 0 },
+            spacing: { after: 120 },
+          })
+      ),
+    ];
+
+    const rows: Array<{ label: string; metric: string; delta: MetricDelta }> = [
+      { label: 'Records', metric: 'Count', delta: comparison.rowCount },
+      { label: 'Data quality', metric: 'Score', delta: comparison.dataQualityScore },
+    ];
+    for (const col of comparison.columns) {
+      const delta = col.metrics?.total ?? col.metrics?.mean;
+      if (delta) {
+        rows.push({ label: col.name, metric: col.metrics?.total ? 'Total' : 'Average', delta });
+      }
+    }
+
+    const headerRow = new TableRow({
+      children: ['Metric', '', comparison.label, 'Current', 'Change'].map(
+        header =>
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: header,
+                    bold: true,
+                    size: 22,
+                    color: 'FFFFFF',
+                  }),
+                ],
+              }),
+            ],
+            shading: { fill: colors.primary },
+          })
+      ),
+    });
+
+    const dataRows = rows.map(
+      ({ label, metric, delta }) =>
+        new TableRow({
+          children: [
+            new TextRun({ text: label, size: 20 }),
+            new TextRun({ text: metric, size: 20 }),
+            new TextRun({ text: delta.baseline.toLocaleString(), size: 20 }),
+            new TextRun({ text: delta.current.toLocaleString(), size: 20 }),
+            new TextRun({
+              text: this.formatDelta(delta),
+              bold: delta.direction !== 'flat',
+              size: 20,
+              color: DELTA_COLORS[delta.direction],
+            }),
+          ].map(run => new TableCell({ children: [new Paragraph({ children: [run] })] })),
+        })
+    );
+
+    elements.push(
+      new Table({
+        width: {
+          size: 100,
+          type: WidthType.PERCENTAGE,
+        },
+        rows: [headerRow, ...dataRows],
+      })
+    );
+
+    const changedColumns = comparison.columns.filter(
+      col => col.status === 'added' || col.status === 'removed'
+    );
+    if (changedColumns.length > 0) {
+      elements.push(
+        new Paragraph({
+          children: [
+            new TextRun({
+              text: changedColumns.map(col => `Column "${col.name}" ${col.status}`).join('; '),
+              italics: true,
+              size: 20,
+              color: '666666',
+            }),
+          ],
+          spacing: { before: 200 },
+        })
+      );
+    }
+
+    for (const chart of charts) {
+      if (chart.imageBase64) {
+        elements.push(
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new ImageRun({
+                data: Buffer.from(chart.imageBase64, 'base64'),
+                transformation: {
+                  width: 500,
+                  height: 300,
+                },
+                type: 'png',
+              }),
+            ],
+            spacing: { before: 200, after: 100 },
+          }),
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [
+              new TextRun({
+                text: chart.config.title,
+                italics: true,
+                size: 20,
+                color: '666666',
+              }),
+            ],
+            spacing: { after: 300 },
+          }),
+          ...this.generateChartCommentary(chart)
+        );
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * Generate the AI commentary printed under a chart caption
+   */
+  private generateChartCommentary(chart: GeneratedChart): Paragraph[] {
+    if (!chart.commentary) {
+      return [];
+    }
+
+    return chart.commentary
+      .split('\n\n')
+      .filter(p => p.trim())
+      .map(
+        p =>
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: p.trim(),
+                size: 20,
+                color: '444444',
+              }),
+            ],
+            spacing: { after: 200 },
+          })
+      );
+  }
+
+  /**
+   * Format a metric change as an arrow with percent (or absolute) change
+   */
+  private formatDelta(delta: MetricDelta): string {
+    const arrow = { up: '▲', down: '▼', flat: '■' }[delta.direction];
+    const sign = delta.change > 0 ? '+' : '';
+    const value =
+      delta.percentChange === null
+        ? `${sign}${delta.change.toLocaleString()}`
+        : `${sign}${delta.percentChange.toFixed(1)}%`;
+    return `${arrow} ${value}`;
+  }
+
   /**
    * Generate recommendations section
    */
@@ -640,10 +958,10 @@ export class DOCXGenerator implements IDOCXGenerator {
         new TableRow({
           children: [
             col.name,
-            col.min?.toLocaleString() ?? 'N/A',
-            col.max?.toLocaleString() ?? 'N/A',
-            col.mean?.toFixed(2) ?? 'N/A',
-            col.stdDev?.toFixed(2) ?? 'N/A',
+            formatColumnValue(col.min, col),
+            formatColumnValue(col.max, col),
+            formatColumnValue(col.mean, col),
+            formatColumnValue(col.stdDev, col),
           ].map(
             value =>
               new TableCell({
@@ -699,6 +1017,279 @@ export class DOCXGenerator implements IDOCXGenerator {
     ];
   }
 
+  /**
+   * Generate data quality section with the result of every declared rule
+   */
+  private generateQuality(
+    checks: QualityCheckResult[],
+    colors: { primary: string }
+  ): (Paragraph | Table)[] {
+    const failed = checks.filter(check => !check.passed).length;
+    const showDataset = checks.some(check => check.dataset);
+    const headers = [...(showDataset ? ['Dataset'] : []), 'Rule', 'Result', 'Details'];
+
+    const headerRow = new TableRow({
+      children: headers.map(
+        header =>
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: header,
+                    bold: true,
+                    size: 22,
+                    color: 'FFFFFF',
+                  }),
+                ],
+              }),
+            ],
+            shading: { fill: colors.primary },
+          })
+      ),
+    });
+
+    const dataRows = checks.map(
+      check =>
+        new TableRow({
+          children: [
+            ...(showDataset ? [new TextRun({ text: check.dataset ?? '', size: 20 })] : []),
+            new TextRun({ text: check.description, size: 20 }),
+            new TextRun({
+              text: check.passed ? 'Passed' : 'Failed',
+              bold: true,
+              size: 20,
+              color: CLAIM_STATUS_COLORS[check.passed ? 'verified' : 'mismatch'],
+            }),
+            new TextRun({ text: formatCheckDetail(check), size: 20 }),
+          ].map(run => new TableCell({ children: [new Paragraph({ children: [run] })] })),
+        })
+    );
+
+    return [
+      new Paragraph({
+        children: [new PageBreak()],
+      }),
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        children: [
+          new TextRun({
+            text: 'Data Quality',
+            bold: true,
+            size: 32,
+            color: colors.primary,
+          }),
+        ],
+        spacing: { before: 400, after: 200 },
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `${checks.length} data quality rule${checks.length === 1 ? '' : 's'} checked: ${checks.length - failed} passed, ${failed} failed.`,
+            size: 24,
+          }),
+        ],
+        spacing: { after: 200 },
+      }),
+      new Table({
+        width: {
+          size: 100,
+          type: WidthType.PERCENTAGE,
+        },
+        rows: [headerRow, ...dataRows],
+      }),
+    ];
+  }
+
+  /**
+   * Generate methodology appendix listing the transform steps applied before profiling
+   */
+  private generateMethodology(
+    transforms: TransformRecord[],
+    colors: { primary: string }
+  ): (Paragraph | Table)[] {
+    const showDataset = transforms.some(step => step.dataset);
+    const headers = ['#', ...(showDataset ? ['Dataset'] : []), 'Step', 'Rows Before', 'Rows After'];
+
+    const headerRow = new TableRow({
+      children: headers.map(
+        header =>
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: header,
+                    bold: true,
+                    size: 22,
+                    color: 'FFFFFF',
+                  }),
+                ],
+              }),
+            ],
+            shading: { fill: colors.primary },
+          })
+      ),
+    });
+
+    const dataRows = transforms.map(
+      (step, index) =>
+        new TableRow({
+          children: [
+            String(index + 1),
+            ...(showDataset ? [step.dataset ?? ''] : []),
+            step.description,
+            step.rowsBefore.toLocaleString('en-US'),
+            step.rowsAfter.toLocaleString('en-US'),
+          ].map(
+            text =>
+              new TableCell({
+                children: [new Paragraph({ children: [new TextRun({ text, size: 20 })] })],
+              })
+          ),
+        })
+    );
+
+    return [
+      new Paragraph({
+        children: [new PageBreak()],
+      }),
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        children: [
+          new TextRun({
+            text: 'Methodology',
+            bold: true,
+            size: 32,
+            color: colors.primary,
+          }),
+        ],
+        spacing: { before: 400, after: 200 },
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `The source data was prepared in ${transforms.length} step${transforms.length === 1 ? '' : 's'} before analysis.`,
+            size: 24,
+          }),
+        ],
+        spacing: { after: 200 },
+      }),
+      new Table({
+        width: {
+          size: 100,
+          type: WidthType.PERCENTAGE,
+        },
+        rows: [headerRow, ...dataRows],
+      }),
+    ];
+  }
+
+  /**
+   * Generate fact-check appendix with the figures that did not match the data
+   */
+  private generateVerification(
+    verification: NarrativeVerification,
+    colors: { primary: string }
+  ): (Paragraph | Table)[] {
+    const fixed = verification.mode === 'correct' ? 'corrected' : 'mismatched';
+    const elements: (Paragraph | Table)[] = [
+      new Paragraph({
+        children: [new PageBreak()],
+      }),
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        children: [
+          new TextRun({
+            text: 'Fact Check',
+            bold: true,
+            size: 32,
+            color: colors.primary,
+          }),
+        ],
+        spacing: { before: 400, after: 200 },
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: `${verification.totalClaims} figures checked against the source data: ${verification.verified} verified, ${verification[fixed]} ${fixed}, ${verification.unverifiable} unverifiable.`,
+            size: 24,
+          }),
+        ],
+        spacing: { after: 200 },
+      }),
+    ];
+
+    const issues = verification.checks.filter(check => check.status !== 'verified');
+    if (issues.length === 0) {
+      return elements;
+    }
+
+    const headerRow = new TableRow({
+      children: ['Statement', 'Quoted', 'Actual', 'Status'].map(
+        header =>
+          new TableCell({
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: header,
+                    bold: true,
+                    size: 22,
+                    color: 'FFFFFF',
+                  }),
+                ],
+              }),
+            ],
+            shading: { fill: colors.primary },
+          })
+      ),
+    });
+
+    const dataRows = issues.map(
+      check =>
+        new TableRow({
+          children: [
+            new TextRun({ text: check.sentence, size: 20 }),
+            new TextRun({ text: check.claimed, size: 20 }),
+            new TextRun({
+              text: this.formatClaimActual(check),
+              size: 20,
+            }),
+            new TextRun({
+              text: this.capitalize(check.status),
+              bold: true,
+              size: 20,
+              color: CLAIM_STATUS_COLORS[check.status],
+            }),
+          ].map(run => new TableCell({ children: [new Paragraph({ children: [run] })] })),
+        })
+    );
+
+    elements.push(
+      new Table({
+        width: {
+          size: 100,
+          type: WidthType.PERCENTAGE,
+        },
+        rows: [headerRow, ...dataRows],
+      })
+    );
+
+    return elements;
+  }
+
+  /**
+   * Format the actual value of a fact-checked figure, with % for share and null-rate claims
+   */
+  private formatClaimActual(check: ClaimCheck): string {
+    if (check.actual === undefined) {
+      return 'N/A';
+    }
+    const percent = check.metric === 'share' || check.metric === 'nullRate' ? '%' : '';
+    return `${check.actual.toLocaleString('en-US', { maximumFractionDigits: 2 })}${percent}`;
+  }
+
   /**
    * Capitalize first letter
    */
@@ -1,19 +1,41 @@
 import { createModuleLogger, type IHTMLGenerator } from '../../core/index.js';
 import type {
   Branding,
+  ClaimCheck,
+  ClaimStatus,
+  CoverImage,
   DataProfile,
   GeneratedChart,
   GeneratedNarrative,
+  MetricDelta,
+  NarrativeVerification,
+  ProfileComparison,
+  QualityCheckResult,
   Report,
   ReportStyle,
   TableData,
+  TransformRecord,
 } from '../../shared/types/index.js';
+import { formatColumnValue } from '../../shared/utils/index.js';
+import { formatCheckDetail } from '../data/quality-rules.js';
 
-import type { StyleConfig } from './styles.js';
-import { applyBrandingToStyle, getStyleConfig } from './styles.js';
+import type { SectionPage, StyleConfig } from './styles.js';
+import {
+  applyBrandingToStyle,
+  filterNarrativeSections,
+  getStyleConfig,
+  includesPage,
+} from './styles.js';
 
 const logger = createModuleLogger('html-generator');
 
+const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  verified: 'Verified',
+  mismatch: 'Mismatch',
+  corrected: 'Corrected',
+  unverifiable: 'Unverifiable',
+};
+
 // Infographic color palettes
 const COLOR_PALETTES = {
   business: {
@@ -51,7 +73,10 @@ export class HTMLGenerator implements IHTMLGenerator {
     narrative: GeneratedNarrative,
     charts: GeneratedChart[],
     dataProfile: DataProfile,
-    branding?: Branding
+    branding?: Branding,
+    comparison?: ProfileComparison,
+    verification?: NarrativeVerification,
+    coverImage?: CoverImage
   ): string {
     const styleConfig = applyBrandingToStyle(getStyleConfig(report.style), branding);
     const palette = COLOR_PALETTES[report.style];
@@ -63,7 +88,10 @@ export class HTMLGenerator implements IHTMLGenerator {
       dataProfile,
       styleConfig,
       palette,
-      branding
+      branding,
+      comparison,
+      verification,
+      coverImage
     );
 
     logger.info(`Generated infographic report: ${report.title}`);
@@ -99,7 +127,10 @@ export class HTMLGenerator implements IHTMLGenerator {
     dataProfile: DataProfile,
     styleConfig: StyleConfig,
     palette: (typeof COLOR_PALETTES)[keyof typeof COLOR_PALETTES],
-    branding?: Branding
+    branding?: Branding,
+    comparison?: ProfileComparison,
+    verification?: NarrativeVerification,
+    coverImage?: CoverImage
   ): string {
     const companyName = branding?.companyName ?? 'AI Report Generator';
     const date = new Date().toLocaleDateString('en-US', {
@@ -108,38 +139,78 @@ export class HTMLGenerator implements IHTMLGenerator {
       day: 'numeric',
     });
 
-    // Page 1: Cover
-    const coverPage = this.generateCoverPage(report, companyName, date, palette);
-
-    // Page 2: Summary with metrics
-    const summaryPage = this.generateSummaryPage(narrative, dataProfile, report.style, palette);
+    // Drop pages and narrative sections deselected via sectionsToInclude / sectionsToExclude
+    const hasPage = (page: SectionPage) => includesPage(report.style, report.sections, page);
+    const selectedNarrative: GeneratedNarrative = {
+      ...narrative,
+      sections: filterNarrativeSections(report.style, report.sections, narrative.sections),
+    };
 
-    // Distribute charts intelligently across sections
-    const chartDistribution = this.distributeCharts(charts, narrative.sections.length);
+    // Comparison charts stay on the comparison page; the rest are distributed across sections
+    const comparisonCharts = charts.filter(chart => chart.purpose === 'comparison');
+    const chartDistribution = this.distributeCharts(
+      charts.filter(chart => chart.purpose !== 'comparison'),
+      selectedNarrative.sections.length
+    );
 
     // Determine which pages to include
-    const hasSectionsPage = narrative.sections.length > 0;
+    const hasCoverPage = hasPage('cover');
+    const hasSummaryPage = hasPage('summary');
+    const hasFindingsPage = hasPage('findings');
+    const hasSectionsPage = selectedNarrative.sections.length > 0;
     const hasChartsPage = chartDistribution.dedicated.length > 0;
+    const hasRecommendationsPage = hasPage('recommendations');
+    const hasQualityPage = hasPage('quality') && (dataProfile.qualityChecks?.length ?? 0) > 0;
+    const hasMethodologyPage = hasPage('appendix') && (dataProfile.transforms?.length ?? 0) > 0;
+    const hasVerificationPage = hasPage('appendix') && (verification?.totalClaims ?? 0) > 0;
 
     // Calculate page numbers
-    let currentPage = 3; // Start after cover (1) and summary (2)
-    const findingsPageNum = currentPage++;
+    let currentPage = hasCoverPage ? 2 : 1;
+    const summaryPageNum = hasSummaryPage ? currentPage++ : 0;
+    const comparisonPageNum = comparison ? currentPage++ : 0;
+    const findingsPageNum = hasFindingsPage ? currentPage++ : 0;
     const analysisPageNum = currentPage++;
     const sectionsPageNum = hasSectionsPage ? currentPage++ : 0;
     const chartsPageNum = hasChartsPage ? currentPage++ : 0;
-    const recommendationsPageNum = currentPage;
+    const recommendationsPageNum = hasRecommendationsPage ? currentPage++ : 0;
+    const qualityPageNum = hasQualityPage ? currentPage++ : 0;
+    const methodologyPageNum = hasMethodologyPage ? currentPage++ : 0;
+    const verificationPageNum = currentPage;
+
+    // Page 1: Cover
+    const coverPage = hasCoverPage
+      ? this.generateCoverPage(report, companyName, date, palette, coverImage)
+      : '';
+
+    // Page 2: Summary with metrics
+    const summaryPage = hasSummaryPage
+      ? this.generateSummaryPage(
+          selectedNarrative,
+          dataProfile,
+          report.style,
+          palette,
+          summaryPageNum
+        )
+      : '';
+
+    // Changes since the baseline period, right after the summary (comparison reports only)
+    const comparisonPage = comparison
+      ? this.generateComparisonPage(comparison, comparisonCharts, comparisonPageNum)
+      : '';
 
     // Page 3: Key Findings with visuals
-    const findingsPage = this.generateFindingsPage(
-      narrative,
-      chartDistribution.findings,
-      palette,
-      findingsPageNum
-    );
+    const findingsPage = hasFindingsPage
+      ? this.generateFindingsPage(
+          selectedNarrative,
+          chartDistribution.findings,
+          palette,
+          findingsPageNum
+        )
+      : '';
 
     // Page 4: Analysis with charts
     const analysisPage = this.generateAnalysisPage(
-      narrative,
+      selectedNarrative,
       chartDistribution.analysis,
       dataProfile,
       palette,
@@ -149,7 +220,7 @@ export class HTMLGenerator implements IHTMLGenerator {
     // Page 5: Detailed sections with charts (only if we have sections)
     const sectionsPage = hasSectionsPage
       ? this.generateDetailedSectionsPage(
-          narrative,
+          selectedNarrative,
           chartDistribution.sections,
           palette,
           sectionsPageNum
@@ -161,14 +232,35 @@ export class HTMLGenerator implements IHTMLGenerator {
       ? this.generateChartsPage(chartDistribution.dedicated, palette, chartsPageNum)
       : '';
 
-    // Page 7: Recommendations
-    const recommendationsPage = this.generateRecommendationsPage(
-      narrative,
-      dataProfile,
-      companyName,
-      palette,
-      recommendationsPageNum
-    );
+    // Page 7: Recommendations, with the statistical summary when the appendix is included
+    const recommendationsPage = hasRecommendationsPage
+      ? this.generateRecommendationsPage(
+          selectedNarrative,
+          dataProfile,
+          companyName,
+          palette,
+          recommendationsPageNum,
+          hasPage('appendix')
+        )
+      : '';
+
+    // Results of the declared data quality rules
+    const qualityPage =
+      dataProfile.qualityChecks && hasQualityPage
+        ? this.generateQualityPage(dataProfile.qualityChecks, qualityPageNum)
+        : '';
+
+    // Appendix: transform steps applied to the source data before analysis
+    const methodologyPage =
+      dataProfile.transforms && hasMethodologyPage
+        ? this.generateMethodologyPage(dataProfile.transforms, methodologyPageNum)
+        : '';
+
+    // Appendix: fact-check results for the figures quoted in the narrative
+    const verificationPage =
+      verification && hasVerificationPage
+        ? this.generateVerificationPage(verification, verificationPageNum)
+        : '';
 
     const css = this.generateInfographicCSS(palette, styleConfig);
 
@@ -183,11 +275,15 @@ export class HTMLGenerator implements IHTMLGenerator {
 <body>
   ${coverPage}
   ${summaryPage}
+  ${comparisonPage}
   ${findingsPage}
   ${analysisPage}
   ${sectionsPage}
   ${chartsPage}
   ${recommendationsPage}
+  ${qualityPage}
+  ${methodologyPage}
+  ${verificationPage}
 </body>
 </html>`;
   }
@@ -199,9 +295,13 @@ export class HTMLGenerator implements IHTMLGenerator {
     report: Report,
     companyName: string,
     date: string,
-    _palette: (typeof COLOR_PALETTES)[keyof typeof COLOR_PALETTES]
+    _palette: (typeof COLOR_PALETTES)[keyof typeof COLOR_PALETTES],
+    coverImage?: CoverImage
   ): string {
     const styleLabel = this.getStyleLabel(report.style);
+    const image = coverImage?.base64
+      ? `<div class="cover-image"><img src="data:${coverImage.mimeType};base64,${coverImage.base64}" alt="" /></div>`
+      : '';
 
     return `
     <div class="page cover-page">
@@ -215,6 +315,8 @@ export class HTMLGenerator implements IHTMLGenerator {
 
         <h1 class="cover-title">${this.escapeHtml(report.title)}</h1>
 
+        ${image}
+
         <div class="cover-meta-cards">
           <div class="meta-card">
             <div class="meta-icon">${this.getSvgIcon('calendar')}</div>
@@ -260,7 +362,8 @@ export class HTMLGenerator implements IHTMLGenerator {
     narrative: GeneratedNarrative,
     dataProfile: DataProfile,
     style: ReportStyle,
-    _palette: (typeof COLOR_PALETTES)[keyof typeof COLOR_PALETTES]
+    _palette: (typeof COLOR_PALETTES)[keyof typeof COLOR_PALETTES],
+    pageNum: number
   ): string {
     const summaryTitle = style === 'research' ? 'Abstract' : 'Executive Summary';
     const completeness = this.calculateCompleteness(dataProfile);
@@ -340,11 +443,347 @@ export class HTMLGenerator implements IHTMLGenerator {
         </div>
       </div>
 
-      <div class="page-number">Page 2</div>
+      <div class="page-number">Page ${pageNum}</div>
+    </div>
+    `;
+  }
+
+  /**
+   * Generate period-over-period comparison page with delta badges
+   */
+  private generateComparisonPage(
+    comparison: ProfileComparison,
+    charts: GeneratedChart[],
+    pageNum: number
+  ): string {
+    const changedColumns = comparison.columns.filter(col => col.status !== 'unchanged').length;
+
+    const statsBadges = `
+      <div class="stats-badges">
+        <div class="stat-badge">
+          <span class="badge-number">${comparison.rowCount.current.toLocaleString()}</span>
+          <span class="badge-label">Records</span>
+          ${this.generateDeltaBadge(comparison.rowCount)}
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${comparison.dataQualityScore.current}%</span>
+          <span class="badge-label">Data Quality</span>
+          ${this.generateDeltaBadge(comparison.dataQualityScore)}
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${changedColumns}</span>
+          <span class="badge-label">Columns Changed</span>
+        </div>
+      </div>
+    `;
+
+    const highlights =
+      comparison.highlights.length > 0
+        ? `
+      <ul class="comparison-highlights">
+        ${comparison.highlights.map(highlight => `<li>${this.escapeHtml(highlight)}</li>`).join('')}
+      </ul>
+    `
+        : '';
+
+    const rows = comparison.columns
+      .map(col => {
+        const name = this.escapeHtml(col.name);
+        if (col.status === 'added' || col.status === 'removed') {
+          return `<tr><td>${name}</td><td colspan="4" class="delta-note">Column ${col.status}</td></tr>`;
+        }
+
+        const metric = col.metrics?.total ? 'Total' : 'Average';
+        const delta = col.metrics?.total ?? col.metrics?.mean;
+        if (!delta) {
+          return '';
+        }
+
+        return `
+          <tr>
+            <td>${name}</td>
+            <td>${metric}</td>
+            <td>${delta.baseline.toLocaleString()}</td>
+            <td>${delta.current.toLocaleString()}</td>
+            <td>${this.generateDeltaBadge(delta)}</td>
+          </tr>
+        `;
+      })
+      .join('');
+
+    const table = rows.trim()
+      ? `
+      <div class="stats-summary">
+        <table class="stats-table">
+          <thead>
+            <tr>
+              <th>Column</th>
+              <th>Metric</th>
+              <th>${this.escapeHtml(comparison.label)}</th>
+              <th>Current</th>
+              <th>Change</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    `
+      : '';
+
+    const chartsHtml =
+      charts.length > 0
+        ? `
+      <div class="charts-grid">
+        ${charts.map(chart => this.generateChartCard(chart)).join('')}
+      </div>
+    `
+        : '';
+
+    return `
+    <div class="page content-page">
+      <div class="page-wave"></div>
+
+      <div class="section-header">
+        <span class="section-num">&Delta;</span>
+        <h2 class="section-title">Changes Since ${this.escapeHtml(comparison.label)}</h2>
+      </div>
+
+      <div class="comparison-overview">
+        ${statsBadges}
+        ${highlights}
+      </div>
+
+      ${table}
+      ${chartsHtml}
+
+      <div class="page-number">Page ${pageNum}</div>
+    </div>
+    `;
+  }
+
+  /**
+   * Generate an up/down badge for a metric change
+   */
+  private generateDeltaBadge(delta: MetricDelta): string {
+    const arrows = { up: '&#9650;', down: '&#9660;', flat: '&#9644;' };
+    const sign = delta.change > 0 ? '+' : '';
+    const text =
+      delta.percentChange === null
+        ? `${sign}${delta.change.toLocaleString()}`
+        : `${sign}${delta.percentChange.toFixed(1)}%`;
+
+    return `<span class="delta-badge delta-${delta.direction}">${arrows[delta.direction]} ${text}</span>`;
+  }
+
+  /**
+   * Generate data quality page with the result of every declared rule and examples of
+   * offending rows
+   */
+  private generateQualityPage(checks: QualityCheckResult[], pageNum: number): string {
+    const failed = checks.filter(check => !check.passed);
+    const failedRows = checks.reduce((total, check) => total + (check.failedRows ?? 0), 0);
+    const showDataset = checks.some(check => check.dataset);
+
+    const statsBadges = `
+      <div class="stats-badges">
+        <div class="stat-badge">
+          <span class="badge-number">${checks.length}</span>
+          <span class="badge-label">Rules Checked</span>
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${checks.length - failed.length}</span>
+          <span class="badge-label">Passed</span>
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${failed.length}</span>
+          <span class="badge-label">Failed</span>
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${failedRows.toLocaleString('en-US')}</span>
+          <span class="badge-label">Failing Rows</span>
+        </div>
+      </div>
+    `;
+
+    const rows = checks
+      .map(
+        check => `
+          <tr>
+            ${showDataset ? `<td>${this.escapeHtml(check.dataset ?? '')}</td>` : ''}
+            <td>${this.escapeHtml(check.description)}</td>
+            <td><span class="claim-status ${check.passed ? 'check-passed' : 'check-failed'}">${check.passed ? 'Passed' : 'Failed'}</span></td>
+            <td>${this.escapeHtml(formatCheckDetail(check))}</td>
+          </tr>
+        `
+      )
+      .join('');
+
+    return `
+    <div class="page content-page">
+      <div class="page-wave"></div>
+
+      <div class="section-header">
+        <span class="section-num">&#9873;</span>
+        <h2 class="section-title">Data Quality</h2>
+      </div>
+
+      ${statsBadges}
+
+      <div class="stats-summary">
+        <table class="stats-table">
+          <thead>
+            <tr>
+              ${showDataset ? '<th>Dataset</th>' : ''}
+              <th>Rule</th>
+              <th>Result</th>
+              <th>Details</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+
+      <div class="page-number">Page ${pageNum}</div>
+    </div>
+    `;
+  }
+
+  /**
+   * Generate methodology appendix listing the transform steps applied before profiling
+   */
+  private generateMethodologyPage(transforms: TransformRecord[], pageNum: number): string {
+    const showDataset = transforms.some(step => step.dataset);
+    const rows = transforms
+      .map(
+        (step, index) => `
+          <tr>
+            <td>${index + 1}</td>
+            ${showDataset ? `<td>${this.escapeHtml(step.dataset ?? '')}</td>` : ''}
+            <td>${this.escapeHtml(step.description)}</td>
+            <td>${step.rowsBefore.toLocaleString('en-US')}</td>
+            <td>${step.rowsAfter.toLocaleString('en-US')}</td>
+          </tr>
+        `
+      )
+      .join('');
+
+    return `
+    <div class="page content-page">
+      <div class="page-wave"></div>
+
+      <div class="section-header">
+        <span class="section-num">&sect;</span>
+        <h2 class="section-title">Appendix: Methodology</h2>
+      </div>
+
+      <p class="delta-note">The source data was prepared in ${transforms.length} step${transforms.length === 1 ? '' : 's'} before analysis.</p>
+
+      <div class="stats-summary">
+        <table class="stats-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              ${showDataset ? '<th>Dataset</th>' : ''}
+              <th>Step</th>
+              <th>Rows Before</th>
+              <th>Rows After</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+
+      <div class="page-number">Page ${pageNum}</div>
+    </div>
+    `;
+  }
+
+  /**
+   * Generate fact-check appendix listing figures that did not match the data
+   */
+  private generateVerificationPage(verification: NarrativeVerification, pageNum: number): string {
+    const statsBadges = `
+      <div class="stats-badges">
+        <div class="stat-badge">
+          <span class="badge-number">${verification.totalClaims}</span>
+          <span class="badge-label">Figures Checked</span>
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${verification.verified}</span>
+          <span class="badge-label">Verified</span>
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${verification.mode === 'correct' ? verification.corrected : verification.mismatched}</span>
+          <span class="badge-label">${verification.mode === 'correct' ? 'Corrected' : 'Mismatched'}</span>
+        </div>
+        <div class="stat-badge">
+          <span class="badge-number">${verification.unverifiable}</span>
+          <span class="badge-label">Unverifiable</span>
+        </div>
+      </div>
+    `;
+
+    const issues = verification.checks.filter(check => check.status !== 'verified');
+    const rows = issues
+      .map(
+        check => `
+          <tr>
+            <td>${this.escapeHtml(check.sentence)}</td>
+            <td>${this.escapeHtml(check.claimed)}</td>
+            <td>${this.formatClaimActual(check)}</td>
+            <td><span class="claim-status claim-${check.status}">${CLAIM_STATUS_LABELS[check.status]}</span></td>
+          </tr>
+        `
+      )
+      .join('');
+
+    const table =
+      issues.length > 0
+        ? `
+      <div class="stats-summary">
+        <table class="stats-table">
+          <thead>
+            <tr>
+              <th>Statement</th>
+              <th>Quoted</th>
+              <th>Actual</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    `
+        : '<p class="delta-note">Every figure quoted in this report matches the source data.</p>';
+
+    return `
+    <div class="page content-page">
+      <div class="page-wave"></div>
+
+      <div class="section-header">
+        <span class="section-num">&check;</span>
+        <h2 class="section-title">Appendix: Fact Check</h2>
+      </div>
+
+      ${statsBadges}
+      ${table}
+
+      <div class="page-number">Page ${pageNum}</div>
     </div>
     `;
   }
 
+  /**
+   * Format the actual value of a fact-checked figure, with % for share and null-rate claims
+   */
+  private formatClaimActual(check: ClaimCheck): string {
+    if (check.actual === undefined) {
+      return 'N/A';
+    }
+    const percent = check.metric === 'share' || check.metric === 'nullRate' ? '%' : '';
+    return `${check.actual.toLocaleString('en-US', { maximumFractionDigits: 2 })}${percent}`;
+  }
+
   /**
    * Generate findings page with timeline and visuals
    */
@@ -447,7 +886,7 @@ export class HTMLGenerator implements IHTMLGenerator {
               <div class="dist-bar">
                 <div class="dist-fill" style="width: ${Math.min(100, ((col.mean ?? 0) / Math.max(col.max as number, 1)) * 100)}%; background: ${palette.bars[i % palette.bars.length]}"></div>
               </div>
-              <span class="dist-value">${col.mean?.toFixed(1) ?? 'N/A'}</span>
+              <span class="dist-value">${formatColumnValue(col.mean, col, 1)}</span>
             </div>
           `
             )
@@ -498,7 +937,8 @@ export class HTMLGenerator implements IHTMLGenerator {
     dataProfile: DataProfile,
     companyName: string,
     palette: (typeof COLOR_PALETTES)[keyof typeof COLOR_PALETTES],
-    pageNum: number
+    pageNum: number,
+    showStatistics: boolean
   ): string {
     // Numbered recommendations with icons
     const recsHtml = narrative.recommendations
@@ -518,7 +958,7 @@ export class HTMLGenerator implements IHTMLGenerator {
     // Statistics summary
     const numericCols = dataProfile.columns.filter(c => c.type === 'numeric').slice(0, 4);
     const statsTable =
-      numericCols.length > 0
+      showStatistics && numericCols.length > 0
         ? `
       <div class="stats-summary">
         <h4>Statistical Summary</h4>
@@ -537,9 +977,9 @@ export class HTMLGenerator implements IHTMLGenerator {
                 col => `
               <tr>
                 <td>${this.escapeHtml(col.name)}</td>
-                <td>${col.min?.toLocaleString() ?? 'N/A'}</td>
-                <td>${col.max?.toLocaleString() ?? 'N/A'}</td>
-                <td>${col.mean?.toFixed(2) ?? 'N/A'}</td>
+                <td>${formatColumnValue(col.min, col)}</td>
+                <td>${formatColumnValue(col.max, col)}</td>
+                <td>${formatColumnValue(col.mean, col)}</td>
               </tr>
             `
               )
@@ -711,10 +1151,15 @@ export class HTMLGenerator implements IHTMLGenerator {
       ? `data:image/png;base64,${chart.imageBase64}`
       : chart.imagePath;
 
+    const commentary = chart.commentary
+      ? `<div class="chart-commentary">${this.formatParagraphs(chart.commentary)}</div>`
+      : '';
+
     return `
       <div class="chart-card">
         <img src="${imgSrc}" alt="${this.escapeHtml(chart.config.title)}" />
         <span class="chart-label">${this.escapeHtml(chart.config.title)}</span>
+        ${commentary}
       </div>
     `;
   }
@@ -902,6 +1347,20 @@ export class HTMLGenerator implements IHTMLGenerator {
         letter-spacing: -0.02em;
       }
 
+      .cover-image {
+        max-width: 640px;
+        margin: -20px auto 40px;
+      }
+
+      .cover-image img {
+        display: block;
+        width: 100%;
+        max-height: 320px;
+        object-fit: cover;
+        border-radius: 20px;
+        box-shadow: 0 4px 20px rgba(0,0,0,0.08);
+      }
+
       .cover-meta-cards {
         display: flex;
         justify-content: center;
@@ -1120,6 +1579,53 @@ export class HTMLGenerator implements IHTMLGenerator {
         font-weight: 600;
       }
 
+      /* Period Comparison */
+      .comparison-overview {
+        padding: 0 20px;
+        margin-bottom: 24px;
+      }
+
+      .comparison-highlights {
+        margin: 20px 0 0;
+        padding-left: 20px;
+        font-size: 13px;
+        color: var(--text-light);
+        line-height: 1.7;
+      }
+
+      .delta-badge {
+        display: inline-block;
+        margin-top: 6px;
+        padding: 2px 8px;
+        border-radius: 999px;
+        font-size: 11px;
+        font-weight: 700;
+        white-space: nowrap;
+      }
+
+      .delta-up { background: #c6f6d5; color: #276749; }
+      .delta-down { background: #fed7d7; color: #9b2c2c; }
+      .delta-flat { background: #edf2f7; color: #4a5568; }
+
+      .delta-note {
+        color: var(--text-light);
+        font-style: italic;
+      }
+
+      .claim-status {
+        display: inline-block;
+        padding: 2px 8px;
+        border-radius: 999px;
+        font-size: 11px;
+        font-weight: 700;
+      }
+
+      .claim-mismatch { background: #fed7d7; color: #9b2c2c; }
+      .check-passed { background: #c6f6d5; color: #276749; }
+      .check-failed { background: #fed7d7; color: #9b2c2c; }
+      .claim-corrected { background: #fefcbf; color: #975a16; }
+      .claim-unverifiable { background: #edf2f7; color: #4a5568; }
+
       /* Timeline Findings */
       .findings-layout {
         padding: 0 20px;
@@ -1212,6 +1718,18 @@ export class HTMLGenerator implements IHTMLGenerator {
         color: var(--text);
       }
 
+      .chart-commentary {
+        margin-top: 10px;
+        text-align: left;
+      }
+
+      .chart-commentary p {
+        margin: 0 0 6px;
+        font-size: 11px;
+        line-height: 1.5;
+        color: var(--text-light);
+      }
+
       .charts-grid-full {
         display: grid;
         grid-template-columns: repeat(3, 1fr);
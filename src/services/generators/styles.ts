@@ -1,6 +1,6 @@
 /* eslint-disable @typescript-eslint/no-unnecessary-condition */
 // Branding fields are optional, so nullish coalescing is needed for optional Zod fields
-import type { Branding, ReportStyle } from '../../shared/types/index.js';
+import type { Branding, ReportSection, ReportStyle } from '../../shared/types/index.js';
 
 export interface StyleConfig {
   name: string;
@@ -18,8 +18,19 @@ export interface SectionTemplate {
   required: boolean;
   order: number;
   promptHint?: string;
+  // Fixed page the section renders as; sections without one are narrative sections written by the LLM
+  page?: SectionPage;
 }
 
+export type SectionPage =
+  | 'cover'
+  | 'toc'
+  | 'summary'
+  | 'findings'
+  | 'recommendations'
+  | 'quality'
+  | 'appendix';
+
 export interface ColorPalette {
   primary: string;
   secondary: string;
@@ -58,8 +69,8 @@ const businessStyle: StyleConfig = {
   name: 'business',
   description: 'Executive-friendly, concise, KPI-focused',
   sections: [
-    { id: 'cover', title: 'Cover Page', type: 'mixed', required: true, order: 0 },
-    { id: 'toc', title: 'Table of Contents', type: 'text', required: true, order: 1 },
+    { id: 'cover', title: 'Cover Page', type: 'mixed', required: true, order: 0, page: 'cover' },
+    { id: 'toc', title: 'Table of Contents', type: 'text', required: true, order: 1, page: 'toc' },
     {
       id: 'executive-summary',
       title: 'Executive Summary',
@@ -67,6 +78,7 @@ const businessStyle: StyleConfig = {
       required: true,
       order: 2,
       promptHint: 'Concise overview for executives',
+      page: 'summary',
     },
     {
       id: 'key-metrics',
@@ -75,6 +87,7 @@ const businessStyle: StyleConfig = {
       required: true,
       order: 3,
       promptHint: 'Critical KPIs and metrics',
+      page: 'findings',
     },
     {
       id: 'trends',
@@ -107,8 +120,24 @@ const businessStyle: StyleConfig = {
       required: true,
       order: 7,
       promptHint: 'Actionable recommendations',
+      page: 'recommendations',
+    },
+    {
+      id: 'data-quality',
+      title: 'Data Quality',
+      type: 'table',
+      required: false,
+      order: 8,
+      page: 'quality',
+    },
+    {
+      id: 'appendix',
+      title: 'Appendix',
+      type: 'table',
+      required: false,
+      order: 9,
+      page: 'appendix',
     },
-    { id: 'appendix', title: 'Appendix', type: 'table', required: false, order: 8 },
   ],
   colors: {
     primary: '#1a365d',
@@ -147,8 +176,8 @@ const researchStyle: StyleConfig = {
   name: 'research',
   description: 'Formal, academic, methodology-focused',
   sections: [
-    { id: 'cover', title: 'Cover Page', type: 'mixed', required: true, order: 0 },
-    { id: 'toc', title: 'Table of Contents', type: 'text', required: true, order: 1 },
+    { id: 'cover', title: 'Cover Page', type: 'mixed', required: true, order: 0, page: 'cover' },
+    { id: 'toc', title: 'Table of Contents', type: 'text', required: true, order: 1, page: 'toc' },
     {
       id: 'abstract',
       title: 'Abstract',
@@ -156,6 +185,7 @@ const researchStyle: StyleConfig = {
       required: true,
       order: 2,
       promptHint: 'Formal research abstract',
+      page: 'summary',
     },
     {
       id: 'introduction',
@@ -180,6 +210,7 @@ const researchStyle: StyleConfig = {
       required: true,
       order: 5,
       promptHint: 'Key findings with supporting data',
+      page: 'findings',
     },
     {
       id: 'discussion',
@@ -204,9 +235,25 @@ const researchStyle: StyleConfig = {
       required: true,
       order: 8,
       promptHint: 'Summary and future directions',
+      page: 'recommendations',
     },
     { id: 'references', title: 'References', type: 'text', required: false, order: 9 },
-    { id: 'appendix', title: 'Appendix', type: 'table', required: false, order: 10 },
+    {
+      id: 'data-quality',
+      title: 'Data Quality',
+      type: 'table',
+      required: false,
+      order: 10,
+      page: 'quality',
+    },
+    {
+      id: 'appendix',
+      title: 'Appendix',
+      type: 'table',
+      required: false,
+      order: 11,
+      page: 'appendix',
+    },
   ],
   colors: {
     primary: '#2d3748',
@@ -245,8 +292,8 @@ const technicalStyle: StyleConfig = {
   name: 'technical',
   description: 'Detailed, engineering-focused, system metrics',
   sections: [
-    { id: 'cover', title: 'Cover Page', type: 'mixed', required: true, order: 0 },
-    { id: 'toc', title: 'Table of Contents', type: 'text', required: true, order: 1 },
+    { id: 'cover', title: 'Cover Page', type: 'mixed', required: true, order: 0, page: 'cover' },
+    { id: 'toc', title: 'Table of Contents', type: 'text', required: true, order: 1, page: 'toc' },
     {
       id: 'overview',
       title: 'Overview',
@@ -254,6 +301,7 @@ const technicalStyle: StyleConfig = {
       required: true,
       order: 2,
       promptHint: 'System/project overview',
+      page: 'summary',
     },
     {
       id: 'metrics',
@@ -262,6 +310,7 @@ const technicalStyle: StyleConfig = {
       required: true,
       order: 3,
       promptHint: 'Performance and operational metrics',
+      page: 'findings',
     },
     {
       id: 'performance',
@@ -302,8 +351,24 @@ const technicalStyle: StyleConfig = {
       required: true,
       order: 8,
       promptHint: 'Engineering recommendations',
+      page: 'recommendations',
+    },
+    {
+      id: 'data-quality',
+      title: 'Data Quality',
+      type: 'table',
+      required: false,
+      order: 9,
+      page: 'quality',
+    },
+    {
+      id: 'appendix',
+      title: 'Technical Appendix',
+      type: 'table',
+      required: false,
+      order: 10,
+      page: 'appendix',
     },
-    { id: 'appendix', title: 'Technical Appendix', type: 'table', required: false, order: 9 },
   ],
   colors: {
     primary: '#0d1117',
@@ -347,6 +412,123 @@ export function getStyleConfig(style: ReportStyle): StyleConfig {
   return styleConfigs[style];
 }
 
+/**
+ * Check sectionsToInclude / sectionsToExclude against the style's section templates.
+ * Returns one message per problem; an empty array means the selection is valid.
+ */
+export function validateSectionSelection(
+  style: ReportStyle,
+  sectionsToInclude: string[] = [],
+  sectionsToExclude: string[] = []
+): string[] {
+  const { sections } = getStyleConfig(style);
+  const known = sections.map(section => section.id);
+  const errors: string[] = [];
+
+  for (const id of new Set([...sectionsToInclude, ...sectionsToExclude])) {
+    if (!known.includes(id)) {
+      errors.push(
+        `Unknown section "${id}" for ${style} reports (expected one of: ${known.join(', ')})`
+      );
+    }
+  }
+
+  for (const id of sectionsToExclude) {
+    if (sections.find(section => section.id === id)?.required) {
+      errors.push(`Section "${id}" is required in ${style} reports and cannot be excluded`);
+    }
+    if (sectionsToInclude.includes(id)) {
+      errors.push(`Section "${id}" cannot be both included and excluded`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolve the sections a report contains. Required sections are always kept; optional
+ * sections are kept when listed in sectionsToInclude (or when it is not set) and not
+ * listed in sectionsToExclude. Returns undefined when neither list is set, meaning
+ * every section is rendered.
+ */
+export function resolveReportSections(
+  style: ReportStyle,
+  sectionsToInclude?: string[],
+  sectionsToExclude?: string[]
+): ReportSection[] | undefined {
+  if (!sectionsToInclude && !sectionsToExclude) {
+    return undefined;
+  }
+
+  return getStyleConfig(style)
+    .sections.filter(
+      section =>
+        section.required ||
+        ((!sectionsToInclude || sectionsToInclude.includes(section.id)) &&
+          !sectionsToExclude?.includes(section.id))
+    )
+    .map(section => ({
+      id: section.id,
+      title: section.title,
+      type: section.type,
+      order: section.order,
+    }));
+}
+
+/**
+ * Whether a fixed page should be rendered for the resolved sections
+ */
+export function includesPage(
+  style: ReportStyle,
+  sections: ReportSection[] | undefined,
+  page: SectionPage
+): boolean {
+  if (!sections) {
+    return true;
+  }
+
+  const templates = getStyleConfig(style).sections.filter(section => section.page === page);
+  return (
+    templates.length === 0 ||
+    templates.some(template => sections.some(section => section.id === template.id))
+  );
+}
+
+/**
+ * Section templates the LLM writes as narrative sections for the resolved sections
+ * (all of the style's narrative sections when no selection was made)
+ */
+export function getNarrativeSectionTemplates(
+  style: ReportStyle,
+  sections?: ReportSection[]
+): SectionTemplate[] {
+  return getStyleConfig(style).sections.filter(
+    template =>
+      !template.page && (!sections || sections.some(section => section.id === template.id))
+  );
+}
+
+/**
+ * Drop narrative sections whose template was deselected. Sections with ids that are not
+ * templates of the style are kept, since the LLM may add sections of its own.
+ */
+export function filterNarrativeSections<T extends { sectionId: string }>(
+  style: ReportStyle,
+  sections: ReportSection[] | undefined,
+  narrativeSections: T[]
+): T[] {
+  if (!sections) {
+    return narrativeSections;
+  }
+
+  const known = getStyleConfig(style).sections.map(template => template.id);
+  return narrativeSections.filter(
+    narrativeSection =>
+      !known.includes(narrativeSection.sectionId) ||
+      sections.some(section => section.id === narrativeSection.sectionId)
+  );
+}
+
 export function applyBrandingToStyle(styleConfig: StyleConfig, branding?: Branding): StyleConfig {
   if (!branding) return styleConfig;
 
@@ -1,10 +1,30 @@
 // Re-export all services with singleton getters
 
 // AI Services
-export { getOpenAIService, openaiService, OpenAIService } from './ai/index.js';
+export {
+  buildComparisonContext,
+  buildDataContext,
+  createLLMService,
+  describeChartData,
+  FixtureLLMService,
+  getLLMService,
+  listLLMProviders,
+  llmService,
+  NarrativeValidationError,
+  OpenAIService,
+  registerLLMProvider,
+} from './ai/index.js';
 
 // Data Services
-export { dataProfiler, DataProfiler, getDataProfiler } from './data/index.js';
+export {
+  dataProfiler,
+  DataProfiler,
+  factChecker,
+  FactChecker,
+  getDataProfiler,
+  profileComparator,
+  ProfileComparator,
+} from './data/index.js';
 
 // Generator Services
 export {
@@ -15,11 +35,14 @@ export {
   getChartGenerator,
   getDOCXGenerator,
   getHTMLGenerator,
+  getNarrativeSectionTemplates,
   getPDFGenerator,
   htmlGenerator,
   HTMLGenerator,
   pdfGenerator,
   PDFGenerator,
+  resolveReportSections,
+  validateSectionSelection,
 } from './generators/index.js';
 
 // Storage Services
@@ -38,3 +61,6 @@ export { costTracker, CostTrackerService } from './cost/index.js';
 
 // Docling Services
 export { DoclingService, doclingService } from './docling/index.js';
+
+// Webhook Services
+export { webhookService, WebhookService } from './webhook/index.js';
@@ -1,5 +1,7 @@
+import { createReadStream } from 'node:fs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import type { Readable } from 'node:stream';
 
 import { config, createModuleLogger, type IStorageService } from '../../core/index.js';
 
@@ -72,6 +74,16 @@ export class LocalStorageService implements IStorageService {
     }
   }
 
+  async getUploadStream(reportId: string, filename: string): Promise<Readable | null> {
+    const filePath = path.join(this.uploadsPath, reportId, filename);
+    try {
+      await fs.access(filePath);
+      return createReadStream(filePath);
+    } catch {
+      return null;
+    }
+  }
+
   // Chart operations
   async saveChart(reportId: string, chartId: string, imageData: Buffer): Promise<string> {
     const reportDir = path.join(this.chartsPath, reportId);
@@ -116,6 +128,37 @@ export class LocalStorageService implements IStorageService {
     return path.join(this.reportsPath, reportId, 'outputs', filename);
   }
 
+  // Checkpoint operations
+  async saveCheckpoint(reportId: string, step: string, data: unknown): Promise<void> {
+    const checkpointDir = path.join(this.reportsPath, reportId, 'checkpoints');
+    await fs.mkdir(checkpointDir, { recursive: true });
+
+    const filePath = path.join(checkpointDir, `${step}.json`);
+    await fs.writeFile(filePath, JSON.stringify(data));
+    logger.debug(`Saved checkpoint: ${filePath}`);
+  }
+
+  async getCheckpoint<T>(reportId: string, step: string): Promise<T | null> {
+    const filePath = path.join(this.reportsPath, reportId, 'checkpoints', `${step}.json`);
+    try {
+      const data = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(data) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async listCheckpoints(reportId: string, prefix: string): Promise<string[]> {
+    try {
+      const files = await fs.readdir(path.join(this.reportsPath, reportId, 'checkpoints'));
+      return files
+        .filter(f => f.startsWith(prefix) && f.endsWith('.json'))
+        .map(f => f.replace('.json', ''));
+    } catch {
+      return [];
+    }
+  }
+
   async fileExists(filePath: string): Promise<boolean> {
     try {
       await fs.access(filePath);
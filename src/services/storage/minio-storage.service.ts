@@ -1,4 +1,5 @@
 import path from 'node:path';
+import { Readable } from 'node:stream';
 
 import {
   GetObjectCommand,
@@ -85,6 +86,18 @@ export class MinioStorageService implements IStorageService {
     return this.getObject(this.buckets.uploads, key);
   }
 
+  async getUploadStream(reportId: string, filename: string): Promise<Readable | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.buckets.uploads, Key: `${reportId}/${filename}` })
+      );
+      // The SDK returns a Node.js stream when running under Node
+      return response.Body instanceof Readable ? response.Body : null;
+    } catch {
+      return null;
+    }
+  }
+
   // Chart operations
   async saveChart(reportId: string, chartId: string, imageData: Buffer): Promise<string> {
     const key = `${reportId}/${chartId}.png`;
@@ -116,6 +129,31 @@ export class MinioStorageService implements IStorageService {
     return `${this.endpoint}/${this.buckets.reports}/${reportId}/outputs/${filename}`;
   }
 
+  // Checkpoint operations
+  async saveCheckpoint(reportId: string, step: string, data: unknown): Promise<void> {
+    const key = `${reportId}/checkpoints/${step}.json`;
+    await this.putObject(
+      this.buckets.reports,
+      key,
+      Buffer.from(JSON.stringify(data)),
+      'application/json'
+    );
+    logger.debug(`Saved checkpoint to MinIO: ${key}`);
+  }
+
+  async getCheckpoint<T>(reportId: string, step: string): Promise<T | null> {
+    const data = await this.getObject(this.buckets.reports, `${reportId}/checkpoints/${step}.json`);
+    return data ? (JSON.parse(data.toString()) as T) : null;
+  }
+
+  async listCheckpoints(reportId: string, prefix: string): Promise<string[]> {
+    const directory = `${reportId}/checkpoints/`;
+    const objects = await this.listObjects(this.buckets.reports, `${directory}${prefix}`);
+    return objects
+      .filter(key => key.endsWith('.json'))
+      .map(key => key.slice(directory.length).replace('.json', ''));
+  }
+
   async fileExists(filePath: string): Promise<boolean> {
     // Parse the MinIO URL to get bucket and key
     const url = new URL(filePath);
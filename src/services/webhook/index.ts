@@ -0,0 +1 @@
+export { webhookService, WebhookService } from './webhook.service.js';
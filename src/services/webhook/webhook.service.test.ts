@@ -0,0 +1,143 @@
+import crypto from 'node:crypto';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { WebhookDelivery, WebhookPayload } from '../../shared/types/index.js';
+
+import { WebhookService } from './webhook.service.js';
+
+const checkpoints = vi.hoisted(() => new Map<string, unknown>());
+
+vi.mock('../../core/index.js', () => ({
+  createModuleLogger: () => ({ info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }),
+}));
+
+vi.mock('../index.js', () => ({
+  storage: {
+    saveCheckpoint: vi.fn((reportId: string, key: string, data: unknown) => {
+      checkpoints.set(`${reportId}/${key}`, structuredClone(data));
+      return Promise.resolve();
+    }),
+    getCheckpoint: vi.fn((reportId: string, key: string) =>
+      Promise.resolve(checkpoints.get(`${reportId}/${key}`) ?? null)
+    ),
+    listCheckpoints: vi.fn((reportId: string, prefix: string) =>
+      Promise.resolve(
+        [...checkpoints.keys()]
+          .filter(key => key.startsWith(`${reportId}/${prefix}`))
+          .map(key => key.slice(reportId.length + 1))
+      )
+    ),
+  },
+}));
+
+const payload: WebhookPayload = {
+  id: 'whk_1',
+  event: 'report.completed',
+  reportId: 'rpt_1',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  data: { title: 'Q1' },
+};
+
+const delivery = (attempt: number, patch: Partial<WebhookDelivery> = {}): WebhookDelivery => ({
+  webhookId: 'whk_1',
+  event: 'report.completed',
+  url: 'https://example.com/hook',
+  attempt,
+  success: false,
+  statusCode: 503,
+  durationMs: 12,
+  deliveredAt: `2024-01-01T00:00:0${attempt}.000Z`,
+  ...patch,
+});
+
+describe('WebhookService', () => {
+  const service = new WebhookService();
+
+  beforeEach(() => checkpoints.clear());
+  afterEach(() => vi.unstubAllGlobals());
+
+  describe('sign', () => {
+    it('signs the timestamp and body with HMAC-SHA256', () => {
+      const expected = crypto
+        .createHmac('sha256', 'secret')
+        .update('1700000000.{"a":1}')
+        .digest('hex');
+      expect(service.sign('{"a":1}', '1700000000', 'secret')).toBe(expected);
+    });
+
+    it('changes with the secret, the timestamp and the body', () => {
+      const signature = service.sign('body', '1', 'secret');
+      expect(service.sign('body', '1', 'other')).not.toBe(signature);
+      expect(service.sign('body', '2', 'secret')).not.toBe(signature);
+      expect(service.sign('body!', '1', 'secret')).not.toBe(signature);
+    });
+  });
+
+  describe('send', () => {
+    it('posts the payload with a signature receivers can verify', async () => {
+      const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+      vi.stubGlobal('fetch', fetch);
+
+      await expect(service.send('https://example.com/hook', payload, 'secret')).resolves.toBe(204);
+
+      const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(url).toBe('https://example.com/hook');
+      expect(init.body).toBe(JSON.stringify(payload));
+      expect(headers['X-Webhook-Id']).toBe('whk_1');
+      expect(headers['X-Webhook-Event']).toBe('report.completed');
+      expect(headers['X-Webhook-Signature']).toBe(
+        `sha256=${service.sign(JSON.stringify(payload), headers['X-Webhook-Timestamp'], 'secret')}`
+      );
+    });
+
+    it('resolves with error statuses and rejects on network errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('no', { status: 500 })));
+      await expect(service.send('https://example.com/hook', payload, 'secret')).resolves.toBe(500);
+
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+      await expect(service.send('https://example.com/hook', payload, 'secret')).rejects.toThrow(
+        'fetch failed'
+      );
+    });
+  });
+
+  describe('delivery log', () => {
+    it('keeps every attempt, oldest first', async () => {
+      await service.recordDelivery('rpt_1', delivery(2, { success: true, statusCode: 200 }));
+      await service.recordDelivery('rpt_1', delivery(1));
+
+      const deliveries = await service.getDeliveries('rpt_1');
+      expect(deliveries.map(entry => [entry.attempt, entry.success])).toEqual([
+        [1, false],
+        [2, true],
+      ]);
+    });
+
+    it('replaces an attempt written twice instead of adding it again', async () => {
+      await service.recordDelivery('rpt_1', delivery(1));
+      await service.recordDelivery('rpt_1', delivery(1, { durationMs: 40 }));
+
+      expect(await service.getDeliveries('rpt_1')).toEqual([delivery(1, { durationMs: 40 })]);
+    });
+
+    it('keeps attempts of different webhooks and URLs apart', async () => {
+      await Promise.all([
+        service.recordDelivery('rpt_1', delivery(1)),
+        service.recordDelivery('rpt_1', delivery(1, { url: 'https://other.example.com' })),
+        service.recordDelivery('rpt_1', delivery(1, { webhookId: 'whk_2' })),
+      ]);
+
+      expect(await service.getDeliveries('rpt_1')).toHaveLength(3);
+      expect(await service.getDeliveries('rpt_2')).toEqual([]);
+    });
+
+    it('reads entries from the single log older reports were written to', async () => {
+      checkpoints.set('rpt_1/webhook-deliveries', [delivery(1)]);
+      await service.recordDelivery('rpt_1', delivery(2));
+
+      expect((await service.getDeliveries('rpt_1')).map(entry => entry.attempt)).toEqual([1, 2]);
+    });
+  });
+});
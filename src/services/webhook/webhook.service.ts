@@ -0,0 +1,85 @@
+import crypto from 'node:crypto';
+
+import { createModuleLogger } from '../../core/index.js';
+import type { WebhookDelivery, WebhookPayload } from '../../shared/types/index.js';
+import { storage } from '../index.js';
+
+const logger = createModuleLogger('webhook-service');
+
+// Each delivery attempt is its own checkpoint, so concurrent workers never overwrite
+// each other's entries
+const DELIVERY_KEY_PREFIX = 'webhook-delivery-';
+// Single log that reports from before per-attempt checkpoints were written to
+const LEGACY_DELIVERY_LOG_KEY = 'webhook-deliveries';
+const REQUEST_TIMEOUT_MS = 10000;
+
+export class WebhookService {
+  /**
+   * Compute the signature sent in X-Webhook-Signature.
+   * Receivers recompute HMAC-SHA256(secret, `${timestamp}.${body}`) and compare.
+   */
+  sign(body: string, timestamp: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * POST a signed payload to a callback URL
+   * Resolves with the response status code; rejects on network errors or timeouts
+   */
+  async send(url: string, payload: WebhookPayload, secret: string): Promise<number> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ai-report-generator-webhooks',
+        'X-Webhook-Id': payload.id,
+        'X-Webhook-Event': payload.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${this.sign(body, timestamp, secret)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer().catch(() => undefined);
+
+    return response.status;
+  }
+
+  /**
+   * Record a delivery attempt in the report's delivery log. The key is derived from the
+   * attempt, so a retried write replaces its own entry and never another one.
+   */
+  async recordDelivery(reportId: string, delivery: WebhookDelivery): Promise<void> {
+    const url = crypto.createHash('sha256').update(delivery.url).digest('hex').slice(0, 12);
+    const key = `${DELIVERY_KEY_PREFIX}${delivery.webhookId}-${url}-${delivery.attempt}`;
+
+    try {
+      await storage.saveCheckpoint(reportId, key, delivery);
+    } catch (error) {
+      logger.error(`Failed to record webhook delivery for report ${reportId}`, { error });
+    }
+  }
+
+  /**
+   * Get every recorded delivery attempt for a report, oldest first
+   */
+  async getDeliveries(reportId: string): Promise<WebhookDelivery[]> {
+    const keys = await storage.listCheckpoints(reportId, DELIVERY_KEY_PREFIX);
+    const [legacy, ...deliveries] = await Promise.all([
+      storage.getCheckpoint<WebhookDelivery[]>(reportId, LEGACY_DELIVERY_LOG_KEY),
+      ...keys.map(key => storage.getCheckpoint<WebhookDelivery>(reportId, key)),
+    ]);
+
+    return [
+      ...(legacy ?? []),
+      ...deliveries.filter((delivery): delivery is WebhookDelivery => delivery !== null),
+    ].sort((a, b) => a.deliveredAt.localeCompare(b.deliveredAt));
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,20 @@
+/**
+ * Cache Types
+ * Statistics reported by the cache service and the admin cache API
+ */
+
+export type CacheBackend = 'redis' | 'memory';
+
+export interface CacheStats {
+  // Backend currently serving requests (memory while Redis is unreachable)
+  backend: CacheBackend;
+  namespace: string;
+  // Entries stored under the namespace (tag indexes excluded)
+  keys: number;
+  // Counted by this process since it started
+  hits: number;
+  misses: number;
+  // Memory backend only: LRU capacity and entries dropped to stay within it
+  maxEntries?: number;
+  evictions?: number;
+}
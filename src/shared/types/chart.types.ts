@@ -7,11 +7,17 @@ import { z } from 'zod';
 export const ChartTypeSchema = z.enum([
   'line',
   'bar',
+  'horizontal_bar',
   'stacked_bar',
   'pie',
   'donut',
   'table',
   'area',
+  'scatter',
+  'histogram',
+  'heatmap',
+  'box_plot',
+  'combo',
 ]);
 export type ChartType = z.infer<typeof ChartTypeSchema>;
 
@@ -21,6 +27,19 @@ export interface ChartSuggestion {
   xAxis?: string;
   yAxis?: string | string[];
   reason: string;
+  // Scatter only: overlay the least-squares line through the points
+  trendline?: boolean;
+  // Per-category values computed while profiling, so charts do not need every row
+  aggregate?: ChartAggregate;
+}
+
+export interface ChartAggregate {
+  // Values of the xAxis column, in order of first appearance
+  labels: string[];
+  // Rows per label
+  counts: number[];
+  // Per yAxis column, the total for each label
+  sums: number[][];
 }
 
 export interface ChartConfig {
@@ -36,8 +55,16 @@ export interface ChartData {
   datasets: Array<{
     label: string;
     data: number[];
+    // Scatter charts plot x/y pairs instead of one value per label
+    points?: Array<{ x: number; y: number }>;
+    // Box plots draw a five-number summary per label; data holds the medians
+    boxes?: BoxPlotSummary[];
     backgroundColor?: string | string[];
     borderColor?: string | string[];
+    // Dashed overlays such as trend lines; never filled in area charts
+    borderDash?: number[];
+    // Combo charts draw these as a line against a second y-axis on the right
+    secondaryAxis?: boolean;
   }>;
 }
 
@@ -48,6 +75,17 @@ export interface ChartOptions {
   showGrid?: boolean;
   xAxisLabel?: string;
   yAxisLabel?: string;
+  // Combo charts only
+  secondaryAxisLabel?: string;
+}
+
+export interface BoxPlotSummary {
+  // Whiskers reach the Tukey fences (1.5 x IQR beyond the quartiles), or the extremes when nearer
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
 }
 
 export interface GeneratedChart {
@@ -55,4 +93,8 @@ export interface GeneratedChart {
   config: ChartConfig;
   imagePath: string;
   imageBase64?: string;
+  // Comparison charts are placed on the period-over-period page instead of with the sections
+  purpose?: 'comparison';
+  // AI-written explanation rendered beside the chart (chartCommentary option)
+  commentary?: string;
 }
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import type { PiiAction } from './privacy.types.js';
+
 // ============================================================================
 // Report Styles & Formats
 // ============================================================================
@@ -40,9 +42,30 @@ export const ColumnTypeSchema = z.enum([
 ]);
 export type ColumnType = z.infer<typeof ColumnTypeSchema>;
 
+// What a column means, on top of its storage type
+export const SemanticTypeSchema = z.enum([
+  'currency',
+  'percentage',
+  'identifier',
+  'country',
+  'region',
+  'postcode',
+  'email',
+  'url',
+]);
+export type SemanticType = z.infer<typeof SemanticTypeSchema>;
+
+export interface CurrencyFormat {
+  // ISO 4217 code, e.g. USD
+  code: string;
+  symbol: string;
+}
+
 export interface ColumnProfile {
   name: string;
   type: ColumnType;
+  semanticType?: SemanticType;
+  currency?: CurrencyFormat;
   nullCount: number;
   uniqueCount: number;
   min?: number | string;
@@ -50,7 +73,51 @@ export interface ColumnProfile {
   mean?: number;
   median?: number;
   stdDev?: number;
+  // Exact total of a numeric column, over every row even when the profile is sampled
+  sum?: number;
+  // Distribution of numeric columns
+  quantiles?: ColumnQuantiles;
+  skewness?: number;
+  outliers?: ColumnOutliers;
+  histogram?: HistogramBin[];
   topValues?: Array<{ value: string; count: number }>;
+  // Set when PII in the column was replaced; counts are then of the redacted values, and
+  // the column is left out of chart suggestions and the LLM data context
+  redacted?: PiiAction;
+}
+
+export interface ColumnQuantiles {
+  p5: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+}
+
+export interface ColumnOutliers {
+  // Values beyond 1.5 x IQR from the quartiles (Tukey fences)
+  iqr: { lowerFence: number; upperFence: number; count: number };
+  zScore: { threshold: number; count: number };
+  // Most extreme IQR outliers
+  examples: number[];
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Pairwise correlations between numeric columns. Cells are null where a column has
+ * no variance or fewer than three rows have both values.
+ */
+export interface CorrelationMatrix {
+  columns: string[];
+  pearson: Array<Array<number | null>>;
+  spearman: Array<Array<number | null>>;
 }
 
 // ============================================================================
@@ -0,0 +1,58 @@
+/**
+ * Comparison Types
+ * Result of comparing the current data profile against a baseline period
+ */
+import type { ColumnType } from './common.types.js';
+
+// ============================================================================
+// Deltas
+// ============================================================================
+
+export type DeltaDirection = 'up' | 'down' | 'flat';
+
+/**
+ * Change of a single metric between the baseline and the current period.
+ * percentChange is null when the baseline is zero.
+ */
+export interface MetricDelta {
+  baseline: number;
+  current: number;
+  change: number;
+  percentChange: number | null;
+  direction: DeltaDirection;
+}
+
+export type ComparedMetric = 'total' | 'mean' | 'median' | 'min' | 'max' | 'stdDev';
+
+export interface TopValueShift {
+  value: string;
+  baseline: number;
+  current: number;
+  change: number;
+}
+
+export interface ColumnComparison {
+  name: string;
+  type: ColumnType;
+  status: 'changed' | 'unchanged' | 'added' | 'removed';
+  nullCount?: MetricDelta;
+  uniqueCount?: MetricDelta;
+  // Numeric columns only
+  metrics?: Partial<Record<ComparedMetric, MetricDelta>>;
+  // Categorical columns only, largest shifts first
+  topValueShifts?: TopValueShift[];
+}
+
+// ============================================================================
+// Profile Comparison
+// ============================================================================
+
+export interface ProfileComparison {
+  label: string;
+  baselineReportId?: string;
+  rowCount: MetricDelta;
+  dataQualityScore: MetricDelta;
+  columns: ColumnComparison[];
+  // Plain-language summary of the largest changes, most significant first
+  highlights: string[];
+}
@@ -14,8 +14,24 @@ export interface CostMetrics {
     completionTokens: number;
     totalTokens: number;
     imagesGenerated: number;
+    // Extra narrative requests made because the previous output failed schema validation
+    repairAttempts: number;
+    // LLM responses served from the cache instead of a new completion, and fresh completions
+    cacheHits: number;
+    cacheMisses: number;
     estimatedCost: number;
   };
+  // Per-chart breakdown of the chart commentary requests, keyed by chart id
+  charts?: Record<string, ChartCostMetrics>;
+}
+
+/**
+ * Token usage and cost of the commentary for a single chart
+ */
+export interface ChartCostMetrics {
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
 }
 
 /**
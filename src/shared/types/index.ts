@@ -1,6 +1,15 @@
 // Re-export all types from domain-specific files
+export * from './cache.types.js';
 export * from './chart.types.js';
 export * from './common.types.js';
+export * from './comparison.types.js';
 export * from './cost.types.js';
 export * from './docling.types.js';
+export * from './privacy.types.js';
+export * from './quality.types.js';
 export * from './report.types.js';
+export * from './schedule.types.js';
+export * from './time-series.types.js';
+export * from './transform.types.js';
+export * from './verification.types.js';
+export * from './webhook.types.js';
@@ -0,0 +1,56 @@
+/**
+ * Privacy Types
+ * PII detection and redaction applied to input data before it reaches the LLM
+ */
+import { z } from 'zod';
+
+export const PiiTypeSchema = z.enum(['email', 'phone', 'card', 'nationalId', 'name']);
+export type PiiType = z.infer<typeof PiiTypeSchema>;
+
+/**
+ * - off: no scanning
+ * - mask: replace each match with a placeholder such as [EMAIL]
+ * - hash: replace each match with a keyed hash, so equal values stay equal (counts, joins)
+ * - drop: remove every column containing PII; matches in free text are masked
+ * - block: fail the report when any PII is found
+ */
+export const PiiPolicySchema = z.enum(['off', 'mask', 'hash', 'drop', 'block']);
+export type PiiPolicy = z.infer<typeof PiiPolicySchema>;
+
+export const PiiConfigSchema = z.object({
+  // Defaults to PII_POLICY
+  policy: PiiPolicySchema.optional(),
+  // Types to look for; defaults to all of them
+  types: z.array(PiiTypeSchema).min(1).optional(),
+});
+export type PiiConfig = z.infer<typeof PiiConfigSchema>;
+
+// ============================================================================
+// Redaction Summary
+// ============================================================================
+
+export type PiiAction = 'masked' | 'hashed' | 'dropped' | 'blocked';
+
+export interface PiiFinding {
+  type: PiiType;
+  // Column the values were found in; absent for uploaded text
+  column?: string;
+  // Dataset holding the column (set when the input holds several datasets)
+  dataset?: string;
+  // Matches found (for a dropped column, the values it held)
+  count: number;
+  action: PiiAction;
+}
+
+/**
+ * What was found and done, stored with the report for compliance
+ */
+export interface PiiRedactionSummary {
+  policy: Exclude<PiiPolicy, 'off'>;
+  types: PiiType[];
+  scannedAt: string;
+  totalMatches: number;
+  findings: PiiFinding[];
+  // Set when the block policy stopped the report
+  blocked?: boolean;
+}
@@ -0,0 +1,107 @@
+/**
+ * Data Quality Types
+ * Expectations declared per input and their results, evaluated while profiling
+ */
+import { z } from 'zod';
+
+const ColumnNameSchema = z.string().min(1).max(200);
+
+export const NotNullRuleSchema = z.object({
+  rule: z.literal('notNull'),
+  column: ColumnNameSchema,
+});
+
+export const UniqueRuleSchema = z.object({
+  rule: z.literal('unique'),
+  // Empty values are left to notNull
+  column: ColumnNameSchema,
+});
+
+export const RangeRuleSchema = z.object({
+  rule: z.literal('range'),
+  column: ColumnNameSchema,
+  // Inclusive; at least one bound is required
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export const AllowedValuesRuleSchema = z.object({
+  rule: z.literal('allowedValues'),
+  column: ColumnNameSchema,
+  values: z
+    .array(z.union([z.string(), z.number(), z.boolean()]))
+    .min(1)
+    .max(500),
+});
+
+export const PatternRuleSchema = z.object({
+  rule: z.literal('pattern'),
+  column: ColumnNameSchema,
+  // JavaScript regular expression, matched anywhere in the value unless anchored
+  pattern: z
+    .string()
+    .min(1)
+    .max(500)
+    .refine(
+      pattern => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Invalid regular expression' }
+    ),
+});
+
+export const FreshnessRuleSchema = z.object({
+  rule: z.literal('freshness'),
+  // Datetime column whose latest value must be recent
+  column: ColumnNameSchema,
+  maxAgeHours: z.number().positive(),
+});
+
+export const RowCountRuleSchema = z.object({
+  rule: z.literal('rowCount'),
+  // Inclusive; at least one bound is required
+  min: z.number().int().nonnegative().optional(),
+  max: z.number().int().nonnegative().optional(),
+});
+
+export const QualityRuleSchema = z.discriminatedUnion('rule', [
+  NotNullRuleSchema,
+  UniqueRuleSchema,
+  RangeRuleSchema,
+  AllowedValuesRuleSchema,
+  PatternRuleSchema,
+  FreshnessRuleSchema,
+  RowCountRuleSchema,
+]);
+export type QualityRule = z.infer<typeof QualityRuleSchema>;
+
+// ============================================================================
+// Results
+// ============================================================================
+
+export interface QualityViolation {
+  // 1-based position of the row after transforms
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface QualityCheckResult {
+  // Dataset the rule ran on (set when the input holds several datasets)
+  dataset?: string;
+  rule: QualityRule['rule'];
+  column?: string;
+  description: string;
+  passed: boolean;
+  // Rows with a value to check, and those breaking the rule (row-level rules only)
+  checkedRows?: number;
+  failedRows?: number;
+  // What a dataset-level rule saw, e.g. "1,204 rows" or "latest 2024-03-01, 52 hours old"
+  observed?: string;
+  // First few offending rows, redacted like the rest of the data
+  violations?: QualityViolation[];
+}
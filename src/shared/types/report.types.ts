@@ -7,11 +7,18 @@ import {
   OutputFormatSchema,
   ReportStyleSchema,
   type ColumnProfile,
+  type CorrelationMatrix,
   type OutputFormat,
   type ReportStatus,
   type ReportStyle,
   type TableData,
 } from './common.types.js';
+import { PiiConfigSchema, type PiiRedactionSummary } from './privacy.types.js';
+import { QualityRuleSchema, type QualityCheckResult } from './quality.types.js';
+import type { TimeSeriesAnalysis } from './time-series.types.js';
+import { ROW_TRANSFORM_OPS, TransformStepSchema, type TransformRecord } from './transform.types.js';
+import type { NarrativeVerification } from './verification.types.js';
+import { WebhookConfigSchema } from './webhook.types.js';
 
 // ============================================================================
 // Data Profile
@@ -23,6 +30,33 @@ export interface DataProfile {
   columns: ColumnProfile[];
   dataQualityScore: number;
   suggestedCharts: ChartSuggestion[];
+  correlations?: CorrelationMatrix;
+  timeSeries?: TimeSeriesAnalysis;
+  // Schema hint conflicts and coercion failures found while profiling
+  warnings?: string[];
+  // Set for streamed uploads: rows in the random sample that quantiles, skewness,
+  // correlations and scatter charts were estimated from
+  sampledRows?: number;
+  // Set when the input holds several datasets: the one the report is built from...
+  dataset?: string;
+  // ...and a profile of every dataset, including joined and unioned ones
+  datasets?: DatasetProfile[];
+  // Transform steps applied to the inputs before profiling, in order
+  transforms?: TransformRecord[];
+  // Results of the inputs' declared quality rules
+  qualityChecks?: QualityCheckResult[];
+}
+
+// input: a JSON/CSV input or single sheet, sheet: one of several sheets read from a workbook,
+// join/union: derived from other datasets by a relation
+export type DatasetOrigin = 'input' | 'sheet' | 'join' | 'union';
+
+export interface DatasetProfile extends Omit<
+  DataProfile,
+  'suggestedCharts' | 'warnings' | 'dataset' | 'datasets' | 'transforms' | 'qualityChecks'
+> {
+  name: string;
+  origin: DatasetOrigin;
 }
 
 // ============================================================================
@@ -41,32 +75,70 @@ export interface ReportSection {
 }
 
 // ============================================================================
-// Report Configuration
+// Input Data
 // ============================================================================
 
-export const ReportConfigSchema = z.object({
-  title: z.string().min(1).max(200),
-  style: ReportStyleSchema.default('business'),
-  outputFormats: z.array(OutputFormatSchema).min(1).default(['PDF']),
-  branding: BrandingSchema.optional(),
-  sectionsToInclude: z.array(z.string()).optional(),
-  sectionsToExclude: z.array(z.string()).optional(),
-  authorName: z.string().optional(),
-  customPromptInstructions: z.string().max(1000).optional(),
+export const UploadReferenceSchema = z.object({
+  reportId: z.string().regex(/^[\w-]+$/),
+  filename: z.string().regex(/^[\w-][\w.-]*$/),
 });
-export type ReportConfig = z.infer<typeof ReportConfigSchema>;
+export type UploadReference = z.infer<typeof UploadReferenceSchema>;
 
-// ============================================================================
-// Input Data
-// ============================================================================
+// Binary formats (xlsx, parquet, sqlite) are sent as base64 strings
+export const StructuredFormatSchema = z.enum([
+  'json',
+  'ndjson',
+  'csv',
+  'tsv',
+  'xlsx',
+  'parquet',
+  'sqlite',
+]);
+export type StructuredFormat = z.infer<typeof StructuredFormatSchema>;
+
+// Text formats that can be read record by record
+export const STREAMABLE_FORMATS: readonly StructuredFormat[] = ['json', 'ndjson', 'csv', 'tsv'];
 
 export const StructuredDataSchema = z.object({
   type: z.literal('structured'),
-  format: z.enum(['json', 'csv', 'xlsx']),
-  data: z.union([z.string(), z.array(z.record(z.unknown()))]),
+  format: StructuredFormatSchema,
+  data: z.union([z.string(), z.array(z.record(z.unknown()))]).optional(),
+  // A file kept in upload storage instead of inline data; text formats are profiled as a
+  // stream, other formats are read into memory by the profiling activity
+  upload: UploadReferenceSchema.optional(),
   schemaHints: z.record(ColumnTypeSchema).optional(),
   // For xlsx files uploaded via multipart, this contains the sheet name to use (optional)
   sheetName: z.string().optional(),
+  // xlsx only: read several sheets, each as its own dataset named after the sheet (not `name`)
+  sheets: z.union([z.literal('all'), z.array(z.string().min(1)).min(1)]).optional(),
+  // Name used by relations and per-dataset profiles; defaults to "dataset-<n>"
+  name: z.string().min(1).max(100).optional(),
+  // csv only: field separator, e.g. ";" or "|" (tsv always uses a tab)
+  delimiter: z.string().min(1).max(5).optional(),
+  // sqlite only: the SELECT whose rows become the dataset
+  query: z
+    .string()
+    .max(10000)
+    .regex(/^\s*(select|with)\b/i, 'Only SELECT queries are supported')
+    .optional(),
+  // Steps run in order on the parsed rows (on every sheet read) before profiling
+  transforms: z.array(TransformStepSchema).max(50).optional(),
+  // Expectations checked after the transforms; failures are reported, or fail the report
+  // under config.strictQuality
+  qualityRules: z
+    .array(QualityRuleSchema)
+    .max(100)
+    .refine(
+      rules =>
+        rules.every(
+          rule =>
+            (rule.rule !== 'range' && rule.rule !== 'rowCount') ||
+            rule.min !== undefined ||
+            rule.max !== undefined
+        ),
+      { message: 'Range and rowCount rules need min or max' }
+    )
+    .optional(),
 });
 export type StructuredData = z.infer<typeof StructuredDataSchema>;
 
@@ -77,12 +149,164 @@ export const UnstructuredDataSchema = z.object({
 });
 export type UnstructuredData = z.infer<typeof UnstructuredDataSchema>;
 
-export const InputDataSchema = z.discriminatedUnion('type', [
-  StructuredDataSchema,
-  UnstructuredDataSchema,
-]);
+export const InputDataSchema = z
+  .discriminatedUnion('type', [StructuredDataSchema, UnstructuredDataSchema])
+  .refine(input => input.type !== 'structured' || !input.data !== !input.upload, {
+    message: 'Provide exactly one of data or upload',
+  })
+  .refine(input => input.type !== 'structured' || (input.format === 'sqlite') === !!input.query, {
+    message: 'SQLite data needs a query, and query only applies to SQLite',
+  })
+  .refine(input => input.type !== 'structured' || !input.delimiter || input.format === 'csv', {
+    message: 'delimiter only applies to CSV',
+  })
+  .refine(
+    input =>
+      input.type !== 'structured' ||
+      !input.upload ||
+      !STREAMABLE_FORMATS.includes(input.format) ||
+      (input.transforms ?? []).every(step => ROW_TRANSFORM_OPS.includes(step.op)),
+    {
+      message:
+        'Streamed CSV/JSON uploads only support select, rename, filter, compute and truncateDate',
+    }
+  );
 export type InputData = z.infer<typeof InputDataSchema>;
 
+// ============================================================================
+// Dataset Relations
+// ============================================================================
+
+// Joins and unions between named datasets; each result becomes a dataset of its own
+export const DatasetJoinSchema = z.object({
+  type: z.literal('join'),
+  left: z.string().min(1),
+  right: z.string().min(1),
+  // Key column(s) present in both datasets
+  on: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  how: z.enum(['inner', 'left', 'full']).default('left'),
+  name: z.string().min(1).max(100).optional(),
+});
+export type DatasetJoin = z.infer<typeof DatasetJoinSchema>;
+
+export const DatasetUnionSchema = z.object({
+  type: z.literal('union'),
+  datasets: z.array(z.string().min(1)).min(2),
+  // Column that records which dataset each row came from
+  sourceColumn: z.string().min(1).optional(),
+  name: z.string().min(1).max(100).optional(),
+});
+export type DatasetUnion = z.infer<typeof DatasetUnionSchema>;
+
+export const DatasetRelationSchema = z.discriminatedUnion('type', [
+  DatasetJoinSchema,
+  DatasetUnionSchema,
+]);
+export type DatasetRelation = z.infer<typeof DatasetRelationSchema>;
+
+// ============================================================================
+// Period-over-Period Comparison
+// ============================================================================
+
+export const ComparisonConfigSchema = z
+  .object({
+    // Compare against the profile of a previously generated report...
+    baselineReportId: z
+      .string()
+      .regex(/^[\w-]+$/)
+      .optional(),
+    // ...or against a second dataset profiled alongside the current one
+    baselineData: z.array(InputDataSchema).min(1).optional(),
+    // How the baseline is referred to in the report, e.g. "Q2 2024"
+    label: z.string().min(1).max(100).default('last period'),
+  })
+  .refine(comparison => !comparison.baselineReportId !== !comparison.baselineData, {
+    message: 'Provide exactly one of baselineReportId or baselineData',
+  });
+export type ComparisonConfig = z.infer<typeof ComparisonConfigSchema>;
+
+// ============================================================================
+// Fact-Checking
+// ============================================================================
+
+// off: skip verification, flag: list wrong figures in the appendix, correct: also fix them
+export const FactCheckModeSchema = z.enum(['off', 'flag', 'correct']);
+export type FactCheckMode = z.infer<typeof FactCheckModeSchema>;
+
+// ============================================================================
+// Generation Mode
+// ============================================================================
+
+// standard: one completion for the whole narrative, long: one completion per section
+export const GenerationModeSchema = z.enum(['standard', 'long']);
+export type GenerationMode = z.infer<typeof GenerationModeSchema>;
+
+// ============================================================================
+// Cover Image
+// ============================================================================
+
+// none: plain cover, ai: generated from the title and style (or a custom prompt),
+// asset: a PNG or JPEG supplied by the caller as base64 (a data URL prefix is allowed)
+// Base64 (or data URI) of a cover asset up to about 1 MB. The asset travels in the workflow
+// input, which has to stay under Temporal's 2 MB payload limit.
+const MAX_COVER_ASSET_LENGTH = 1_400_000;
+
+export const CoverImageConfigSchema = z.discriminatedUnion('source', [
+  z.object({ source: z.literal('none') }),
+  z.object({ source: z.literal('ai'), prompt: z.string().min(1).max(1000).optional() }),
+  z.object({
+    source: z.literal('asset'),
+    data: z
+      .string()
+      .min(1)
+      .max(MAX_COVER_ASSET_LENGTH, { message: 'Cover image asset must be at most 1 MB' }),
+  }),
+]);
+export type CoverImageConfig = z.infer<typeof CoverImageConfigSchema>;
+
+export interface CoverImage {
+  source: 'ai' | 'asset';
+  // File name under the report's uploads in storage
+  filename: string;
+  mimeType: 'image/png' | 'image/jpeg';
+  // Pixel size read from the image header, used to keep the aspect ratio in DOCX
+  width?: number;
+  height?: number;
+  // Prompt the image was generated from (ai only)
+  prompt?: string;
+  // Loaded from storage right before rendering, so it never travels in workflow payloads
+  base64?: string;
+}
+
+// ============================================================================
+// Report Configuration
+// ============================================================================
+
+export const ReportConfigSchema = z.object({
+  title: z.string().min(1).max(200),
+  style: ReportStyleSchema.default('business'),
+  outputFormats: z.array(OutputFormatSchema).min(1).default(['PDF']),
+  branding: BrandingSchema.optional(),
+  sectionsToInclude: z.array(z.string()).optional(),
+  sectionsToExclude: z.array(z.string()).optional(),
+  authorName: z.string().optional(),
+  customPromptInstructions: z.string().max(1000).optional(),
+  webhooks: WebhookConfigSchema.optional(),
+  comparison: ComparisonConfigSchema.optional(),
+  factCheck: FactCheckModeSchema.default('flag'),
+  generationMode: GenerationModeSchema.default('standard'),
+  // Ask the LLM for a short explanation of every chart
+  chartCommentary: z.boolean().default(false),
+  coverImage: CoverImageConfigSchema.optional(),
+  // Fail the report when any input's quality rule fails
+  strictQuality: z.boolean().default(false),
+  // PII redaction applied while profiling; unset fields fall back to PII_POLICY
+  pii: PiiConfigSchema.optional(),
+  // Ignore cached LLM responses for identical prompts and generate a fresh narrative
+  bypassCache: z.boolean().default(false),
+});
+export type ReportConfig = z.infer<typeof ReportConfigSchema>;
+
 // ============================================================================
 // Report Request & Response
 // ============================================================================
@@ -90,6 +314,8 @@ export type InputData = z.infer<typeof InputDataSchema>;
 export const CreateReportRequestSchema = z.object({
   data: z.array(InputDataSchema).min(1),
   config: ReportConfigSchema,
+  // Applied in order; the last result is what the report is built from
+  relations: z.array(DatasetRelationSchema).max(20).optional(),
 });
 export type CreateReportRequest = z.infer<typeof CreateReportRequestSchema>;
 
@@ -111,6 +337,8 @@ export interface ReportMetadata {
   errorMessage?: string;
   progress?: number;
   currentStep?: string;
+  // Set when the report was generated by a recurring schedule
+  scheduleId?: string;
 }
 
 export interface ReportFile {
@@ -124,6 +352,8 @@ export interface Report extends ReportMetadata {
   files?: ReportFile[];
   dataProfile?: DataProfile;
   sections?: ReportSection[];
+  verification?: NarrativeVerification;
+  piiRedaction?: PiiRedactionSummary;
 }
 
 // ============================================================================
@@ -155,18 +385,25 @@ export interface InsightGenerationInput {
   customInstructions?: string;
 }
 
-export interface GeneratedInsight {
-  sectionId: string;
-  sectionTitle: string;
-  content: string;
-  order: number;
-}
+export const GeneratedInsightSchema = z.object({
+  sectionId: z.string().min(1),
+  sectionTitle: z.string().min(1),
+  content: z.string().min(1),
+  order: z.number().int().nonnegative(),
+});
+export type GeneratedInsight = z.infer<typeof GeneratedInsightSchema>;
 
-export interface GeneratedNarrative {
-  executiveSummary: string;
-  sections: GeneratedInsight[];
-  recommendations: string[];
-  keyFindings: string[];
-}
+// Shape the LLM must return; validation errors are fed back to the model for repair
+export const GeneratedNarrativeSchema = z.object({
+  executiveSummary: z.string().min(1),
+  sections: z.array(GeneratedInsightSchema),
+  recommendations: z.array(z.string().min(1)),
+  keyFindings: z.array(z.string().min(1)),
+});
+export type GeneratedNarrative = z.infer<typeof GeneratedNarrativeSchema>;
+
+// Frame written after the sections in long generation mode
+export const NarrativeSummarySchema = GeneratedNarrativeSchema.omit({ sections: true });
+export type NarrativeSummary = z.infer<typeof NarrativeSummarySchema>;
 
 // Re-export for convenience - these are already exported from common.types.ts
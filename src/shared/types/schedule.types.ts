@@ -0,0 +1,64 @@
+/**
+ * Schedule Types
+ * Types for recurring report generation backed by Temporal Schedules
+ */
+import { z } from 'zod';
+
+import { CreateReportRequestSchema, type CreateReportRequest } from './report.types.js';
+
+// ============================================================================
+// Schedule Request
+// ============================================================================
+
+const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const CreateScheduleRequestSchema = z.object({
+  name: z.string().min(1).max(200),
+  // Standard 5-field cron expression (e.g. "0 9 * * MON") or a macro such as "@weekly"
+  cron: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .refine(cron => cron.startsWith('@') || [5, 6, 7].includes(cron.split(/\s+/).length), {
+      message: 'Invalid cron expression',
+    }),
+  timezone: z.string().default('UTC').refine(isValidTimezone, 'Invalid IANA timezone'),
+  // Template for the report generated on every run
+  request: CreateReportRequestSchema,
+  paused: z.boolean().default(false),
+});
+export type CreateScheduleRequest = z.infer<typeof CreateScheduleRequestSchema>;
+
+// ============================================================================
+// Schedule Responses
+// ============================================================================
+
+/**
+ * One run started by a schedule
+ */
+export interface ScheduleRun {
+  workflowId: string;
+  scheduledAt: string;
+  startedAt: string;
+}
+
+export interface ReportSchedule {
+  scheduleId: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  paused: boolean;
+  note?: string;
+  request?: CreateReportRequest;
+  nextRunTimes: string[];
+  recentRuns: ScheduleRun[];
+  createdAt?: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Time-Series Types
+ * Resampled series and trend statistics for datetime + numeric data
+ */
+import type { DeltaDirection } from './comparison.types.js';
+
+export type TimeGranularity = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface TimeSeriesPoint {
+  // ISO timestamp of the bucket start (UTC)
+  period: string;
+  label: string;
+  value: number;
+  // Rows that fell into the bucket; 0 for gaps filled in by resampling
+  count: number;
+}
+
+export interface TimeSeriesTrend {
+  // Least-squares fit over bucket indexes: value = intercept + slope * index
+  slope: number;
+  intercept: number;
+  direction: DeltaDirection;
+}
+
+export interface TimeSeriesSeasonality {
+  // Buckets per cycle, e.g. 12 for monthly data with a yearly pattern
+  period: number;
+  // Autocorrelation of the detrended series at that lag (0-1)
+  strength: number;
+  // Position in the cycle with the highest average, e.g. "December" or "Monday"
+  peak: string;
+}
+
+export interface TimeSeriesMetric {
+  column: string;
+  // Percentages are averaged per bucket, everything else is summed
+  aggregation: 'sum' | 'mean';
+  points: TimeSeriesPoint[];
+  trend: TimeSeriesTrend;
+  // Percent change of the last bucket against the previous one; null when undefined
+  periodOverPeriod: number | null;
+  // Percent change of the last bucket against the same bucket one year earlier
+  yearOverYear: number | null;
+  seasonality?: TimeSeriesSeasonality;
+}
+
+export interface TimeSeriesAnalysis {
+  dateColumn: string;
+  // Typical spacing of the raw timestamps
+  sourceGranularity: TimeGranularity;
+  // Bucket size the series were resampled to
+  granularity: TimeGranularity;
+  start: string;
+  end: string;
+  metrics: TimeSeriesMetric[];
+}
@@ -0,0 +1,134 @@
+/**
+ * Transform Types
+ * Declarative steps that reshape a structured input before it is profiled
+ */
+import { z } from 'zod';
+
+const ColumnNameSchema = z.string().min(1).max(200);
+// Row-level expression, e.g. "revenue > 0 and region != 'Other'" or "profit / revenue"
+const ExpressionSchema = z.string().min(1).max(2000);
+
+export const AggregateFunctionSchema = z.enum([
+  'sum',
+  'mean',
+  'min',
+  'max',
+  'count',
+  'countDistinct',
+]);
+export type AggregateFunction = z.infer<typeof AggregateFunctionSchema>;
+
+export const SelectStepSchema = z.object({
+  op: z.literal('select'),
+  columns: z.array(ColumnNameSchema).min(1),
+});
+
+export const RenameStepSchema = z.object({
+  op: z.literal('rename'),
+  // Old name -> new name
+  columns: z.record(ColumnNameSchema),
+});
+
+export const FilterStepSchema = z.object({
+  op: z.literal('filter'),
+  // Rows for which the expression is true are kept
+  expression: ExpressionSchema,
+});
+
+export const ComputeStepSchema = z.object({
+  op: z.literal('compute'),
+  // New column, or an existing one to overwrite
+  column: ColumnNameSchema,
+  expression: ExpressionSchema,
+});
+
+export const AggregateMetricSchema = z.object({
+  fn: AggregateFunctionSchema,
+  // Not needed for count, which counts rows
+  column: ColumnNameSchema.optional(),
+  // Output column; defaults to "<fn>_<column>", or "count"
+  as: ColumnNameSchema.optional(),
+});
+export type AggregateMetric = z.infer<typeof AggregateMetricSchema>;
+
+export const AggregateStepSchema = z.object({
+  op: z.literal('aggregate'),
+  // No columns collapses the data into a single row of totals
+  groupBy: z.array(ColumnNameSchema).default([]),
+  metrics: z
+    .array(AggregateMetricSchema)
+    .min(1)
+    .refine(metrics => metrics.every(metric => metric.fn === 'count' || metric.column), {
+      message: 'Every metric except count needs a column',
+    }),
+});
+
+export const PivotStepSchema = z.object({
+  op: z.literal('pivot'),
+  // Columns identifying an output row
+  index: z.array(ColumnNameSchema).min(1),
+  // Column whose values become new columns
+  columns: ColumnNameSchema,
+  // Column aggregated into the new columns
+  values: ColumnNameSchema,
+  fn: AggregateFunctionSchema.default('sum'),
+});
+
+export const UnpivotStepSchema = z.object({
+  op: z.literal('unpivot'),
+  // Columns repeated on every output row
+  index: z.array(ColumnNameSchema).min(1),
+  // Columns folded into name/value pairs; defaults to every column not in index
+  columns: z.array(ColumnNameSchema).min(1).optional(),
+  nameColumn: ColumnNameSchema.default('variable'),
+  valueColumn: ColumnNameSchema.default('value'),
+});
+
+export const TruncateDateStepSchema = z.object({
+  op: z.literal('truncateDate'),
+  column: ColumnNameSchema,
+  unit: z.enum(['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year']),
+  // Output column; defaults to overwriting the source column
+  as: ColumnNameSchema.optional(),
+});
+
+export const DedupeStepSchema = z.object({
+  op: z.literal('dedupe'),
+  // Columns that identify a duplicate; defaults to all of them
+  columns: z.array(ColumnNameSchema).min(1).optional(),
+  keep: z.enum(['first', 'last']).default('first'),
+});
+
+export const TransformStepSchema = z.discriminatedUnion('op', [
+  SelectStepSchema,
+  RenameStepSchema,
+  FilterStepSchema,
+  ComputeStepSchema,
+  AggregateStepSchema,
+  PivotStepSchema,
+  UnpivotStepSchema,
+  TruncateDateStepSchema,
+  DedupeStepSchema,
+]);
+export type TransformStep = z.infer<typeof TransformStepSchema>;
+
+// Steps that look at one row at a time, and so can run while a dataset is streamed
+export const ROW_TRANSFORM_OPS: readonly TransformStep['op'][] = [
+  'select',
+  'rename',
+  'filter',
+  'compute',
+  'truncateDate',
+];
+
+/**
+ * A transform step as applied, for the report's methodology appendix
+ */
+export interface TransformRecord {
+  // Dataset the step ran on (set when the input holds several datasets)
+  dataset?: string;
+  op: TransformStep['op'];
+  description: string;
+  rowsBefore: number;
+  rowsAfter: number;
+}
@@ -0,0 +1,75 @@
+/**
+ * Verification Types
+ * Result of fact-checking numeric claims in the AI narrative against the source data
+ */
+import type { FactCheckMode, GeneratedNarrative } from './report.types.js';
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+export type VerifiedMetric =
+  | 'mean'
+  | 'median'
+  | 'min'
+  | 'max'
+  | 'stdDev'
+  | 'total'
+  | 'uniqueCount'
+  | 'nullCount'
+  | 'nullRate'
+  | 'share'
+  | 'categoryCount'
+  | 'rowCount'
+  | 'columnCount'
+  | 'qualityScore';
+
+export type ClaimLocation = 'executiveSummary' | 'keyFindings' | 'sections';
+
+/**
+ * - verified: the quoted figure matches the data (within display precision)
+ * - mismatch: the figure is wrong and was left in place
+ * - corrected: the figure was wrong and has been replaced with the actual value
+ * - unverifiable: a statistic was quoted but could not be tied to a column, or the figure
+ *   does not match and could refer to more than one statistic
+ */
+export type ClaimStatus = 'verified' | 'mismatch' | 'corrected' | 'unverifiable';
+
+export interface ClaimCheck {
+  location: ClaimLocation;
+  // Section the claim appears in (sections only) or the key finding index
+  sectionId?: string;
+  index?: number;
+  sentence: string;
+  // Figure as written in the narrative, e.g. "$1.2M" or "35%"
+  claimed: string;
+  claimedValue: number;
+  metric: VerifiedMetric;
+  column?: string;
+  // Category the share or row count refers to (share and categoryCount claims only)
+  value?: string;
+  actual?: number;
+  status: ClaimStatus;
+  // Replacement text for the figure (corrected claims only)
+  correction?: string;
+}
+
+// ============================================================================
+// Verification Summary
+// ============================================================================
+
+export interface NarrativeVerification {
+  mode: Exclude<FactCheckMode, 'off'>;
+  checkedAt: string;
+  totalClaims: number;
+  verified: number;
+  mismatched: number;
+  corrected: number;
+  unverifiable: number;
+  checks: ClaimCheck[];
+}
+
+export interface VerifiedNarrative {
+  narrative: GeneratedNarrative;
+  verification: NarrativeVerification;
+}
@@ -0,0 +1,58 @@
+/**
+ * Webhook Types
+ * Types for outbound report lifecycle notifications
+ */
+import { z } from 'zod';
+
+import type { ReportFile } from './report.types.js';
+
+// ============================================================================
+// Webhook Configuration
+// ============================================================================
+
+export const WebhookEventSchema = z.enum(['report.completed', 'report.failed', 'report.cancelled']);
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+export const WebhookConfigSchema = z.object({
+  urls: z.array(z.string().url()).min(1).max(5),
+  // Used to sign each payload with HMAC-SHA256
+  secret: z.string().min(16).max(256),
+  // Defaults to every lifecycle event
+  events: z.array(WebhookEventSchema).min(1).optional(),
+});
+export type WebhookConfig = z.infer<typeof WebhookConfigSchema>;
+
+// ============================================================================
+// Webhook Payload & Delivery Log
+// ============================================================================
+
+/**
+ * Body POSTed to each callback URL
+ */
+export interface WebhookPayload {
+  // Stable across retries so receivers can de-duplicate
+  id: string;
+  event: WebhookEvent;
+  reportId: string;
+  timestamp: string;
+  data: {
+    title: string;
+    files?: ReportFile[];
+    error?: string;
+  };
+}
+
+/**
+ * One delivery attempt, as recorded in the report's delivery log
+ */
+export interface WebhookDelivery {
+  webhookId: string;
+  event: WebhookEvent;
+  url: string;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  deliveredAt: string;
+}
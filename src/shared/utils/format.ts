@@ -0,0 +1,26 @@
+/**
+ * Display formatting for profiled column values
+ */
+
+import type { ColumnProfile } from '../types/index.js';
+
+/**
+ * Format a column statistic for tables and summaries: amounts get their currency,
+ * percentages a percent sign, everything else digit grouping
+ */
+export function formatColumnValue(
+  value: number | string | undefined,
+  column: Pick<ColumnProfile, 'semanticType' | 'currency'>,
+  maximumFractionDigits = 2
+): string {
+  if (value === undefined) return 'N/A';
+  if (typeof value === 'string') return value;
+
+  if (column.semanticType === 'currency' && column.currency) {
+    // The currency decides its own precision (two digits for USD, none for JPY)
+    return value.toLocaleString('en-US', { style: 'currency', currency: column.currency.code });
+  }
+
+  const formatted = value.toLocaleString('en-US', { maximumFractionDigits });
+  return column.semanticType === 'percentage' ? `${formatted}%` : formatted;
+}
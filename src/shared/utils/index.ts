@@ -1 +1,2 @@
+export { formatColumnValue } from './format.js';
 export { toonUtils } from './toon.js';
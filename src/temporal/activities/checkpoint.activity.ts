@@ -0,0 +1,85 @@
+import { createModuleLogger } from '../../core/index.js';
+import { storage } from '../../services/index.js';
+import type {
+  CoverImage,
+  GeneratedChart,
+  GeneratedNarrative,
+  ProfileComparison,
+  VerifiedNarrative,
+} from '../../shared/types/index.js';
+import type { ReportGenerationWorkflowInput } from '../workflows/index.js';
+
+import type { ProfileDataOutput } from './profiling.activity.js';
+
+const logger = createModuleLogger('checkpoint-activity');
+
+// ============================================================================
+// Activity: Load Checkpoints
+// ============================================================================
+
+export interface LoadCheckpointsInput {
+  reportId: string;
+}
+
+/**
+ * Outputs persisted by earlier runs of the report workflow, keyed by step
+ */
+export interface ReportCheckpoints {
+  profile?: ProfileDataOutput;
+  comparison?: ProfileComparison;
+  narrative?: GeneratedNarrative;
+  verification?: VerifiedNarrative;
+  charts?: GeneratedChart[];
+  cover?: CoverImage;
+  html?: string;
+}
+
+export async function loadCheckpoints(input: LoadCheckpointsInput): Promise<ReportCheckpoints> {
+  logger.info(`Loading checkpoints for report: ${input.reportId}`);
+
+  const [profile, comparison, narrative, verification, charts, cover, layout] = await Promise.all([
+    storage.getCheckpoint<ProfileDataOutput>(input.reportId, 'profile'),
+    storage.getCheckpoint<ProfileComparison>(input.reportId, 'comparison'),
+    storage.getCheckpoint<GeneratedNarrative>(input.reportId, 'narrative'),
+    storage.getCheckpoint<VerifiedNarrative>(input.reportId, 'verification'),
+    storage.getCheckpoint<GeneratedChart[]>(input.reportId, 'charts'),
+    storage.getCheckpoint<CoverImage>(input.reportId, 'cover'),
+    storage.getCheckpoint<{ html: string }>(input.reportId, 'html'),
+  ]);
+
+  const checkpoints: ReportCheckpoints = {
+    profile: profile ?? undefined,
+    comparison: comparison ?? undefined,
+    narrative: narrative ?? undefined,
+    verification: verification ?? undefined,
+    charts: charts ?? undefined,
+    cover: cover ?? undefined,
+    html: layout?.html,
+  };
+
+  logger.info(`Found checkpoints for report: ${input.reportId}`, {
+    steps: Object.entries(checkpoints)
+      .filter(([, value]) => value !== undefined)
+      .map(([step]) => step),
+  });
+
+  return checkpoints;
+}
+
+// ============================================================================
+// Activity: Save Input Checkpoint
+// ============================================================================
+
+export interface SaveInputCheckpointInput {
+  reportId: string;
+  input: ReportGenerationWorkflowInput;
+}
+
+/**
+ * Persist the original request for reports started from a workflow (e.g. schedules)
+ * so they can be retried the same way as reports started through the API
+ */
+export async function saveInputCheckpoint(input: SaveInputCheckpointInput): Promise<void> {
+  await storage.saveCheckpoint(input.reportId, 'input', input.input);
+  logger.info(`Saved input checkpoint for report: ${input.reportId}`);
+}
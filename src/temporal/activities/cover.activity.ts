@@ -0,0 +1,144 @@
+import { ApplicationFailure, Context } from '@temporalio/activity';
+
+import { createModuleLogger } from '../../core/index.js';
+import { llmService, storage } from '../../services/index.js';
+import type { CoverImage, CoverImageConfig, ReportStyle } from '../../shared/types/index.js';
+
+const logger = createModuleLogger('cover-activity');
+
+// ============================================================================
+// Activity: Prepare Cover Image
+// ============================================================================
+
+export interface PrepareCoverImageInput {
+  reportId: string;
+  title: string;
+  style: ReportStyle;
+  coverImage: CoverImageConfig;
+}
+
+/**
+ * Generate or decode the cover image and store it with the report's uploads.
+ * Returns null when no image is requested or AI generation fails, so the report
+ * falls back to the plain cover.
+ */
+export async function prepareCoverImage(input: PrepareCoverImageInput): Promise<CoverImage | null> {
+  const { coverImage } = input;
+  if (coverImage.source === 'none') {
+    return null;
+  }
+
+  logger.info(`Preparing ${coverImage.source} cover image for report: ${input.reportId}`);
+
+  if (coverImage.source === 'asset') {
+    const data = Buffer.from(coverImage.data.replace(/^data:[^,]*,/, ''), 'base64');
+    const mimeType = detectImageType(data);
+    if (!mimeType) {
+      throw ApplicationFailure.nonRetryable(
+        'Cover image asset must be a base64-encoded PNG or JPEG',
+        'InvalidInputError'
+      );
+    }
+
+    return saveCoverImage(input.reportId, data, {
+      source: 'asset',
+      mimeType,
+      ...readImageSize(data, mimeType),
+    });
+  }
+
+  const activityCtx = Context.current();
+  const heartbeat = setInterval(
+    () => activityCtx.heartbeat({ step: 'prepareCoverImage', reportId: input.reportId }),
+    5000
+  );
+
+  try {
+    const prompt =
+      coverImage.prompt ?? (await llmService.generateCoverImagePrompt(input.title, input.style));
+    const base64 = await llmService.generateImage(prompt, '1792x1024', input.reportId);
+
+    const data = Buffer.from(base64, 'base64');
+
+    return await saveCoverImage(input.reportId, data, {
+      source: 'ai',
+      mimeType: 'image/png',
+      ...readImageSize(data, 'image/png'),
+      prompt,
+    });
+  } catch (error) {
+    // The cover image is decorative, so a failed generation should not fail the report
+    logger.warn(`Could not generate cover image for report: ${input.reportId}`, { error });
+    return null;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Attach the stored image data to a cover image before it is handed to a generator
+ */
+export async function loadCoverImage(
+  reportId: string,
+  coverImage?: CoverImage
+): Promise<CoverImage | undefined> {
+  if (!coverImage) {
+    return undefined;
+  }
+
+  const data = await storage.getUpload(reportId, coverImage.filename);
+  if (!data) {
+    logger.warn(`Cover image missing from storage: ${coverImage.filename}`);
+    return undefined;
+  }
+
+  return { ...coverImage, base64: data.toString('base64') };
+}
+
+async function saveCoverImage(
+  reportId: string,
+  data: Buffer,
+  image: Omit<CoverImage, 'filename'>
+): Promise<CoverImage> {
+  const filename = `cover.${image.mimeType === 'image/png' ? 'png' : 'jpg'}`;
+  await storage.saveUpload(reportId, filename, data);
+
+  const cover: CoverImage = { ...image, filename };
+  await storage.saveCheckpoint(reportId, 'cover', cover);
+
+  logger.info(`Stored cover image for report: ${reportId}`, { filename, bytes: data.length });
+  return cover;
+}
+
+function detectImageType(data: Buffer): CoverImage['mimeType'] | null {
+  if (data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))) {
+    return 'image/png';
+  }
+  if (data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) {
+    return 'image/jpeg';
+  }
+  return null;
+}
+
+function readImageSize(
+  data: Buffer,
+  mimeType: CoverImage['mimeType']
+): { width: number; height: number } | undefined {
+  if (mimeType === 'image/png') {
+    // IHDR is always the first chunk: width and height follow the 8-byte signature and chunk header
+    return data.length >= 24
+      ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+      : undefined;
+  }
+
+  // Walk the JPEG segments until a start-of-frame marker (SOF0-SOF15, except DHT/JPG/DAC)
+  let offset = 2;
+  while (offset + 9 < data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
@@ -1,19 +1,30 @@
 import { Context } from '@temporalio/activity';
 
 import { createModuleLogger } from '../../core/index.js';
-import { docxGenerator, pdfGenerator, storage } from '../../services/index.js';
+import {
+  docxGenerator,
+  pdfGenerator,
+  resolveReportSections,
+  storage,
+} from '../../services/index.js';
 import type {
   Branding,
+  CoverImage,
   DataProfile,
   GeneratedChart,
   GeneratedNarrative,
+  NarrativeVerification,
   OutputFormat,
+  PiiRedactionSummary,
+  ProfileComparison,
   Report,
   ReportFile,
   ReportStatus,
   ReportStyle,
 } from '../../shared/types/index.js';
 
+import { loadCoverImage } from './cover.activity.js';
+
 const logger = createModuleLogger('export-activity');
 
 // ============================================================================
@@ -30,6 +41,13 @@ export interface ExportFormatsInput {
   charts: GeneratedChart[];
   profile: DataProfile;
   branding?: Branding;
+  comparison?: ProfileComparison;
+  verification?: NarrativeVerification;
+  coverImage?: CoverImage;
+  sectionsToInclude?: string[];
+  sectionsToExclude?: string[];
+  // Regenerate PDF/DOCX even if a previous run left files behind (set when resuming)
+  overwrite?: boolean;
 }
 
 export async function exportFormats(input: ExportFormatsInput): Promise<ReportFile[]> {
@@ -112,7 +130,7 @@ async function exportSingleFormat(
 
     case 'PDF': {
       const pdfPath = await storage.getOutputFilePath(input.reportId, `${input.reportId}.pdf`);
-      const pdfExists = await storage.fileExists(pdfPath);
+      const pdfExists = !input.overwrite && (await storage.fileExists(pdfPath));
       const pdfSize = pdfExists
         ? await storage.getFileSize(pdfPath)
         : (await pdfGenerator.generateFromHTML(input.html, input.reportId, `${input.reportId}.pdf`))
@@ -135,10 +153,15 @@ async function exportSingleFormat(
         outputFormats: input.outputFormats,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
+        sections: resolveReportSections(
+          input.style,
+          input.sectionsToInclude,
+          input.sectionsToExclude
+        ),
       };
 
       const docxPath = await storage.getOutputFilePath(input.reportId, `${input.reportId}.docx`);
-      const docxExists = await storage.fileExists(docxPath);
+      const docxExists = !input.overwrite && (await storage.fileExists(docxPath));
       const docxSize = docxExists
         ? await storage.getFileSize(docxPath)
         : (
@@ -147,7 +170,10 @@ async function exportSingleFormat(
               input.narrative,
               input.charts,
               input.profile,
-              input.branding
+              input.branding,
+              input.comparison,
+              input.verification,
+              await loadCoverImage(input.reportId, input.coverImage)
             )
           ).size;
 
@@ -176,6 +202,9 @@ export interface FinalizeReportInput {
   outputFormats: OutputFormat[];
   files: ReportFile[];
   profile: DataProfile;
+  verification?: NarrativeVerification;
+  piiRedaction?: PiiRedactionSummary;
+  scheduleId?: string;
 }
 
 export async function finalizeReport(input: FinalizeReportInput): Promise<Report> {
@@ -192,6 +221,9 @@ export async function finalizeReport(input: FinalizeReportInput): Promise<Report
     completedAt: new Date().toISOString(),
     files: input.files,
     dataProfile: input.profile,
+    verification: input.verification,
+    piiRedaction: input.piiRedaction,
+    scheduleId: input.scheduleId,
   };
 
   await storage.saveReport(input.reportId, report);
@@ -211,6 +243,7 @@ export interface UpdateStatusInput {
   progress?: number;
   currentStep?: string;
   errorMessage?: string;
+  scheduleId?: string;
 }
 
 export async function updateReportStatus(input: UpdateStatusInput): Promise<void> {
@@ -224,6 +257,7 @@ export async function updateReportStatus(input: UpdateStatusInput): Promise<void
     progress: input.progress,
     currentStep: input.currentStep,
     errorMessage: input.errorMessage,
+    scheduleId: input.scheduleId,
     updatedAt: new Date().toISOString(),
   });
 }
@@ -1,18 +1,38 @@
-import { Context } from '@temporalio/activity';
+import { ApplicationFailure, Context } from '@temporalio/activity';
 
-import { createModuleLogger } from '../../core/index.js';
-import { chartGenerator, htmlGenerator, openaiService, storage } from '../../services/index.js';
+import { config, createModuleLogger } from '../../core/index.js';
+import {
+  buildComparisonContext,
+  buildDataContext,
+  chartGenerator,
+  describeChartData,
+  factChecker,
+  getNarrativeSectionTemplates,
+  htmlGenerator,
+  llmService,
+  NarrativeValidationError,
+  resolveReportSections,
+  storage,
+} from '../../services/index.js';
 import type {
   Branding,
+  CoverImage,
   DataProfile,
+  FactCheckMode,
   GeneratedChart,
+  GeneratedInsight,
   GeneratedNarrative,
+  NarrativeVerification,
+  ProfileComparison,
   Report,
   ReportConfig,
   ReportStatus,
   ReportStyle,
+  VerifiedNarrative,
 } from '../../shared/types/index.js';
 
+import { loadCoverImage } from './cover.activity.js';
+
 const logger = createModuleLogger('generation-activity');
 
 // ============================================================================
@@ -25,6 +45,7 @@ export interface GenerateInsightsInput {
   parsedData: Record<string, unknown>[];
   textContent: string[];
   config: ReportConfig;
+  comparison?: ProfileComparison;
 }
 
 export async function generateInsights(input: GenerateInsightsInput): Promise<GeneratedNarrative> {
@@ -40,24 +61,234 @@ export async function generateInsights(input: GenerateInsightsInput): Promise<Ge
   await storage.saveReport(input.reportId, { status: 'INSIGHT_GENERATION' });
 
   try {
-  const narrative = await openaiService.generateNarrative(
-    input.profile,
-    input.parsedData,
-    input.textContent,
+    const narrative = await llmService.generateNarrative(
+      input.profile,
+      input.parsedData,
+      input.textContent,
+      input.config.style,
+      input.config.title,
+      input.config.customPromptInstructions,
+      input.reportId,
+      input.comparison,
+      resolveReportSections(
+        input.config.style,
+        input.config.sectionsToInclude,
+        input.config.sectionsToExclude
+      ),
+      input.config.bypassCache
+    );
+
+    logger.info(`Generated ${narrative.sections.length} sections for report: ${input.reportId}`);
+
+    await storage.saveCheckpoint(input.reportId, 'narrative', narrative);
+
+    return narrative;
+  } catch (error) {
+    // Retrying the activity would repeat the same repair attempts, so fail fast
+    if (error instanceof NarrativeValidationError) {
+      throw ApplicationFailure.nonRetryable(error.message, 'NarrativeValidationError', {
+        issues: error.issues,
+      });
+    }
+    throw error;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// ============================================================================
+// Activity: Plan Narrative (long generation mode)
+// ============================================================================
+
+export interface PlanNarrativeInput {
+  reportId: string;
+  config: ReportConfig;
+}
+
+/**
+ * One section of the long-mode outline. previousSections lists the titles of the sections
+ * before it, so every section can be written without waiting for the others.
+ */
+export interface NarrativeSectionPlan {
+  sectionId: string;
+  title: string;
+  promptHint?: string;
+  order: number;
+  previousSections: string[];
+}
+
+export interface NarrativeOutline {
+  sections: NarrativeSectionPlan[];
+  // Sections the workflow generates in parallel
+  concurrency: number;
+}
+
+export async function planNarrative(input: PlanNarrativeInput): Promise<NarrativeOutline> {
+  await storage.saveReport(input.reportId, { status: 'INSIGHT_GENERATION' });
+
+  const templates = getNarrativeSectionTemplates(
     input.config.style,
-    input.config.title,
-    input.config.customPromptInstructions,
-    input.reportId
+    resolveReportSections(
+      input.config.style,
+      input.config.sectionsToInclude,
+      input.config.sectionsToExclude
+    )
+  );
+
+  const sections = templates.map((template, index) => ({
+    sectionId: template.id,
+    title: template.title,
+    promptHint: template.promptHint,
+    order: index + 1,
+    previousSections: templates.slice(0, index).map(previous => previous.title),
+  }));
+
+  logger.info(`Planned ${sections.length} sections for report: ${input.reportId}`);
+
+  return { sections, concurrency: Math.max(1, config.llm.sectionConcurrency) };
+}
+
+// ============================================================================
+// Activity: Generate Section (long generation mode)
+// ============================================================================
+
+export interface GenerateSectionInput {
+  reportId: string;
+  section: NarrativeSectionPlan;
+  profile: DataProfile;
+  // Only the first rows are quoted in the prompt, so the workflow passes a sample
+  sampleData: Record<string, unknown>[];
+  textContent: string[];
+  style: ReportStyle;
+  comparison?: ProfileComparison;
+  bypassCache?: boolean;
+}
+
+export async function generateSection(input: GenerateSectionInput): Promise<GeneratedInsight> {
+  const { section } = input;
+  logger.info(`Generating section "${section.sectionId}" for report: ${input.reportId}`);
+
+  const activityCtx = Context.current();
+  const heartbeat = setInterval(
+    () =>
+      activityCtx.heartbeat({
+        step: 'generateSection',
+        reportId: input.reportId,
+        sectionId: section.sectionId,
+      }),
+    5000
+  );
+
+  try {
+    const context = [
+      section.promptHint ? `Focus: ${section.promptHint}` : '',
+      buildDataContext(input.profile, input.sampleData, input.textContent),
+      input.comparison ? buildComparisonContext(input.comparison) : '',
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    const content = await llmService.generateSectionContent(
+      section.title,
+      context,
+      input.style,
+      section.previousSections,
+      input.reportId,
+      input.bypassCache
+    );
+
+    return {
+      sectionId: section.sectionId,
+      sectionTitle: section.title,
+      content,
+      order: section.order,
+    };
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// ============================================================================
+// Activity: Summarize Narrative (long generation mode)
+// ============================================================================
+
+export interface SummarizeNarrativeInput {
+  reportId: string;
+  sections: GeneratedInsight[];
+  profile: DataProfile;
+  sampleData: Record<string, unknown>[];
+  textContent: string[];
+  config: ReportConfig;
+  comparison?: ProfileComparison;
+}
+
+/**
+ * Write the executive summary, key findings and recommendations from the finished sections
+ * and assemble the narrative
+ */
+export async function summarizeNarrative(
+  input: SummarizeNarrativeInput
+): Promise<GeneratedNarrative> {
+  logger.info(`Summarizing ${input.sections.length} sections for report: ${input.reportId}`);
+
+  const activityCtx = Context.current();
+  const heartbeat = setInterval(
+    () => activityCtx.heartbeat({ step: 'summarizeNarrative', reportId: input.reportId }),
+    5000
   );
 
-  logger.info(`Generated ${narrative.sections.length} sections for report: ${input.reportId}`);
+  try {
+    const summary = await llmService.generateNarrativeSummary(
+      input.profile,
+      input.sampleData,
+      input.textContent,
+      input.sections,
+      input.config.style,
+      input.config.title,
+      input.config.customPromptInstructions,
+      input.reportId,
+      input.comparison,
+      input.config.bypassCache
+    );
 
-  return narrative;
+    const narrative: GeneratedNarrative = { ...summary, sections: input.sections };
+    await storage.saveCheckpoint(input.reportId, 'narrative', narrative);
+
+    return narrative;
+  } catch (error) {
+    if (error instanceof NarrativeValidationError) {
+      throw ApplicationFailure.nonRetryable(error.message, 'NarrativeValidationError', {
+        issues: error.issues,
+      });
+    }
+    throw error;
   } finally {
     clearInterval(heartbeat);
   }
 }
 
+// ============================================================================
+// Activity: Verify Narrative
+// ============================================================================
+
+export interface VerifyNarrativeInput {
+  reportId: string;
+  narrative: GeneratedNarrative;
+  profile: DataProfile;
+  mode: Exclude<FactCheckMode, 'off'>;
+  comparison?: ProfileComparison;
+}
+
+export async function verifyNarrative(input: VerifyNarrativeInput): Promise<VerifiedNarrative> {
+  logger.info(`Fact-checking narrative for report: ${input.reportId}`);
+
+  const verified = factChecker.verify(input.narrative, input.profile, input.mode, input.comparison);
+
+  await storage.saveCheckpoint(input.reportId, 'verification', verified);
+
+  return verified;
+}
+
 // ============================================================================
 // Activity: Generate Charts
 // ============================================================================
@@ -66,6 +297,7 @@ export interface GenerateChartsInput {
   reportId: string;
   profile: DataProfile;
   parsedData: Record<string, unknown>[];
+  comparison?: ProfileComparison;
 }
 
 export async function generateCharts(input: GenerateChartsInput): Promise<GeneratedChart[]> {
@@ -81,16 +313,85 @@ export async function generateCharts(input: GenerateChartsInput): Promise<Genera
   await storage.saveReport(input.reportId, { status: 'CHART_GENERATION' });
 
   try {
-  const charts = await chartGenerator.generateCharts(
-    input.profile.suggestedCharts,
-    input.parsedData,
-    input.reportId,
-    input.profile
+    const charts = await chartGenerator.generateCharts(
+      input.profile.suggestedCharts,
+      input.parsedData,
+      input.reportId,
+      input.profile
+    );
+
+    if (input.comparison) {
+      const comparisonCharts = await chartGenerator.generateComparisonCharts(
+        input.comparison,
+        input.reportId
+      );
+      charts.push(...comparisonCharts);
+    }
+
+    logger.info(`Generated ${charts.length} charts for report: ${input.reportId}`);
+
+    await storage.saveCheckpoint(input.reportId, 'charts', charts);
+
+    return charts;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// ============================================================================
+// Activity: Generate Chart Commentary
+// ============================================================================
+
+export interface GenerateChartCommentaryInput {
+  reportId: string;
+  charts: GeneratedChart[];
+}
+
+export async function generateChartCommentary(
+  input: GenerateChartCommentaryInput
+): Promise<GeneratedChart[]> {
+  logger.info(`Generating chart commentary for report: ${input.reportId}`);
+
+  const activityCtx = Context.current();
+  const heartbeat = setInterval(
+    () => activityCtx.heartbeat({ step: 'generateChartCommentary', reportId: input.reportId }),
+    5000
   );
 
-  logger.info(`Generated ${charts.length} charts for report: ${input.reportId}`);
+  try {
+    const charts: GeneratedChart[] = [];
+
+    // One chart at a time: each call updates the report's cost record
+    for (const chart of input.charts) {
+      if (chart.commentary) {
+        charts.push(chart);
+        continue;
+      }
+
+      try {
+        const commentary = await llmService.generateChartAnalysis(
+          chart.config.title,
+          chart.config.type,
+          describeChartData(chart.config),
+          input.reportId,
+          chart.id
+        );
+        charts.push(commentary.trim() ? { ...chart, commentary: commentary.trim() } : chart);
+      } catch (error) {
+        // Commentary is optional, so a failed chart is rendered without it
+        logger.warn(`Could not generate commentary for chart: ${chart.id}`, { error });
+        charts.push(chart);
+      }
+    }
+
+    const annotated = charts.filter(chart => chart.commentary).length;
+    logger.info(
+      `Added commentary to ${annotated}/${charts.length} charts for report: ${input.reportId}`
+    );
+
+    await storage.saveCheckpoint(input.reportId, 'charts', charts);
 
-  return charts;
+    return charts;
   } finally {
     clearInterval(heartbeat);
   }
@@ -108,6 +409,11 @@ export interface RenderLayoutInput {
   charts: GeneratedChart[];
   profile: DataProfile;
   branding?: Branding;
+  comparison?: ProfileComparison;
+  verification?: NarrativeVerification;
+  coverImage?: CoverImage;
+  sectionsToInclude?: string[];
+  sectionsToExclude?: string[];
 }
 
 export async function renderLayout(input: RenderLayoutInput): Promise<string> {
@@ -124,6 +430,7 @@ export async function renderLayout(input: RenderLayoutInput): Promise<string> {
     outputFormats: ['HTML'],
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
+    sections: resolveReportSections(input.style, input.sectionsToInclude, input.sectionsToExclude),
   };
 
   const html = htmlGenerator.generateReport(
@@ -131,12 +438,16 @@ export async function renderLayout(input: RenderLayoutInput): Promise<string> {
     input.narrative,
     input.charts,
     input.profile,
-    input.branding
+    input.branding,
+    input.comparison,
+    input.verification,
+    await loadCoverImage(input.reportId, input.coverImage)
   );
 
   // Save HTML
   const filename = `${input.reportId}.html`;
   await storage.saveOutputFile(input.reportId, filename, Buffer.from(html));
+  await storage.saveCheckpoint(input.reportId, 'html', { html });
 
   logger.info(`Layout rendered for report: ${input.reportId}`);
 
@@ -1,4 +1,16 @@
 // Re-export all activities
+export {
+  loadCheckpoints,
+  type LoadCheckpointsInput,
+  type ReportCheckpoints,
+  saveInputCheckpoint,
+  type SaveInputCheckpointInput,
+} from './checkpoint.activity.js';
+export {
+  loadCoverImage,
+  prepareCoverImage,
+  type PrepareCoverImageInput,
+} from './cover.activity.js';
 export {
   exportFormats,
   type ExportFormatsInput,
@@ -8,30 +20,67 @@ export {
   type UpdateStatusInput,
 } from './export.activity.js';
 export {
+  generateChartCommentary,
+  type GenerateChartCommentaryInput,
   generateCharts,
   type GenerateChartsInput,
   generateInsights,
   type GenerateInsightsInput,
+  generateSection,
+  type GenerateSectionInput,
+  type NarrativeOutline,
+  type NarrativeSectionPlan,
+  planNarrative,
+  type PlanNarrativeInput,
   renderLayout,
   type RenderLayoutInput,
+  summarizeNarrative,
+  type SummarizeNarrativeInput,
+  verifyNarrative,
+  type VerifyNarrativeInput,
 } from './generation.activity.js';
 export {
+  compareProfiles,
+  type CompareProfilesInput,
   profileData,
   type ProfileDataInput,
   type ProfileDataOutput,
 } from './profiling.activity.js';
+export { deliverWebhook, type DeliverWebhookInput } from './webhook.activity.js';
 
 // Import and re-export all activities as a single object
+import { loadCheckpoints, saveInputCheckpoint } from './checkpoint.activity.js';
+import { prepareCoverImage } from './cover.activity.js';
 import { exportFormats, finalizeReport, updateReportStatus } from './export.activity.js';
-import { generateCharts, generateInsights, renderLayout } from './generation.activity.js';
-import { profileData } from './profiling.activity.js';
+import {
+  generateChartCommentary,
+  generateCharts,
+  generateInsights,
+  generateSection,
+  planNarrative,
+  renderLayout,
+  summarizeNarrative,
+  verifyNarrative,
+} from './generation.activity.js';
+import { compareProfiles, profileData } from './profiling.activity.js';
+import { deliverWebhook } from './webhook.activity.js';
 
 export const activities = {
+  loadCheckpoints,
+  saveInputCheckpoint,
   profileData,
+  compareProfiles,
   generateInsights,
+  planNarrative,
+  generateSection,
+  summarizeNarrative,
+  verifyNarrative,
   generateCharts,
+  generateChartCommentary,
+  prepareCoverImage,
   renderLayout,
   exportFormats,
   finalizeReport,
   updateReportStatus,
+  deliverWebhook,
 };
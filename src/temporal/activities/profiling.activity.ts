@@ -1,8 +1,17 @@
-import { Context } from '@temporalio/activity';
+import { ApplicationFailure, Context } from '@temporalio/activity';
 
 import { createModuleLogger } from '../../core/index.js';
-import { dataProfiler, storage } from '../../services/index.js';
-import type { DataProfile, InputData } from '../../shared/types/index.js';
+import { dataProfiler, profileComparator, storage } from '../../services/index.js';
+import type {
+  ComparisonConfig,
+  DataProfile,
+  DatasetRelation,
+  InputData,
+  PiiConfig,
+  PiiRedactionSummary,
+  ProfileComparison,
+  Report,
+} from '../../shared/types/index.js';
 
 const logger = createModuleLogger('profiling-activity');
 
@@ -13,12 +22,18 @@ const logger = createModuleLogger('profiling-activity');
 export interface ProfileDataInput {
   reportId: string;
   inputData: InputData[];
+  relations?: DatasetRelation[];
+  pii?: PiiConfig;
+  // Fail when any quality rule fails
+  strictQuality?: boolean;
 }
 
 export interface ProfileDataOutput {
   profile: DataProfile;
+  // At most PROFILE_SAMPLE_ROWS rows; charts of category totals and time series use the profile
   parsedData: Record<string, unknown>[];
   textContent: string[];
+  piiRedaction?: PiiRedactionSummary;
 }
 
 export async function profileData(input: ProfileDataInput): Promise<ProfileDataOutput> {
@@ -31,20 +46,108 @@ export async function profileData(input: ProfileDataInput): Promise<ProfileDataO
   );
 
   try {
-    const { profile, parsedData, textContent } = await dataProfiler.profileData(input.inputData);
+    const { profile, parsedData, textContent, piiRedaction } = await dataProfiler.profileData(
+      input.inputData,
+      input.relations,
+      input.pii
+    );
 
-    // Store intermediate result
+    // Store intermediate result; the redaction summary is kept even when it blocks the report
     await storage.saveReport(input.reportId, {
       status: 'DATA_PROFILING',
-      dataProfile: profile,
+      dataProfile: piiRedaction?.blocked ? undefined : profile,
+      piiRedaction,
     });
+    if (piiRedaction?.blocked) {
+      throw blockedByPii(piiRedaction);
+    }
+
+    // The profile above keeps the failed checks, so the stored report shows what broke
+    const failedChecks = (profile.qualityChecks ?? []).filter(check => !check.passed);
+    if (input.strictQuality && failedChecks.length > 0) {
+      throw ApplicationFailure.nonRetryable(
+        `Data quality rules failed: ${failedChecks.map(check => check.description).join('; ')}`,
+        'DataQualityError'
+      );
+    }
 
     logger.info(
       `Data profiling complete: ${profile.rowCount} rows, ${profile.columnCount} columns`
     );
 
-    return { profile, parsedData, textContent };
+    const output: ProfileDataOutput = { profile, parsedData, textContent, piiRedaction };
+    await storage.saveCheckpoint(input.reportId, 'profile', output);
+
+    return output;
   } finally {
     clearInterval(heartbeat);
   }
 }
+
+// ============================================================================
+// Activity: Compare Profiles
+// ============================================================================
+
+export interface CompareProfilesInput {
+  reportId: string;
+  profile: DataProfile;
+  comparison: ComparisonConfig;
+  pii?: PiiConfig;
+}
+
+export async function compareProfiles(input: CompareProfilesInput): Promise<ProfileComparison> {
+  const { baselineReportId, baselineData, label } = input.comparison;
+
+  logger.info(`Comparing report ${input.reportId} against ${label}`, { baselineReportId });
+
+  let baseline: DataProfile | undefined;
+  if (baselineReportId) {
+    baseline = await loadBaselineProfile(baselineReportId);
+    if (!baseline) {
+      throw ApplicationFailure.nonRetryable(
+        `Baseline report ${baselineReportId} has no data profile`,
+        'InvalidInputError'
+      );
+    }
+  } else {
+    const baselineProfile = await dataProfiler.profileData(baselineData ?? [], [], input.pii);
+    if (baselineProfile.piiRedaction?.blocked) {
+      throw blockedByPii(baselineProfile.piiRedaction);
+    }
+    ({ profile: baseline } = baselineProfile);
+  }
+
+  const comparison = profileComparator.compare(baseline, input.profile, label, baselineReportId);
+  await storage.saveCheckpoint(input.reportId, 'comparison', comparison);
+
+  return comparison;
+}
+
+/**
+ * Non-retryable failure for input the block policy rejected; profiling again finds the same
+ */
+function blockedByPii(summary: PiiRedactionSummary): ApplicationFailure {
+  const counts = new Map<string, number>();
+  for (const finding of summary.findings) {
+    counts.set(finding.type, (counts.get(finding.type) ?? 0) + finding.count);
+  }
+  const found = [...counts].map(([type, count]) => `${count} ${type}`).join(', ');
+  return ApplicationFailure.nonRetryable(
+    `Report blocked by PII policy: input contains ${found}`,
+    'PiiDetectedError'
+  );
+}
+
+/**
+ * Prefer the profiling checkpoint; reports generated before checkpoints existed
+ * only keep the profile on the stored report
+ */
+async function loadBaselineProfile(reportId: string): Promise<DataProfile | undefined> {
+  const checkpoint = await storage.getCheckpoint<ProfileDataOutput>(reportId, 'profile');
+  if (checkpoint) {
+    return checkpoint.profile;
+  }
+
+  const report = (await storage.getReport(reportId)) as Partial<Report> | null;
+  return report?.dataProfile;
+}
@@ -0,0 +1,78 @@
+import { ApplicationFailure, Context } from '@temporalio/activity';
+
+import { createModuleLogger } from '../../core/index.js';
+import { webhookService } from '../../services/index.js';
+import type { WebhookDelivery, WebhookPayload } from '../../shared/types/index.js';
+
+const logger = createModuleLogger('webhook-activity');
+
+// Client errors that are worth retrying; any other 4xx means the receiver rejected the payload
+const RETRYABLE_CLIENT_STATUSES = [408, 409, 425, 429];
+
+// ============================================================================
+// Activity: Deliver Webhook
+// ============================================================================
+
+export interface DeliverWebhookInput {
+  reportId: string;
+  url: string;
+  secret: string;
+  payload: WebhookPayload;
+}
+
+export async function deliverWebhook(input: DeliverWebhookInput): Promise<WebhookDelivery> {
+  const { attempt } = Context.current().info;
+  const startedAt = Date.now();
+
+  logger.info(`Delivering ${input.payload.event} webhook for report: ${input.reportId}`, {
+    url: input.url,
+    attempt,
+  });
+
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  try {
+    statusCode = await webhookService.send(input.url, input.payload, input.secret);
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `Receiver responded with HTTP ${statusCode}`;
+    }
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : 'Unknown error';
+  }
+
+  const delivery: WebhookDelivery = {
+    webhookId: input.payload.id,
+    event: input.payload.event,
+    url: input.url,
+    attempt,
+    success: error === undefined,
+    statusCode,
+    error,
+    durationMs: Date.now() - startedAt,
+    deliveredAt: new Date().toISOString(),
+  };
+
+  await webhookService.recordDelivery(input.reportId, delivery);
+
+  if (error === undefined) {
+    return delivery;
+  }
+
+  logger.warn(`Webhook delivery failed for report: ${input.reportId}`, {
+    url: input.url,
+    attempt,
+    error,
+  });
+
+  if (
+    statusCode !== undefined &&
+    statusCode >= 400 &&
+    statusCode < 500 &&
+    !RETRYABLE_CLIENT_STATUSES.includes(statusCode)
+  ) {
+    throw ApplicationFailure.nonRetryable(error, 'WebhookRejectedError');
+  }
+
+  throw ApplicationFailure.retryable(error, 'WebhookDeliveryError');
+}
@@ -1,12 +1,25 @@
-import { Client, Connection, WorkflowExecutionAlreadyStartedError } from '@temporalio/client';
+import {
+  Client,
+  Connection,
+  defaultPayloadConverter,
+  WorkflowExecutionAlreadyStartedError,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
 import { nanoid } from 'nanoid';
 
 import { config, createModuleLogger } from '../core/index.js';
-import type { InputData, ReportConfig, ReportStatus } from '../shared/types/index.js';
+import { storage } from '../services/index.js';
+import type {
+  DatasetRelation,
+  InputData,
+  ReportConfig,
+  ReportStatus,
+} from '../shared/types/index.js';
 
 import type {
   ReportGenerationWorkflowInput,
   ReportGenerationWorkflowOutput,
+  RetryReportWorkflowInput,
 } from './workflows/index.js';
 import { cancelWorkflowSignal, getProgressQuery, getStatusQuery } from './workflows/index.js';
 
@@ -39,18 +52,24 @@ export async function getTemporalClient(): Promise<Client> {
  */
 export async function startReportGeneration(
   inputData: InputData[],
-  reportConfig: ReportConfig
+  reportConfig: ReportConfig,
+  relations?: DatasetRelation[],
+  // Supplied when files were stored under the report before it started
+  reportId: string = nanoid(12)
 ): Promise<{ reportId: string; workflowId: string }> {
   const client = await getTemporalClient();
-  const reportId = nanoid(12);
   const workflowId = `report-${reportId}`;
 
   const input: ReportGenerationWorkflowInput = {
     reportId,
     inputData,
     config: reportConfig,
+    relations,
   };
 
+  // Keep the original request so failed reports can be retried later
+  await storage.saveCheckpoint(reportId, 'input', input);
+
   try {
     await client.workflow.start('reportGenerationWorkflow', {
       taskQueue: config.temporal.taskQueue,
@@ -72,6 +91,45 @@ export async function startReportGeneration(
   }
 }
 
+/**
+ * Retry a report, resuming from its last successful checkpoint (or from fromStep)
+ * Returns null when the original request for the report is unknown
+ */
+export async function retryReportGeneration(
+  reportId: string,
+  fromStep?: ReportStatus
+): Promise<{ reportId: string; workflowId: string } | null> {
+  const originalInput = await storage.getCheckpoint<ReportGenerationWorkflowInput>(
+    reportId,
+    'input'
+  );
+  if (!originalInput) {
+    return null;
+  }
+
+  const client = await getTemporalClient();
+  const workflowId = `report-${reportId}`;
+
+  const input: RetryReportWorkflowInput = {
+    reportId,
+    originalInput,
+    fromStep,
+  };
+
+  // Reuses the report's workflow ID so status queries keep working; Temporal rejects
+  // the start with WorkflowExecutionAlreadyStartedError while the report is still running
+  await client.workflow.start('retryReportWorkflow', {
+    taskQueue: config.temporal.taskQueue,
+    workflowId,
+    args: [input],
+    workflowExecutionTimeout: '30 minutes',
+  });
+
+  logger.info(`Started retry workflow: ${workflowId}`, { fromStep });
+
+  return { reportId, workflowId };
+}
+
 /**
  * Get workflow status
  */
@@ -145,13 +203,25 @@ export async function waitForWorkflowResult(
 }
 
 /**
- * Get workflow execution info
+ * Pending activity with its most recent heartbeat details
+ */
+export interface PendingActivityInfo {
+  activityId: string;
+  activityType: string;
+  attempt: number;
+  heartbeatDetails?: unknown;
+}
+
+/**
+ * Get workflow execution info. Returns null only when the workflow does not exist; any other
+ * failure (connection, timeout) is rethrown so callers don't mistake it for a missing workflow.
  */
 export async function getWorkflowInfo(workflowId: string): Promise<{
   status: string;
   startTime?: Date;
   closeTime?: Date;
   historyLength?: number;
+  pendingActivities: PendingActivityInfo[];
 } | null> {
   const client = await getTemporalClient();
 
@@ -159,15 +229,29 @@ export async function getWorkflowInfo(workflowId: string): Promise<{
     const handle = client.workflow.getHandle(workflowId);
     const description = await handle.describe();
 
+    const pendingActivities = (description.raw.pendingActivities ?? []).map(activity => {
+      const details = activity.heartbeatDetails?.payloads?.at(0);
+      return {
+        activityId: activity.activityId ?? '',
+        activityType: activity.activityType?.name ?? 'unknown',
+        attempt: activity.attempt ?? 1,
+        heartbeatDetails: details ? defaultPayloadConverter.fromPayload(details) : undefined,
+      };
+    });
+
     return {
       status: description.status.name,
       startTime: description.startTime,
       closeTime: description.closeTime,
       historyLength: description.historyLength,
+      pendingActivities,
     };
   } catch (error) {
+    if (error instanceof WorkflowNotFoundError) {
+      return null;
+    }
     logger.error(`Failed to get workflow info: ${workflowId}`, { error });
-    return null;
+    throw error;
   }
 }
 
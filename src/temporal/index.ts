@@ -6,10 +6,23 @@ export {
   getWorkflowInfo,
   getWorkflowProgress,
   getWorkflowStatus,
+  type PendingActivityInfo,
+  retryReportGeneration,
   startReportGeneration,
   waitForWorkflowResult,
 } from './client.js';
 
+// Re-export schedule functions
+export {
+  createReportSchedule,
+  deleteReportSchedule,
+  getReportSchedule,
+  listReportSchedules,
+  pauseReportSchedule,
+  resumeReportSchedule,
+  triggerReportSchedule,
+} from './schedules.js';
+
 // Re-export activities
 export * from './activities/index.js';
 
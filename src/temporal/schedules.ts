@@ -0,0 +1,206 @@
+import {
+  ScheduleNotFoundError,
+  ScheduleOverlapPolicy,
+  type ScheduleDescription,
+  type ScheduleHandle,
+  type ScheduleSummary,
+} from '@temporalio/client';
+import { nanoid } from 'nanoid';
+
+import { config, createModuleLogger } from '../core/index.js';
+import type {
+  CreateReportRequest,
+  CreateScheduleRequest,
+  ReportSchedule,
+  ScheduleRun,
+} from '../shared/types/index.js';
+
+import { getTemporalClient } from './client.js';
+import type { ScheduledReportWorkflowInput } from './workflows/index.js';
+
+const logger = createModuleLogger('temporal-schedules');
+
+const SCHEDULED_WORKFLOW_TYPE = 'scheduledReportWorkflow';
+// Stands in for the webhook signing secret in schedule responses
+const MASKED_SECRET = '********';
+
+/**
+ * Schedule metadata kept in the schedule memo (Temporal only returns the compiled spec)
+ */
+interface ScheduleMemo {
+  name: string;
+  cron: string;
+  timezone: string;
+}
+
+/**
+ * Create a recurring report schedule
+ */
+export async function createReportSchedule(
+  request: CreateScheduleRequest
+): Promise<ReportSchedule> {
+  const client = await getTemporalClient();
+  const scheduleId = `schedule-${nanoid(10)}`;
+
+  const memo: ScheduleMemo = {
+    name: request.name,
+    cron: request.cron,
+    timezone: request.timezone,
+  };
+
+  const args: [ScheduledReportWorkflowInput] = [{ scheduleId, request: request.request }];
+
+  const handle = await client.schedule.create({
+    scheduleId,
+    spec: {
+      cronExpressions: [request.cron],
+      timezone: request.timezone,
+    },
+    action: {
+      type: 'startWorkflow',
+      workflowType: SCHEDULED_WORKFLOW_TYPE,
+      // Temporal appends the scheduled time, so every run gets a unique workflow ID
+      workflowId: `${scheduleId}-run`,
+      taskQueue: config.temporal.taskQueue,
+      args,
+      workflowExecutionTimeout: '30 minutes',
+    },
+    memo: { ...memo },
+    state: {
+      paused: request.paused,
+      note: request.paused ? 'Created paused' : undefined,
+    },
+  });
+
+  logger.info(`Created report schedule: ${scheduleId}`, { cron: request.cron });
+
+  return toReportSchedule(await handle.describe());
+}
+
+/**
+ * List all report schedules
+ */
+export async function listReportSchedules(): Promise<ReportSchedule[]> {
+  const client = await getTemporalClient();
+  const schedules: ReportSchedule[] = [];
+
+  for await (const summary of client.schedule.list()) {
+    if (summary.action?.workflowType === SCHEDULED_WORKFLOW_TYPE) {
+      schedules.push(toReportSchedule(summary));
+    }
+  }
+
+  return schedules;
+}
+
+/**
+ * Get a report schedule, or null when it does not exist
+ */
+export async function getReportSchedule(scheduleId: string): Promise<ReportSchedule | null> {
+  const client = await getTemporalClient();
+
+  try {
+    const description = await client.schedule.getHandle(scheduleId).describe();
+    return toReportSchedule(description);
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Pause a schedule; returns false when it does not exist
+ */
+export async function pauseReportSchedule(scheduleId: string, note?: string): Promise<boolean> {
+  return withSchedule(scheduleId, async handle => {
+    await handle.pause(note ?? 'Paused via API');
+    logger.info(`Paused report schedule: ${scheduleId}`);
+  });
+}
+
+/**
+ * Resume a paused schedule; returns false when it does not exist
+ */
+export async function resumeReportSchedule(scheduleId: string, note?: string): Promise<boolean> {
+  return withSchedule(scheduleId, async handle => {
+    await handle.unpause(note ?? 'Resumed via API');
+    logger.info(`Resumed report schedule: ${scheduleId}`);
+  });
+}
+
+/**
+ * Start a run immediately, even if a previous run is still in progress
+ */
+export async function triggerReportSchedule(scheduleId: string): Promise<boolean> {
+  return withSchedule(scheduleId, async handle => {
+    await handle.trigger(ScheduleOverlapPolicy.ALLOW_ALL);
+    logger.info(`Triggered report schedule: ${scheduleId}`);
+  });
+}
+
+/**
+ * Delete a schedule; reports it already generated are kept
+ */
+export async function deleteReportSchedule(scheduleId: string): Promise<boolean> {
+  return withSchedule(scheduleId, async handle => {
+    await handle.delete();
+    logger.info(`Deleted report schedule: ${scheduleId}`);
+  });
+}
+
+async function withSchedule(
+  scheduleId: string,
+  action: (handle: ScheduleHandle) => Promise<void>
+): Promise<boolean> {
+  const client = await getTemporalClient();
+
+  try {
+    await action(client.schedule.getHandle(scheduleId));
+    return true;
+  } catch (error) {
+    if (error instanceof ScheduleNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function toReportSchedule(schedule: ScheduleDescription | ScheduleSummary): ReportSchedule {
+  const memo = (schedule.memo ?? {}) as Partial<ScheduleMemo>;
+
+  const recentRuns: ScheduleRun[] = schedule.info.recentActions.map(run => ({
+    workflowId: run.action.workflow.workflowId,
+    scheduledAt: run.scheduledAt.toISOString(),
+    startedAt: run.takenAt.toISOString(),
+  }));
+
+  const isDescription = 'policies' in schedule;
+  const args = isDescription ? (schedule.action.args as ScheduledReportWorkflowInput[]) : [];
+
+  return {
+    scheduleId: schedule.scheduleId,
+    name: memo.name ?? schedule.scheduleId,
+    cron: memo.cron ?? '',
+    timezone: memo.timezone ?? 'UTC',
+    paused: schedule.state.paused,
+    note: schedule.state.note,
+    request: args[0] && maskSecrets(args[0].request),
+    nextRunTimes: schedule.info.nextActionTimes.map(time => time.toISOString()),
+    recentRuns,
+    createdAt: isDescription ? schedule.info.createdAt.toISOString() : undefined,
+  };
+}
+
+/**
+ * The webhook secret is write-only: it signs deliveries, and is never echoed back
+ */
+function maskSecrets(request: CreateReportRequest): CreateReportRequest {
+  const { webhooks } = request.config;
+  if (!webhooks) return request;
+  return {
+    ...request,
+    config: { ...request.config, webhooks: { ...webhooks, secret: MASKED_SECRET } },
+  };
+}
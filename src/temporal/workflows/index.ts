@@ -7,4 +7,10 @@ export {
   type ReportGenerationWorkflowOutput,
   retryReportWorkflow,
   type RetryReportWorkflowInput,
+  scheduledReportWorkflow,
+  type ScheduledReportWorkflowInput,
+  webhookDeliveryWorkflow,
+  type WebhookDeliveryWorkflowInput,
+  type WebhookDeliveryWorkflowOutput,
+  type WorkflowState,
 } from './report-generation.workflow.js';
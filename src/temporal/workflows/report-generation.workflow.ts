@@ -2,15 +2,30 @@ import {
   ApplicationFailure,
   defineQuery,
   defineSignal,
+  executeChild,
+  ParentClosePolicy,
   proxyActivities,
   setHandler,
+  startChild,
+  uuid4,
 } from '@temporalio/workflow';
 
-import type { InputData, Report, ReportConfig, ReportStatus } from '../../shared/types/index.js';
+import type {
+  CreateReportRequest,
+  DatasetRelation,
+  GeneratedInsight,
+  GeneratedNarrative,
+  InputData,
+  Report,
+  ReportConfig,
+  ReportStatus,
+  WebhookEvent,
+  WebhookPayload,
+} from '../../shared/types/index.js';
 import type * as activities from '../activities/index.js';
 
 // Proxy activities with tailored retry/timeout policies per activity type
-const { profileData } = proxyActivities<typeof activities>({
+const { compareProfiles, profileData } = proxyActivities<typeof activities>({
   startToCloseTimeout: '2 minutes',
   heartbeatTimeout: '30 seconds',
   retry: {
@@ -22,7 +37,9 @@ const { profileData } = proxyActivities<typeof activities>({
   },
 });
 
-const { generateInsights } = proxyActivities<typeof activities>({
+const { generateInsights, planNarrative, summarizeNarrative, verifyNarrative } = proxyActivities<
+  typeof activities
+>({
   startToCloseTimeout: '3 minutes',
   heartbeatTimeout: '30 seconds',
   retry: {
@@ -30,11 +47,26 @@ const { generateInsights } = proxyActivities<typeof activities>({
     backoffCoefficient: 2,
     maximumAttempts: 2,
     maximumInterval: '20 seconds',
+    nonRetryableErrorTypes: ['ValidationError', 'InvalidInputError', 'NarrativeValidationError'],
+  },
+});
+
+// Sections of long reports run as separate activities, so a failed section is retried alone
+const { generateSection } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '2 minutes',
+  heartbeatTimeout: '30 seconds',
+  retry: {
+    initialInterval: '2 seconds',
+    backoffCoefficient: 2,
+    maximumAttempts: 3,
+    maximumInterval: '20 seconds',
     nonRetryableErrorTypes: ['ValidationError', 'InvalidInputError'],
   },
 });
 
-const { generateCharts } = proxyActivities<typeof activities>({
+const { generateCharts, generateChartCommentary, prepareCoverImage } = proxyActivities<
+  typeof activities
+>({
   startToCloseTimeout: '3 minutes',
   heartbeatTimeout: '30 seconds',
   retry: {
@@ -58,6 +90,16 @@ const { renderLayout } = proxyActivities<typeof activities>({
   },
 });
 
+const { loadCheckpoints, saveInputCheckpoint } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1 second',
+    backoffCoefficient: 2,
+    maximumAttempts: 3,
+    maximumInterval: '10 seconds',
+  },
+});
+
 const { exportFormats, finalizeReport, updateReportStatus } = proxyActivities<typeof activities>({
   startToCloseTimeout: '5 minutes',
   heartbeatTimeout: '60 seconds',
@@ -70,6 +112,18 @@ const { exportFormats, finalizeReport, updateReportStatus } = proxyActivities<ty
   },
 });
 
+// Receivers may be down for a while; back off up to ~40 minutes in total
+const { deliverWebhook } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '30 seconds',
+  retry: {
+    initialInterval: '10 seconds',
+    backoffCoefficient: 2,
+    maximumAttempts: 10,
+    maximumInterval: '10 minutes',
+    nonRetryableErrorTypes: ['WebhookRejectedError'],
+  },
+});
+
 // ============================================================================
 // Workflow Signals and Queries
 // ============================================================================
@@ -86,6 +140,15 @@ export interface ReportGenerationWorkflowInput {
   reportId: string;
   inputData: InputData[];
   config: ReportConfig;
+  // Joins and unions between the named datasets in inputData
+  relations?: DatasetRelation[];
+  // When set, reuse checkpointed step outputs from a previous run
+  resume?: {
+    // Step to rerun from; earlier steps are restored from checkpoints when available
+    fromStep?: ReportStatus;
+  };
+  // Schedule that started this report, if any
+  scheduleId?: string;
 }
 
 export interface ReportGenerationWorkflowOutput {
@@ -94,13 +157,22 @@ export interface ReportGenerationWorkflowOutput {
   error?: string;
 }
 
-interface WorkflowState {
+export interface WorkflowState {
   status: ReportStatus;
   progress: number;
   currentStep: string;
   error?: string;
 }
 
+// Checkpointed steps in execution order
+const RESUMABLE_STEPS: ReportStatus[] = [
+  'DATA_PROFILING',
+  'INSIGHT_GENERATION',
+  'CHART_GENERATION',
+  'LAYOUT_RENDERING',
+  'EXPORTING',
+];
+
 // ============================================================================
 // Main Report Generation Workflow
 // ============================================================================
@@ -108,7 +180,7 @@ interface WorkflowState {
 export async function reportGenerationWorkflow(
   input: ReportGenerationWorkflowInput
 ): Promise<ReportGenerationWorkflowOutput> {
-  const { reportId, inputData, config } = input;
+  const { reportId, inputData, config, relations, resume, scheduleId } = input;
 
   // Initialize workflow state
   let state: WorkflowState = {
@@ -136,19 +208,79 @@ export async function reportGenerationWorkflow(
       status,
       progress,
       currentStep,
+      scheduleId,
     });
   };
 
+  // Deliveries run in an abandoned child workflow so slow receivers never hold up the report
+  const notifyWebhooks = async (event: WebhookEvent, data: WebhookPayload['data']) => {
+    const { webhooks } = config;
+    if (!webhooks || (webhooks.events && !webhooks.events.includes(event))) {
+      return;
+    }
+
+    const payload: WebhookPayload = {
+      id: uuid4(),
+      event,
+      reportId,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+
+    try {
+      await startChild(webhookDeliveryWorkflow, {
+        workflowId: `report-${reportId}-webhook-${payload.id}`,
+        args: [{ reportId, urls: webhooks.urls, secret: webhooks.secret, payload }],
+        parentClosePolicy: ParentClosePolicy.ABANDON,
+      });
+    } catch {
+      // A webhook that cannot be scheduled must not fail the report itself
+    }
+  };
+
+  // Steps before rerunIndex reuse their checkpoint; once any step runs, every later step runs too
+  let rerunIndex = resume?.fromStep
+    ? Math.max(0, RESUMABLE_STEPS.indexOf(resume.fromStep))
+    : RESUMABLE_STEPS.length;
+
+  const restore = <T>(step: ReportStatus, checkpoint: T | undefined): T | undefined => {
+    const stepIndex = RESUMABLE_STEPS.indexOf(step);
+    if (stepIndex < rerunIndex && checkpoint !== undefined) {
+      return checkpoint;
+    }
+    rerunIndex = Math.min(rerunIndex, stepIndex);
+    return undefined;
+  };
+
   try {
+    const checkpoints: activities.ReportCheckpoints = resume
+      ? await loadCheckpoints({ reportId })
+      : {};
+
     // ========================================================================
     // Step 1: Data Profiling (10%)
     // ========================================================================
     await updateState('DATA_PROFILING', 10, 'Analyzing and profiling input data');
 
-    const { profile, parsedData, textContent } = await profileData({
-      reportId,
-      inputData,
-    });
+    const { profile, parsedData, textContent, piiRedaction } =
+      restore('DATA_PROFILING', checkpoints.profile) ??
+      (await profileData({
+        reportId,
+        inputData,
+        relations,
+        pii: config.pii,
+        strictQuality: config.strictQuality,
+      }));
+
+    const comparison = config.comparison
+      ? (restore('DATA_PROFILING', checkpoints.comparison) ??
+        (await compareProfiles({
+          reportId,
+          profile,
+          comparison: config.comparison,
+          pii: config.pii,
+        })))
+      : undefined;
 
     // Signals are processed between workflow steps, so cancelled can change after await
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -164,13 +296,75 @@ export async function reportGenerationWorkflow(
     // ========================================================================
     await updateState('INSIGHT_GENERATION', 30, 'Generating insights with AI');
 
-    const narrative = await generateInsights({
-      reportId,
-      profile,
-      parsedData,
-      textContent,
-      config,
-    });
+    // Prompts only quote the first rows, so only those are sent to the LLM activities
+    const sampleData = parsedData.slice(0, 5);
+
+    // Long mode writes each section in its own activity, in batches of outline.concurrency
+    const generateLongNarrative = async (): Promise<GeneratedNarrative> => {
+      const outline = await planNarrative({ reportId, config });
+      const sections: GeneratedInsight[] = [];
+
+      for (let start = 0; start < outline.sections.length; start += outline.concurrency) {
+        const batch = outline.sections.slice(start, start + outline.concurrency);
+        await updateState(
+          'INSIGHT_GENERATION',
+          30 + Math.round((start / outline.sections.length) * 15),
+          `Writing sections ${start + 1}-${start + batch.length} of ${outline.sections.length}`
+        );
+
+        const written = await Promise.all(
+          batch.map(section =>
+            generateSection({
+              reportId,
+              section,
+              profile,
+              sampleData,
+              textContent,
+              style: config.style,
+              comparison,
+              bypassCache: config.bypassCache,
+            })
+          )
+        );
+        sections.push(...written);
+      }
+
+      return summarizeNarrative({
+        reportId,
+        sections,
+        profile,
+        sampleData,
+        textContent,
+        config,
+        comparison,
+      });
+    };
+
+    const generated =
+      restore('INSIGHT_GENERATION', checkpoints.narrative) ??
+      (config.generationMode === 'long'
+        ? await generateLongNarrative()
+        : await generateInsights({
+            reportId,
+            profile,
+            parsedData: sampleData,
+            textContent,
+            config,
+            comparison,
+          }));
+
+    // Check the figures quoted in the narrative against the data (and fix them in correct mode)
+    const { narrative, verification } =
+      config.factCheck === 'off'
+        ? { narrative: generated, verification: undefined }
+        : (restore('INSIGHT_GENERATION', checkpoints.verification) ??
+          (await verifyNarrative({
+            reportId,
+            narrative: generated,
+            profile,
+            mode: config.factCheck,
+            comparison,
+          })));
 
     // Signals are processed between workflow steps, so cancelled can change after await
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -186,11 +380,32 @@ export async function reportGenerationWorkflow(
     // ========================================================================
     await updateState('CHART_GENERATION', 50, 'Creating visualizations');
 
-    const charts = await generateCharts({
-      reportId,
-      profile,
-      parsedData,
-    });
+    let charts =
+      restore('CHART_GENERATION', checkpoints.charts) ??
+      (await generateCharts({
+        reportId,
+        profile,
+        parsedData,
+        comparison,
+      }));
+
+    // Charts that already carry commentary (restored from a checkpoint) are skipped
+    if (config.chartCommentary && charts.some(chart => !chart.commentary)) {
+      await updateState('CHART_GENERATION', 60, 'Writing chart commentary');
+      charts = await generateChartCommentary({ reportId, charts });
+    }
+
+    const coverImage =
+      config.coverImage && config.coverImage.source !== 'none'
+        ? (restore('CHART_GENERATION', checkpoints.cover) ??
+          (await prepareCoverImage({
+            reportId,
+            title: config.title,
+            style: config.style,
+            coverImage: config.coverImage,
+          })) ??
+          undefined)
+        : undefined;
 
     // Signals are processed between workflow steps, so cancelled can change after await
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -206,15 +421,22 @@ export async function reportGenerationWorkflow(
     // ========================================================================
     await updateState('LAYOUT_RENDERING', 70, 'Rendering report layout');
 
-    const html = await renderLayout({
-      reportId,
-      title: config.title,
-      style: config.style,
-      narrative,
-      charts,
-      profile,
-      branding: config.branding,
-    });
+    const html =
+      restore('LAYOUT_RENDERING', checkpoints.html) ??
+      (await renderLayout({
+        reportId,
+        title: config.title,
+        style: config.style,
+        narrative,
+        charts,
+        profile,
+        branding: config.branding,
+        comparison,
+        verification,
+        coverImage,
+        sectionsToInclude: config.sectionsToInclude,
+        sectionsToExclude: config.sectionsToExclude,
+      }));
 
     // Signals are processed between workflow steps, so cancelled can change after await
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
@@ -240,6 +462,13 @@ export async function reportGenerationWorkflow(
       charts,
       profile,
       branding: config.branding,
+      comparison,
+      verification,
+      coverImage,
+      sectionsToInclude: config.sectionsToInclude,
+      sectionsToExclude: config.sectionsToExclude,
+      // Files left by an earlier run are stale once export or any upstream step is redone
+      overwrite: resume !== undefined && rerunIndex <= RESUMABLE_STEPS.indexOf('EXPORTING'),
     });
 
     // ========================================================================
@@ -254,8 +483,13 @@ export async function reportGenerationWorkflow(
       outputFormats: config.outputFormats,
       files,
       profile,
+      verification,
+      piiRedaction,
+      scheduleId,
     });
 
+    await notifyWebhooks('report.completed', { title: config.title, files });
+
     return {
       report,
       success: true,
@@ -275,6 +509,13 @@ export async function reportGenerationWorkflow(
       reportId,
       status: 'FAILED',
       errorMessage,
+      scheduleId,
+    });
+
+    const wasCancelled = error instanceof ApplicationFailure && error.type === 'CancelledError';
+    await notifyWebhooks(wasCancelled ? 'report.cancelled' : 'report.failed', {
+      title: config.title,
+      error: errorMessage,
     });
 
     return {
@@ -287,6 +528,7 @@ export async function reportGenerationWorkflow(
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         errorMessage,
+        scheduleId,
       },
       success: false,
       error: errorMessage,
@@ -307,7 +549,79 @@ export interface RetryReportWorkflowInput {
 export async function retryReportWorkflow(
   input: RetryReportWorkflowInput
 ): Promise<ReportGenerationWorkflowOutput> {
-  // For simplicity, just restart the workflow from the beginning
-  // A more sophisticated implementation could resume from a specific step
-  return reportGenerationWorkflow(input.originalInput);
+  // Resume from checkpoints: completed steps are skipped unless at or after fromStep
+  return reportGenerationWorkflow({
+    ...input.originalInput,
+    reportId: input.reportId,
+    resume: { fromStep: input.fromStep },
+  });
+}
+
+// ============================================================================
+// Webhook Delivery Workflow
+// ============================================================================
+
+export interface WebhookDeliveryWorkflowInput {
+  reportId: string;
+  urls: string[];
+  secret: string;
+  payload: WebhookPayload;
+}
+
+export interface WebhookDeliveryWorkflowOutput {
+  delivered: string[];
+  failed: string[];
+}
+
+export async function webhookDeliveryWorkflow(
+  input: WebhookDeliveryWorkflowInput
+): Promise<WebhookDeliveryWorkflowOutput> {
+  // Each URL retries independently; every attempt is written to the report's delivery log
+  const results = await Promise.allSettled(
+    input.urls.map(url =>
+      deliverWebhook({
+        reportId: input.reportId,
+        url,
+        secret: input.secret,
+        payload: input.payload,
+      })
+    )
+  );
+
+  return {
+    delivered: input.urls.filter((_, index) => results[index]?.status === 'fulfilled'),
+    failed: input.urls.filter((_, index) => results[index]?.status === 'rejected'),
+  };
+}
+
+// ============================================================================
+// Scheduled Report Workflow
+// ============================================================================
+
+export interface ScheduledReportWorkflowInput {
+  scheduleId: string;
+  request: CreateReportRequest;
+}
+
+export async function scheduledReportWorkflow(
+  input: ScheduledReportWorkflowInput
+): Promise<ReportGenerationWorkflowOutput> {
+  // Every run gets its own report; uuid4() is deterministic within the workflow
+  const reportId = uuid4().replace(/-/g, '').slice(0, 12);
+
+  const reportInput: ReportGenerationWorkflowInput = {
+    reportId,
+    inputData: input.request.data,
+    config: input.request.config,
+    relations: input.request.relations,
+    scheduleId: input.scheduleId,
+  };
+
+  await saveInputCheckpoint({ reportId, input: reportInput });
+
+  // Run under the usual report-<id> workflow ID so status, events and cancel work unchanged
+  return executeChild(reportGenerationWorkflow, {
+    workflowId: `report-${reportId}`,
+    args: [reportInput],
+  });
 }